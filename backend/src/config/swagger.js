@@ -135,6 +135,17 @@ const options = {
               description: 'Match type',
               example: 'public'
             },
+            inviteCode: {
+              type: 'string',
+              nullable: true,
+              description: 'Invite code of a private match (admin only; null when revoked)',
+              example: 'K7QM2XWD'
+            },
+            allowedUserIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Players who may join the private match without the code (admin only)'
+            },
             cost: {
               type: 'number',
               description: 'Entry cost in coins',
@@ -175,8 +186,8 @@ const options = {
             },
             status: {
               type: 'string',
-              enum: ['active', 'completed', 'cancelled'],
-              description: 'Match status',
+              enum: ['active', 'completed', 'disputed', 'cancelled'],
+              description: 'Match status (disputed: the players reported conflicting results, or one did not confirm in time)',
               example: 'active'
             },
             winner: {
@@ -184,6 +195,61 @@ const options = {
               nullable: true,
               description: 'Match winner (UserDto object)'
             },
+            resultType: {
+              type: 'string',
+              enum: ['normal', 'forfeit', 'disqualification'],
+              description: 'normal = played; otherwise the winner advanced by walkover',
+              example: 'normal'
+            },
+            resultReason: {
+              type: 'string',
+              description: 'Why the match was a walkover (forfeit or disqualification reason)',
+              example: ''
+            },
+            targetPoints: {
+              type: 'number',
+              enum: [15, 30],
+              description: 'Points needed to win the game',
+              example: 30
+            },
+            score: {
+              allOf: [{ $ref: '#/components/schemas/MatchScore' }],
+              nullable: true,
+              description: 'Final score, if reported with the result (walkovers and series have none)'
+            },
+            bestOf: {
+              type: 'number',
+              enum: [1, 3, 5],
+              description: 'Series length; the first player to win a majority of the games wins the match',
+              example: 3
+            },
+            games: {
+              type: 'array',
+              description: 'Games recorded so far in a best-of-N series',
+              items: {
+                type: 'object',
+                properties: {
+                  winnerId: { type: 'string', example: '507f1f77bcf86cd799439011' },
+                  score: {
+                    type: 'object',
+                    nullable: true,
+                    properties: {
+                      player1: { type: 'integer', example: 30 },
+                      player2: { type: 'integer', example: 22 }
+                    }
+                  },
+                  recordedAt: { type: 'string', format: 'date-time' }
+                }
+              }
+            },
+            seriesWins: {
+              type: 'object',
+              description: 'Games won by player 1 and player 2',
+              properties: {
+                player1: { type: 'integer', example: 1 },
+                player2: { type: 'integer', example: 0 }
+              }
+            },
             finishedAt: {
               type: 'string',
               format: 'date-time',
@@ -191,6 +257,89 @@ const options = {
               description: 'Match completion date',
               example: '2024-03-15T11:00:00.000Z'
             },
+            cancelledAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the match was cancelled'
+            },
+            cancellationReason: {
+              type: 'string',
+              nullable: true,
+              example: 'Opponent never joined'
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the second player joined'
+            },
+            resultReports: {
+              type: 'array',
+              description: 'Results reported by the players, compared once both have reported',
+              items: {
+                type: 'object',
+                properties: {
+                  playerId: { type: 'string' },
+                  winnerId: { type: 'string' },
+                  score: { $ref: '#/components/schemas/MatchScore', nullable: true },
+                  reportedAt: { type: 'string', format: 'date-time' }
+                }
+              }
+            },
+            reportDeadline: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Set by the first report; the match is disputed if the opponent has not reported by then'
+            },
+            disputedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            disputeReason: {
+              type: 'string',
+              nullable: true,
+              example: 'Players reported different results'
+            },
+            resultDisputeStatus: {
+              type: 'string',
+              enum: ['open', 'upheld', 'overturned'],
+              nullable: true,
+              description: "Status of a player's dispute of the completed result, if any (the prize is held while open)"
+            },
+            resultCorrections: {
+              type: 'array',
+              description: 'Admin corrections and reversals of the recorded result, oldest first',
+              items: {
+                type: 'object',
+                properties: {
+                  action: { type: 'string', enum: ['correct', 'reverse'] },
+                  previousWinnerId: { type: 'string' },
+                  previousScore: { $ref: '#/components/schemas/MatchScore', nullable: true },
+                  winnerId: { type: 'string', nullable: true, description: 'Null when the result was reversed' },
+                  score: { $ref: '#/components/schemas/MatchScore', nullable: true },
+                  reclaimedAmount: { type: 'number', description: 'Prize taken back from the previous winner (capped at their balance)' },
+                  houseCoveredAmount: { type: 'number', description: 'Rest of the prize the previous winner no longer had, covered by the house (house_prize_shortfall)' },
+                  paidAmount: { type: 'number', description: 'Prize paid to the new winner' },
+                  reason: { type: 'string' },
+                  correctedBy: { type: 'string', description: 'Admin user ID' },
+                  correctedAt: { type: 'string', format: 'date-time' }
+                }
+              }
+            },
+            reviewFlaggedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the match scheduler flagged the match for admin review (started, no result within the timeout)'
+            },
+            reviewReason: {
+              type: 'string',
+              nullable: true,
+              example: 'No result reported within 6h of the match starting'
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -199,6 +348,26 @@ const options = {
             }
           }
         },
+        MatchScore: {
+          type: 'object',
+          description: 'Final score from the player 1 / player 2 point of view. The winner must reach the points target and the loser must stay below it',
+          required: ['player1', 'player2'],
+          properties: {
+            player1: { type: 'integer', minimum: 0, example: 30 },
+            player2: { type: 'integer', minimum: 0, example: 22 },
+            hands: {
+              type: 'array',
+              description: 'Optional points per hand; must add up to the final score',
+              items: {
+                type: 'object',
+                properties: {
+                  player1: { type: 'integer', minimum: 0, example: 3 },
+                  player2: { type: 'integer', minimum: 0, example: 1 }
+                }
+              }
+            }
+          }
+        },
         Tournament: {
           type: 'object',
           properties: {
@@ -223,16 +392,50 @@ const options = {
               description: 'Tournament type',
               example: 'public'
             },
+            inviteCode: {
+              type: 'string',
+              nullable: true,
+              description: 'Invite code of a private tournament (admin only; null when revoked)',
+              example: 'K7QM2XWD'
+            },
+            allowedUserIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Players who may join the private tournament without the code (admin only)'
+            },
             entryFee: {
               type: 'number',
-              description: 'Entry fee in coins',
+              description: 'Entry fee in coins (per team in team tournaments)',
+              example: 100
+            },
+            entryShare: {
+              type: 'number',
+              description: 'Coins each player pays: the entry fee, or in team tournaments an equal share of it rounded up',
               example: 100
             },
             maxPlayers: {
               type: 'number',
-              enum: [4, 8],
-              description: 'Maximum players (4 or 8)',
-              example: 8
+              minimum: 2,
+              maximum: 64,
+              description: 'Maximum players (2 to 64, byes are added when not a power of two)',
+              example: 12
+            },
+            minPlayers: {
+              type: 'number',
+              description: 'Players needed to start when registration closes before the tournament fills',
+              example: 2
+            },
+            withdrawalCutoffMinutes: {
+              type: 'number',
+              description: 'Players can withdraw with a refund until this many minutes before startDate',
+              example: 60
+            },
+            registrationDeadline: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When registration closes (defaults to startDate)',
+              example: '2024-03-15T09:00:00.000Z'
             },
             status: {
               type: 'string',
@@ -240,6 +443,55 @@ const options = {
               description: 'Tournament status',
               example: 'registration'
             },
+            format: {
+              type: 'string',
+              enum: ['single_elimination', 'double_elimination', 'round_robin', 'swiss'],
+              description: 'Tournament format',
+              example: 'single_elimination'
+            },
+            grandFinalReset: {
+              type: 'boolean',
+              description: 'Double elimination: reset match if the losers-bracket champion wins the grand final',
+              example: true
+            },
+            thirdPlaceMatch: {
+              type: 'boolean',
+              description: 'Single elimination: semi-final losers play a third-place match alongside the final',
+              example: false
+            },
+            thirdPlaceId: {
+              type: 'string',
+              nullable: true,
+              description: 'User ID of the third-place finisher (set on completion)',
+              example: null
+            },
+            swissRounds: {
+              type: 'number',
+              nullable: true,
+              description: 'Swiss: number of rounds (null = default for the field size)',
+              example: 4
+            },
+            tiebreakers: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['head_to_head', 'buchholz', 'points_difference']
+              },
+              description: 'Round robin / Swiss: standings tiebreakers, applied in order after points',
+              example: ['head_to_head', 'buchholz', 'points_difference']
+            },
+            seeding: {
+              type: 'string',
+              enum: ['random', 'join_order', 'rating', 'manual'],
+              description: 'How players are seeded into the bracket',
+              example: 'join_order'
+            },
+            seedOrder: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Manual seed order (user IDs, seed 1 first)',
+              example: []
+            },
             players: {
               type: 'array',
               items: {
@@ -248,10 +500,56 @@ const options = {
               description: 'Array of registered players (UserDto objects)',
               example: []
             },
+            targetPoints: {
+              type: 'number',
+              enum: [15, 30],
+              description: 'Points needed to win each match of the tournament',
+              example: 30
+            },
+            bestOf: {
+              type: 'number',
+              enum: [1, 3, 5],
+              description: 'Series length of bracket matches',
+              example: 1
+            },
+            finalBestOf: {
+              type: 'number',
+              enum: [1, 3, 5],
+              nullable: true,
+              description: 'Series length of the final or grand final (null = same as bestOf)',
+              example: 3
+            },
+            teamSize: {
+              type: 'number',
+              enum: [1, 2, 3],
+              description: 'Players per team (1 = individual tournament). In team tournaments brackets, seeds and standings use team IDs',
+              example: 1
+            },
+            teams: {
+              type: 'array',
+              description: 'Registered teams (team tournaments only)',
+              items: {
+                type: 'object',
+                properties: {
+                  _id: { type: 'string', example: '6530f1f77bcf86cd79943901' },
+                  name: { type: 'string', example: 'Los Ases' },
+                  captainId: { type: 'string', example: '507f1f77bcf86cd799439011' },
+                  memberIds: { type: 'array', items: { type: 'string' } },
+                  invitedIds: { type: 'array', items: { type: 'string' }, description: 'Invited players who have not accepted yet' },
+                  complete: { type: 'boolean', example: true }
+                }
+              }
+            },
             champion: {
               $ref: '#/components/schemas/User',
               nullable: true,
-              description: 'Tournament champion (UserDto object)'
+              description: 'Tournament champion (UserDto object; the captain of the winning team in team tournaments)'
+            },
+            winnerTeamId: {
+              type: 'string',
+              nullable: true,
+              description: 'Winning team (team tournaments only)',
+              example: null
             },
             startDate: {
               type: 'string',
@@ -272,11 +570,101 @@ const options = {
               description: 'Prize percentage for champion (default 80%)',
               example: 80
             },
+            payoutStructure: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Prize percentage per finishing place, 1st place first',
+              example: [60, 25, 10, 5]
+            },
+            housePercentage: {
+              type: 'number',
+              description: 'Percentage of the prize pool kept by the house',
+              example: 0
+            },
+            payouts: {
+              type: 'array',
+              description: 'Prizes paid when the tournament completed',
+              items: {
+                type: 'object',
+                properties: {
+                  place: { type: 'number', example: 1 },
+                  userId: { type: 'string', example: '507f1f77bcf86cd799439011' },
+                  teamId: { type: 'string', nullable: true, description: 'Team whose prize was split among its members', example: null },
+                  percentage: { type: 'number', example: 60 },
+                  amount: { type: 'number', example: 480 }
+                }
+              }
+            },
+            houseAmount: {
+              type: 'number',
+              nullable: true,
+              description: 'Coins of the prize pool kept by the house (set when prizes are paid)',
+              example: 0
+            },
+            bracket: {
+              type: 'object',
+              nullable: true,
+              description: 'Bracket structure (rounds of match slots; losersRounds and grandFinalRounds for double elimination). Null until the tournament starts'
+            },
+            currentRound: {
+              type: 'number',
+              description: 'First round with undecided matches (0 before the tournament starts)',
+              example: 1
+            },
+            standings: {
+              type: 'array',
+              description: 'Round robin / Swiss standings table, leader first (empty for knockout formats)',
+              items: {
+                type: 'object',
+                properties: {
+                  rank: { type: 'number', example: 1 },
+                  playerId: { type: 'string', example: '507f1f77bcf86cd799439011' },
+                  played: { type: 'number', example: 3 },
+                  wins: { type: 'number', example: 3 },
+                  losses: { type: 'number', example: 0 },
+                  points: { type: 'number', example: 3 },
+                  headToHead: { type: 'number', example: 1 },
+                  buchholz: { type: 'number', example: 4 },
+                  pointsDifference: { type: 'number', example: 12 }
+                }
+              }
+            },
             prizePool: {
               type: 'number',
-              description: 'Total prize pool for tournament',
+              description: 'Total prize pool for tournament (live in entry-fee mode: collected fees minus rake, at least the guarantee)',
+              example: 800
+            },
+            prizePoolMode: {
+              type: 'string',
+              enum: ['fixed', 'entry_fees'],
+              description: 'fixed = prize pool as entered; entry_fees = derived from the entry fees collected',
+              example: 'fixed'
+            },
+            rakePercentage: {
+              type: 'number',
+              description: 'Entry-fee mode: percentage of collected fees kept by the house',
+              example: 10
+            },
+            guaranteedPrizePool: {
+              type: 'number',
+              description: 'Entry-fee mode: minimum prize pool covered by the house',
+              example: 500
+            },
+            collectedEntryFees: {
+              type: 'number',
+              description: 'Entry fees currently held (entry cost x registered players)',
               example: 800
             },
+            rakeAmount: {
+              type: 'number',
+              description: 'Rake taken from the collected fees (projected until prizes are paid)',
+              example: 80
+            },
+            guaranteeAmount: {
+              type: 'number',
+              description: 'Coins the house adds to reach the guaranteed pool (projected until prizes are paid)',
+              example: 0
+            },
             matches: {
               type: 'array',
               items: {
@@ -289,9 +677,175 @@ const options = {
               type: 'boolean',
               description: 'Whether prize has been distributed',
               example: false
+            },
+            waitlist: {
+              type: 'array',
+              description: 'Players queued for a seat, in promotion order (not charged until promoted)',
+              items: {
+                type: 'object',
+                properties: {
+                  position: { type: 'number', example: 1 },
+                  user: { $ref: '#/components/schemas/User' },
+                  joinedAt: { type: 'string', format: 'date-time', example: '2026-10-20T18:00:00.000Z' }
+                }
+              }
+            },
+            disqualified: {
+              type: 'array',
+              description: 'Players disqualified while the tournament was running',
+              items: {
+                type: 'object',
+                properties: {
+                  userId: { type: 'string', example: '507f1f77bcf86cd799439011' },
+                  reason: { type: 'string', example: 'Account banned for cheating' },
+                  disqualifiedAt: { type: 'string', format: 'date-time', example: '2026-10-20T19:30:00.000Z' }
+                }
+              }
+            },
+            templateId: {
+              type: 'string',
+              nullable: true,
+              description: 'Recurring template this tournament was created from',
+              example: null
             }
           }
         },
+        TournamentTemplate: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+              description: 'Template ID',
+              example: '507f1f77bcf86cd799439011'
+            },
+            name: {
+              type: 'string',
+              description: 'Template name; editions are named "<name> - YYYY-MM-DD"',
+              example: 'Friday Night 8-player 50-coin'
+            },
+            description: { type: 'string', example: '' },
+            type: { type: 'string', enum: ['public', 'private'], example: 'public' },
+            format: {
+              type: 'string',
+              enum: ['single_elimination', 'double_elimination', 'round_robin', 'swiss'],
+              example: 'single_elimination'
+            },
+            grandFinalReset: { type: 'boolean', example: true },
+            thirdPlaceMatch: { type: 'boolean', example: false },
+            swissRounds: { type: 'number', nullable: true, example: null },
+            tiebreakers: {
+              type: 'array',
+              items: { type: 'string', enum: ['head_to_head', 'buchholz', 'points_difference'] }
+            },
+            maxPlayers: { type: 'number', example: 8 },
+            minPlayers: { type: 'number', example: 4 },
+            teamSize: { type: 'number', enum: [1, 2, 3], example: 1 },
+            targetPoints: { type: 'number', enum: [15, 30], example: 30 },
+            bestOf: { type: 'number', enum: [1, 3, 5], example: 1 },
+            finalBestOf: { type: 'number', enum: [1, 3, 5], nullable: true, example: null },
+            entryCost: { type: 'number', example: 50 },
+            prizePoolMode: { type: 'string', enum: ['fixed', 'entry_fees'], example: 'fixed' },
+            prizePool: { type: 'number', description: '0 in entry-fee mode (each edition collects its own pool)', example: 400 },
+            rakePercentage: { type: 'number', example: 0 },
+            guaranteedPrizePool: { type: 'number', example: 0 },
+            payoutStructure: { type: 'array', items: { type: 'number' }, example: [70, 30] },
+            housePercentage: { type: 'number', example: 0 },
+            seeding: { type: 'string', enum: ['random', 'join_order', 'rating'], example: 'join_order' },
+            withdrawalCutoffMinutes: { type: 'number', example: 60 },
+            recurrence: {
+              type: 'object',
+              properties: {
+                frequency: { type: 'string', enum: ['none', 'daily', 'weekly', 'monthly'], example: 'weekly' },
+                interval: { type: 'number', description: 'Repeat every N days/weeks/months', example: 1 }
+              }
+            },
+            nextStartDate: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Start date of the next edition',
+              example: '2026-10-23T20:00:00.000Z'
+            },
+            nextOpenDate: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the scheduler creates the next edition (nextStartDate minus registrationLeadHours)',
+              example: '2026-10-22T20:00:00.000Z'
+            },
+            registrationLeadHours: { type: 'number', description: 'Hours before the start that the edition is created', example: 24 },
+            registrationCloseMinutes: { type: 'number', description: 'Minutes before the start that registration closes', example: 0 },
+            active: { type: 'boolean', description: 'Paused templates are skipped by the scheduler', example: true },
+            editionCount: { type: 'number', example: 3 },
+            lastTournamentId: { type: 'string', nullable: true, example: null },
+            lastInstantiatedAt: { type: 'string', format: 'date-time', nullable: true, example: null },
+            createdAt: { type: 'string', format: 'date-time', example: '2026-10-01T10:00:00.000Z' }
+          }
+        },
+        TournamentActivity: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string', example: '507f1f77bcf86cd799439011' },
+            type: {
+              type: 'string',
+              enum: ['created', 'updated', 'player_joined', 'player_waitlisted', 'player_promoted', 'player_left', 'player_removed', 'team_registered', 'team_member_joined', 'seeds_updated', 'bracket_generated', 'match_result', 'forfeit', 'disqualified', 'award_percentage_changed', 'prize_paid', 'completed', 'cancelled'],
+              example: 'player_joined'
+            },
+            description: { type: 'string', example: 'Joined and paid the 100 coin entry fee' },
+            actor: {
+              type: 'object',
+              nullable: true,
+              description: 'Admin or player who did it; null for automatic events (scheduler, waitlist promotions)',
+              properties: {
+                _id: { type: 'string' },
+                username: { type: 'string' },
+                role: { type: 'string', enum: ['player', 'admin'] }
+              }
+            },
+            player: {
+              type: 'object',
+              nullable: true,
+              description: 'Player the event is about (the winner, the paid player, ...)',
+              properties: {
+                _id: { type: 'string' },
+                username: { type: 'string' }
+              }
+            },
+            meta: { type: 'object', description: 'Event details (e.g. matchId, roundNumber, amount, reason)', example: {} },
+            createdAt: { type: 'string', format: 'date-time', example: '2026-10-18T10:00:00.000Z' }
+          }
+        },
+        MatchDispute: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string', example: '507f1f77bcf86cd799439011' },
+            matchId: { type: 'string' },
+            matchName: { type: 'string', example: 'Friday casual' },
+            openedBy: {
+              type: 'object',
+              properties: { _id: { type: 'string' }, username: { type: 'string' } }
+            },
+            reason: { type: 'string', example: 'Wrong winner recorded' },
+            evidence: { type: 'string', description: 'Free text from the player (what happened, links to screenshots, ...)' },
+            status: { type: 'string', enum: ['open', 'upheld', 'overturned'], example: 'open' },
+            originalWinner: {
+              type: 'object',
+              description: 'Winner when the dispute was opened',
+              properties: { _id: { type: 'string' }, username: { type: 'string' } }
+            },
+            heldAmount: { type: 'number', description: "Part of the winner's prize held while the dispute is open", example: 180 },
+            reclaimedAmount: { type: 'number', description: 'Overturned: rest of the prize taken back from the original winner at resolution', example: 20 },
+            houseCoveredAmount: { type: 'number', description: 'Overturned: part of the prize the original winner could no longer pay back, covered by the house (house_prize_shortfall)', example: 0 },
+            resolvedBy: {
+              type: 'object',
+              nullable: true,
+              properties: { _id: { type: 'string' }, username: { type: 'string' } }
+            },
+            resolvedAt: { type: 'string', format: 'date-time', nullable: true },
+            resolutionNote: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
         Transaction: {
           type: 'object',
           properties: {
@@ -303,12 +857,12 @@ const options = {
             user: {
               $ref: '#/components/schemas/User',
               nullable: true,
-              description: 'User associated with transaction (UserDto object)'
+              description: 'User associated with transaction (UserDto object; null for house entries)'
             },
             type: {
               type: 'string',
-              enum: ['match_entry', 'match_win', 'tournament_entry', 'tournament_win', 'coin_purchase', 'admin_add', 'admin_remove'],
-              description: 'Transaction type',
+              enum: ['match_entry', 'match_win', 'match_refund', 'match_prize_hold', 'match_prize_release', 'match_win_reversal', 'tournament_entry', 'tournament_refund', 'tournament_win', 'coin_purchase', 'admin_add', 'admin_remove', 'house_rake', 'house_guarantee', 'house_prize_shortfall'],
+              description: 'Transaction type. house_rake (rake kept), house_guarantee (guarantee shortfall paid) and house_prize_shortfall (reversed prize a player could no longer pay back) are house ledger entries without a user',
               example: 'match_entry'
             },
             amount: {
@@ -1,4 +1,117 @@
 import mongoose from 'mongoose';
+import { TARGET_POINTS, DEFAULT_TARGET_POINTS } from '../utils/matchScore.js';
+import { SERIES_LENGTHS, DEFAULT_SERIES_LENGTH } from '../utils/matchSeries.js';
+import { DISPUTE_STATUSES } from './MatchDispute.js';
+
+// Points from the player 1 / player 2 point of view
+const handSchema = new mongoose.Schema({
+  player1: { type: Number, required: true, min: 0 },
+  player2: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+const scoreSchema = new mongoose.Schema({
+  player1: { type: Number, required: true, min: 0 },
+  player2: { type: Number, required: true, min: 0 },
+  // Optional per-hand breakdown; adds up to the final score
+  hands: {
+    type: [handSchema],
+    default: []
+  }
+}, { _id: false });
+
+// One game of a best-of-N series
+const gameSchema = new mongoose.Schema({
+  winnerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  score: {
+    type: scoreSchema,
+    default: null
+  },
+  recordedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// A player's own account of the result, before both reports are compared
+const resultReportSchema = new mongoose.Schema({
+  playerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  winnerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  score: {
+    type: scoreSchema,
+    default: null
+  },
+  reportedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// An admin's correction or reversal of a completed result, with the prize money it moved
+const resultCorrectionSchema = new mongoose.Schema({
+  // correct: new winner and/or score; reverse: result removed and the match reopened
+  action: {
+    type: String,
+    enum: ['correct', 'reverse'],
+    required: true
+  },
+  previousWinnerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  previousScore: {
+    type: scoreSchema,
+    default: null
+  },
+  winnerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  score: {
+    type: scoreSchema,
+    default: null
+  },
+  // Prize taken back from the previous winner, the part the house covered because they no
+  // longer had it, and what was paid to the new winner
+  reclaimedAmount: {
+    type: Number,
+    default: 0
+  },
+  houseCoveredAmount: {
+    type: Number,
+    default: 0
+  },
+  paidAmount: {
+    type: Number,
+    default: 0
+  },
+  reason: {
+    type: String,
+    required: true
+  },
+  correctedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  correctedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
 
 const matchSchema = new mongoose.Schema({
   name: {
@@ -12,15 +125,25 @@ const matchSchema = new mongoose.Schema({
     enum: ['public', 'private'],
     required: true
   },
+  // Private events: players join with the invite code (null = revoked) or by being on the allow-list
+  inviteCode: {
+    type: String,
+    default: null
+  },
+  allowedUserIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  // Tournament bracket matches are free to play (cost and prize 0); the tournament pays out
   cost: {
     type: Number,
     required: true,
-    min: 1
+    min: 0
   },
   prize: {
     type: Number,
     required: true,
-    min: 1
+    min: 0
   },
   matchDate: {
     type: Date,
@@ -33,7 +156,8 @@ const matchSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['active', 'completed', 'cancelled'],
+    // disputed: the players' reports conflict (or one is missing) and an admin must decide
+    enum: ['active', 'completed', 'disputed', 'cancelled'],
     default: 'active'
   },
   player1Id: {
@@ -51,9 +175,90 @@ const matchSchema = new mongoose.Schema({
     ref: 'User',
     default: null
   },
+  // Truco game target: the winner is the first to reach 15 or 30 points
+  targetPoints: {
+    type: Number,
+    enum: TARGET_POINTS,
+    default: DEFAULT_TARGET_POINTS
+  },
+  // Final score, when reported with the result (walkovers and series have none; series games keep their own)
+  score: {
+    type: scoreSchema,
+    default: null
+  },
+  // Best-of-N series: the winner is the first to win a majority of the games
+  bestOf: {
+    type: Number,
+    enum: SERIES_LENGTHS,
+    default: DEFAULT_SERIES_LENGTH
+  },
+  games: {
+    type: [gameSchema],
+    default: []
+  },
+  // How the match was decided: played, or a walkover because the loser forfeited or was disqualified
+  resultType: {
+    type: String,
+    enum: ['normal', 'forfeit', 'disqualification'],
+    default: 'normal'
+  },
+  resultReason: {
+    type: String,
+    default: ''
+  },
+  // When the second player joined
+  startedAt: {
+    type: Date,
+    default: null
+  },
   completedAt: {
     type: Date,
     default: null
+  },
+  cancelledAt: {
+    type: Date,
+    default: null
+  },
+  cancellationReason: {
+    type: String,
+    default: null
+  },
+  // Player-reported results: the match completes when both reports agree
+  resultReports: {
+    type: [resultReportSchema],
+    default: []
+  },
+  // Set by the first report; the match is disputed if the opponent hasn't reported by then
+  reportDeadline: {
+    type: Date,
+    default: null
+  },
+  disputedAt: {
+    type: Date,
+    default: null
+  },
+  disputeReason: {
+    type: String,
+    default: null
+  },
+  // A player's dispute of the completed result (see MatchDispute); the prize is held while it is open
+  resultDisputeStatus: {
+    type: String,
+    enum: DISPUTE_STATUSES,
+    default: null
+  },
+  resultCorrections: {
+    type: [resultCorrectionSchema],
+    default: []
+  },
+  // Set by the match scheduler when a started match has no result after the result timeout
+  reviewFlaggedAt: {
+    type: Date,
+    default: null
+  },
+  reviewReason: {
+    type: String,
+    default: null
   }
 }, {
   timestamps: true,
@@ -74,6 +279,7 @@ matchSchema.index({ type: 1, status: 1 }); // For finding available public match
 matchSchema.index({ player1Id: 1, status: 1 });
 matchSchema.index({ player2Id: 1, status: 1 });
 matchSchema.index({ winnerId: 1 });
+matchSchema.index({ status: 1, tournamentId: 1, createdAt: 1 }); // For the match scheduler
 // Compound index for auto-join queries
 matchSchema.index({ status: 1, type: 1, player1Id: 1, player2Id: 1 });
 
@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+
+export const DISPUTE_STATUSES = ['open', 'upheld', 'overturned'];
+
+/**
+ * A player's challenge of a completed match's result
+ * While it is open the winner's prize is held; an admin then upholds the result
+ * (the prize is released) or overturns it (the opponent becomes the winner and is paid).
+ */
+const matchDisputeSchema = new mongoose.Schema({
+  matchId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Match',
+    required: true
+  },
+  // Which recorded result is disputed: the number of admin corrections made to the match before it
+  resultVersion: {
+    type: Number,
+    default: 0
+  },
+  // The player who opened it (the recorded loser or, e.g. for a wrong score, the winner)
+  openedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500
+  },
+  // Free text: what happened, links to screenshots or recordings, ...
+  evidence: {
+    type: String,
+    default: '',
+    trim: true,
+    maxlength: 5000
+  },
+  status: {
+    type: String,
+    enum: DISPUTE_STATUSES,
+    default: 'open'
+  },
+  // Winner at the time the dispute was opened, and how much of their prize is held
+  // (capped at their balance if they had already spent it)
+  originalWinnerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  heldAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // On an overturn, the rest of the prize: taken back from the original winner at resolution,
+  // and the part the house covered because they no longer had it
+  reclaimedAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  houseCoveredAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  resolvedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  resolvedAt: {
+    type: Date,
+    default: null
+  },
+  resolutionNote: {
+    type: String,
+    default: ''
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+matchDisputeSchema.index({ status: 1, createdAt: 1 }); // For the moderation queue
+matchDisputeSchema.index({ matchId: 1, resultVersion: 1 }, { unique: true }); // A result can only be disputed once
+matchDisputeSchema.index({ openedBy: 1 });
+matchDisputeSchema.index({ originalWinnerId: 1 });
+
+const MatchDispute = mongoose.model('MatchDispute', matchDisputeSchema);
+
+export default MatchDispute;
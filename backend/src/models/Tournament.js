@@ -1,8 +1,12 @@
 import mongoose from 'mongoose';
+import { TARGET_POINTS, DEFAULT_TARGET_POINTS } from '../utils/matchScore.js';
+import { SERIES_LENGTHS, DEFAULT_SERIES_LENGTH } from '../utils/matchSeries.js';
 
 /**
  * Tournament Schema
- * Supports 4 and 8 player tournaments with automatic bracket generation
+ * Supports 2 to 64 player single- or double-elimination tournaments with automatic
+ * bracket generation (byes fill non power-of-two fields), and round-robin or Swiss
+ * leagues ranked by a standings table
  */
 const tournamentSchema = new mongoose.Schema({
   name: {
@@ -21,21 +25,122 @@ const tournamentSchema = new mongoose.Schema({
     enum: ['public', 'private'],
     required: true
   },
+  // Private events: players join with the invite code (null = revoked) or by being on the allow-list
+  inviteCode: {
+    type: String,
+    default: null
+  },
+  allowedUserIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
   // Tournament configuration
+  format: {
+    type: String,
+    enum: ['single_elimination', 'double_elimination', 'round_robin', 'swiss'],
+    default: 'single_elimination'
+  },
+  // Double elimination: play a deciding match if the losers-bracket champion wins the grand final
+  grandFinalReset: {
+    type: Boolean,
+    default: true
+  },
+  // Single elimination: semi-final losers play a bronze match alongside the final
+  thirdPlaceMatch: {
+    type: Boolean,
+    default: false
+  },
+  // Swiss: number of rounds to play (null = enough rounds to separate one unbeaten leader)
+  swissRounds: {
+    type: Number,
+    default: null,
+    min: 1
+  },
+  // Round robin / Swiss: standings tiebreakers, applied in order after points
+  tiebreakers: {
+    type: [{
+      type: String,
+      enum: ['head_to_head', 'buchholz', 'points_difference']
+    }],
+    default: ['head_to_head', 'buchholz', 'points_difference']
+  },
   maxPlayers: {
     type: Number,
-    enum: [4, 8],
-    required: true
+    required: true,
+    min: 2,
+    max: 64,
+    validate: {
+      validator: Number.isInteger,
+      message: 'Max players must be a whole number'
+    }
   },
+  // Players per team: 1 = individual tournament; 2 or 3 = fixed partnerships (maxPlayers then counts teams)
+  teamSize: {
+    type: Number,
+    enum: [1, 2, 3],
+    default: 1
+  },
+  // Points target for every match of the tournament (Truco is played to 15 or 30)
+  targetPoints: {
+    type: Number,
+    enum: TARGET_POINTS,
+    default: DEFAULT_TARGET_POINTS
+  },
+  // Series length of bracket matches; finals (the single-elimination final or the grand final)
+  // can be longer. Admins can still change a single slot while it hasn't been played.
+  bestOf: {
+    type: Number,
+    enum: SERIES_LENGTHS,
+    default: DEFAULT_SERIES_LENGTH
+  },
+  finalBestOf: {
+    type: Number,
+    enum: SERIES_LENGTHS,
+    default: null // Same as bestOf
+  },
+  // Per player: in team tournaments every member pays the entry cost when they join the team
   entryCost: {
     type: Number,
     required: true,
     min: 1
   },
+  // fixed = prizePool as entered; entry_fees = entry fees collected minus the rake (see getPrizePoolBreakdown)
+  prizePoolMode: {
+    type: String,
+    enum: ['fixed', 'entry_fees'],
+    default: 'fixed'
+  },
+  // Fixed mode: the prize pool. Entry-fee mode: set to the final pool when prizes are paid
   prizePool: {
     type: Number,
-    required: true,
-    min: 1
+    required: function() { return this.prizePoolMode !== 'entry_fees'; },
+    default: 0,
+    validate: {
+      validator: function(value) { return this.prizePoolMode === 'entry_fees' || value >= 1; },
+      message: 'Prize pool must be at least 1'
+    }
+  },
+  // Entry-fee mode: percentage of the collected fees kept by the house
+  rakePercentage: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 100
+  },
+  // Entry-fee mode: minimum prize pool; the house covers any shortfall
+  guaranteedPrizePool: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Entry-fee mode: rake taken and guarantee shortfall covered (set when prizes are paid)
+  rakeAmount: {
+    type: Number,
+    default: null
+  },
+  guaranteeAmount: {
+    type: Number,
+    default: null
   },
   // Award percentage (default 80% to champion)
   awardPercentage: {
@@ -44,10 +149,63 @@ const tournamentSchema = new mongoose.Schema({
     min: 0,
     max: 100
   },
+  // Prize share per finishing place, 1st place first (e.g. [60, 25, 10, 5]).
+  // Empty = awardPercentage to the champion. Whatever is left is the house share.
+  payoutStructure: {
+    type: [{
+      type: Number,
+      min: 0,
+      max: 100
+    }],
+    default: [],
+    validate: {
+      validator: (structure) => structure.reduce((sum, percentage) => sum + percentage, 0) <= 100,
+      message: 'Payout percentages cannot exceed 100% in total'
+    }
+  },
+  // Prizes actually paid at completion, one entry per placed player (per member of a placed team)
+  payouts: [{
+    _id: false,
+    place: Number,
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    teamId: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null
+    },
+    percentage: Number,
+    amount: Number
+  }],
+  // Part of the prize pool kept by the house (set when prizes are paid)
+  houseAmount: {
+    type: Number,
+    default: null
+  },
+  // Players needed to start when registration closes before the tournament fills
+  minPlayers: {
+    type: Number,
+    default: 2,
+    min: 2,
+    max: 64
+  },
+  // When registration closes (defaults to startDate). The scheduler then starts the
+  // tournament if minPlayers is met, otherwise cancels it and refunds the entries.
+  registrationDeadline: {
+    type: Date,
+    default: null
+  },
   startDate: {
     type: Date,
     default: null
   },
+  // Players can withdraw (with a refund) until this many minutes before startDate
+  withdrawalCutoffMinutes: {
+    type: Number,
+    default: 60,
+    min: 0
+  },
   endDate: {
     type: Date,
     default: null
@@ -58,17 +216,82 @@ const tournamentSchema = new mongoose.Schema({
     enum: ['registration', 'active', 'completed', 'cancelled'],
     default: 'registration'
   },
+  // How participants are ordered into seeds when the bracket is generated
+  seeding: {
+    type: String,
+    enum: ['random', 'join_order', 'rating', 'manual'],
+    default: 'join_order'
+  },
+  // Admin-defined seed order (seed 1 first), used when seeding is 'manual'
+  seedOrder: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
   // Registered players
   participants: [{
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   }],
-  // Bracket structure (stores matches for each round)
+  // Registered teams (team tournaments only). Members are also in participants; invited players are not charged until they accept
+  teams: [{
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    captainId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    memberIds: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    invitedIds: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Players queued for a seat once the tournament is full (not charged until promoted)
+  waitlist: [{
+    _id: false,
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Players disqualified while the tournament was running; their remaining matches are walkovers
+  disqualified: [{
+    _id: false,
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reason: {
+      type: String,
+      default: ''
+    },
+    disqualifiedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Bracket structure (stores matches for each round, plus standings for leagues)
   bracket: {
     type: mongoose.Schema.Types.Mixed,
     default: {}
   },
-  // Current round (1 = quarter/semi, 2 = semi/final, 3 = final)
+  // Current round (1 = first round, bracket.totalRounds = final)
   currentRound: {
     type: Number,
     default: 0
@@ -79,6 +302,17 @@ const tournamentSchema = new mongoose.Schema({
     ref: 'User',
     default: null
   },
+  // Winning team (team tournaments; winnerId is then its captain)
+  winnerTeamId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  // Third-place finisher (set on completion when a single player finished third)
+  thirdPlaceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
   // Tournament completion
   completedAt: {
     type: Date,
@@ -95,6 +329,12 @@ const tournamentSchema = new mongoose.Schema({
   cancellationReason: {
     type: String,
     default: null
+  },
+  // Recurring template this tournament was created from (null = created by hand)
+  templateId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'TournamentTemplate',
+    default: null
   }
 }, {
   timestamps: true,
@@ -111,6 +351,7 @@ const tournamentSchema = new mongoose.Schema({
 // Indexes for efficient queries
 tournamentSchema.index({ status: 1 });
 tournamentSchema.index({ startDate: 1 });
+tournamentSchema.index({ status: 1, registrationDeadline: 1 }); // For the lifecycle scheduler
 tournamentSchema.index({ createdAt: -1 });
 tournamentSchema.index({ name: 1 }, { unique: true }); // Prevent duplicate tournament names
 
@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+
+export const TOURNAMENT_ACTIVITY_TYPES = [
+  'created',
+  'updated',
+  'player_joined',
+  'player_waitlisted',
+  'player_promoted',
+  'player_left',
+  'player_removed',
+  'team_registered',
+  'team_member_joined',
+  'seeds_updated',
+  'bracket_generated',
+  'match_result',
+  'forfeit',
+  'disqualified',
+  'award_percentage_changed',
+  'prize_paid',
+  'completed',
+  'cancelled'
+];
+
+const tournamentActivitySchema = new mongoose.Schema({
+  tournamentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tournament',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: TOURNAMENT_ACTIVITY_TYPES,
+    required: true
+  },
+  // Admin or player who did it; null for automatic events (scheduler)
+  actorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  // Player the event is about (joined, removed, paid, ...), if any
+  playerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  description: {
+    type: String,
+    default: ''
+  },
+  meta: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// The log is append-only: entries are never edited or removed
+const rejectChange = function(next) {
+  next(new Error('Tournament activity is append-only'));
+};
+tournamentActivitySchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return rejectChange(next);
+  }
+  next();
+});
+tournamentActivitySchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'], rejectChange);
+
+// Indexes for performance
+tournamentActivitySchema.index({ tournamentId: 1, createdAt: 1 }); // For the tournament timeline
+
+const TournamentActivity = mongoose.model('TournamentActivity', tournamentActivitySchema);
+
+export default TournamentActivity;
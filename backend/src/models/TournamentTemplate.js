@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import { TARGET_POINTS, DEFAULT_TARGET_POINTS } from '../utils/matchScore.js';
+import { SERIES_LENGTHS, DEFAULT_SERIES_LENGTH } from '../utils/matchSeries.js';
+
+/**
+ * Tournament Template Schema
+ * Saved tournament settings with an optional recurrence rule. The scheduler creates
+ * each edition as a regular tournament named "<template name> - YYYY-MM-DD".
+ */
+const tournamentTemplateSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  description: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  // Tournament settings copied onto every edition
+  type: {
+    type: String,
+    enum: ['public', 'private'],
+    required: true
+  },
+  format: {
+    type: String,
+    enum: ['single_elimination', 'double_elimination', 'round_robin', 'swiss'],
+    default: 'single_elimination'
+  },
+  grandFinalReset: {
+    type: Boolean,
+    default: true
+  },
+  thirdPlaceMatch: {
+    type: Boolean,
+    default: false
+  },
+  swissRounds: {
+    type: Number,
+    default: null,
+    min: 1
+  },
+  tiebreakers: {
+    type: [{
+      type: String,
+      enum: ['head_to_head', 'buchholz', 'points_difference']
+    }],
+    default: ['head_to_head', 'buchholz', 'points_difference']
+  },
+  maxPlayers: {
+    type: Number,
+    required: true,
+    min: 2,
+    max: 64
+  },
+  minPlayers: {
+    type: Number,
+    default: 2,
+    min: 2,
+    max: 64
+  },
+  // Players per team (1 = individual); maxPlayers/minPlayers then count teams
+  teamSize: {
+    type: Number,
+    enum: [1, 2, 3],
+    default: 1
+  },
+  targetPoints: {
+    type: Number,
+    enum: TARGET_POINTS,
+    default: DEFAULT_TARGET_POINTS
+  },
+  bestOf: {
+    type: Number,
+    enum: SERIES_LENGTHS,
+    default: DEFAULT_SERIES_LENGTH
+  },
+  finalBestOf: {
+    type: Number,
+    enum: SERIES_LENGTHS,
+    default: null // Same as bestOf
+  },
+  entryCost: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  // fixed: prizePool is paid out; entry_fees: each edition's pool comes from its own entry fees
+  prizePoolMode: {
+    type: String,
+    enum: ['fixed', 'entry_fees'],
+    default: 'fixed'
+  },
+  prizePool: {
+    type: Number,
+    required: function() { return this.prizePoolMode !== 'entry_fees'; },
+    default: 0,
+    validate: {
+      validator: function(value) { return this.prizePoolMode === 'entry_fees' || value >= 1; },
+      message: 'Prize pool must be at least 1'
+    }
+  },
+  rakePercentage: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 100
+  },
+  guaranteedPrizePool: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Prize share per finishing place, 1st place first (empty = 80% to the champion)
+  payoutStructure: {
+    type: [{
+      type: Number,
+      min: 0,
+      max: 100
+    }],
+    default: [],
+    validate: {
+      validator: (structure) => structure.reduce((sum, percentage) => sum + percentage, 0) <= 100,
+      message: 'Payout percentages cannot exceed 100% in total'
+    }
+  },
+  seeding: {
+    type: String,
+    enum: ['random', 'join_order', 'rating'],
+    default: 'join_order'
+  },
+  withdrawalCutoffMinutes: {
+    type: Number,
+    default: 60,
+    min: 0
+  },
+  // Recurrence rule: repeat every `interval` days/weeks/months ('none' = only created on demand)
+  recurrence: {
+    frequency: {
+      type: String,
+      enum: ['none', 'daily', 'weekly', 'monthly'],
+      default: 'weekly'
+    },
+    interval: {
+      type: Number,
+      default: 1,
+      min: 1,
+      max: 52
+    }
+  },
+  // Start date of the next edition; advanced by the recurrence rule after each edition
+  nextStartDate: {
+    type: Date,
+    default: null
+  },
+  // Editions are created (and open for registration) this many hours before they start
+  registrationLeadHours: {
+    type: Number,
+    default: 24,
+    min: 1
+  },
+  // Registration closes this many minutes before the start (0 = at the start date)
+  registrationCloseMinutes: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Paused templates are skipped by the scheduler
+  active: {
+    type: Boolean,
+    default: true
+  },
+  editionCount: {
+    type: Number,
+    default: 0
+  },
+  lastTournamentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tournament',
+    default: null
+  },
+  lastInstantiatedAt: {
+    type: Date,
+    default: null
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for efficient queries
+tournamentTemplateSchema.index({ name: 1 }, { unique: true });
+tournamentTemplateSchema.index({ active: 1, nextStartDate: 1 }); // For the template scheduler
+
+const TournamentTemplate = mongoose.model('TournamentTemplate', tournamentTemplateSchema);
+
+export default TournamentTemplate;
@@ -1,14 +1,18 @@
 import mongoose from 'mongoose';
 
+// House ledger entries (rake kept, guarantee shortfall paid) don't belong to a player
+export const HOUSE_TRANSACTION_TYPES = ['house_rake', 'house_guarantee', 'house_prize_shortfall'];
+
 const transactionSchema = new mongoose.Schema({
   userId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
-    required: true
+    required: function() { return !HOUSE_TRANSACTION_TYPES.includes(this.type); },
+    default: null
   },
   type: {
     type: String,
-    enum: ['match_entry', 'match_win', 'tournament_entry', 'tournament_win', 'coin_purchase', 'admin_add', 'admin_remove'],
+    enum: ['match_entry', 'match_win', 'match_refund', 'match_prize_hold', 'match_prize_release', 'match_win_reversal', 'tournament_entry', 'tournament_refund', 'tournament_win', 'coin_purchase', 'admin_add', 'admin_remove', ...HOUSE_TRANSACTION_TYPES],
     required: true
   },
   amount: {
@@ -80,7 +80,7 @@ router.get('/stats', async (req, res) => {
     ]);
     const coinsIssued = coinsIssuedResult[0]?.total || 0;
 
-    // Coins used in tournaments (total tournament_entry fees - negative amounts)
+    // Coins used in tournaments (total tournament_entry fees - negative amounts, minus refunds)
     const coinsUsedInTournamentsResult = await Transaction.aggregate([
       {
         $match: {
@@ -95,7 +95,22 @@ router.get('/stats', async (req, res) => {
         }
       }
     ]);
-    const coinsUsedInTournaments = coinsUsedInTournamentsResult[0]?.total || 0;
+
+    // Entry fees handed back (withdrawals and cancellations)
+    const tournamentRefundsResult = await Transaction.aggregate([
+      {
+        $match: {
+          type: 'tournament_refund'
+        }
+      },
+      {
+        $group: {
+          _id: null,
+          total: { $sum: '$amount' }
+        }
+      }
+    ]);
+    const coinsUsedInTournaments = (coinsUsedInTournamentsResult[0]?.total || 0) - (tournamentRefundsResult[0]?.total || 0);
 
     // Coins used in matches (total match_entry fees - negative amounts)
     const coinsUsedInMatchesResult = await Transaction.aggregate([
@@ -112,7 +127,22 @@ router.get('/stats', async (req, res) => {
         }
       }
     ]);
-    const coinsUsedInMatches = coinsUsedInMatchesResult[0]?.total || 0;
+
+    // Entry fees handed back for cancelled matches
+    const matchRefundsResult = await Transaction.aggregate([
+      {
+        $match: {
+          type: 'match_refund'
+        }
+      },
+      {
+        $group: {
+          _id: null,
+          total: { $sum: '$amount' }
+        }
+      }
+    ]);
+    const coinsUsedInMatches = (coinsUsedInMatchesResult[0]?.total || 0) - (matchRefundsResult[0]?.total || 0);
 
     res.json({
       success: true,
@@ -0,0 +1,451 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import MatchDispute, { DISPUTE_STATUSES } from '../models/MatchDispute.js';
+import Match from '../models/Match.js';
+import User from '../models/User.js';
+import Tournament from '../models/Tournament.js';
+import Transaction from '../models/Transaction.js';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware.js';
+import { logger } from '../utils/logger.js';
+import { transformMatchDisputeToDto, transformMatchToDto, transformTransactionToDto, transformUserToDto } from '../utils/dtoTransformers.js';
+import { openMatchDispute, resolveMatchDispute, DISPUTE_DECISIONS } from '../utils/disputeService.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const RECENT_MATCHES_LIMIT = 10;
+
+const populateDispute = (queryBuilder) => queryBuilder
+  .populate('matchId', 'name')
+  .populate('openedBy', 'name')
+  .populate('originalWinnerId', 'name')
+  .populate('resolvedBy', 'name');
+
+/**
+ * A player's record for the review: recent standalone matches and earlier disputes
+ * @param {String} playerId - User ID
+ * @param {String} excludeMatchId - The disputed match, left out of the recent matches
+ * @returns {Promise<Object>} { player, recentMatches, disputesOpened, resultsOverturned }
+ */
+const getPlayerHistory = async (playerId, excludeMatchId) => {
+  const [user, recentMatches, disputesOpened, resultsOverturned] = await Promise.all([
+    User.findById(playerId).lean(),
+    Match.find({
+      _id: { $ne: excludeMatchId },
+      tournamentId: null,
+      $or: [{ player1Id: playerId }, { player2Id: playerId }],
+      status: { $in: ['completed', 'disputed', 'cancelled'] }
+    })
+      .populate('player1Id', 'name')
+      .populate('player2Id', 'name')
+      .sort({ createdAt: -1 })
+      .limit(RECENT_MATCHES_LIMIT)
+      .lean(),
+    MatchDispute.countDocuments({ openedBy: playerId }),
+    MatchDispute.countDocuments({ originalWinnerId: playerId, status: 'overturned' })
+  ]);
+
+  const playerIdStr = playerId.toString();
+  return {
+    player: transformUserToDto(user),
+    recentMatches: recentMatches.map(match => {
+      const opponent = match.player1Id?._id?.toString() === playerIdStr ? match.player2Id : match.player1Id;
+      return {
+        _id: match._id.toString(),
+        name: match.name,
+        status: match.status,
+        opponent: opponent ? { _id: opponent._id.toString(), username: opponent.name || '' } : null,
+        won: match.status === 'completed' ? match.winnerId?.toString() === playerIdStr : null,
+        resultDisputeStatus: match.resultDisputeStatus || null,
+        createdAt: match.createdAt ? new Date(match.createdAt).toISOString() : null
+      };
+    }),
+    disputesOpened,
+    resultsOverturned
+  };
+};
+
+/**
+ * @swagger
+ * /api/disputes:
+ *   get:
+ *     summary: Dispute queue (Admin only)
+ *     description: Match result disputes, oldest first when listing open disputes (the review queue), newest first otherwise
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, upheld, overturned]
+ *         description: Filter by status
+ *     responses:
+ *       200:
+ *         description: List of disputes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 disputes:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MatchDispute'
+ *       403:
+ *         description: Admin access required
+ */
+// Get disputes (admin only)
+router.get('/', requireAdmin, async (req, res) => {
+  try {
+    const status = DISPUTE_STATUSES.includes(req.query.status) ? req.query.status : null;
+    const disputes = await populateDispute(MatchDispute.find(status ? { status } : {}))
+      .sort({ createdAt: status === 'open' ? 1 : -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      disputes: disputes.map(transformMatchDisputeToDto)
+    });
+  } catch (error) {
+    logger.error('Get disputes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/disputes/{id}:
+ *   get:
+ *     summary: Dispute review (Admin only)
+ *     description: |
+ *       Everything needed to decide a dispute: the dispute, the match, every transaction logged against the match
+ *       (entry fees, prize, hold, release) and each player's recent standalone matches and dispute record.
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Dispute ID
+ *     responses:
+ *       200:
+ *         description: Dispute details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 dispute:
+ *                   $ref: '#/components/schemas/MatchDispute'
+ *                 match:
+ *                   $ref: '#/components/schemas/Match'
+ *                 transactions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Transaction'
+ *                 playerHistory:
+ *                   type: array
+ *                   description: One entry per match player (recentMatches, disputesOpened, resultsOverturned)
+ *                   items:
+ *                     type: object
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Dispute not found
+ */
+// Get dispute details for review (admin only)
+router.get('/:id', requireAdmin, async (req, res) => {
+  try {
+    const dispute = await populateDispute(MatchDispute.findById(req.params.id)).lean();
+    if (!dispute) {
+      return res.status(404).json({
+        success: false,
+        message: 'Dispute not found'
+      });
+    }
+
+    const matchId = dispute.matchId._id;
+    const [match, transactions] = await Promise.all([
+      Match.findById(matchId)
+        .populate('player1Id')
+        .populate('player2Id')
+        .populate('tournamentId')
+        .populate('winnerId')
+        .lean(),
+      Transaction.find({ matchId })
+        .populate('userId')
+        .sort({ createdAt: 1 })
+        .lean()
+    ]);
+
+    const playerIds = [match.player1Id?._id, match.player2Id?._id].filter(Boolean);
+    const playerHistory = await Promise.all(playerIds.map(playerId => getPlayerHistory(playerId, matchId)));
+
+    res.json({
+      success: true,
+      dispute: transformMatchDisputeToDto(dispute),
+      match: transformMatchToDto(match, Tournament, User, { isAdmin: true }),
+      transactions: transactions.map(transaction => transformTransactionToDto(transaction, null)),
+      playerHistory
+    });
+  } catch (error) {
+    logger.error('Get dispute error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/disputes:
+ *   post:
+ *     summary: Dispute a match result
+ *     description: |
+ *       Either player of a completed standalone match can dispute its result once, with a reason and optional evidence.
+ *       A result an admin has since corrected (or reversed and recorded again) can be disputed afresh.
+ *       The winner's prize is held (as much of it as is still in their balance, logged as match_prize_hold)
+ *       until an admin upholds or overturns the result.
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - matchId
+ *               - reason
+ *             properties:
+ *               matchId:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 example: My opponent used a second account to see my cards
+ *               evidence:
+ *                 type: string
+ *                 example: Screenshots at https://example.com/album
+ *     responses:
+ *       201:
+ *         description: Dispute opened
+ *       400:
+ *         description: Match not completed, a tournament match, or already disputed
+ *       403:
+ *         description: Only the match players can dispute its result
+ *       404:
+ *         description: Match not found
+ */
+// Open a dispute (match players)
+router.post('/', [
+  body('matchId').notEmpty().withMessage('Match ID is required'),
+  body('reason').trim().isLength({ min: 1, max: 500 }).withMessage('Reason is required (max 500 characters)'),
+  body('evidence').optional().trim().isLength({ max: 5000 }).withMessage('Evidence must be at most 5000 characters')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    const { matchId, reason, evidence } = req.body;
+    let disputeId = null;
+
+    await session.withTransaction(async () => {
+      const match = mongoose.isValidObjectId(matchId) ? await Match.findById(matchId).session(session) : null;
+      if (!match) {
+        throw new Error('Match not found');
+      }
+
+      const dispute = await openMatchDispute(match, {
+        playerId: req.user.id,
+        reason,
+        evidence: evidence || ''
+      }, { MatchDispute, User, Transaction }, session);
+      await match.save({ session });
+      disputeId = dispute._id;
+    });
+
+    const dispute = await populateDispute(MatchDispute.findById(disputeId)).lean();
+
+    res.status(201).json({
+      success: true,
+      message: 'Dispute opened; the prize is held until an admin reviews the result',
+      dispute: transformMatchDisputeToDto(dispute)
+    });
+  } catch (error) {
+    logger.error('Open dispute error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Match not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.startsWith('Only the match players')) {
+      return res.status(403).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('cannot be disputed') || errorMessage.includes('can be disputed') ||
+        errorMessage.includes('already been disputed') || error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: error.code === 11000 ? 'This match result has already been disputed' : errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/disputes/{id}/resolve:
+ *   post:
+ *     summary: Uphold or overturn a disputed result (Admin only)
+ *     description: |
+ *       uphold: the result stands and the held prize is released to the winner (match_prize_release).
+ *       overturn: the opponent becomes the winner; the held prize is kept, the win/loss counters of both players
+ *       are swapped and the new winner is paid the prize (match_win). Runs in a single database transaction.
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Dispute ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - decision
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [uphold, overturn]
+ *               note:
+ *                 type: string
+ *                 example: Replay confirms the recorded winner
+ *     responses:
+ *       200:
+ *         description: Dispute resolved
+ *       400:
+ *         description: Dispute already resolved
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Dispute not found
+ */
+// Resolve a dispute (admin only)
+router.post('/:id/resolve', requireAdmin, [
+  body('decision').isIn(DISPUTE_DECISIONS).withMessage('Decision must be uphold or overturn'),
+  body('note').optional().trim().isLength({ max: 1000 }).withMessage('Note must be at most 1000 characters')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const { decision, note } = req.body;
+
+    await session.withTransaction(async () => {
+      const dispute = await MatchDispute.findById(id).session(session);
+      if (!dispute) {
+        throw new Error('Dispute not found');
+      }
+
+      const match = await Match.findById(dispute.matchId).session(session);
+      await resolveMatchDispute(dispute, match, {
+        decision,
+        adminId: req.user.id,
+        note: note || ''
+      }, { User, Transaction }, session);
+
+      await dispute.save({ session });
+      await match.save({ session });
+    });
+
+    const dispute = await populateDispute(MatchDispute.findById(id)).lean();
+
+    res.json({
+      success: true,
+      message: decision === 'uphold'
+        ? 'Result upheld; the held prize was released to the winner'
+        : 'Result overturned; the prize was paid to the new winner',
+      dispute: transformMatchDisputeToDto(dispute)
+    });
+  } catch (error) {
+    logger.error('Resolve dispute error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Dispute not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('already been resolved')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+export default router;
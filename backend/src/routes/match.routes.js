@@ -8,6 +8,11 @@ import Transaction from '../models/Transaction.js';
 import { authenticate, requireAdmin } from '../middleware/auth.middleware.js';
 import { logger } from '../utils/logger.js';
 import { transformMatchToDto, transformUserToDto } from '../utils/dtoTransformers.js';
+import { generateInviteCode, canJoinPrivateEvent } from '../utils/inviteCodes.js';
+import { TARGET_POINTS, DEFAULT_TARGET_POINTS, getScoreError, normalizeScore, formatScore } from '../utils/matchScore.js';
+import { SERIES_LENGTHS, DEFAULT_SERIES_LENGTH, addSeriesGame, getSeriesWins, formatSeriesWins } from '../utils/matchSeries.js';
+import { cancelMatch, completeMatch, disputeMatch, addResultReport, correctMatchResult, reverseMatchResult } from '../utils/matchService.js';
+import { getMatchExpirySettings } from '../utils/matchScheduler.js';
 
 const router = express.Router();
 
@@ -28,7 +33,7 @@ router.use(authenticate);
  *         name: status
  *         schema:
  *           type: string
- *           enum: [active, completed, cancelled]
+ *           enum: [active, completed, disputed, cancelled]
  *         description: Filter matches by status
  *     responses:
  *       200:
@@ -71,7 +76,7 @@ router.get('/', async (req, res) => {
       .lean();
 
     // Transform to MatchDto format
-    const formattedMatches = matches.map(match => transformMatchToDto(match, Tournament, User));
+    const formattedMatches = matches.map(match => transformMatchToDto(match, Tournament, User, { isAdmin: req.user.role === 'admin' }));
 
     res.json({
       success: true,
@@ -107,7 +112,7 @@ router.get('/', async (req, res) => {
  *         name: status
  *         schema:
  *           type: string
- *           enum: [active, completed, cancelled]
+ *           enum: [active, completed, disputed, cancelled]
  *         description: Filter by status
  *     responses:
  *       200:
@@ -156,7 +161,19 @@ router.get('/export', requireAdmin, async (req, res) => {
         player2Email: match.player2Id?.email || null,
         winnerId: match.winnerId?._id?.toString() || null,
         winnerName: match.winnerId?.name || match.winnerId?.username || null,
+        targetPoints: match.targetPoints || DEFAULT_TARGET_POINTS,
+        score: match.score || null,
+        bestOf: match.bestOf || DEFAULT_SERIES_LENGTH,
+        games: match.games || [],
+        startedAt: match.startedAt || null,
         completedAt: match.completedAt || null,
+        cancelledAt: match.cancelledAt || null,
+        cancellationReason: match.cancellationReason || null,
+        reviewFlaggedAt: match.reviewFlaggedAt || null,
+        reviewReason: match.reviewReason || null,
+        resultReports: match.resultReports || [],
+        disputedAt: match.disputedAt || null,
+        disputeReason: match.disputeReason || null,
         createdAt: match.createdAt,
         updatedAt: match.updatedAt
       }));
@@ -179,7 +196,18 @@ router.get('/export', requireAdmin, async (req, res) => {
         'Player 2',
         'Player 2 Email',
         'Winner',
+        'Target Points',
+        'Score',
+        'Best Of',
+        'Series',
+        'Started At',
         'Completed At',
+        'Cancelled At',
+        'Cancellation Reason',
+        'Flagged For Review At',
+        'Disputed At',
+        'Dispute Reason',
+        'Result Corrections',
         'Created At'
       ];
 
@@ -197,7 +225,22 @@ router.get('/export', requireAdmin, async (req, res) => {
           match.player2Id?.name || match.player2Id?.username || '',
           match.player2Id?.email || '',
           match.winnerId?.name || match.winnerId?.username || '',
+          match.targetPoints || DEFAULT_TARGET_POINTS,
+          formatScore(match.score),
+          match.bestOf || DEFAULT_SERIES_LENGTH,
+          // Games won and each game's score, e.g. "2-1 (30-22; 18-30; 30-25)"
+          (match.bestOf || DEFAULT_SERIES_LENGTH) > 1
+            ? `"${formatSeriesWins(getSeriesWins(match.games, match.player1Id?._id))}` +
+              (match.games?.some(game => game.score) ? ` (${match.games.map(game => formatScore(game.score) || '-').join('; ')})` : '') + '"'
+            : '',
+          match.startedAt ? new Date(match.startedAt).toISOString() : '',
           match.completedAt ? new Date(match.completedAt).toISOString() : '',
+          match.cancelledAt ? new Date(match.cancelledAt).toISOString() : '',
+          `"${match.cancellationReason || ''}"`,
+          match.reviewFlaggedAt ? new Date(match.reviewFlaggedAt).toISOString() : '',
+          match.disputedAt ? new Date(match.disputedAt).toISOString() : '',
+          `"${match.disputeReason || ''}"`,
+          match.resultCorrections?.length || 0,
           match.createdAt ? new Date(match.createdAt).toISOString() : ''
         ].join(',');
       });
@@ -273,7 +316,7 @@ router.get('/:id', async (req, res) => {
     }
 
     // Transform to MatchDto format
-    const matchDto = transformMatchToDto(match, Tournament, User);
+    const matchDto = transformMatchToDto(match, Tournament, User, { isAdmin: req.user.role === 'admin' });
 
     res.json({
       success: true,
@@ -330,6 +373,21 @@ router.get('/:id', async (req, res) => {
  *                 type: string
  *                 format: date-time
  *                 example: "2024-12-25T10:00:00Z"
+ *               targetPoints:
+ *                 type: integer
+ *                 enum: [15, 30]
+ *                 default: 30
+ *                 description: Points needed to win the game
+ *               bestOf:
+ *                 type: integer
+ *                 enum: [1, 3, 5]
+ *                 default: 1
+ *                 description: Series length; the first player to win a majority of the games wins the match
+ *               allowedUserIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Private only. Players who may join without the invite code (one is generated automatically)
  *     responses:
  *       201:
  *         description: Match created successfully
@@ -362,7 +420,16 @@ router.post('/', requireAdmin, [
   body('type').isIn(['public', 'private']).withMessage('Type must be public or private'),
   body('cost').isInt({ min: 1 }).withMessage('Cost must be a positive integer'),
   body('prize').isInt({ min: 1 }).withMessage('Prize must be a positive integer'),
-  body('matchDate').optional().isISO8601().withMessage('Invalid date format')
+  body('matchDate').optional().isISO8601().withMessage('Invalid date format'),
+  body('targetPoints').optional().isIn(TARGET_POINTS).withMessage('Target points must be 15 or 30'),
+  body('bestOf').optional().isIn(SERIES_LENGTHS).withMessage('Series length must be 1, 3 or 5'),
+  body('allowedUserIds').optional().isArray().withMessage('Allowed users must be an array'),
+  body('allowedUserIds.*').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Each allowed user must be a valid user ID');
+    }
+    return true;
+  })
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -374,7 +441,7 @@ router.post('/', requireAdmin, [
       });
     }
 
-    const { name, type, cost, prize, matchDate } = req.body;
+    const { name, type, cost, prize, matchDate, targetPoints, bestOf, allowedUserIds } = req.body;
 
     const match = await Match.create({
       name,
@@ -382,11 +449,16 @@ router.post('/', requireAdmin, [
       cost: parseInt(cost),
       prize: parseInt(prize),
       matchDate: matchDate || null,
+      targetPoints: targetPoints ? parseInt(targetPoints) : DEFAULT_TARGET_POINTS,
+      bestOf: bestOf ? parseInt(bestOf) : DEFAULT_SERIES_LENGTH,
+      // Private matches get an invite code; the allow-list lets players join without it
+      inviteCode: type === 'private' ? generateInviteCode() : null,
+      allowedUserIds: type === 'private' && allowedUserIds ? [...new Set(allowedUserIds)] : [],
       status: 'active'
     });
 
     // Transform to MatchDto format
-    const matchDto = transformMatchToDto(match.toObject(), Tournament, User);
+    const matchDto = transformMatchToDto(match.toObject(), Tournament, User, { isAdmin: req.user.role === 'admin' });
 
     res.status(201).json({
       success: true,
@@ -509,6 +581,11 @@ router.post('/auto-join', async (req, res) => {
         throw new Error(`Insufficient coins. You need ${availableMatch.cost} coins to join this match.`);
       }
 
+      // The second player to join starts the match (and its result timeout)
+      if (availableMatch.player1Id && availableMatch.player2Id) {
+        await Match.findByIdAndUpdate(availableMatch._id, { $set: { startedAt: new Date() } }, { session });
+      }
+
       // Track balance before transaction
       const balanceBefore = user.coins;
       const balanceAfter = balanceBefore - availableMatch.cost;
@@ -555,7 +632,7 @@ router.post('/auto-join', async (req, res) => {
     }
 
     // Transform to MatchDto format
-    const matchDto = transformMatchToDto(joinedMatch.toObject(), Tournament, User);
+    const matchDto = transformMatchToDto(joinedMatch.toObject(), Tournament, User, { isAdmin: req.user.role === 'admin' });
 
     res.json({
       success: true,
@@ -602,7 +679,7 @@ router.post('/auto-join', async (req, res) => {
  * /api/matches/{id}/join:
  *   post:
  *     summary: Join a specific match
- *     description: Join a match by ID using the authenticated user. Coins are automatically deducted. User must have sufficient coins.
+ *     description: Join a match by ID using the authenticated user. Coins are automatically deducted. User must have sufficient coins. Private matches require the invite code unless the user is on the allow-list.
  *     tags: [Matches]
  *     security:
  *       - bearerAuth: []
@@ -613,6 +690,15 @@ router.post('/auto-join', async (req, res) => {
  *         schema:
  *           type: string
  *         description: Match ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               inviteCode:
+ *                 type: string
+ *                 example: K7QM2XWD
  *     responses:
  *       200:
  *         description: Successfully joined match
@@ -632,6 +718,12 @@ router.post('/auto-join', async (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Private match and no valid invite code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Match or user not found
  *         content:
@@ -661,6 +753,14 @@ router.post('/:id/join', async (req, res) => {
       });
     }
 
+    // Private matches need the invite code or an allow-list entry (tournament matches are seated by the bracket)
+    if (!match.tournamentId && !canJoinPrivateEvent(match, userId, req.body?.inviteCode)) {
+      return res.status(403).json({
+        success: false,
+        message: 'A valid invite code is required to join this private match'
+      });
+    }
+
     // Check if user has enough coins
     const user = await User.findById(userId);
     if (!user) {
@@ -694,9 +794,20 @@ router.post('/:id/join', async (req, res) => {
       });
     }
 
-    // Join match atomically
+    // Join match atomically; the filter fails if the match filled or expired since it was read.
+    // The second player to join starts the match.
     const updateField = !match.player1Id ? 'player1Id' : 'player2Id';
-    await Match.findByIdAndUpdate(id, { $set: { [updateField]: userId } });
+    const isStarting = Boolean(match.player1Id || match.player2Id);
+    const joinedMatch = await Match.findOneAndUpdate(
+      { _id: id, status: 'active', [updateField]: null },
+      { $set: { [updateField]: userId, ...(isStarting ? { startedAt: new Date() } : {}) } }
+    );
+    if (!joinedMatch) {
+      return res.status(400).json({
+        success: false,
+        message: 'Match is no longer available'
+      });
+    }
 
     // Track balance before transaction
     const balanceBefore = user.coins;
@@ -731,10 +842,110 @@ router.post('/:id/join', async (req, res) => {
 
 /**
  * @swagger
- * /api/matches/{id}/result:
+ * /api/matches/{id}/invite-code:
  *   post:
- *     summary: Record match result (Admin only)
- *     description: Record the winner and loser of a match. Prize is automatically awarded to the winner. Only admins can record results.
+ *     summary: Regenerate invite code (Admin only)
+ *     description: Issue a new invite code for a private match. The previous code stops working immediately.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Match ID
+ *     responses:
+ *       200:
+ *         description: Invite code regenerated
+ *       400:
+ *         description: Match is not private or no longer active
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Match not found
+ *   delete:
+ *     summary: Revoke invite code (Admin only)
+ *     description: Remove the invite code of a private match. Only players on the allow-list can join until a new code is generated.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Match ID
+ *     responses:
+ *       200:
+ *         description: Invite code revoked
+ *       400:
+ *         description: Match is not private or no longer active
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Match not found
+ */
+// Regenerate or revoke a private match's invite code (admin only)
+const updateMatchInviteCode = (regenerate) => async (req, res) => {
+  try {
+    const match = await Match.findById(req.params.id);
+    if (!match) {
+      return res.status(404).json({
+        success: false,
+        message: 'Match not found'
+      });
+    }
+
+    if (match.type !== 'private' || match.tournamentId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only private standalone matches have invite codes'
+      });
+    }
+
+    if (match.status !== 'active') {
+      return res.status(400).json({
+        success: false,
+        message: 'Match is not active'
+      });
+    }
+
+    match.inviteCode = regenerate ? generateInviteCode() : null;
+    await match.save();
+
+    const populatedMatch = await Match.findById(match._id)
+      .populate('player1Id')
+      .populate('player2Id')
+      .populate('tournamentId')
+      .populate('winnerId')
+      .lean();
+
+    res.json({
+      success: true,
+      message: regenerate ? 'Invite code regenerated' : 'Invite code revoked',
+      match: transformMatchToDto(populatedMatch, Tournament, User, { isAdmin: true })
+    });
+  } catch (error) {
+    logger.error('Update match invite code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+router.post('/:id/invite-code', requireAdmin, updateMatchInviteCode(true));
+router.delete('/:id/invite-code', requireAdmin, updateMatchInviteCode(false));
+
+/**
+ * @swagger
+ * /api/matches/{id}/allowed-users:
+ *   post:
+ *     summary: Set the allow-list (Admin only)
+ *     description: Replace the list of players who may join a private match without the invite code.
  *     tags: [Matches]
  *     security:
  *       - bearerAuth: []
@@ -752,52 +963,31 @@ router.post('/:id/join', async (req, res) => {
  *           schema:
  *             type: object
  *             required:
- *               - winnerId
- *               - loserId
+ *               - userIds
  *             properties:
- *               winnerId:
- *                 type: string
- *                 description: User ID of the winner
- *               loserId:
- *                 type: string
- *                 description: User ID of the loser
+ *               userIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
  *     responses:
  *       200:
- *         description: Match result recorded successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Match result recorded successfully"
+ *         description: Allow-list updated
  *       400:
- *         description: Invalid players or match not active
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
+ *         description: Validation error, unknown users, or match not private
  *       403:
  *         description: Admin access required
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Match not found
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
  */
-// Record match result (admin only)
-router.post('/:id/result', requireAdmin, [
-  body('winnerId').notEmpty().withMessage('Valid winner ID is required'),
-  body('loserId').notEmpty().withMessage('Valid loser ID is required')
+// Set the allow-list of a private match (admin only)
+router.post('/:id/allowed-users', requireAdmin, [
+  body('userIds').isArray().withMessage('User IDs array is required'),
+  body('userIds.*').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Each allowed user must be a valid user ID');
+    }
+    return true;
+  })
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -809,11 +999,7 @@ router.post('/:id/result', requireAdmin, [
       });
     }
 
-    const { id } = req.params;
-    const { winnerId, loserId } = req.body;
-
-    // Get match
-    const match = await Match.findById(id);
+    const match = await Match.findById(req.params.id);
     if (!match) {
       return res.status(404).json({
         success: false,
@@ -821,65 +1007,741 @@ router.post('/:id/result', requireAdmin, [
       });
     }
 
-    if (match.status !== 'active') {
+    if (match.type !== 'private' || match.tournamentId) {
       return res.status(400).json({
         success: false,
-        message: 'Match is not active'
+        message: 'Only private standalone matches have an allow-list'
       });
     }
 
-    // Verify players are in match
-    const winnerIdStr = winnerId.toString();
-    const loserIdStr = loserId.toString();
-    const player1IdStr = match.player1Id?.toString();
-    const player2IdStr = match.player2Id?.toString();
-
-    if ((player1IdStr !== winnerIdStr && player1IdStr !== loserIdStr) ||
-        (player2IdStr !== winnerIdStr && player2IdStr !== loserIdStr)) {
+    const userIds = [...new Set(req.body.userIds.map(id => id.toString()))];
+    const existingUsers = await User.countDocuments({ _id: { $in: userIds } });
+    if (existingUsers !== userIds.length) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid players for this match'
+        message: 'One or more users were not found'
       });
     }
 
-    // Update match
-    match.status = 'completed';
-    match.winnerId = winnerId;
-    match.completedAt = new Date();
+    match.allowedUserIds = userIds;
     await match.save();
 
-    // Get winner's balance before prize
-    const winnerUser = await User.findById(winnerId);
-    const balanceBefore = winnerUser.coins;
-    const balanceAfter = balanceBefore + match.prize;
+    res.json({
+      success: true,
+      message: 'Allow-list updated',
+      match: transformMatchToDto(match.toObject(), Tournament, User, { isAdmin: true })
+    });
+  } catch (error) {
+    logger.error('Update match allow-list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
 
-    // Update player stats and award prize (combined operations for efficiency)
-    await User.findByIdAndUpdate(winnerId, { 
-      $inc: { wins: 1, coins: match.prize } 
+/**
+ * @swagger
+ * /api/matches/{id}/cancel:
+ *   post:
+ *     summary: Cancel match (Admin only)
+ *     description: |
+ *       Cancel an active match (e.g. the opponent never arrived) and refund every joined player's entry cost,
+ *       logged as match_refund transactions. Runs in a single database transaction.
+ *       Tournament matches can't be cancelled on their own; they follow their tournament.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Match ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Opponent never joined
+ *     responses:
+ *       200:
+ *         description: Match cancelled and players refunded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Match cancelled; 1 player(s) refunded"
+ *                 match:
+ *                   $ref: '#/components/schemas/Match'
+ *       400:
+ *         description: Match is not active (or disputed) or belongs to a tournament
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Match not found
+ */
+// Cancel match and refund joined players (admin only)
+router.post('/:id/cancel', requireAdmin, [
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
     });
-    await User.findByIdAndUpdate(loserId, { $inc: { losses: 1 } });
+  }
 
-    // Log transaction with balance tracking
-    await Transaction.create({
-      userId: winnerId,
-      type: 'match_win',
-      amount: match.prize,
-      description: `Prize for winning match: ${match.name}`,
-      balanceBefore: balanceBefore,
-      balanceAfter: balanceAfter,
-      matchId: match._id
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const reason = req.body.reason || 'Cancelled by admin';
+    let refunds = [];
+
+    await session.withTransaction(async () => {
+      const match = await Match.findById(id).session(session);
+      if (!match) {
+        throw new Error('Match not found');
+      }
+
+      if (match.tournamentId) {
+        throw new Error('Tournament matches are cancelled with their tournament');
+      }
+
+      // Disputed matches can be cancelled too, e.g. when neither report can be trusted
+      if (match.status !== 'active' && match.status !== 'disputed') {
+        throw new Error('Match is not active');
+      }
+
+      refunds = await cancelMatch(match, reason, { User, Transaction }, session);
+      await match.save({ session });
     });
 
+    const populatedMatch = await Match.findById(id)
+      .populate('player1Id')
+      .populate('player2Id')
+      .populate('tournamentId')
+      .populate('winnerId')
+      .lean();
+
     res.json({
       success: true,
-      message: 'Match result recorded successfully'
+      message: `Match cancelled; ${refunds.length} player(s) refunded`,
+      match: transformMatchToDto(populatedMatch, Tournament, User, { isAdmin: true })
     });
   } catch (error) {
-    logger.error('Record match result error:', error);
+    logger.error('Cancel match error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Match not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('not active') || errorMessage.includes('cancelled with their tournament')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Server error'
     });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/matches/{id}/report:
+ *   post:
+ *     summary: Report a match result (match players)
+ *     description: |
+ *       Each player of a started standalone match reports who won, with an optional final score
+ *       (single-game matches only). When both reports name the same winner (and the same score, if both
+ *       gave one) the match is completed and the prize paid. Conflicting reports put the match in the
+ *       disputed status for an admin to resolve; so does a missing report once the deadline set by the
+ *       first report (MATCH_REPORT_WINDOW_HOURS) has passed. A player can change their report until the
+ *       opponent has reported.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Match ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - winnerId
+ *             properties:
+ *               winnerId:
+ *                 type: string
+ *                 description: User ID of the winner (the reporting player or the opponent)
+ *               score:
+ *                 $ref: '#/components/schemas/MatchScore'
+ *     responses:
+ *       200:
+ *         description: Report saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Result reported; waiting for your opponent to confirm"
+ *                 status:
+ *                   type: string
+ *                   enum: [active, completed, disputed]
+ *                   description: Match status after the report
+ *                 match:
+ *                   $ref: '#/components/schemas/Match'
+ *       400:
+ *         description: Invalid winner or score, match not started, not active, or a tournament match
+ *       403:
+ *         description: Only the match's players can report its result
+ *       404:
+ *         description: Match not found
+ */
+// Report a match result (match players)
+router.post('/:id/report', [
+  body('winnerId').notEmpty().withMessage('Valid winner ID is required'),
+  body('score').optional({ nullable: true }).isObject().withMessage('Score must be an object')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const { winnerId, score } = req.body;
+    const userId = req.user.id;
+    let outcome = null;
+
+    await session.withTransaction(async () => {
+      outcome = null;
+
+      const match = await Match.findById(id).session(session);
+      if (!match) {
+        throw new Error('Match not found');
+      }
+
+      if (match.tournamentId) {
+        throw new Error('Tournament match results are recorded through the tournament bracket');
+      }
+
+      if (match.status !== 'active') {
+        throw new Error('Match is not active');
+      }
+
+      if (!match.player1Id || !match.player2Id) {
+        throw new Error('Match has not started yet');
+      }
+
+      const player1IdStr = match.player1Id.toString();
+      const player2IdStr = match.player2Id.toString();
+      if (userId !== player1IdStr && userId !== player2IdStr) {
+        throw new Error('Only the match players can report its result');
+      }
+
+      const winnerIdStr = winnerId.toString();
+      if (winnerIdStr !== player1IdStr && winnerIdStr !== player2IdStr) {
+        throw new Error('Invalid winner for this match');
+      }
+
+      // A series is reported as a whole; its game scores are left to the admin
+      if (score && match.bestOf > 1) {
+        throw new Error('Invalid score: series results are reported without a score');
+      }
+      if (score) {
+        const scoreError = getScoreError(score, {
+          winnerSide: winnerIdStr === player1IdStr ? 'player1' : 'player2',
+          targetPoints: match.targetPoints
+        });
+        if (scoreError) {
+          throw new Error(scoreError);
+        }
+      }
+
+      const report = addResultReport(match, {
+        playerId: userId,
+        winnerId: winnerIdStr === player1IdStr ? match.player1Id : match.player2Id,
+        score: score ? normalizeScore(score) : null
+      });
+      outcome = report.outcome;
+
+      if (outcome === 'agreed') {
+        await completeMatch(match, report, { User, Transaction }, session);
+      } else if (outcome === 'conflict') {
+        disputeMatch(match, 'Players reported different results');
+      } else if (!match.reportDeadline) {
+        // The opponent's clock starts with the first report (0 = no deadline)
+        const { reportWindowHours } = getMatchExpirySettings();
+        if (reportWindowHours > 0) {
+          match.reportDeadline = new Date(Date.now() + reportWindowHours * 60 * 60 * 1000);
+        }
+      }
+
+      await match.save({ session });
+    });
+
+    const populatedMatch = await Match.findById(id)
+      .populate('player1Id')
+      .populate('player2Id')
+      .populate('tournamentId')
+      .populate('winnerId')
+      .lean();
+
+    const messages = {
+      pending: 'Result reported; waiting for your opponent to confirm',
+      agreed: 'Both players reported the same result; match completed',
+      conflict: 'Reports do not match; the match is disputed and an admin will decide the result'
+    };
+
+    res.json({
+      success: true,
+      message: messages[outcome],
+      status: populatedMatch.status,
+      match: transformMatchToDto(populatedMatch, Tournament, User, { isAdmin: req.user.role === 'admin' })
+    });
+  } catch (error) {
+    logger.error('Report match result error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Match not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.startsWith('Only the match players')) {
+      return res.status(403).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('not active') || errorMessage.includes('not started') ||
+        errorMessage.includes('tournament bracket') || errorMessage.startsWith('Invalid')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/matches/{id}/result:
+ *   post:
+ *     summary: Record match result (Admin only)
+ *     description: |
+ *       Record the winner and loser of a match. Prize is automatically awarded to the winner. Only admins can record results;
+ *       this is also how a disputed match (conflicting or unconfirmed player reports) is settled.
+ *       An optional final score is checked against the winner and the match's points target (the winner must reach it, the loser must not).
+ *       For a best-of-N match each call records one game (with its optional score); the match is completed and the prize awarded
+ *       once a player has won the series. Runs in a single database transaction.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Match ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - winnerId
+ *               - loserId
+ *             properties:
+ *               winnerId:
+ *                 type: string
+ *                 description: User ID of the winner
+ *               loserId:
+ *                 type: string
+ *                 description: User ID of the loser
+ *               score:
+ *                 $ref: '#/components/schemas/MatchScore'
+ *     responses:
+ *       200:
+ *         description: Match result recorded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Match result recorded successfully"
+ *                 seriesComplete:
+ *                   type: boolean
+ *                   description: Best-of-N matches only. False while the series is still being played
+ *       400:
+ *         description: Invalid players, match not active, or tournament match
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Match not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+// Record match result (admin only)
+router.post('/:id/result', requireAdmin, [
+  body('winnerId').notEmpty().withMessage('Valid winner ID is required'),
+  body('loserId').notEmpty().withMessage('Valid loser ID is required'),
+  body('score').optional({ nullable: true }).isObject().withMessage('Score must be an object')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  // Same transaction as player reports, so a result can't be recorded (and paid) twice
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const { winnerId, loserId, score } = req.body;
+    let isSeries = false;
+    let game = null;
+
+    await session.withTransaction(async () => {
+      game = null;
+
+      const match = await Match.findById(id).session(session);
+      if (!match) {
+        throw new Error('Match not found');
+      }
+
+      // Bracket matches are recorded through their tournament, which advances the bracket
+      if (match.tournamentId) {
+        throw new Error('Tournament match results are recorded through the tournament bracket');
+      }
+
+      // Admins also settle disputed matches this way
+      if (match.status !== 'active' && match.status !== 'disputed') {
+        throw new Error('Match is not active');
+      }
+
+      // Verify players are in match
+      const winnerIdStr = winnerId.toString();
+      const loserIdStr = loserId.toString();
+      const player1IdStr = match.player1Id?.toString();
+      const player2IdStr = match.player2Id?.toString();
+
+      if ((player1IdStr !== winnerIdStr && player1IdStr !== loserIdStr) ||
+          (player2IdStr !== winnerIdStr && player2IdStr !== loserIdStr)) {
+        throw new Error('Invalid players for this match');
+      }
+
+      // The score is given from the player 1 / player 2 point of view
+      if (score) {
+        const scoreError = getScoreError(score, {
+          winnerSide: player1IdStr === winnerIdStr ? 'player1' : 'player2',
+          targetPoints: match.targetPoints
+        });
+        if (scoreError) {
+          throw new Error(scoreError);
+        }
+      }
+
+      // Best-of-N: the game goes on the series; the match is only completed once someone has won it
+      isSeries = match.bestOf > 1;
+      if (isSeries) {
+        game = addSeriesGame(match, { winnerId, score: score ? normalizeScore(score) : null });
+        if (!game.winnerId) {
+          await match.save({ session });
+          return;
+        }
+      }
+
+      // Complete the match and pay the prize (a series keeps its scores on the games)
+      await completeMatch(match, {
+        winnerId,
+        loserId,
+        score: score && !isSeries ? normalizeScore(score) : null
+      }, { User, Transaction }, session);
+      await match.save({ session });
+    });
+
+    if (game && !game.winnerId) {
+      return res.json({
+        success: true,
+        message: `Game ${game.gameNumber} recorded. Series ${formatSeriesWins(game.wins)}`,
+        seriesComplete: false
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Match result recorded successfully',
+      ...(isSeries ? { seriesComplete: true } : {})
+    });
+  } catch (error) {
+    logger.error('Record match result error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Match not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('not active') ||
+        errorMessage.includes('tournament bracket') ||
+        errorMessage.startsWith('Invalid')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/matches/{id}/correct-result:
+ *   post:
+ *     summary: Correct or reverse a recorded match result (Admin only)
+ *     description: |
+ *       Fix a completed standalone match result in a single database transaction.
+ *       correct: sets a new winner and/or score. If the winner changes, the prize is taken back from the old winner
+ *       (match_win_reversal, capped at their balance; the house covers the rest as house_prize_shortfall), the win and
+ *       loss move between the players and the new winner is paid the prize (match_win). Best-of-N matches can't be corrected this way; reverse them and record the series again.
+ *       reverse: takes the prize back from the winner, undoes both players' win/loss counters and reopens the match with no result.
+ *       Every correction is kept on the match (resultCorrections). Not allowed while a player's dispute of the result is open.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Match ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - action
+ *               - reason
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [correct, reverse]
+ *               winnerId:
+ *                 type: string
+ *                 description: User ID of the correct winner (required for correct)
+ *               score:
+ *                 $ref: '#/components/schemas/MatchScore'
+ *               reason:
+ *                 type: string
+ *                 example: Winner recorded on the wrong player
+ *     responses:
+ *       200:
+ *         description: Result corrected or reversed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Match result corrected"
+ *                 match:
+ *                   $ref: '#/components/schemas/Match'
+ *       400:
+ *         description: Invalid winner or score, match not completed, tournament or best-of-N match, open dispute, or nothing to correct
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Match not found
+ */
+// Correct or reverse a recorded match result (admin only)
+router.post('/:id/correct-result', requireAdmin, [
+  body('action').isIn(['correct', 'reverse']).withMessage('Action must be correct or reverse'),
+  body('winnerId').if(body('action').equals('correct')).notEmpty().withMessage('Valid winner ID is required'),
+  body('score').optional({ nullable: true }).isObject().withMessage('Score must be an object'),
+  body('reason').trim().isLength({ min: 1, max: 500 }).withMessage('Reason is required (at most 500 characters)')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const { action, winnerId, score, reason } = req.body;
+
+    await session.withTransaction(async () => {
+      const match = await Match.findById(id).session(session);
+      if (!match) {
+        throw new Error('Match not found');
+      }
+
+      if (action === 'reverse') {
+        await reverseMatchResult(match, { reason, adminId: req.user.id }, { User, Transaction }, session);
+      } else {
+        const winnerIdStr = winnerId.toString();
+        const player1IdStr = match.player1Id?.toString();
+        if (winnerIdStr !== player1IdStr && winnerIdStr !== match.player2Id?.toString()) {
+          throw new Error('Invalid winner for this match');
+        }
+
+        if (score) {
+          const scoreError = getScoreError(score, {
+            winnerSide: player1IdStr === winnerIdStr ? 'player1' : 'player2',
+            targetPoints: match.targetPoints
+          });
+          if (scoreError) {
+            throw new Error(scoreError);
+          }
+        }
+
+        await correctMatchResult(match, {
+          winnerId: match.player1Id.toString() === winnerIdStr ? match.player1Id : match.player2Id,
+          score: score ? normalizeScore(score) : null,
+          reason,
+          adminId: req.user.id
+        }, { User, Transaction }, session);
+      }
+
+      await match.save({ session });
+    });
+
+    const populatedMatch = await Match.findById(id)
+      .populate('player1Id')
+      .populate('player2Id')
+      .populate('tournamentId')
+      .populate('winnerId')
+      .lean();
+
+    res.json({
+      success: true,
+      message: action === 'reverse' ? 'Match result reversed' : 'Match result corrected',
+      match: transformMatchToDto(populatedMatch, Tournament, User, { isAdmin: true })
+    });
+  } catch (error) {
+    logger.error('Correct match result error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Match not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    // Invalid winner or score, or a result that can't be corrected
+    if (errorMessage.startsWith('Invalid') ||
+        errorMessage.includes('cannot be corrected') ||
+        errorMessage.includes('can be corrected') ||
+        errorMessage.includes('open dispute') ||
+        errorMessage.includes('reversed and recorded again') ||
+        errorMessage.includes('same as the recorded one')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
   }
 });
 
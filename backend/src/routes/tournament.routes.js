@@ -5,13 +5,96 @@ import Tournament from '../models/Tournament.js';
 import User from '../models/User.js';
 import Match from '../models/Match.js';
 import Transaction from '../models/Transaction.js';
-import { generateBracket, progressToNextRound } from '../utils/bracketGenerator.js';
+import TournamentActivity from '../models/TournamentActivity.js';
+import {
+  getBracketRounds,
+  MIN_BRACKET_PLAYERS,
+  MAX_BRACKET_PLAYERS,
+  TOURNAMENT_FORMATS,
+  BRACKET_SIDES
+} from '../utils/bracketGenerator.js';
+import { isLeagueFormat, isLeagueComplete, TIEBREAKERS } from '../utils/leagueGenerator.js';
+import { SEEDING_MODES } from '../utils/seeding.js';
+import {
+  syncBracketMatches,
+  startTournament,
+  cancelTournament,
+  completeTournament,
+  recordBracketMatch,
+  resolveDisqualifiedMatches,
+  isDisqualified,
+  withdrawParticipant,
+  promoteFromWaitlist,
+  adjustEntryCost,
+  getRegistrationDeadline,
+  startsWhenFull,
+  getWithdrawalCutoff,
+  getPayoutStructure,
+  getHousePercentage,
+  getPrizePoolBreakdown,
+  getTournamentSettingsError,
+  getDefaultMinPlayers,
+  isTeamTournament,
+  getEntryShare,
+  isTeamComplete,
+  getEntrantIds,
+  getEntrantMemberIds,
+  findUserTeam,
+  addTeamMember,
+  getEntrantPlayerId,
+  isBracketMatch
+} from '../utils/tournamentService.js';
 import { authenticate, requireAdmin } from '../middleware/auth.middleware.js';
 import { logger } from '../utils/logger.js';
-import { transformTournamentToDto, transformUserToDto, transformMatchToDto } from '../utils/dtoTransformers.js';
+import { sendWaitlistPromotionEmail } from '../utils/emailService.js';
+import { generateInviteCode, canJoinPrivateEvent } from '../utils/inviteCodes.js';
+import {
+  DEFINITION_VERSION,
+  getTournamentDefinition,
+  exportTournamentDefinition,
+  createTournamentFromDefinition
+} from '../utils/tournamentDefinition.js';
+import { logTournamentActivity, logTournamentCompletion } from '../utils/tournamentActivity.js';
+import { TARGET_POINTS, DEFAULT_TARGET_POINTS, getScoreError, normalizeScore, formatScore } from '../utils/matchScore.js';
+import { SERIES_LENGTHS, DEFAULT_SERIES_LENGTH, formatSeriesWins } from '../utils/matchSeries.js';
+import { transformTournamentToDto, transformUserToDto, transformMatchToDto, transformTournamentActivityToDto } from '../utils/dtoTransformers.js';
 
 const router = express.Router();
 
+/**
+ * Bracket match label for the timeline, e.g. "Losers Round 2, match 1"
+ */
+const getBracketMatchLabel = (tournament, side, roundNumber, matchIndex) => {
+  const roundName = getBracketRounds(tournament.bracket, side).find(r => r.roundNumber === roundNumber)?.name || `Round ${roundNumber}`;
+  return `${roundName}, match ${matchIndex + 1}`;
+};
+
+/**
+ * Add waitlist promotions to the tournament timeline (automatic, so no actor)
+ */
+const logPromotedPlayers = async (tournament, promoted, session) => {
+  for (const user of promoted) {
+    await logTournamentActivity(tournament, {
+      type: 'player_promoted',
+      playerId: user._id,
+      description: `Promoted from the waitlist and charged the ${tournament.entryCost} coin entry fee`
+    }, TournamentActivity, session);
+  }
+};
+
+/**
+ * Email players promoted from the waitlist (after the transaction has committed)
+ * Email failures are logged by the email service and don't affect the withdrawal.
+ */
+const notifyPromotedPlayers = (promoted, tournamentName, entryCost) => {
+  for (const user of promoted) {
+    logger.info(`${user.name} promoted from the waitlist of tournament "${tournamentName}"`);
+    if (user.email) {
+      sendWaitlistPromotionEmail(user.email, tournamentName, entryCost, user.name);
+    }
+  }
+};
+
 // All routes require authentication
 router.use(authenticate);
 
@@ -68,7 +151,7 @@ router.get('/', async (req, res) => {
 
     // Transform to TournamentDto format
     const formattedTournaments = await Promise.all(
-      tournaments.map(tournament => transformTournamentToDto(tournament, Match, User))
+      tournaments.map(tournament => transformTournamentToDto(tournament, Match, User, { isAdmin: req.user.role === 'admin' }))
     );
 
     res.json({
@@ -132,6 +215,7 @@ router.get('/export', requireAdmin, async (req, res) => {
     const tournaments = await Tournament.find(query)
       .populate('participants', 'name email')
       .populate('winnerId', 'name email')
+      .populate('thirdPlaceId', 'name email')
       .sort({ createdAt: -1 })
       .lean();
 
@@ -141,10 +225,29 @@ router.get('/export', requireAdmin, async (req, res) => {
         _id: tournament._id.toString(),
         name: tournament.name,
         type: tournament.type,
+        format: tournament.format || 'single_elimination',
+        targetPoints: tournament.targetPoints || DEFAULT_TARGET_POINTS,
+        bestOf: tournament.bestOf || DEFAULT_SERIES_LENGTH,
+        finalBestOf: tournament.finalBestOf || tournament.bestOf || DEFAULT_SERIES_LENGTH,
         maxPlayers: tournament.maxPlayers,
         entryCost: tournament.entryCost,
-        prizePool: tournament.prizePool,
+        prizePoolMode: tournament.prizePoolMode || 'fixed',
+        prizePool: getPrizePoolBreakdown(tournament).prizePool,
+        rakePercentage: tournament.rakePercentage || 0,
+        rakeAmount: tournament.rakeAmount ?? null,
+        guaranteedPrizePool: tournament.guaranteedPrizePool || 0,
+        guaranteeAmount: tournament.guaranteeAmount ?? null,
         awardPercentage: tournament.awardPercentage || 80,
+        payoutStructure: getPayoutStructure(tournament),
+        housePercentage: getHousePercentage(getPayoutStructure(tournament)),
+        payouts: (tournament.payouts || []).map(p => ({
+          place: p.place,
+          userId: p.userId?.toString() || null,
+          percentage: p.percentage,
+          amount: p.amount
+        })),
+        houseAmount: tournament.houseAmount ?? null,
+        seeding: tournament.seeding || 'join_order',
         startDate: tournament.startDate || null,
         status: tournament.status,
         participantCount: tournament.participants?.length || 0,
@@ -156,6 +259,9 @@ router.get('/export', requireAdmin, async (req, res) => {
         currentRound: tournament.currentRound,
         winnerId: tournament.winnerId?._id?.toString() || tournament.winnerId?.toString() || null,
         winnerName: tournament.winnerId?.name || tournament.winnerId?.username || null,
+        thirdPlaceMatch: tournament.thirdPlaceMatch || false,
+        thirdPlaceId: tournament.thirdPlaceId?._id?.toString() || tournament.thirdPlaceId?.toString() || null,
+        thirdPlaceName: tournament.thirdPlaceId?.name || tournament.thirdPlaceId?.username || null,
         completedAt: tournament.completedAt || null,
         cancelledAt: tournament.cancelledAt || null,
         cancellationReason: tournament.cancellationReason || null,
@@ -172,16 +278,22 @@ router.get('/export', requireAdmin, async (req, res) => {
         'ID',
         'Name',
         'Type',
+        'Format',
         'Max Players',
         'Entry Cost',
+        'Prize Pool Mode',
         'Prize Pool',
+        'Rake Amount',
         'Award Percentage',
+        'Payout Structure',
+        'House Amount',
         'Start Date',
         'Status',
         'Participant Count',
         'Participants',
         'Current Round',
         'Winner',
+        'Third Place',
         'Completed At',
         'Cancelled At',
         'Cancellation Reason',
@@ -197,16 +309,22 @@ router.get('/export', requireAdmin, async (req, res) => {
           tournament._id.toString(),
           `"${tournament.name || ''}"`,
           tournament.type || '',
+          tournament.format || 'single_elimination',
           tournament.maxPlayers || 0,
           tournament.entryCost || 0,
-          tournament.prizePool || 0,
+          tournament.prizePoolMode || 'fixed',
+          getPrizePoolBreakdown(tournament).prizePool,
+          tournament.rakeAmount ?? '',
           tournament.awardPercentage || 80,
+          `"${getPayoutStructure(tournament).join('/')}"`,
+          tournament.houseAmount ?? '',
           tournament.startDate ? new Date(tournament.startDate).toISOString() : '',
           tournament.status || '',
           tournament.participants?.length || 0,
           `"${participants}"`,
           tournament.currentRound || 0,
           tournament.winnerId?.name || tournament.winnerId?.username || tournament.winnerId?.email || '',
+          tournament.thirdPlaceId?.name || tournament.thirdPlaceId?.username || tournament.thirdPlaceId?.email || '',
           tournament.completedAt ? new Date(tournament.completedAt).toISOString() : '',
           tournament.cancelledAt ? new Date(tournament.cancelledAt).toISOString() : '',
           `"${tournament.cancellationReason || ''}"`,
@@ -280,7 +398,7 @@ router.get('/:id', async (req, res) => {
     }
 
     // Transform to TournamentDto format
-    const tournamentDto = await transformTournamentToDto(tournament, Match, User);
+    const tournamentDto = await transformTournamentToDto(tournament, Match, User, { isAdmin: req.user.role === 'admin' });
 
     res.json({
       success: true,
@@ -295,6 +413,88 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/tournaments/{id}/activity:
+ *   get:
+ *     summary: Get tournament activity timeline
+ *     description: |
+ *       Append-only history of the tournament in chronological order: creation and edits, players joining,
+ *       leaving or being removed, bracket generation, match results, forfeits and disqualifications,
+ *       award percentage changes, prizes paid and cancellation, each with who did it and when.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Only return events of this type (e.g. match_result)
+ *     responses:
+ *       200:
+ *         description: Tournament activity retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 activity:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TournamentActivity'
+ *       404:
+ *         description: Tournament not found
+ */
+/**
+ * Get tournament activity timeline (oldest first)
+ */
+router.get('/:id/activity', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { type } = req.query;
+
+    const tournament = await Tournament.exists({ _id: id });
+    if (!tournament) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tournament not found'
+      });
+    }
+
+    const query = { tournamentId: id };
+    if (type) {
+      query.type = type;
+    }
+
+    const activity = await TournamentActivity.find(query)
+      .populate('actorId', 'name role')
+      .populate('playerId', 'name')
+      .sort({ createdAt: 1, _id: 1 })
+      .lean();
+
+    res.json({
+      success: true,
+      activity: activity.map(entry => transformTournamentActivityToDto(entry))
+    });
+  } catch (error) {
+    logger.error('Get tournament activity error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/tournaments/{id}/players:
@@ -355,10 +555,80 @@ router.get('/:id/players', async (req, res) => {
 
 /**
  * @swagger
- * /api/tournaments:
+ * /api/tournaments/{id}/definition:
+ *   get:
+ *     summary: Export tournament definition (Admin only)
+ *     description: |
+ *       Download the tournament's configuration as JSON, to import it again (e.g. in another environment).
+ *       Participants, results, dates, invite codes and allow-lists are not included; manual seeding is exported as join_order.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     responses:
+ *       200:
+ *         description: Tournament definition file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 version:
+ *                   type: integer
+ *                   example: 1
+ *                 exportedAt:
+ *                   type: string
+ *                   format: date-time
+ *                 tournament:
+ *                   type: object
+ *                   description: Configuration fields (name, type, format, maxPlayers, entryCost, prize pool settings, payoutStructure, ...)
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament not found
+ */
+/**
+ * Export tournament definition (Admin only)
+ * Configuration only, as a JSON attachment
+ */
+router.get('/:id/definition', requireAdmin, async (req, res) => {
+  try {
+    const tournament = await Tournament.findById(req.params.id).lean();
+    if (!tournament) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tournament not found'
+      });
+    }
+
+    const fileName = tournament.name.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '').toLowerCase() || 'tournament';
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename=${fileName}_definition.json`);
+    res.json(exportTournamentDefinition(tournament));
+  } catch (error) {
+    logger.error('Export tournament definition error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/import:
  *   post:
- *     summary: Create tournament (Admin only)
- *     description: Create a new tournament. Validates duplicate tournament names.
+ *     summary: Import tournament definition (Admin only)
+ *     description: |
+ *       Create a tournament in registration from an exported definition. The body is the exported file
+ *       (or just its `tournament` object). Unknown fields are ignored and the definition is validated against
+ *       the Tournament schema. If the name is taken, a numbered suffix is added (e.g. "Spring Cup (2)").
  *     tags: [Tournaments]
  *     security:
  *       - bearerAuth: []
@@ -368,106 +638,55 @@ router.get('/:id/players', async (req, res) => {
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - name
- *               - type
- *               - maxPlayers
- *               - entryCost
- *               - prizePool
  *             properties:
- *               name:
- *                 type: string
- *                 minLength: 1
- *                 maxLength: 255
- *                 example: Spring Championship
- *               type:
- *                 type: string
- *                 enum: [public, private]
- *                 example: public
- *               maxPlayers:
- *                 type: integer
- *                 enum: [4, 8]
- *                 example: 8
- *               entryCost:
+ *               version:
  *                 type: integer
- *                 minimum: 1
- *                 example: 100
- *               prizePool:
- *                 type: integer
- *                 minimum: 1
- *                 example: 800
- *               startDate:
- *                 type: string
- *                 format: date-time
- *                 example: 2024-03-15T10:00:00Z
+ *                 example: 1
+ *               tournament:
+ *                 type: object
  *     responses:
  *       201:
- *         description: Tournament created successfully
+ *         description: Tournament created from the definition
  *       400:
- *         description: Validation error or duplicate tournament name
+ *         description: Invalid definition or unsupported version
  *       403:
  *         description: Admin access required
  */
 /**
- * Create tournament (Admin only)
- * Validates duplicate tournament names
+ * Import tournament definition (Admin only)
+ * Name collisions get a numbered suffix instead of failing
  */
-router.post('/', requireAdmin, [
-  body('name').trim().isLength({ min: 1, max: 255 }).withMessage('Name is required'),
-  body('description').optional().trim(),
-  body('type').isIn(['public', 'private']).withMessage('Type must be public or private'),
-  body('maxPlayers').isIn([4, 8]).withMessage('Max players must be 4 or 8'),
-  body('entryCost').isInt({ min: 1 }).withMessage('Entry cost must be a positive integer'),
-  body('prizePool').isInt({ min: 1 }).withMessage('Prize pool must be a positive integer'),
-  body('startDate').optional().isISO8601().withMessage('Invalid date format'),
-  body('endDate').optional().isISO8601().withMessage('Invalid date format')
-], async (req, res) => {
+router.post('/import', requireAdmin, async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({
-        success: false,
-        message: 'Validation error',
-        errors: errors.array()
-      });
-    }
-
-    const { name, description, type, maxPlayers, entryCost, prizePool, startDate, endDate } = req.body;
-
-    // Check for duplicate tournament name (server-side validation)
-    const existingTournament = await Tournament.findOne({ name: name.trim() });
-    if (existingTournament) {
+    const body = req.body || {};
+    if (body.version !== undefined && body.version > DEFINITION_VERSION) {
       return res.status(400).json({
         success: false,
-        message: 'Tournament with this name already exists'
+        message: `Unsupported definition version ${body.version}`
       });
     }
 
-    const tournament = await Tournament.create({
-      name: name.trim(),
-      description: description || '',
-      type,
-      maxPlayers: parseInt(maxPlayers),
-      entryCost: parseInt(entryCost),
-      prizePool: parseInt(prizePool),
-      startDate: startDate || null,
-      endDate: endDate || null,
-      status: 'registration'
-    });
+    const { tournament, renamed } = await createTournamentFromDefinition(body.tournament || body, { Tournament });
+    await logTournamentActivity(tournament, {
+      type: 'created',
+      actorId: req.user.id,
+      description: 'Tournament created from an imported definition',
+      meta: { source: 'import' }
+    }, TournamentActivity);
 
-    // Transform to TournamentDto format
-    const tournamentDto = await transformTournamentToDto(tournament.toObject(), Match, User);
+    const tournamentDto = await transformTournamentToDto(tournament.toObject(), Match, User, { isAdmin: true });
 
     res.status(201).json({
       success: true,
+      message: renamed ? `Tournament imported as "${tournament.name}" (name already taken)` : 'Tournament imported successfully',
       data: tournamentDto
     });
   } catch (error) {
-    logger.error('Create tournament error:', error);
-    if (error.code === 11000) {
+    logger.error('Import tournament definition error:', error);
+    if (error.message?.startsWith('Invalid tournament definition') || error.code === 11000) {
       return res.status(400).json({
         success: false,
-        message: 'Tournament with this name already exists'
+        message: error.code === 11000 ? 'Tournament with this name already exists' : error.message
       });
     }
     res.status(500).json({
@@ -479,10 +698,12 @@ router.post('/', requireAdmin, [
 
 /**
  * @swagger
- * /api/tournaments/{id}/join:
+ * /api/tournaments/{id}/duplicate:
  *   post:
- *     summary: Join tournament
- *     description: Register the current user for a tournament. Validates sufficient coins and prevents duplicate registration.
+ *     summary: Duplicate tournament (Admin only)
+ *     description: |
+ *       Create a new tournament in registration with the same configuration (see the definition export).
+ *       Without a name, the copy is named after the original with a numbered suffix (e.g. "Spring Cup (2)").
  *     tags: [Tournaments]
  *     security:
  *       - bearerAuth: []
@@ -493,138 +714,2730 @@ router.post('/', requireAdmin, [
  *         schema:
  *           type: string
  *         description: Tournament ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Spring Championship 2027
  *     responses:
- *       200:
- *         description: Successfully joined tournament
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 ok:
- *                   type: boolean
- *                   example: true
- *                 coins:
- *                   type: integer
- *                   description: Remaining coins after joining tournament
- *                   example: 900
+ *       201:
+ *         description: Tournament duplicated
  *       400:
- *         description: Tournament full, insufficient coins, or already registered
+ *         description: Validation error
+ *       403:
+ *         description: Admin access required
  *       404:
  *         description: Tournament not found
  */
 /**
- * Join tournament
- * Validates sufficient coins and prevents duplicate registration
- * Uses MongoDB transactions to prevent race conditions
+ * Duplicate tournament (Admin only)
  */
-router.post('/:id/join', async (req, res) => {
-  const session = await mongoose.startSession();
-  
+router.post('/:id/duplicate', requireAdmin, [
+  body('name').optional().trim().isLength({ min: 1, max: 255 }).withMessage('Name must be between 1 and 255 characters')
+], async (req, res) => {
   try {
-    const { id } = req.params;
-    const userId = req.user.id;
-    
-    await session.withTransaction(async () => {
-
-      // Get tournament with session for transaction
-      const tournament = await Tournament.findById(id).session(session);
-      if (!tournament) {
-        throw new Error('Tournament not found');
-      }
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
 
-      // Validation: Check tournament status
-      if (tournament.status !== 'registration') {
-        throw new Error('Tournament is not accepting registrations');
-      }
+    const original = await Tournament.findById(req.params.id).lean();
+    if (!original) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tournament not found'
+      });
+    }
 
-      // Validation: Check if tournament is full (atomic check)
-      if (tournament.participants.length >= tournament.maxPlayers) {
-        throw new Error('Tournament is full');
-      }
+    const { tournament } = await createTournamentFromDefinition(
+      { ...getTournamentDefinition(original), name: req.body.name || original.name },
+      { Tournament }
+    );
+    await logTournamentActivity(tournament, {
+      type: 'created',
+      actorId: req.user.id,
+      description: `Tournament duplicated from ${original.name}`,
+      meta: { source: 'duplicate', originalTournamentId: original._id.toString() }
+    }, TournamentActivity);
 
-      // Validation: Check if user is already registered
-      const userIdObj = typeof userId === 'string' ? userId : userId.toString();
-      if (tournament.participants.some(p => p.toString() === userIdObj)) {
-        throw new Error('You are already registered for this tournament');
-      }
+    const tournamentDto = await transformTournamentToDto(tournament.toObject(), Match, User, { isAdmin: true });
 
-      // Validation: Check user has sufficient coins (server-side validation)
+    res.status(201).json({
+      success: true,
+      message: `Tournament duplicated as "${tournament.name}"`,
+      data: tournamentDto
+    });
+  } catch (error) {
+    logger.error('Duplicate tournament error:', error);
+    if (error.message?.startsWith('Invalid tournament definition') || error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: error.code === 11000 ? 'Tournament with this name already exists' : error.message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments:
+ *   post:
+ *     summary: Create tournament (Admin only)
+ *     description: Create a new tournament. Validates duplicate tournament names.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - type
+ *               - maxPlayers
+ *               - entryCost
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 minLength: 1
+ *                 maxLength: 255
+ *                 example: Spring Championship
+ *               type:
+ *                 type: string
+ *                 enum: [public, private]
+ *                 example: public
+ *               maxPlayers:
+ *                 type: integer
+ *                 minimum: 2
+ *                 maximum: 64
+ *                 description: Any field size; non power-of-two fields get first-round byes. Counts teams in team tournaments
+ *                 example: 12
+ *               teamSize:
+ *                 type: integer
+ *                 enum: [1, 2, 3]
+ *                 default: 1
+ *                 description: Players per team. 2 or 3 makes a fixed-partnership (2v2 / 3v3) tournament that players enter as named teams
+ *                 example: 2
+ *               targetPoints:
+ *                 type: integer
+ *                 enum: [15, 30]
+ *                 default: 30
+ *                 description: Points needed to win each match
+ *               bestOf:
+ *                 type: integer
+ *                 enum: [1, 3, 5]
+ *                 default: 1
+ *                 description: Series length of bracket matches (best of N games)
+ *               finalBestOf:
+ *                 type: integer
+ *                 enum: [1, 3, 5]
+ *                 description: Series length of the final (single elimination) or grand final (double elimination). Defaults to bestOf
+ *                 example: 3
+ *               entryCost:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Per player; in team tournaments it prices the whole team and each member pays an equal share (rounded up to a whole coin) when joining
+ *                 example: 100
+ *               prizePool:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Required in fixed mode; ignored in entry-fee mode
+ *                 example: 800
+ *               prizePoolMode:
+ *                 type: string
+ *                 enum: [fixed, entry_fees]
+ *                 default: fixed
+ *                 description: fixed pays prizePool as entered; entry_fees pays the entry fees actually collected minus the rake
+ *               rakePercentage:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 default: 0
+ *                 description: Entry-fee mode only. Share of the collected fees kept by the house (logged as a house_rake transaction)
+ *                 example: 10
+ *               guaranteedPrizePool:
+ *                 type: integer
+ *                 minimum: 0
+ *                 default: 0
+ *                 description: Entry-fee mode only. Minimum prize pool; the house covers any shortfall (logged as a house_guarantee transaction)
+ *                 example: 500
+ *               payoutStructure:
+ *                 type: array
+ *                 items:
+ *                   type: number
+ *                   minimum: 0
+ *                   maximum: 100
+ *                 description: Prize percentage per finishing place, 1st place first. Must total 100 or less; the rest is the house share. Defaults to 80% to the champion
+ *                 example: [60, 25, 10, 5]
+ *               format:
+ *                 type: string
+ *                 enum: [single_elimination, double_elimination, round_robin, swiss]
+ *                 default: single_elimination
+ *                 example: double_elimination
+ *               grandFinalReset:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Double elimination only. Play a reset match if the losers-bracket champion wins the grand final
+ *               thirdPlaceMatch:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Single elimination only (4+ players). Semi-final losers play for third place alongside the final
+ *               swissRounds:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Swiss only. Number of rounds (at most maxPlayers - 1). Defaults to ceil(log2(maxPlayers))
+ *                 example: 4
+ *               tiebreakers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [head_to_head, buchholz, points_difference]
+ *                 description: Round robin / Swiss only. Standings tiebreakers, applied in order after points
+ *                 example: [head_to_head, buchholz, points_difference]
+ *               seeding:
+ *                 type: string
+ *                 enum: [random, join_order, rating]
+ *                 default: join_order
+ *                 description: How players are seeded into the bracket (rating uses win rate from wins/losses)
+ *                 example: rating
+ *               minPlayers:
+ *                 type: integer
+ *                 minimum: 2
+ *                 default: 2
+ *                 description: Players needed to start when registration closes before the tournament fills (at least 3 for double elimination)
+ *                 example: 6
+ *               registrationDeadline:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When registration closes. Defaults to startDate. At the deadline the tournament starts with the registered players if minPlayers is met, otherwise it is cancelled and refunded
+ *                 example: 2024-03-15T09:00:00Z
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 example: 2024-03-15T10:00:00Z
+ *               withdrawalCutoffMinutes:
+ *                 type: integer
+ *                 minimum: 0
+ *                 default: 60
+ *                 description: Players can withdraw with a refund until this many minutes before startDate
+ *                 example: 60
+ *               allowedUserIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Private only. Players who may join without the invite code (one is generated automatically)
+ *     responses:
+ *       201:
+ *         description: Tournament created successfully
+ *       400:
+ *         description: Validation error or duplicate tournament name
+ *       403:
+ *         description: Admin access required
+ */
+/**
+ * Create tournament (Admin only)
+ * Validates duplicate tournament names
+ */
+router.post('/', requireAdmin, [
+  body('name').trim().isLength({ min: 1, max: 255 }).withMessage('Name is required'),
+  body('description').optional().trim(),
+  body('type').isIn(['public', 'private']).withMessage('Type must be public or private'),
+  body('maxPlayers').isInt({ min: MIN_BRACKET_PLAYERS, max: MAX_BRACKET_PLAYERS }).withMessage(`Max players must be between ${MIN_BRACKET_PLAYERS} and ${MAX_BRACKET_PLAYERS}`),
+  body('teamSize').optional().isIn([1, 2, 3, '1', '2', '3']).withMessage('Team size must be 1, 2 or 3'),
+  body('targetPoints').optional().isIn(TARGET_POINTS).withMessage('Target points must be 15 or 30'),
+  body('bestOf').optional().isIn(SERIES_LENGTHS).withMessage('Series length must be 1, 3 or 5'),
+  body('finalBestOf').optional({ nullable: true }).isIn(SERIES_LENGTHS).withMessage('Final series length must be 1, 3 or 5'),
+  body('entryCost').isInt({ min: 1 }).withMessage('Entry cost must be a positive integer'),
+  body('prizePool').if(body('prizePoolMode').not().equals('entry_fees')).isInt({ min: 1 }).withMessage('Prize pool must be a positive integer'),
+  body('prizePoolMode').optional().isIn(['fixed', 'entry_fees']).withMessage('Prize pool mode must be fixed or entry_fees'),
+  body('rakePercentage').optional().isFloat({ min: 0, max: 100 }).withMessage('Rake must be between 0 and 100 percent'),
+  body('guaranteedPrizePool').optional().isInt({ min: 0 }).withMessage('Guaranteed prize pool must be a non-negative integer'),
+  body('payoutStructure').optional().isArray({ min: 1 }).withMessage('Payout structure must be a non-empty array'),
+  body('payoutStructure.*').isFloat({ min: 0, max: 100 }).withMessage('Payout percentages must be between 0 and 100'),
+  body('format').optional().isIn(TOURNAMENT_FORMATS).withMessage('Format must be single_elimination, double_elimination, round_robin or swiss'),
+  body('grandFinalReset').optional().isBoolean().withMessage('Grand final reset must be a boolean'),
+  body('thirdPlaceMatch').optional().isBoolean().withMessage('Third-place match must be a boolean'),
+  body('swissRounds').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Swiss rounds must be a positive integer'),
+  body('tiebreakers').optional().isArray().withMessage('Tiebreakers must be an array'),
+  body('tiebreakers.*').isIn(TIEBREAKERS).withMessage('Tiebreakers must be head_to_head, buchholz or points_difference'),
+  body('seeding').optional().isIn(SEEDING_MODES.filter(mode => mode !== 'manual')).withMessage('Seeding must be random, join_order or rating'),
+  body('minPlayers').optional({ nullable: true }).isInt({ min: MIN_BRACKET_PLAYERS, max: MAX_BRACKET_PLAYERS }).withMessage(`Min players must be between ${MIN_BRACKET_PLAYERS} and ${MAX_BRACKET_PLAYERS}`),
+  body('registrationDeadline').optional({ nullable: true }).isISO8601().withMessage('Invalid date format'),
+  body('startDate').optional().isISO8601().withMessage('Invalid date format'),
+  body('endDate').optional().isISO8601().withMessage('Invalid date format'),
+  body('withdrawalCutoffMinutes').optional().isInt({ min: 0 }).withMessage('Withdrawal cutoff must be a non-negative number of minutes'),
+  body('allowedUserIds').optional().isArray().withMessage('Allowed users must be an array'),
+  body('allowedUserIds.*').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Each allowed user must be a valid user ID');
+    }
+    return true;
+  })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { name, description, type, maxPlayers, teamSize, targetPoints, bestOf, finalBestOf, entryCost, prizePool, prizePoolMode, rakePercentage, guaranteedPrizePool, payoutStructure, format, grandFinalReset, thirdPlaceMatch, swissRounds, tiebreakers, seeding, minPlayers, registrationDeadline, startDate, endDate, withdrawalCutoffMinutes, allowedUserIds } = req.body;
+    const hasThirdPlaceMatch = thirdPlaceMatch === true || thirdPlaceMatch === 'true';
+
+    const settingsError = getTournamentSettingsError({ format, maxPlayers, minPlayers, payoutStructure, thirdPlaceMatch, swissRounds });
+    if (settingsError) {
+      return res.status(400).json({
+        success: false,
+        message: settingsError
+      });
+    }
+
+    if (registrationDeadline && startDate && new Date(registrationDeadline) > new Date(startDate)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Registration deadline must be before the start date'
+      });
+    }
+
+    // Check for duplicate tournament name (server-side validation)
+    const existingTournament = await Tournament.findOne({ name: name.trim() });
+    if (existingTournament) {
+      return res.status(400).json({
+        success: false,
+        message: 'Tournament with this name already exists'
+      });
+    }
+
+    const tournament = await Tournament.create({
+      name: name.trim(),
+      description: description || '',
+      type,
+      maxPlayers: parseInt(maxPlayers),
+      teamSize: teamSize ? parseInt(teamSize) : 1,
+      targetPoints: targetPoints ? parseInt(targetPoints) : DEFAULT_TARGET_POINTS,
+      bestOf: bestOf ? parseInt(bestOf) : DEFAULT_SERIES_LENGTH,
+      finalBestOf: finalBestOf ? parseInt(finalBestOf) : null,
+      entryCost: parseInt(entryCost),
+      // Entry-fee pools are computed from the fees collected; prizePool is set when prizes are paid
+      ...(prizePoolMode === 'entry_fees' ? {
+        prizePoolMode,
+        prizePool: 0,
+        rakePercentage: rakePercentage !== undefined ? parseFloat(rakePercentage) : 0,
+        guaranteedPrizePool: guaranteedPrizePool !== undefined ? parseInt(guaranteedPrizePool) : 0
+      } : {
+        prizePoolMode: 'fixed',
+        prizePool: parseInt(prizePool)
+      }),
+      ...(payoutStructure ? {
+        payoutStructure: payoutStructure.map(percentage => parseFloat(percentage)),
+        awardPercentage: parseFloat(payoutStructure[0])
+      } : {}),
+      format: format || 'single_elimination',
+      grandFinalReset: grandFinalReset !== false && grandFinalReset !== 'false',
+      thirdPlaceMatch: hasThirdPlaceMatch,
+      swissRounds: format === 'swiss' && swissRounds ? parseInt(swissRounds) : null,
+      ...(tiebreakers?.length ? { tiebreakers: [...new Set(tiebreakers)] } : {}),
+      seeding: seeding || 'join_order',
+      minPlayers: minPlayers ? parseInt(minPlayers) : getDefaultMinPlayers(format),
+      registrationDeadline: registrationDeadline || null,
+      startDate: startDate || null,
+      endDate: endDate || null,
+      ...(withdrawalCutoffMinutes !== undefined ? { withdrawalCutoffMinutes: parseInt(withdrawalCutoffMinutes) } : {}),
+      // Private tournaments get an invite code; the allow-list lets players join without it
+      inviteCode: type === 'private' ? generateInviteCode() : null,
+      allowedUserIds: type === 'private' && allowedUserIds ? [...new Set(allowedUserIds)] : [],
+      status: 'registration'
+    });
+
+    await logTournamentActivity(tournament, {
+      type: 'created',
+      actorId: req.user.id,
+      description: 'Tournament created'
+    }, TournamentActivity);
+
+    // Transform to TournamentDto format
+    const tournamentDto = await transformTournamentToDto(tournament.toObject(), Match, User, { isAdmin: req.user.role === 'admin' });
+
+    res.status(201).json({
+      success: true,
+      data: tournamentDto
+    });
+  } catch (error) {
+    logger.error('Create tournament error:', error);
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Tournament with this name already exists'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}:
+ *   patch:
+ *     summary: Edit tournament (Admin only)
+ *     description: |
+ *       Edit the name, description, dates, type, prize pool settings or entry cost of a tournament while it is in registration.
+ *       If the entry cost changes after players have joined, each participant is refunded or charged the difference (in team tournaments, the change in each member's share)
+ *       (logged as tournament_refund / tournament_entry transactions). An increase fails if any participant can't pay it.
+ *       Switching to private generates an invite code; switching to public clears the code and allow-list.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Spring Championship
+ *               description:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [public, private]
+ *               entryCost:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 150
+ *               prizePool:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 1000
+ *               prizePoolMode:
+ *                 type: string
+ *                 enum: [fixed, entry_fees]
+ *                 default: fixed
+ *                 description: fixed pays prizePool as entered; entry_fees pays the entry fees actually collected minus the rake
+ *               rakePercentage:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 default: 0
+ *                 description: Entry-fee mode only. Share of the collected fees kept by the house (logged as a house_rake transaction)
+ *                 example: 10
+ *               guaranteedPrizePool:
+ *                 type: integer
+ *                 minimum: 0
+ *                 default: 0
+ *                 description: Entry-fee mode only. Minimum prize pool; the house covers any shortfall (logged as a house_guarantee transaction)
+ *                 example: 500
+ *               registrationDeadline:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Tournament updated (message includes how many participants were charged or refunded)
+ *       400:
+ *         description: Validation error, duplicate name, tournament not in registration, or a participant can't afford the new entry cost
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament not found
+ */
+/**
+ * Edit tournament settings during registration (Admin only)
+ * Entry cost changes are settled with every participant in the same transaction
+ */
+router.patch('/:id', requireAdmin, [
+  body('name').optional().trim().isLength({ min: 1, max: 255 }).withMessage('Name must be between 1 and 255 characters'),
+  body('description').optional().trim(),
+  body('type').optional().isIn(['public', 'private']).withMessage('Type must be public or private'),
+  body('entryCost').optional().isInt({ min: 1 }).withMessage('Entry cost must be a positive integer'),
+  body('prizePool').optional().isInt({ min: 1 }).withMessage('Prize pool must be a positive integer'),
+  body('prizePoolMode').optional().isIn(['fixed', 'entry_fees']).withMessage('Prize pool mode must be fixed or entry_fees'),
+  body('rakePercentage').optional().isFloat({ min: 0, max: 100 }).withMessage('Rake must be between 0 and 100 percent'),
+  body('guaranteedPrizePool').optional().isInt({ min: 0 }).withMessage('Guaranteed prize pool must be a non-negative integer'),
+  body('registrationDeadline').optional({ nullable: true }).isISO8601().withMessage('Invalid date format'),
+  body('startDate').optional({ nullable: true }).isISO8601().withMessage('Invalid date format'),
+  body('endDate').optional({ nullable: true }).isISO8601().withMessage('Invalid date format')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const { name, description, type, entryCost, prizePool, prizePoolMode, rakePercentage, guaranteedPrizePool, registrationDeadline, startDate, endDate } = req.body;
+    let adjustedCount = 0;
+    let entryCostDifference = 0;
+
+    await session.withTransaction(async () => {
+      adjustedCount = 0;
+      entryCostDifference = 0;
+
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+
+      if (tournament.status !== 'registration') {
+        throw new Error('Tournaments can only be edited during registration');
+      }
+
+      if (name !== undefined && name !== tournament.name) {
+        const existingTournament = await Tournament.findOne({ name, _id: { $ne: tournament._id } }).session(session);
+        if (existingTournament) {
+          throw new Error('Tournament with this name already exists');
+        }
+        tournament.name = name;
+      }
+
+      if (description !== undefined) tournament.description = description;
+      if (prizePoolMode !== undefined) tournament.prizePoolMode = prizePoolMode;
+      if (prizePool !== undefined) tournament.prizePool = parseInt(prizePool);
+      if (rakePercentage !== undefined) tournament.rakePercentage = parseFloat(rakePercentage);
+      if (guaranteedPrizePool !== undefined) tournament.guaranteedPrizePool = parseInt(guaranteedPrizePool);
+
+      // Switching back to a fixed pool needs an amount to pay out
+      if (tournament.prizePoolMode === 'fixed' && !(tournament.prizePool >= 1)) {
+        throw new Error('Prize pool is required for a fixed prize pool');
+      }
+      if (registrationDeadline !== undefined) tournament.registrationDeadline = registrationDeadline || null;
+      if (startDate !== undefined) tournament.startDate = startDate || null;
+      if (endDate !== undefined) tournament.endDate = endDate || null;
+
+      if (tournament.registrationDeadline && tournament.startDate && tournament.registrationDeadline > tournament.startDate) {
+        throw new Error('Registration deadline must be before the start date');
+      }
+
+      if (type !== undefined && type !== tournament.type) {
+        tournament.type = type;
+        // Switching to private issues a fresh code; public tournaments don't keep access settings
+        tournament.inviteCode = type === 'private' ? generateInviteCode() : null;
+        if (type === 'public') tournament.allowedUserIds = [];
+      }
+
+      if (entryCost !== undefined) {
+        // Settled per participant, i.e. per member's share in team tournaments
+        const previousShare = getEntryShare(tournament);
+        adjustedCount = await adjustEntryCost(tournament, parseInt(entryCost), { User, Transaction }, session);
+        entryCostDifference = getEntryShare(tournament) - previousShare;
+      }
+
+      const changedFields = tournament.modifiedPaths().filter(path => !path.includes('.'));
+      await tournament.save({ session });
+
+      if (changedFields.length > 0) {
+        await logTournamentActivity(tournament, {
+          type: 'updated',
+          actorId: req.user.id,
+          description: `Updated ${changedFields.join(', ')}`
+            + (adjustedCount > 0 ? ` (entry cost difference applied to ${adjustedCount} participant(s))` : ''),
+          meta: { fields: changedFields, ...(entryCostDifference !== 0 ? { entryCostDifference } : {}) }
+        }, TournamentActivity, session);
+      }
+    });
+
+    const populatedTournament = await Tournament.findById(id)
+      .populate('participants')
+      .populate('winnerId')
+      .lean();
+
+    // Transform to TournamentDto format
+    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User, { isAdmin: req.user.role === 'admin' });
+
+    let message = 'Tournament updated';
+    if (adjustedCount > 0) {
+      message = entryCostDifference > 0
+        ? `Tournament updated; ${adjustedCount} participant(s) charged ${entryCostDifference} coins`
+        : `Tournament updated; ${adjustedCount} participant(s) refunded ${-entryCostDifference} coins`;
+    }
+
+    res.json({
+      success: true,
+      message,
+      data: tournamentDto
+    });
+  } catch (error) {
+    logger.error('Update tournament error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Tournament not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    // Schema validators (e.g. an out-of-range rake) reject the save
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(e => e.message).join(', ')
+      });
+    }
+
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Tournament with this name already exists'
+      });
+    }
+
+    if (errorMessage.includes('already exists') ||
+        errorMessage.includes('only be edited during registration') ||
+        errorMessage.includes('Registration deadline') ||
+        errorMessage.includes('Prize pool is required') ||
+        errorMessage.includes('cannot afford')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/join:
+ *   post:
+ *     summary: Join tournament
+ *     description: |
+ *       Register the current user for a tournament. Validates sufficient coins and prevents duplicate registration.
+ *       When the tournament is full the player joins the waitlist instead (no coins are charged); if a seat frees up
+ *       before the bracket is generated, the first waitlisted player is promoted, charged and notified by email.
+ *       A full tournament with a registration deadline or start date starts at that time rather than when it fills.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               inviteCode:
+ *                 type: string
+ *                 description: Required for private tournaments unless the player is on the allow-list
+ *                 example: K7QM2XWD
+ *     responses:
+ *       200:
+ *         description: Successfully joined tournament
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 coins:
+ *                   type: integer
+ *                   description: Remaining coins after joining tournament
+ *                   example: 900
+ *                 waitlisted:
+ *                   type: boolean
+ *                   description: Present when the tournament was full and the player joined the waitlist
+ *                   example: true
+ *                 waitlistPosition:
+ *                   type: integer
+ *                   description: Position on the waitlist (1 = next to be promoted)
+ *                   example: 2
+ *       400:
+ *         description: Insufficient coins, already registered, already on the waitlist, or a team tournament (use the team endpoints)
+ *       403:
+ *         description: Private tournament and no valid invite code
+ *       404:
+ *         description: Tournament not found
+ */
+/**
+ * Join tournament
+ * Validates sufficient coins and prevents duplicate registration
+ * Uses MongoDB transactions to prevent race conditions
+ */
+router.post('/:id/join', async (req, res) => {
+  const session = await mongoose.startSession();
+  
+  try {
+    const { id } = req.params;
+    const userId = req.user.id;
+    let waitlistPosition = null;
+    
+    await session.withTransaction(async () => {
+      waitlistPosition = null;
+
+      // Get tournament with session for transaction
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+
+      // Validation: Check tournament status
+      if (tournament.status !== 'registration') {
+        throw new Error('Tournament is not accepting registrations');
+      }
+
+      // Validation: Registration closes at the deadline (the scheduler then starts or cancels it)
+      const registrationDeadline = getRegistrationDeadline(tournament);
+      if (registrationDeadline && registrationDeadline <= new Date()) {
+        throw new Error('Tournament is not accepting registrations');
+      }
+
+      // Validation: Private tournaments need the invite code or an allow-list entry
+      if (!canJoinPrivateEvent(tournament, userId, req.body?.inviteCode)) {
+        throw new Error('A valid invite code is required to join this private tournament');
+      }
+
+      // Validation: Team tournaments are entered by registering (or being invited to) a team
+      if (isTeamTournament(tournament)) {
+        throw new Error('This is a team tournament: register a team or accept a team invite to join');
+      }
+
+      // Validation: Check if user is already registered
+      const userIdObj = typeof userId === 'string' ? userId : userId.toString();
+      if (tournament.participants.some(p => p.toString() === userIdObj)) {
+        throw new Error('You are already registered for this tournament');
+      }
+
+      // Full tournament: queue on the waitlist without charging (atomic check)
+      if (tournament.participants.length >= tournament.maxPlayers) {
+        if (tournament.waitlist.some(entry => entry.userId.toString() === userIdObj)) {
+          throw new Error('You are already on the waitlist for this tournament');
+        }
+        tournament.waitlist.push({ userId, joinedAt: new Date() });
+        await tournament.save({ session });
+        waitlistPosition = tournament.waitlist.length;
+        await logTournamentActivity(tournament, {
+          type: 'player_waitlisted',
+          actorId: userId,
+          playerId: userId,
+          description: `Joined the waitlist (position ${waitlistPosition})`,
+          meta: { position: waitlistPosition }
+        }, TournamentActivity, session);
+        return;
+      }
+
+      // Validation: Check user has sufficient coins (server-side validation)
       const user = await User.findById(userId).session(session);
       if (!user) {
         throw new Error('User not found');
       }
 
-      if (user.coins < tournament.entryCost) {
-        throw new Error('Insufficient coins');
-      }
+      if (user.coins < tournament.entryCost) {
+        throw new Error('Insufficient coins');
+      }
+
+      // Track balance before transaction
+      const balanceBefore = user.coins;
+      const balanceAfter = balanceBefore - tournament.entryCost;
+
+      // Deduct coins (atomic operation)
+      await User.findByIdAndUpdate(
+        userId,
+        { $inc: { coins: -tournament.entryCost } },
+        { session }
+      );
+
+      // Add user to tournament (atomic operation)
+      tournament.participants.push(userId);
+      
+      // If tournament is now full, seed players, generate bracket and start.
+      // Tournaments with a registration deadline wait for it instead.
+      const isFull = tournament.participants.length === tournament.maxPlayers && startsWhenFull(tournament);
+      if (isFull) {
+        await startTournament(tournament, { User, Match, Transaction }, session);
+      }
+
+      await tournament.save({ session });
+
+      // Log transaction with balance tracking
+      await Transaction.create([{
+        userId: user._id,
+        type: 'tournament_entry',
+        amount: -tournament.entryCost,
+        description: `Entry fee for tournament: ${tournament.name}`,
+        balanceBefore: balanceBefore,
+        balanceAfter: balanceAfter,
+        matchId: null
+      }], { session });
+
+      await logTournamentActivity(tournament, {
+        type: 'player_joined',
+        actorId: userId,
+        playerId: userId,
+        description: `Joined and paid the ${tournament.entryCost} coin entry fee`,
+        meta: { entryCost: tournament.entryCost }
+      }, TournamentActivity, session);
+      if (isFull) {
+        await logTournamentActivity(tournament, {
+          type: 'bracket_generated',
+          actorId: userId,
+          description: `Tournament full: ${tournament.participants.length} players seeded and bracket generated`,
+          meta: { entrants: tournament.participants.length }
+        }, TournamentActivity, session);
+      }
+    });
+
+    // After transaction, get updated user
+    const updatedUser = await User.findById(userId).select('coins');
+    
+    // Return EnterTournamentResponse format matching C# structure
+    res.json({
+      ok: true,
+      coins: updatedUser.coins || 0,
+      ...(waitlistPosition ? { waitlisted: true, waitlistPosition } : {})
+    });
+  } catch (error) {
+    logger.error('Join tournament error:', error);
+    const errorMessage = error.message || 'Server error';
+    
+    if (errorMessage === 'Tournament not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('invite code')) {
+      return res.status(403).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+    
+    if (errorMessage.includes('already registered') ||
+        errorMessage.includes('already on the waitlist') ||
+        errorMessage.includes('Insufficient coins') ||
+        errorMessage.includes('not accepting registrations') ||
+        errorMessage.includes('team tournament')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+    
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/leave:
+ *   post:
+ *     summary: Leave tournament
+ *     description: |
+ *       Withdraw the current user from a tournament that is still in registration and refund the entry fee. Not allowed after the withdrawal cutoff (withdrawalCutoffMinutes before startDate).
+ *       The freed seat goes to the first waitlisted player; if that fills a tournament without a registration deadline, it starts.
+ *       Waitlisted players can leave the waitlist at any time during registration (nothing to refund).
+ *       In team tournaments a member leaving frees their place in the team; the captain leaving disbands the team and refunds every member.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     responses:
+ *       200:
+ *         description: Successfully left tournament
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 coins:
+ *                   type: integer
+ *                   description: Coins after the refund
+ *                   example: 1000
+ *       400:
+ *         description: Not registered, tournament not in registration, or withdrawal cutoff passed
+ *       404:
+ *         description: Tournament not found
+ */
+/**
+ * Leave tournament
+ * Refunds the entry fee; uses MongoDB transactions like join
+ */
+router.post('/:id/leave', async (req, res) => {
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const userId = req.user.id;
+    let coins = 0;
+    let tournamentName = '';
+    let entryCost = 0;
+    let promoted = [];
+
+    await session.withTransaction(async () => {
+      promoted = [];
+
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+
+      if (tournament.status !== 'registration') {
+        throw new Error('Withdrawals are only allowed during registration');
+      }
+
+      // Waitlisted players were never charged, so they just leave the queue
+      const waitlistIndex = tournament.waitlist.findIndex(entry => entry.userId.toString() === userId.toString());
+      if (waitlistIndex !== -1) {
+        tournament.waitlist.splice(waitlistIndex, 1);
+        await tournament.save({ session });
+        await logTournamentActivity(tournament, {
+          type: 'player_left',
+          actorId: userId,
+          playerId: userId,
+          description: 'Left the waitlist'
+        }, TournamentActivity, session);
+        const user = await User.findById(userId).select('coins').session(session);
+        coins = user?.coins || 0;
+        return;
+      }
+
+      const withdrawalCutoff = getWithdrawalCutoff(tournament);
+      if (withdrawalCutoff && withdrawalCutoff <= new Date()) {
+        throw new Error('The withdrawal cutoff for this tournament has passed');
+      }
+
+      const team = isTeamTournament(tournament) ? findUserTeam(tournament, userId) : null;
+      const disbandsTeam = team && team.captainId.toString() === userId.toString();
+      const teamName = team?.name;
+
+      coins = await withdrawParticipant(
+        tournament,
+        userId,
+        `Refund for leaving tournament: ${tournament.name}`,
+        { User, Transaction },
+        session
+      );
+
+      // Give the freed seat to the next waitlisted player
+      promoted = await promoteFromWaitlist(tournament, { User, Transaction }, session);
+      tournamentName = tournament.name;
+      entryCost = tournament.entryCost;
+
+      // A promotion that fills the field starts the tournament, just as a join would
+      const isFull = promoted.length > 0 &&
+        tournament.participants.length === tournament.maxPlayers &&
+        startsWhenFull(tournament);
+      if (isFull) {
+        await startTournament(tournament, { User, Match, Transaction }, session);
+      }
+
+      await tournament.save({ session });
+
+      await logTournamentActivity(tournament, {
+        type: 'player_left',
+        actorId: userId,
+        playerId: userId,
+        description: disbandsTeam
+          ? `Left the tournament; team ${teamName} disbanded and its members refunded`
+          : 'Left the tournament (entry fee refunded)'
+      }, TournamentActivity, session);
+      await logPromotedPlayers(tournament, promoted, session);
+      if (isFull) {
+        await logTournamentActivity(tournament, {
+          type: 'bracket_generated',
+          description: `Tournament full: ${tournament.participants.length} players seeded and bracket generated`,
+          meta: { entrants: tournament.participants.length }
+        }, TournamentActivity, session);
+      }
+    });
+
+    notifyPromotedPlayers(promoted, tournamentName, entryCost);
+
+    // Return the same shape as join
+    res.json({
+      ok: true,
+      coins
+    });
+  } catch (error) {
+    logger.error('Leave tournament error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Tournament not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('not registered') ||
+        errorMessage.includes('only allowed during registration') ||
+        errorMessage.includes('cutoff')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/teams:
+ *   post:
+ *     summary: Register a team
+ *     description: |
+ *       Register a named team for a team tournament (teamSize 2 or 3) with the current user as captain.
+ *       The captain pays their entry fee now and can invite partners; each partner pays their own share when they accept.
+ *       Teams that are still incomplete when the tournament starts are removed and their members refunded.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: Los Ases
+ *               inviteUserIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Partners to invite
+ *               inviteCode:
+ *                 type: string
+ *                 description: Required for private tournaments unless the captain is on the allow-list
+ *     responses:
+ *       201:
+ *         description: Team registered and captain charged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 coins:
+ *                   type: integer
+ *                   example: 900
+ *                 teamId:
+ *                   type: string
+ *       400:
+ *         description: Validation error, not a team tournament, tournament full, team name taken, already in a team, or insufficient coins
+ *       403:
+ *         description: Private tournament and no valid invite code
+ *       404:
+ *         description: Tournament or invited user not found
+ */
+/**
+ * Register a team (captain = current user)
+ * Charges the captain's entry fee in the same transaction
+ */
+router.post('/:id/teams', [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Team name is required (at most 100 characters)'),
+  body('inviteUserIds').optional().isArray().withMessage('Invited users must be an array'),
+  body('inviteUserIds.*').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Each invited user must be a valid user ID');
+    }
+    return true;
+  })
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const userId = req.user.id.toString();
+    const name = req.body.name.trim();
+    const inviteUserIds = [...new Set((req.body.inviteUserIds || []).map(u => u.toString()))].filter(u => u !== userId);
+    let coins = 0;
+    let teamId = null;
+
+    await session.withTransaction(async () => {
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+
+      if (!isTeamTournament(tournament)) {
+        throw new Error('This is not a team tournament');
+      }
+
+      const registrationDeadline = getRegistrationDeadline(tournament);
+      if (tournament.status !== 'registration' || (registrationDeadline && registrationDeadline <= new Date())) {
+        throw new Error('Tournament is not accepting registrations');
+      }
+
+      if (!canJoinPrivateEvent(tournament, userId, req.body?.inviteCode)) {
+        throw new Error('A valid invite code is required to join this private tournament');
+      }
+
+      if (tournament.participants.some(p => p.toString() === userId)) {
+        throw new Error('You are already registered for this tournament');
+      }
+
+      if (tournament.teams.length >= tournament.maxPlayers) {
+        throw new Error('Tournament is full');
+      }
+
+      if (tournament.teams.some(team => team.name.toLowerCase() === name.toLowerCase())) {
+        throw new Error('A team with this name is already registered');
+      }
+
+      if (inviteUserIds.length > tournament.teamSize - 1) {
+        throw new Error(`A team has ${tournament.teamSize} players: invite at most ${tournament.teamSize - 1} partners`);
+      }
+
+      const invitedUsers = await User.find({ _id: { $in: inviteUserIds } }).select('_id').session(session);
+      if (invitedUsers.length !== inviteUserIds.length) {
+        throw new Error('Invited user not found');
+      }
+      if (inviteUserIds.some(invitedId => tournament.participants.some(p => p.toString() === invitedId))) {
+        throw new Error('An invited player is already in a team');
+      }
+
+      tournament.teams.push({ name, captainId: userId, memberIds: [], invitedIds: inviteUserIds });
+      const team = tournament.teams[tournament.teams.length - 1];
+      teamId = team._id.toString();
+
+      coins = await addTeamMember(tournament, team, userId, { User, Transaction }, session);
+
+      await tournament.save({ session });
+
+      await logTournamentActivity(tournament, {
+        type: 'team_registered',
+        actorId: userId,
+        playerId: userId,
+        description: `Registered team ${name} as captain and paid the ${getEntryShare(tournament)} coin entry share`,
+        meta: { teamId, invited: inviteUserIds.length }
+      }, TournamentActivity, session);
+    });
+
+    res.status(201).json({
+      ok: true,
+      coins,
+      teamId
+    });
+  } catch (error) {
+    logger.error('Register team error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Tournament not found' || errorMessage === 'Invited user not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('invite code')) {
+      return res.status(403).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('team tournament') ||
+        errorMessage.includes('not accepting registrations') ||
+        errorMessage.includes('already') ||
+        errorMessage.includes('full') ||
+        errorMessage.includes('partners') ||
+        errorMessage.includes('Insufficient coins')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/teams/{teamId}/invite:
+ *   post:
+ *     summary: Invite players to a team (captain only)
+ *     description: Invite more partners while the team has open places. Invited players are not charged until they accept.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userIds
+ *             properties:
+ *               userIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Players invited
+ *       400:
+ *         description: Validation error, tournament not in registration, team full, or a player is already in a team
+ *       403:
+ *         description: Only the team captain can invite players
+ *       404:
+ *         description: Tournament, team or user not found
+ */
+/**
+ * Invite partners to a team (captain only)
+ */
+router.post('/:id/teams/:teamId/invite', [
+  body('userIds').isArray({ min: 1 }).withMessage('User IDs array is required'),
+  body('userIds.*').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Each user ID must be a valid user ID');
+    }
+    return true;
+  })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { id, teamId } = req.params;
+    const userId = req.user.id.toString();
+    const userIds = [...new Set(req.body.userIds.map(u => u.toString()))];
+
+    const tournament = await Tournament.findById(id);
+    const team = tournament?.teams?.find(t => t._id.toString() === teamId);
+    if (!tournament || !team) {
+      return res.status(404).json({
+        success: false,
+        message: tournament ? 'Team not found' : 'Tournament not found'
+      });
+    }
+
+    if (team.captainId.toString() !== userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the team captain can invite players'
+      });
+    }
+
+    if (tournament.status !== 'registration') {
+      return res.status(400).json({
+        success: false,
+        message: 'Tournament is not accepting registrations'
+      });
+    }
+
+    const newInvites = userIds.filter(u => !team.invitedIds.some(invitedId => invitedId.toString() === u));
+    if (team.memberIds.length + team.invitedIds.length + newInvites.length > tournament.teamSize) {
+      return res.status(400).json({
+        success: false,
+        message: `A team has ${tournament.teamSize} players: not enough open places for these invites`
+      });
+    }
+
+    if (newInvites.some(invitedId => tournament.participants.some(p => p.toString() === invitedId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'An invited player is already in a team'
+      });
+    }
+
+    const invitedUsers = await User.find({ _id: { $in: newInvites } }).select('_id');
+    if (invitedUsers.length !== newInvites.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invited user not found'
+      });
+    }
+
+    team.invitedIds.push(...newInvites);
+    await tournament.save();
+
+    res.json({
+      success: true,
+      message: `${newInvites.length} player(s) invited`
+    });
+  } catch (error) {
+    logger.error('Invite team players error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/teams/{teamId}/accept:
+ *   post:
+ *     summary: Accept a team invite
+ *     description: |
+ *       Join the team as a member and pay your share of the entry fee. Your invites to other teams in this tournament are dropped.
+ *       A tournament without a registration deadline starts once every team is complete and the field is full.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team ID
+ *     responses:
+ *       200:
+ *         description: Joined the team
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 coins:
+ *                   type: integer
+ *                   example: 900
+ *       400:
+ *         description: Not invited, team full, already in a team, tournament not accepting registrations, or insufficient coins
+ *       404:
+ *         description: Tournament or team not found
+ */
+/**
+ * Accept a team invite
+ * Charges the entry fee; uses MongoDB transactions like join
+ */
+router.post('/:id/teams/:teamId/accept', async (req, res) => {
+  const session = await mongoose.startSession();
+
+  try {
+    const { id, teamId } = req.params;
+    const userId = req.user.id.toString();
+    let coins = 0;
+
+    await session.withTransaction(async () => {
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+
+      const team = tournament.teams.find(t => t._id.toString() === teamId);
+      if (!team) {
+        throw new Error('Team not found');
+      }
+
+      const registrationDeadline = getRegistrationDeadline(tournament);
+      if (tournament.status !== 'registration' || (registrationDeadline && registrationDeadline <= new Date())) {
+        throw new Error('Tournament is not accepting registrations');
+      }
+
+      if (!team.invitedIds.some(invitedId => invitedId.toString() === userId)) {
+        throw new Error('You have not been invited to this team');
+      }
+
+      if (findUserTeam(tournament, userId)) {
+        throw new Error('You are already in a team for this tournament');
+      }
+
+      if (isTeamComplete(tournament, team)) {
+        throw new Error('Team is already full');
+      }
+
+      coins = await addTeamMember(tournament, team, userId, { User, Transaction }, session);
+
+      // A player can only be in one team, so their other invites lapse
+      tournament.teams.forEach(otherTeam => {
+        otherTeam.invitedIds = otherTeam.invitedIds.filter(invitedId => invitedId.toString() !== userId);
+      });
+
+      // Full field of complete teams: start now unless the tournament waits for its deadline
+      const isFull = tournament.teams.length === tournament.maxPlayers &&
+        tournament.teams.every(t => isTeamComplete(tournament, t)) &&
+        startsWhenFull(tournament);
+      if (isFull) {
+        await startTournament(tournament, { User, Match, Transaction }, session);
+      }
+
+      await tournament.save({ session });
+
+      await logTournamentActivity(tournament, {
+        type: 'team_member_joined',
+        actorId: userId,
+        playerId: userId,
+        description: `Joined team ${team.name} and paid the ${getEntryShare(tournament)} coin entry share`,
+        meta: { teamId }
+      }, TournamentActivity, session);
+      if (isFull) {
+        await logTournamentActivity(tournament, {
+          type: 'bracket_generated',
+          actorId: userId,
+          description: `Tournament full: ${tournament.teams.length} teams seeded and bracket generated`,
+          meta: { entrants: tournament.teams.length }
+        }, TournamentActivity, session);
+      }
+    });
+
+    res.json({
+      ok: true,
+      coins
+    });
+  } catch (error) {
+    logger.error('Accept team invite error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Tournament not found' || errorMessage === 'Team not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('not been invited') ||
+        errorMessage.includes('already') ||
+        errorMessage.includes('not accepting registrations') ||
+        errorMessage.includes('Insufficient coins')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/teams/{teamId}/decline:
+ *   post:
+ *     summary: Decline a team invite
+ *     description: Turn down an invite to a team (nothing is charged). The captain can then invite someone else.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Team ID
+ *     responses:
+ *       200:
+ *         description: Invite declined
+ *       400:
+ *         description: Not invited to this team
+ *       404:
+ *         description: Tournament or team not found
+ */
+/**
+ * Decline a team invite
+ */
+router.post('/:id/teams/:teamId/decline', async (req, res) => {
+  try {
+    const { id, teamId } = req.params;
+    const userId = req.user.id.toString();
+
+    const tournament = await Tournament.findById(id);
+    const team = tournament?.teams?.find(t => t._id.toString() === teamId);
+    if (!tournament || !team) {
+      return res.status(404).json({
+        success: false,
+        message: tournament ? 'Team not found' : 'Tournament not found'
+      });
+    }
+
+    if (!team.invitedIds.some(invitedId => invitedId.toString() === userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'You have not been invited to this team'
+      });
+    }
+
+    team.invitedIds = team.invitedIds.filter(invitedId => invitedId.toString() !== userId);
+    await tournament.save();
+
+    res.json({
+      success: true,
+      message: 'Team invite declined'
+    });
+  } catch (error) {
+    logger.error('Decline team invite error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/remove-participant:
+ *   post:
+ *     summary: Remove a participant (Admin only)
+ *     description: Remove a player from a tournament that is still in registration and refund their entry fee. Admins are not bound by the withdrawal cutoff. The freed seat goes to the first waitlisted player; if that fills a tournament without a registration deadline, it starts.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 description: Participant to remove
+ *                 example: "507f1f77bcf86cd799439011"
+ *               reason:
+ *                 type: string
+ *                 example: Duplicate account
+ *     responses:
+ *       200:
+ *         description: Participant removed and refunded
+ *       400:
+ *         description: Validation error, user not registered, or tournament not in registration
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament or user not found
+ */
+/**
+ * Remove tournament participant (Admin only)
+ * Refunds the entry fee
+ */
+router.post('/:id/remove-participant', requireAdmin, [
+  body('userId').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('User ID must be a valid user ID');
+    }
+    return true;
+  }),
+  body('reason').optional().trim()
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const { userId, reason } = req.body;
+    let tournamentName = '';
+    let entryCost = 0;
+    let promoted = [];
+
+    await session.withTransaction(async () => {
+      promoted = [];
+
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+
+      if (tournament.status !== 'registration') {
+        throw new Error('Participants can only be removed during registration');
+      }
+
+      const team = isTeamTournament(tournament) ? findUserTeam(tournament, userId) : null;
+      const disbandsTeam = team && team.captainId.toString() === userId.toString();
+      const teamName = team?.name;
+
+      await withdrawParticipant(
+        tournament,
+        userId,
+        `Refund for removal from tournament: ${tournament.name}${reason ? ` (${reason})` : ''}`,
+        { User, Transaction },
+        session
+      );
+
+      // Give the freed seat to the next waitlisted player
+      promoted = await promoteFromWaitlist(tournament, { User, Transaction }, session);
+      tournamentName = tournament.name;
+      entryCost = tournament.entryCost;
+
+      // A promotion that fills the field starts the tournament, just as a join would
+      const isFull = promoted.length > 0 &&
+        tournament.participants.length === tournament.maxPlayers &&
+        startsWhenFull(tournament);
+      if (isFull) {
+        await startTournament(tournament, { User, Match, Transaction }, session);
+      }
+
+      await tournament.save({ session });
+
+      await logTournamentActivity(tournament, {
+        type: 'player_removed',
+        actorId: req.user.id,
+        playerId: userId,
+        description: (disbandsTeam ? `Removed and refunded; team ${teamName} disbanded` : 'Removed and refunded')
+          + (reason ? `: ${reason}` : ''),
+        meta: reason ? { reason } : {}
+      }, TournamentActivity, session);
+      await logPromotedPlayers(tournament, promoted, session);
+      if (isFull) {
+        await logTournamentActivity(tournament, {
+          type: 'bracket_generated',
+          description: `Tournament full: ${tournament.participants.length} players seeded and bracket generated`,
+          meta: { entrants: tournament.participants.length }
+        }, TournamentActivity, session);
+      }
+    });
+
+    notifyPromotedPlayers(promoted, tournamentName, entryCost);
+
+    const populatedTournament = await Tournament.findById(id)
+      .populate('participants')
+      .populate('winnerId')
+      .lean();
+
+    // Transform to TournamentDto format
+    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User, { isAdmin: req.user.role === 'admin' });
+
+    res.json({
+      success: true,
+      message: promoted.length > 0
+        ? `Participant removed and refunded; ${promoted[0].name} was promoted from the waitlist`
+        : 'Participant removed and refunded',
+      data: tournamentDto
+    });
+  } catch (error) {
+    logger.error('Remove tournament participant error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Tournament not found' || errorMessage === 'User not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('not registered') || errorMessage.includes('only be removed during registration')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/invite-code:
+ *   post:
+ *     summary: Regenerate invite code (Admin only)
+ *     description: Issue a new invite code for a private tournament. The previous code stops working immediately.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     responses:
+ *       200:
+ *         description: Invite code regenerated
+ *       400:
+ *         description: Tournament is not private, or already completed or cancelled
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament not found
+ *   delete:
+ *     summary: Revoke invite code (Admin only)
+ *     description: Remove the invite code of a private tournament. Only players on the allow-list can join until a new code is generated.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     responses:
+ *       200:
+ *         description: Invite code revoked
+ *       400:
+ *         description: Tournament is not private, or already completed or cancelled
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament not found
+ */
+/**
+ * Regenerate or revoke a private tournament's invite code (Admin only)
+ */
+const updateTournamentInviteCode = (regenerate) => async (req, res) => {
+  try {
+    const tournament = await Tournament.findById(req.params.id);
+    if (!tournament) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tournament not found'
+      });
+    }
+
+    if (tournament.type !== 'private') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only private tournaments have invite codes'
+      });
+    }
+
+    if (tournament.status === 'completed' || tournament.status === 'cancelled') {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot change the invite code of a ${tournament.status} tournament`
+      });
+    }
+
+    tournament.inviteCode = regenerate ? generateInviteCode() : null;
+    await tournament.save();
+
+    const populatedTournament = await Tournament.findById(tournament._id)
+      .populate('participants')
+      .populate('winnerId')
+      .lean();
+
+    // Transform to TournamentDto format
+    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User, { isAdmin: true });
+
+    res.json({
+      success: true,
+      message: regenerate ? 'Invite code regenerated' : 'Invite code revoked',
+      data: tournamentDto
+    });
+  } catch (error) {
+    logger.error('Update tournament invite code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+router.post('/:id/invite-code', requireAdmin, updateTournamentInviteCode(true));
+router.delete('/:id/invite-code', requireAdmin, updateTournamentInviteCode(false));
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/allowed-users:
+ *   post:
+ *     summary: Set the allow-list (Admin only)
+ *     description: Replace the list of players who may join a private tournament without the invite code.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userIds
+ *             properties:
+ *               userIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["507f1f77bcf86cd799439011"]
+ *     responses:
+ *       200:
+ *         description: Allow-list updated
+ *       400:
+ *         description: Validation error, unknown users, or tournament not private
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament not found
+ */
+/**
+ * Set the allow-list of a private tournament (Admin only)
+ */
+router.post('/:id/allowed-users', requireAdmin, [
+  body('userIds').isArray().withMessage('User IDs array is required'),
+  body('userIds.*').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Each allowed user must be a valid user ID');
+    }
+    return true;
+  })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const tournament = await Tournament.findById(req.params.id);
+    if (!tournament) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tournament not found'
+      });
+    }
+
+    if (tournament.type !== 'private') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only private tournaments have an allow-list'
+      });
+    }
+
+    const userIds = [...new Set(req.body.userIds.map(id => id.toString()))];
+    const existingUsers = await User.countDocuments({ _id: { $in: userIds } });
+    if (existingUsers !== userIds.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'One or more users were not found'
+      });
+    }
+
+    tournament.allowedUserIds = userIds;
+    await tournament.save();
+
+    const populatedTournament = await Tournament.findById(tournament._id)
+      .populate('participants')
+      .populate('winnerId')
+      .lean();
+
+    // Transform to TournamentDto format
+    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User, { isAdmin: true });
+
+    res.json({
+      success: true,
+      message: 'Allow-list updated',
+      data: tournamentDto
+    });
+  } catch (error) {
+    logger.error('Update tournament allow-list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/seeds:
+ *   post:
+ *     summary: Reorder tournament seeds (Admin only)
+ *     description: Manually set the seed order used for bracket placement (seed 1 first). Only allowed while the tournament is in registration. Players who join afterwards are seeded last.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - seedOrder
+ *             properties:
+ *               seedOrder:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Every registered participant's user ID (team ID in team tournaments), strongest seed first
+ *                 example: ["user_id_1", "user_id_2", "user_id_3"]
+ *     responses:
+ *       200:
+ *         description: Seed order updated successfully
+ *       400:
+ *         description: Validation error, seed order does not match participants, or tournament not in registration
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament not found
+ */
+/**
+ * Reorder tournament seeds (Admin only)
+ * Switches the tournament to manual seeding
+ */
+router.post('/:id/seeds', requireAdmin, [
+  body('seedOrder').isArray({ min: 1 }).withMessage('Seed order array is required'),
+  body('seedOrder.*').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Each seed must be a valid user ID');
+    }
+    return true;
+  })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+    const { seedOrder } = req.body;
+
+    const tournament = await Tournament.findById(id);
+    if (!tournament) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tournament not found'
+      });
+    }
+
+    if (tournament.status !== 'registration') {
+      return res.status(400).json({
+        success: false,
+        message: 'Seeds can only be reordered during registration'
+      });
+    }
+
+    // Seed order must be a permutation of the current participants (teams in team tournaments)
+    const participantIds = getEntrantIds(tournament).map(p => p.toString());
+    const seedIds = seedOrder.map(s => s.toString());
+    const isPermutation = seedIds.length === participantIds.length &&
+      new Set(seedIds).size === seedIds.length &&
+      seedIds.every(s => participantIds.includes(s));
+
+    if (!isPermutation) {
+      return res.status(400).json({
+        success: false,
+        message: 'Seed order must list every registered participant exactly once'
+      });
+    }
+
+    tournament.seeding = 'manual';
+    tournament.seedOrder = seedIds.map(s => new mongoose.Types.ObjectId(s));
+    await tournament.save();
+
+    await logTournamentActivity(tournament, {
+      type: 'seeds_updated',
+      actorId: req.user.id,
+      description: 'Seed order set manually',
+      meta: { seedOrder: seedIds }
+    }, TournamentActivity);
+
+    res.json({
+      success: true,
+      message: 'Seed order updated successfully',
+      tournament: {
+        id: tournament._id.toString(),
+        seeding: tournament.seeding,
+        seedOrder: tournament.seedOrder.map(s => s.toString())
+      }
+    });
+  } catch (error) {
+    logger.error('Reorder tournament seeds error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/create-match:
+ *   post:
+ *     summary: Create a match in tournament
+ *     description: Create a match within a tournament with specified participants
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - participants
+ *             properties:
+ *               participants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: List of participant user IDs (typically 2 for a match)
+ *                 example: ["user_id_1", "user_id_2"]
+ *     responses:
+ *       200:
+ *         description: Match created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 match:
+ *                   $ref: '#/components/schemas/Match'
+ *       400:
+ *         description: Validation error or invalid participants
+ *       404:
+ *         description: Tournament not found
+ */
+// Create tournament match
+router.post('/:id/create-match', [
+  body('participants').isArray({ min: 1 }).withMessage('Participants array is required'),
+  body('participants.*').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Each participant must be a valid user ID');
+    }
+    return true;
+  })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+    const { participants } = req.body;
+
+    // Find tournament
+    const tournament = await Tournament.findById(id);
+    if (!tournament) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tournament not found'
+      });
+    }
+
+    // Validate participants (should be 2 for a match)
+    if (participants.length !== 2) {
+      return res.status(400).json({
+        success: false,
+        message: 'A match requires exactly 2 participants'
+      });
+    }
+
+    // Convert participants to ObjectIds
+    const participantObjectIds = participants.map(pId => new mongoose.Types.ObjectId(pId));
+
+    // Validate participants exist and are in tournament
+    const participantUsers = await User.find({ _id: { $in: participantObjectIds } });
+    if (participantUsers.length !== participants.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'One or more participants not found'
+      });
+    }
+
+    // Check if participants are in tournament
+    const tournamentParticipantIds = tournament.participants.map(p => p.toString());
+    const allParticipantsInTournament = participantObjectIds.every(pId => 
+      tournamentParticipantIds.includes(pId.toString())
+    );
+
+    if (!allParticipantsInTournament) {
+      return res.status(400).json({
+        success: false,
+        message: 'All participants must be registered in the tournament'
+      });
+    }
+
+    // Create match linked to tournament
+    const match = await Match.create({
+      name: `Match: ${tournament.name}`,
+      type: 'private', // Tournament matches are typically private
+      cost: 0, // Tournament matches don't have entry fee
+      prize: 0, // Prize will be determined by tournament
+      tournamentId: tournament._id,
+      player1Id: participantObjectIds[0],
+      player2Id: participantObjectIds[1],
+      targetPoints: tournament.targetPoints || DEFAULT_TARGET_POINTS,
+      status: 'active'
+    });
+
+    // Populate match with players and tournament for DTO transformation
+    const populatedMatch = await Match.findById(match._id)
+      .populate('player1Id')
+      .populate('player2Id')
+      .populate('tournamentId')
+      .lean();
+
+    // Transform to MatchDto format
+    const matchDto = transformMatchToDto(populatedMatch, Tournament, User, { isAdmin: req.user.role === 'admin' });
+
+    // Return CreateTournamentMatchResponse format matching C# structure
+    res.json({
+      ok: true,
+      match: matchDto
+    });
+  } catch (error) {
+    logger.error('Create tournament match error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/finalize-match:
+ *   post:
+ *     summary: Finalize a tournament match (Admin only)
+ *     description: |
+ *       Finalize a specific match in a tournament by setting the winner. Updates match status, player stats, and awards prize.
+ *       An optional final score is checked against the winner and the tournament's points target.
+ *       Only for matches created with create-match; bracket matches are recorded with record-match.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - matchId
+ *               - winnerId
+ *             properties:
+ *               matchId:
+ *                 type: string
+ *                 description: Match ID to finalize
+ *                 example: "match_id_here"
+ *               winnerId:
+ *                 type: string
+ *                 description: User ID of the match winner (team ID in team tournaments)
+ *                 example: "user_id_here"
+ *               score:
+ *                 $ref: '#/components/schemas/MatchScore'
+ *     responses:
+ *       200:
+ *         description: Match finalized successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Match finalized successfully"
+ *                 match:
+ *                   $ref: '#/components/schemas/Match'
+ *       400:
+ *         description: Validation error, bracket match, match not active, or invalid winner
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament or match not found
+ */
+// Finalize tournament match (admin only)
+router.post('/:id/finalize-match', requireAdmin, [
+  body('matchId').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Match ID must be a valid ID');
+    }
+    return true;
+  }),
+  body('winnerId').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Winner ID must be a valid user ID');
+    }
+    return true;
+  }),
+  body('score').optional({ nullable: true }).isObject().withMessage('Score must be an object')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+    const { matchId, winnerId, score } = req.body;
 
-      // Track balance before transaction
-      const balanceBefore = user.coins;
-      const balanceAfter = balanceBefore - tournament.entryCost;
+    // Find tournament
+    const tournament = await Tournament.findById(id);
+    if (!tournament) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tournament not found'
+      });
+    }
 
-      // Deduct coins (atomic operation)
-      await User.findByIdAndUpdate(
-        userId,
-        { $inc: { coins: -tournament.entryCost } },
-        { session }
-      );
+    // Find match
+    const match = await Match.findById(matchId);
+    if (!match) {
+      return res.status(404).json({
+        success: false,
+        message: 'Match not found'
+      });
+    }
 
-      // Add user to tournament (atomic operation)
-      tournament.participants.push(userId);
-      
-      // If tournament is now full, generate bracket and start
-      if (tournament.participants.length === tournament.maxPlayers) {
-        const bracket = generateBracket(tournament.maxPlayers, tournament.participants);
-        tournament.bracket = bracket;
-        tournament.status = 'active';
-        tournament.currentRound = 1;
+    // Validate match belongs to tournament
+    if (!match.tournamentId || match.tournamentId.toString() !== tournament._id.toString()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Match does not belong to this tournament'
+      });
+    }
+
+    // Bracket slots advance the bracket (and play their series) through record-match
+    if (isBracketMatch(tournament, match._id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This is a bracket match; record its result with record-match'
+      });
+    }
+
+    // Check if match is already completed
+    if (match.status === 'completed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Match is already finalized'
+      });
+    }
+
+    if (match.status !== 'active') {
+      return res.status(400).json({
+        success: false,
+        message: 'Match is not active'
+      });
+    }
+
+    // Validate winner is one of the match players
+    const winnerIdStr = winnerId.toString();
+    const player1IdStr = match.player1Id?.toString();
+    const player2IdStr = match.player2Id?.toString();
+
+    if (player1IdStr !== winnerIdStr && player2IdStr !== winnerIdStr) {
+      return res.status(400).json({
+        success: false,
+        message: 'Winner must be one of the match players'
+      });
+    }
+
+    // The score is given from the player 1 / player 2 point of view
+    if (score) {
+      const scoreError = getScoreError(score, {
+        winnerSide: player1IdStr === winnerIdStr ? 'player1' : 'player2',
+        targetPoints: match.targetPoints
+      });
+      if (scoreError) {
+        return res.status(400).json({
+          success: false,
+          message: scoreError
+        });
       }
+    }
 
-      await tournament.save({ session });
+    // Determine loser
+    const loserId = player1IdStr === winnerIdStr ? match.player2Id : match.player1Id;
 
-      // Log transaction with balance tracking
-      await Transaction.create([{
-        userId: user._id,
-        type: 'tournament_entry',
-        amount: -tournament.entryCost,
-        description: `Entry fee for tournament: ${tournament.name}`,
+    // Update match
+    match.status = 'completed';
+    match.winnerId = winnerId;
+    match.score = score ? normalizeScore(score) : null;
+    match.completedAt = new Date();
+    await match.save();
+
+    // Get winner's balance before prize
+    const winnerUser = await User.findById(winnerId);
+    const balanceBefore = winnerUser ? winnerUser.coins : 0;
+    const balanceAfter = balanceBefore + (match.prize || 0);
+
+    // Update player stats and award prize
+    if (winnerUser) {
+      await User.findByIdAndUpdate(winnerId, { 
+        $inc: { wins: 1, coins: match.prize || 0 } 
+      });
+    }
+
+    if (loserId) {
+      await User.findByIdAndUpdate(loserId, { $inc: { losses: 1 } });
+    }
+
+    // Log transaction if prize exists
+    if (match.prize && match.prize > 0 && winnerUser) {
+      await Transaction.create({
+        userId: winnerId,
+        type: 'match_win',
+        amount: match.prize,
+        description: `Prize for winning tournament match: ${match.name}`,
         balanceBefore: balanceBefore,
         balanceAfter: balanceAfter,
-        matchId: null
-      }], { session });
+        matchId: match._id
+      });
+    }
+
+    await logTournamentActivity(tournament, {
+      type: 'match_result',
+      actorId: req.user.id,
+      playerId: winnerId,
+      description: `Won match ${match.name}` + (match.score ? ` (${formatScore(match.score)})` : ''),
+      meta: { matchId: match._id.toString(), winnerId: winnerIdStr, loserId: loserId?.toString() || null }
+    }, TournamentActivity);
+
+    // Populate match for DTO transformation
+    const populatedMatch = await Match.findById(match._id)
+      .populate('player1Id')
+      .populate('player2Id')
+      .populate('tournamentId')
+      .populate('winnerId');
+
+    // Transform to MatchDto format
+    const matchDto = transformMatchToDto(populatedMatch, Tournament, User, { isAdmin: req.user.role === 'admin' });
+
+    res.json({
+      success: true,
+      message: 'Match finalized successfully',
+      match: matchDto
+    });
+  } catch (error) {
+    logger.error('Finalize tournament match error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournaments/{id}/record-match:
+ *   post:
+ *     summary: Record a bracket match result (Admin only)
+ *     description: Record the winner of a bracket slot. The backing Match document is completed and player stats are updated. When a round completes, winners advance (or the next Swiss round is paired). After the final (or the last league round) the champion is crowned and the prize paid out automatically. In a best-of-N slot each call records one game; the slot is only decided (and the bracket advanced) once a player has won the series. Runs in a single database transaction.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - roundNumber
+ *               - matchIndex
+ *               - winnerId
+ *             properties:
+ *               roundNumber:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 1
+ *               matchIndex:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Index of the match within the round
+ *                 example: 0
+ *               winnerId:
+ *                 type: string
+ *                 description: User ID of the match winner
+ *                 example: "507f1f77bcf86cd799439011"
+ *               bracketSide:
+ *                 type: string
+ *                 enum: [winners, losers, grand_final]
+ *                 default: winners
+ *                 description: Double elimination only. Which bracket the match belongs to
+ *               score:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/MatchScore'
+ *                 description: Optional final score (bracket player 1 / player 2), of the game in a best-of-N slot. In round robin and Swiss it feeds the points_difference tiebreaker
+ *     responses:
+ *       200:
+ *         description: Match result (or series game) recorded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Match result recorded successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/Tournament'
+ *       400:
+ *         description: Validation error, tournament not active, or match not playable
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament or bracket match not found
+ */
+/**
+ * Record bracket match result (Admin only)
+ * Advances the bracket and finalizes the tournament after the final
+ * Uses MongoDB transactions so the bracket, matches, stats and payout stay consistent
+ */
+router.post('/:id/record-match', requireAdmin, [
+  body('roundNumber').isInt({ min: 1 }).withMessage('Round number must be a positive integer'),
+  body('matchIndex').isInt({ min: 0 }).withMessage('Match index must be a non-negative integer'),
+  body('winnerId').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Winner ID must be a valid user ID');
+    }
+    return true;
+  }),
+  body('bracketSide').optional().isIn(BRACKET_SIDES).withMessage('Bracket side must be winners, losers or grand_final'),
+  body('score').optional({ nullable: true }).isObject().withMessage('Score must be an object')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const roundNumber = parseInt(req.body.roundNumber);
+    const matchIndex = parseInt(req.body.matchIndex);
+    const { winnerId, score } = req.body;
+    const bracketSide = req.body.bracketSide || 'winners';
+    let championId = null;
+    let seriesInProgress = null;
+
+    await session.withTransaction(async () => {
+      championId = null;
+      seriesInProgress = null;
+
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+
+      if (tournament.status !== 'active') {
+        throw new Error('Tournament is not active');
+      }
+
+      // Validates the slot and winner, advances the bracket and completes the backing Match document
+      const result = await recordBracketMatch(tournament, {
+        side: bracketSide,
+        roundNumber,
+        matchIndex,
+        winnerId,
+        score: score || null
+      }, Match, session);
+
+      const matchLabel = getBracketMatchLabel(tournament, bracketSide, roundNumber, matchIndex);
+      const scoreMeta = score ? { score: normalizeScore(score) } : {};
+
+      // A game that didn't decide its series: no stats yet and the bracket stays where it is
+      if (result.series && !result.series.decided) {
+        seriesInProgress = result.series;
+        await logTournamentActivity(tournament, {
+          type: 'match_result',
+          actorId: req.user.id,
+          playerId: getEntrantPlayerId(tournament, winnerId.toString()),
+          description: `Won game ${result.series.gameNumber} of ${matchLabel} (series ${formatSeriesWins(result.series.wins)})`
+            + (score ? `, ${formatScore(normalizeScore(score))}` : ''),
+          meta: {
+            side: bracketSide,
+            roundNumber,
+            matchIndex,
+            winnerId: winnerId.toString(),
+            game: result.series.gameNumber,
+            seriesWins: result.series.wins,
+            ...scoreMeta
+          }
+        }, TournamentActivity, session);
+
+        await tournament.save({ session });
+        return;
+      }
+
+      // Update player stats (every member of a team gets the win or loss)
+      await User.updateMany({ _id: { $in: getEntrantMemberIds(tournament, winnerId.toString()) } }, { $inc: { wins: 1 } }, { session });
+      await User.updateMany({ _id: { $in: getEntrantMemberIds(tournament, result.loserId) } }, { $inc: { losses: 1 } }, { session });
+
+      await logTournamentActivity(tournament, {
+        type: 'match_result',
+        actorId: req.user.id,
+        playerId: getEntrantPlayerId(tournament, winnerId.toString()),
+        description: `Won ${matchLabel}`
+          + (result.series
+            ? ` (series ${formatSeriesWins(result.series.wins)}` + (score ? `, ${formatScore(normalizeScore(score))}` : '') + ')'
+            : score ? ` (${formatScore(normalizeScore(score))})` : ''),
+        meta: {
+          side: bracketSide,
+          roundNumber,
+          matchIndex,
+          winnerId: winnerId.toString(),
+          loserId: result.loserId?.toString() || null,
+          ...(result.series ? { game: result.series.gameNumber, seriesWins: result.series.wins } : {}),
+          ...scoreMeta
+        }
+      }, TournamentActivity, session);
+
+      // The winner may have advanced into a disqualified player
+      const resolved = result.championId ? null : await resolveDisqualifiedMatches(tournament, Match, session);
+
+      // Create Match documents for slots the winners just advanced into
+      await syncBracketMatches(tournament, Match, session);
+
+      const decidedChampionId = result.championId || resolved?.championId;
+      if (decidedChampionId) {
+        championId = decidedChampionId.toString();
+        const payouts = await completeTournament(tournament, new mongoose.Types.ObjectId(championId), { User, Transaction }, session);
+        await logTournamentCompletion(tournament, payouts, req.user.id, TournamentActivity, session);
+      }
+
+      tournament.markModified('bracket');
+      await tournament.save({ session });
     });
 
-    // After transaction, get updated user and tournament
-    const tournament = await Tournament.findById(id);
-    const updatedUser = await User.findById(userId).select('coins');
-    
-    // Return EnterTournamentResponse format matching C# structure
+    const populatedTournament = await Tournament.findById(id)
+      .populate('participants')
+      .populate('winnerId')
+      .lean();
+
+    // Transform to TournamentDto format
+    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User, { isAdmin: req.user.role === 'admin' });
+
     res.json({
-      ok: true,
-      coins: updatedUser.coins || 0
+      success: true,
+      message: seriesInProgress
+        ? `Game ${seriesInProgress.gameNumber} recorded. Series ${formatSeriesWins(seriesInProgress.wins)}`
+        : championId ? 'Match result recorded. Tournament completed and prize distributed' : 'Match result recorded successfully',
+      data: tournamentDto
     });
   } catch (error) {
-    logger.error('Join tournament error:', error);
+    logger.error('Record tournament match error:', error);
     const errorMessage = error.message || 'Server error';
-    
-    if (errorMessage === 'Tournament not found') {
+
+    if (errorMessage === 'Tournament not found' || errorMessage === 'Bracket match not found') {
       return res.status(404).json({
         success: false,
         message: errorMessage
       });
     }
-    
-    if (errorMessage.includes('Tournament is full') || 
-        errorMessage.includes('already registered') ||
-        errorMessage.includes('Insufficient coins') ||
-        errorMessage.includes('not accepting registrations')) {
+
+    if (errorMessage.includes('not active') ||
+        errorMessage.includes('already completed') ||
+        errorMessage.includes('not ready to be played') ||
+        errorMessage.includes('Winner must be one of the match players') ||
+        errorMessage.includes('Invalid score')) {
       return res.status(400).json({
         success: false,
         message: errorMessage
       });
     }
-    
+
     res.status(500).json({
       success: false,
       message: 'Server error'
@@ -636,10 +3449,12 @@ router.post('/:id/join', async (req, res) => {
 
 /**
  * @swagger
- * /api/tournaments/{id}/create-match:
+ * /api/tournaments/{id}/series-length:
  *   post:
- *     summary: Create a match in tournament
- *     description: Create a match within a tournament with specified participants
+ *     summary: Change the series length of a bracket match (Admin only)
+ *     description: |
+ *       Make a single bracket slot a best-of-N series (or a single game), overriding the tournament's bestOf / finalBestOf.
+ *       Only slots that haven't been decided and have no games recorded yet can be changed; slots whose players aren't known yet can be set in advance.
  *     tags: [Tournaments]
  *     security:
  *       - bearerAuth: []
@@ -657,139 +3472,363 @@ router.post('/:id/join', async (req, res) => {
  *           schema:
  *             type: object
  *             required:
- *               - participants
+ *               - roundNumber
+ *               - matchIndex
+ *               - bestOf
  *             properties:
- *               participants:
- *                 type: array
- *                 items:
- *                   type: string
- *                 description: List of participant user IDs (typically 2 for a match)
- *                 example: ["user_id_1", "user_id_2"]
+ *               roundNumber:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 3
+ *               matchIndex:
+ *                 type: integer
+ *                 minimum: 0
+ *                 example: 0
+ *               bracketSide:
+ *                 type: string
+ *                 enum: [winners, losers, grand_final]
+ *                 default: winners
+ *               bestOf:
+ *                 type: integer
+ *                 enum: [1, 3, 5]
+ *                 example: 3
  *     responses:
  *       200:
- *         description: Match created successfully
+ *         description: Series length changed
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 ok:
+ *                 success:
  *                   type: boolean
  *                   example: true
- *                 match:
- *                   $ref: '#/components/schemas/Match'
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Tournament'
  *       400:
- *         description: Validation error or invalid participants
+ *         description: Validation error, tournament not active, or match already completed or under way
+ *       403:
+ *         description: Admin access required
  *       404:
- *         description: Tournament not found
+ *         description: Tournament or bracket match not found
  */
-// Create tournament match
-router.post('/:id/create-match', [
-  body('participants').isArray({ min: 1 }).withMessage('Participants array is required'),
-  body('participants.*').custom((value) => {
-    if (!mongoose.Types.ObjectId.isValid(value)) {
-      throw new Error('Each participant must be a valid user ID');
-    }
-    return true;
-  })
+/**
+ * Change the series length of a bracket match (Admin only)
+ */
+router.post('/:id/series-length', requireAdmin, [
+  body('roundNumber').isInt({ min: 1 }).withMessage('Round number must be a positive integer'),
+  body('matchIndex').isInt({ min: 0 }).withMessage('Match index must be a non-negative integer'),
+  body('bracketSide').optional().isIn(BRACKET_SIDES).withMessage('Bracket side must be winners, losers or grand_final'),
+  body('bestOf').isIn(SERIES_LENGTHS).withMessage('Series length must be 1, 3 or 5')
 ], async (req, res) => {
-  try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({
-        success: false,
-        message: 'Validation error',
-        errors: errors.array()
-      });
-    }
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
 
+  try {
     const { id } = req.params;
-    const { participants } = req.body;
+    const roundNumber = parseInt(req.body.roundNumber);
+    const matchIndex = parseInt(req.body.matchIndex);
+    const bestOf = parseInt(req.body.bestOf);
+    const bracketSide = req.body.bracketSide || 'winners';
 
-    // Find tournament
-    const tournament = await Tournament.findById(id);
-    if (!tournament) {
+    await session.withTransaction(async () => {
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+
+      if (tournament.status !== 'active') {
+        throw new Error('Tournament is not active');
+      }
+
+      const slot = getBracketRounds(tournament.bracket, bracketSide)
+        .find(r => r.roundNumber === roundNumber)?.matches?.[matchIndex];
+      if (!slot || slot.isBye) {
+        throw new Error('Bracket match not found');
+      }
+      if (slot.status === 'completed') {
+        throw new Error('Bracket match is already completed');
+      }
+
+      const match = slot.matchId ? await Match.findById(slot.matchId).session(session) : null;
+      if (match?.games?.length) {
+        throw new Error('Series is already under way');
+      }
+
+      slot.bestOf = bestOf;
+      tournament.markModified('bracket');
+      if (match) {
+        match.bestOf = bestOf;
+        await match.save({ session });
+      }
+
+      await logTournamentActivity(tournament, {
+        type: 'updated',
+        actorId: req.user.id,
+        description: `${getBracketMatchLabel(tournament, bracketSide, roundNumber, matchIndex)} set to ${bestOf > 1 ? `best of ${bestOf}` : 'a single game'}`,
+        meta: { side: bracketSide, roundNumber, matchIndex, bestOf }
+      }, TournamentActivity, session);
+
+      await tournament.save({ session });
+    });
+
+    const populatedTournament = await Tournament.findById(id)
+      .populate('participants')
+      .populate('winnerId')
+      .lean();
+
+    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User, { isAdmin: req.user.role === 'admin' });
+
+    res.json({
+      success: true,
+      message: 'Series length updated',
+      data: tournamentDto
+    });
+  } catch (error) {
+    logger.error('Tournament series length error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Tournament not found' || errorMessage === 'Bracket match not found') {
       return res.status(404).json({
         success: false,
-        message: 'Tournament not found'
+        message: errorMessage
       });
     }
 
-    // Validate participants (should be 2 for a match)
-    if (participants.length !== 2) {
+    if (errorMessage.includes('not active') ||
+        errorMessage.includes('already completed') ||
+        errorMessage.includes('already under way')) {
       return res.status(400).json({
         success: false,
-        message: 'A match requires exactly 2 participants'
+        message: errorMessage
       });
     }
 
-    // Convert participants to ObjectIds
-    const participantObjectIds = participants.map(pId => new mongoose.Types.ObjectId(pId));
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  } finally {
+    await session.endSession();
+  }
+});
 
-    // Validate participants exist and are in tournament
-    const participantUsers = await User.find({ _id: { $in: participantObjectIds } });
-    if (participantUsers.length !== participants.length) {
-      return res.status(400).json({
-        success: false,
-        message: 'One or more participants not found'
-      });
+/**
+ * @swagger
+ * /api/tournaments/{id}/forfeit:
+ *   post:
+ *     summary: Declare a forfeit on a bracket match (Admin only)
+ *     description: |
+ *       The forfeiting player loses the match by walkover (e.g. a no-show) and the opponent advances.
+ *       The match is marked with resultType 'forfeit' and, since it wasn't played, no wins or losses are recorded.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tournament ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - roundNumber
+ *               - matchIndex
+ *               - forfeitingPlayerId
+ *             properties:
+ *               roundNumber:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 1
+ *               matchIndex:
+ *                 type: integer
+ *                 minimum: 0
+ *                 example: 0
+ *               bracketSide:
+ *                 type: string
+ *                 enum: [winners, losers, grand_final]
+ *                 default: winners
+ *               forfeitingPlayerId:
+ *                 type: string
+ *                 example: "507f1f77bcf86cd799439011"
+ *               reason:
+ *                 type: string
+ *                 example: Did not show up
+ *     responses:
+ *       200:
+ *         description: Forfeit recorded and opponent advanced
+ *       400:
+ *         description: Validation error, tournament not active, match already completed, or player not in the match
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Tournament or bracket match not found
+ */
+/**
+ * Declare a forfeit on a bracket match (Admin only)
+ * The opponent advances by walkover; player stats are not updated
+ */
+router.post('/:id/forfeit', requireAdmin, [
+  body('roundNumber').isInt({ min: 1 }).withMessage('Round number must be a positive integer'),
+  body('matchIndex').isInt({ min: 0 }).withMessage('Match index must be a non-negative integer'),
+  body('forfeitingPlayerId').custom((value) => {
+    if (!mongoose.Types.ObjectId.isValid(value)) {
+      throw new Error('Forfeiting player ID must be a valid user ID');
     }
+    return true;
+  }),
+  body('bracketSide').optional().isIn(BRACKET_SIDES).withMessage('Bracket side must be winners, losers or grand_final'),
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
 
-    // Check if participants are in tournament
-    const tournamentParticipantIds = tournament.participants.map(p => p.toString());
-    const allParticipantsInTournament = participantObjectIds.every(pId => 
-      tournamentParticipantIds.includes(pId.toString())
-    );
+  const session = await mongoose.startSession();
 
-    if (!allParticipantsInTournament) {
-      return res.status(400).json({
-        success: false,
-        message: 'All participants must be registered in the tournament'
-      });
-    }
+  try {
+    const { id } = req.params;
+    const roundNumber = parseInt(req.body.roundNumber);
+    const matchIndex = parseInt(req.body.matchIndex);
+    const forfeitingPlayerId = req.body.forfeitingPlayerId.toString();
+    const bracketSide = req.body.bracketSide || 'winners';
+    const reason = req.body.reason || '';
+    let championId = null;
 
-    // Create match linked to tournament
-    const match = await Match.create({
-      name: `Match: ${tournament.name}`,
-      type: 'private', // Tournament matches are typically private
-      cost: 0, // Tournament matches don't have entry fee
-      prize: 0, // Prize will be determined by tournament
-      tournamentId: tournament._id,
-      player1Id: participantObjectIds[0],
-      player2Id: participantObjectIds[1],
-      status: 'active'
+    await session.withTransaction(async () => {
+      championId = null;
+
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
+
+      if (tournament.status !== 'active') {
+        throw new Error('Tournament is not active');
+      }
+
+      const slot = getBracketRounds(tournament.bracket, bracketSide)
+        .find(r => r.roundNumber === roundNumber)?.matches?.[matchIndex];
+      if (!slot) {
+        throw new Error('Bracket match not found');
+      }
+      if (slot.player1Id?.toString() !== forfeitingPlayerId && slot.player2Id?.toString() !== forfeitingPlayerId) {
+        throw new Error('Forfeiting player must be one of the match players');
+      }
+
+      const winnerId = slot.player1Id?.toString() === forfeitingPlayerId ? slot.player2Id : slot.player1Id;
+      if (!winnerId) {
+        throw new Error('Bracket match is not ready to be played');
+      }
+
+      // A walkover wasn't played, so wins and losses are left untouched
+      const result = await recordBracketMatch(tournament, {
+        side: bracketSide,
+        roundNumber,
+        matchIndex,
+        winnerId,
+        resultType: 'forfeit',
+        resultReason: reason
+      }, Match, session);
+
+      await logTournamentActivity(tournament, {
+        type: 'forfeit',
+        actorId: req.user.id,
+        playerId: getEntrantPlayerId(tournament, forfeitingPlayerId),
+        description: `Forfeited ${getBracketMatchLabel(tournament, bracketSide, roundNumber, matchIndex)}` + (reason ? `: ${reason}` : ''),
+        meta: { side: bracketSide, roundNumber, matchIndex, winnerId: winnerId.toString(), loserId: forfeitingPlayerId, ...(reason ? { reason } : {}) }
+      }, TournamentActivity, session);
+
+      const resolved = result.championId ? null : await resolveDisqualifiedMatches(tournament, Match, session);
+
+      // Create Match documents for slots the winners just advanced into
+      await syncBracketMatches(tournament, Match, session);
+
+      const decidedChampionId = result.championId || resolved?.championId;
+      if (decidedChampionId) {
+        championId = decidedChampionId.toString();
+        const payouts = await completeTournament(tournament, new mongoose.Types.ObjectId(championId), { User, Transaction }, session);
+        await logTournamentCompletion(tournament, payouts, req.user.id, TournamentActivity, session);
+      }
+
+      tournament.markModified('bracket');
+      await tournament.save({ session });
     });
 
-    // Populate match with players and tournament for DTO transformation
-    const populatedMatch = await Match.findById(match._id)
-      .populate('player1Id')
-      .populate('player2Id')
-      .populate('tournamentId')
+    const populatedTournament = await Tournament.findById(id)
+      .populate('participants')
+      .populate('winnerId')
       .lean();
 
-    // Transform to MatchDto format
-    const matchDto = transformMatchToDto(populatedMatch, Tournament, User);
+    // Transform to TournamentDto format
+    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User, { isAdmin: req.user.role === 'admin' });
 
-    // Return CreateTournamentMatchResponse format matching C# structure
     res.json({
-      ok: true,
-      match: matchDto
+      success: true,
+      message: championId ? 'Forfeit recorded. Tournament completed and prize distributed' : 'Forfeit recorded; the opponent advances by walkover',
+      data: tournamentDto
     });
   } catch (error) {
-    logger.error('Create tournament match error:', error);
+    logger.error('Tournament forfeit error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Tournament not found' || errorMessage === 'Bracket match not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('not active') ||
+        errorMessage.includes('already completed') ||
+        errorMessage.includes('not ready to be played') ||
+        errorMessage.includes('must be one of the match players')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Server error'
     });
+  } finally {
+    await session.endSession();
   }
 });
 
 /**
  * @swagger
- * /api/tournaments/{id}/finalize-match:
+ * /api/tournaments/{id}/disqualify:
  *   post:
- *     summary: Finalize a tournament match
- *     description: Finalize a specific match in a tournament by setting the winner. Updates match status, player stats, and awards prize.
+ *     summary: Disqualify a participant (Admin only)
+ *     description: |
+ *       Disqualify a player from a running tournament. Every remaining match of the player (including ones they
+ *       would reach later, e.g. a losers-bracket drop) is awarded to the opponent by walkover with resultType
+ *       'disqualification'. Walkovers don't count as wins or losses, and a disqualified player receives no prize.
+ *       The entry fee is not refunded. In team tournaments, disqualifying a member (or passing the team ID) disqualifies the whole team.
  *     tags: [Tournaments]
  *     security:
  *       - bearerAuth: []
@@ -807,171 +3846,156 @@ router.post('/:id/create-match', [
  *           schema:
  *             type: object
  *             required:
- *               - matchId
- *               - winnerId
+ *               - userId
+ *               - reason
  *             properties:
- *               matchId:
+ *               userId:
  *                 type: string
- *                 description: Match ID to finalize
- *                 example: "match_id_here"
- *               winnerId:
+ *                 description: Player ID, or team ID in team tournaments
+ *                 example: "507f1f77bcf86cd799439011"
+ *               reason:
  *                 type: string
- *                 description: User ID of the match winner
- *                 example: "user_id_here"
+ *                 example: Account banned for cheating
  *     responses:
  *       200:
- *         description: Match finalized successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Match finalized successfully"
- *                 match:
- *                   $ref: '#/components/schemas/Match'
+ *         description: Player disqualified and pending matches awarded as walkovers
  *       400:
- *         description: Validation error, match not found, or invalid winner
+ *         description: Validation error, tournament not active, player not registered or already disqualified
+ *       403:
+ *         description: Admin access required
  *       404:
- *         description: Tournament or match not found
+ *         description: Tournament not found
  */
-// Finalize tournament match
-router.post('/:id/finalize-match', [
-  body('matchId').custom((value) => {
+/**
+ * Disqualify a participant from a running tournament (Admin only)
+ * Their opponents advance by walkover as the player's matches become ready
+ */
+router.post('/:id/disqualify', requireAdmin, [
+  body('userId').custom((value) => {
     if (!mongoose.Types.ObjectId.isValid(value)) {
-      throw new Error('Match ID must be a valid ID');
+      throw new Error('User ID must be a valid user ID');
     }
     return true;
   }),
-  body('winnerId').custom((value) => {
-    if (!mongoose.Types.ObjectId.isValid(value)) {
-      throw new Error('Winner ID must be a valid user ID');
-    }
-    return true;
-  })
+  body('reason').trim().isLength({ min: 1, max: 500 }).withMessage('Reason is required (at most 500 characters)')
 ], async (req, res) => {
-  try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({
-        success: false,
-        message: 'Validation error',
-        errors: errors.array()
-      });
-    }
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
 
+  try {
     const { id } = req.params;
-    const { matchId, winnerId } = req.body;
+    const userId = req.body.userId.toString();
+    const { reason } = req.body;
+    let championId = null;
+    let walkovers = 0;
 
-    // Find tournament
-    const tournament = await Tournament.findById(id);
-    if (!tournament) {
-      return res.status(404).json({
-        success: false,
-        message: 'Tournament not found'
-      });
-    }
+    await session.withTransaction(async () => {
+      championId = null;
+      walkovers = 0;
 
-    // Find match
-    const match = await Match.findById(matchId);
-    if (!match) {
-      return res.status(404).json({
-        success: false,
-        message: 'Match not found'
-      });
-    }
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
 
-    // Validate match belongs to tournament
-    if (!match.tournamentId || match.tournamentId.toString() !== tournament._id.toString()) {
-      return res.status(400).json({
-        success: false,
-        message: 'Match does not belong to this tournament'
-      });
-    }
+      if (tournament.status !== 'active') {
+        throw new Error('Tournament is not active');
+      }
 
-    // Check if match is already completed
-    if (match.status === 'completed') {
-      return res.status(400).json({
-        success: false,
-        message: 'Match is already finalized'
-      });
-    }
+      // In team tournaments the whole team is disqualified (by team ID or any member's ID)
+      const entrantId = isTeamTournament(tournament)
+        ? (tournament.teams.find(team => team._id.toString() === userId) || findUserTeam(tournament, userId))?._id?.toString()
+        : userId;
+      if (!entrantId || !getEntrantIds(tournament).some(p => p.toString() === entrantId)) {
+        throw new Error('User is not registered for this tournament');
+      }
 
-    // Validate winner is one of the match players
-    const winnerIdStr = winnerId.toString();
-    const player1IdStr = match.player1Id?.toString();
-    const player2IdStr = match.player2Id?.toString();
+      if (isDisqualified(tournament, entrantId)) {
+        throw new Error('Player is already disqualified');
+      }
 
-    if (player1IdStr !== winnerIdStr && player2IdStr !== winnerIdStr) {
-      return res.status(400).json({
-        success: false,
-        message: 'Winner must be one of the match players'
-      });
-    }
+      tournament.disqualified.push({ userId: entrantId, reason, disqualifiedAt: new Date() });
 
-    // Determine loser
-    const loserId = player1IdStr === winnerIdStr ? match.player2Id : match.player1Id;
+      const resolved = await resolveDisqualifiedMatches(tournament, Match, session);
+      walkovers = resolved.walkovers;
 
-    // Update match
-    match.status = 'completed';
-    match.winnerId = winnerId;
-    match.completedAt = new Date();
-    await match.save();
+      const team = isTeamTournament(tournament) ? tournament.teams.find(t => t._id.toString() === entrantId) : null;
+      await logTournamentActivity(tournament, {
+        type: 'disqualified',
+        actorId: req.user.id,
+        playerId: getEntrantPlayerId(tournament, entrantId),
+        description: `${team ? `Team ${team.name} disqualified` : 'Disqualified'}: ${reason}`
+          + (walkovers > 0 ? ` (${walkovers} walkover(s) awarded)` : ''),
+        meta: { entrantId, reason, walkovers }
+      }, TournamentActivity, session);
 
-    // Get winner's balance before prize
-    const winnerUser = await User.findById(winnerId);
-    const balanceBefore = winnerUser ? winnerUser.coins : 0;
-    const balanceAfter = balanceBefore + (match.prize || 0);
+      // Create Match documents for slots the winners just advanced into
+      await syncBracketMatches(tournament, Match, session);
 
-    // Update player stats and award prize
-    if (winnerUser) {
-      await User.findByIdAndUpdate(winnerId, { 
-        $inc: { wins: 1, coins: match.prize || 0 } 
-      });
-    }
+      if (resolved.championId) {
+        championId = resolved.championId.toString();
+        const payouts = await completeTournament(tournament, new mongoose.Types.ObjectId(championId), { User, Transaction }, session);
+        await logTournamentCompletion(tournament, payouts, req.user.id, TournamentActivity, session);
+      }
 
-    if (loserId) {
-      await User.findByIdAndUpdate(loserId, { $inc: { losses: 1 } });
-    }
+      tournament.markModified('bracket');
+      await tournament.save({ session });
+    });
 
-    // Log transaction if prize exists
-    if (match.prize && match.prize > 0 && winnerUser) {
-      await Transaction.create({
-        userId: winnerId,
-        type: 'match_win',
-        amount: match.prize,
-        description: `Prize for winning tournament match: ${match.name}`,
-        balanceBefore: balanceBefore,
-        balanceAfter: balanceAfter,
-        matchId: match._id
-      });
-    }
+    const populatedTournament = await Tournament.findById(id)
+      .populate('participants')
+      .populate('winnerId')
+      .lean();
 
-    // Populate match for DTO transformation
-    const populatedMatch = await Match.findById(match._id)
-      .populate('player1Id')
-      .populate('player2Id')
-      .populate('tournamentId')
-      .populate('winnerId');
+    // Transform to TournamentDto format
+    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User, { isAdmin: req.user.role === 'admin' });
 
-    // Transform to MatchDto format
-    const matchDto = transformMatchToDto(populatedMatch, Tournament, User);
+    let message = walkovers > 0
+      ? `Player disqualified; ${walkovers} match(es) awarded by walkover`
+      : 'Player disqualified; their next match will be awarded by walkover';
+    if (championId) {
+      message += '. Tournament completed and prize distributed';
+    }
 
     res.json({
       success: true,
-      message: 'Match finalized successfully',
-      match: matchDto
+      message,
+      data: tournamentDto
     });
   } catch (error) {
-    logger.error('Finalize tournament match error:', error);
+    logger.error('Tournament disqualify error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Tournament not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('not active') ||
+        errorMessage.includes('not registered') ||
+        errorMessage.includes('already disqualified')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Server error'
     });
+  } finally {
+    await session.endSession();
   }
 });
 
@@ -979,8 +4003,8 @@ router.post('/:id/finalize-match', [
  * @swagger
  * /api/tournaments/{id}/finalize:
  *   post:
- *     summary: Finalize tournament champion
- *     description: Set the tournament champion and complete the tournament. Prize will be distributed if not already distributed.
+ *     summary: Finalize tournament champion (Admin only)
+ *     description: Set the tournament champion and complete the tournament. Prize will be distributed if not already distributed. Round-robin and Swiss tournaments crown the standings leader once every round has been played, so championId is not needed.
  *     tags: [Tournaments]
  *     security:
  *       - bearerAuth: []
@@ -997,12 +4021,10 @@ router.post('/:id/finalize-match', [
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - championId
  *             properties:
  *               championId:
  *                 type: string
- *                 description: User ID of the tournament champion
+ *                 description: User ID (team ID in team tournaments) of the tournament champion. Required for knockout formats; ignored for round robin and Swiss
  *                 example: "507f1f77bcf86cd799439011"
  *     responses:
  *       200:
@@ -1021,13 +4043,15 @@ router.post('/:id/finalize-match', [
  *                 tournament:
  *                   $ref: '#/components/schemas/Tournament'
  *       400:
- *         description: Validation error or champion not in tournament
+ *         description: Validation error, champion not in tournament, or league rounds still to play
+ *       403:
+ *         description: Admin access required
  *       404:
  *         description: Tournament or champion not found
  */
-// Finalize tournament champion
-router.post('/:id/finalize', [
-  body('championId').custom((value) => {
+// Finalize tournament champion (admin only)
+router.post('/:id/finalize', requireAdmin, [
+  body('championId').optional().custom((value) => {
     if (!mongoose.Types.ObjectId.isValid(value)) {
       throw new Error('Champion ID must be a valid user ID');
     }
@@ -1045,7 +4069,6 @@ router.post('/:id/finalize', [
     }
 
     const { id } = req.params;
-    const { championId } = req.body;
 
     // Find tournament
     const tournament = await Tournament.findById(id);
@@ -1064,9 +4087,25 @@ router.post('/:id/finalize', [
       });
     }
 
-    // Validate champion exists
-    const championUser = await User.findById(championId);
-    if (!championUser) {
+    // Leagues crown the standings leader; knockout formats need an explicit champion
+    let championId = req.body.championId;
+    if (isLeagueFormat(tournament.format)) {
+      if (tournament.status !== 'active' || !isLeagueComplete(tournament.bracket)) {
+        return res.status(400).json({
+          success: false,
+          message: 'All league rounds must be played before finalizing'
+        });
+      }
+      championId = tournament.bracket.standings[0].playerId.toString();
+    } else if (!championId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Champion ID is required'
+      });
+    }
+
+    // Validate champion exists (a team champion is checked against the registered teams below)
+    if (!isTeamTournament(tournament) && !(await User.findById(championId))) {
       return res.status(404).json({
         success: false,
         message: 'Champion not found'
@@ -1074,7 +4113,7 @@ router.post('/:id/finalize', [
     }
 
     // Validate champion is in tournament
-    const tournamentParticipantIds = tournament.participants.map(p => p.toString());
+    const tournamentParticipantIds = getEntrantIds(tournament).map(p => p.toString());
     if (!tournamentParticipantIds.includes(championId.toString())) {
       return res.status(400).json({
         success: false,
@@ -1082,39 +4121,13 @@ router.post('/:id/finalize', [
       });
     }
 
-    // Set champion and complete tournament
-    tournament.winnerId = new mongoose.Types.ObjectId(championId);
-    tournament.status = 'completed';
-    tournament.completedAt = new Date();
-
-    // Distribute prize if not already distributed
-    if (!tournament.prizeDistributed) {
-      const awardPercentage = tournament.awardPercentage || 80;
-      const prizeAmount = Math.floor(tournament.prizePool * (awardPercentage / 100));
-      
-      // Get user's current balance before transaction
-      const balanceBefore = championUser.coins;
-      const balanceAfter = balanceBefore + prizeAmount;
-      
-      await User.findByIdAndUpdate(championId, { $inc: { coins: prizeAmount } });
-
-      // Mark prize as distributed
-      tournament.prizeDistributed = true;
-
-      // Log transaction with balance tracking
-      await Transaction.create({
-        userId: championId,
-        type: 'tournament_win',
-        amount: prizeAmount,
-        description: `Tournament prize (${awardPercentage}%) for winning: ${tournament.name}`,
-        balanceBefore: balanceBefore,
-        balanceAfter: balanceAfter,
-        matchId: null
-      });
-    }
+    // Set champion, complete tournament and distribute prize if not already distributed
+    const payouts = await completeTournament(tournament, new mongoose.Types.ObjectId(championId), { User, Transaction });
 
     await tournament.save();
 
+    await logTournamentCompletion(tournament, payouts, req.user.id, TournamentActivity);
+
     // Populate tournament for DTO transformation
     const populatedTournament = await Tournament.findById(tournament._id)
       .populate('participants')
@@ -1122,7 +4135,7 @@ router.post('/:id/finalize', [
       .lean();
 
     // Transform to TournamentDto format
-    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User);
+    const tournamentDto = await transformTournamentToDto(populatedTournament, Match, User, { isAdmin: req.user.role === 'admin' });
 
     res.json({
       success: true,
@@ -1213,11 +4226,33 @@ router.post('/:id/update-award-percentage', requireAdmin, [
       });
     }
 
+    const previousPercentage = getPayoutStructure(tournament)[0];
+
     // Store award percentage in tournament (add to schema if needed)
     // For now, we'll store it in a custom field
     tournament.awardPercentage = parseFloat(percentage);
+
+    // With a payout structure, the award percentage is the champion's share
+    if (tournament.payoutStructure?.length) {
+      const payoutStructure = [parseFloat(percentage), ...tournament.payoutStructure.slice(1)];
+      if (payoutStructure.reduce((sum, p) => sum + p, 0) > 100) {
+        return res.status(400).json({
+          success: false,
+          message: 'Payout percentages cannot exceed 100% in total'
+        });
+      }
+      tournament.payoutStructure = payoutStructure;
+    }
+
     await tournament.save();
 
+    await logTournamentActivity(tournament, {
+      type: 'award_percentage_changed',
+      actorId: req.user.id,
+      description: `Champion's share changed from ${previousPercentage}% to ${tournament.awardPercentage}%`,
+      meta: { previousPercentage, percentage: tournament.awardPercentage }
+    }, TournamentActivity);
+
     res.json({
       success: true,
       message: `Award percentage updated to ${percentage}%`,
@@ -1240,7 +4275,7 @@ router.post('/:id/update-award-percentage', requireAdmin, [
  * /api/tournaments/{id}/cancel:
  *   post:
  *     summary: Cancel tournament (Admin only)
- *     description: Cancel a tournament and refund all participants their entry fees
+ *     description: Cancel a tournament and refund all participants their entry fees. Bracket matches still waiting for a result are cancelled too. Runs in a single database transaction.
  *     tags: [Tournaments]
  *     security:
  *       - bearerAuth: []
@@ -1273,80 +4308,73 @@ router.post('/:id/update-award-percentage', requireAdmin, [
  */
 /**
  * Cancel tournament and refund all participants (Admin only)
+ * Runs in a MongoDB transaction so every refund and the cancellation land together
  */
 router.post('/:id/cancel', requireAdmin, [
   body('reason').optional().trim()
 ], async (req, res) => {
+  const session = await mongoose.startSession();
+
   try {
     const { id } = req.params;
-    const { reason } = req.body;
+    const reason = req.body.reason || 'Cancelled by admin';
+    let refundedCount = 0;
 
-    const tournament = await Tournament.findById(id);
-    if (!tournament) {
-      return res.status(404).json({
-        success: false,
-        message: 'Tournament not found'
-      });
-    }
+    await session.withTransaction(async () => {
+      const tournament = await Tournament.findById(id).session(session);
+      if (!tournament) {
+        throw new Error('Tournament not found');
+      }
 
-    if (tournament.status === 'completed') {
-      return res.status(400).json({
-        success: false,
-        message: 'Cannot cancel completed tournament'
-      });
-    }
+      if (tournament.status === 'completed') {
+        throw new Error('Cannot cancel completed tournament');
+      }
 
-    if (tournament.status === 'cancelled') {
-      return res.status(400).json({
-        success: false,
-        message: 'Tournament is already cancelled'
-      });
-    }
-
-    // Refund all participants (use atomic operations)
-    for (const participantId of tournament.participants) {
-      const user = await User.findById(participantId);
-      if (user) {
-        // Get balance before refund
-        const balanceBefore = user.coins;
-        const balanceAfter = balanceBefore + tournament.entryCost;
-
-        // Atomically refund coins
-        await User.findByIdAndUpdate(
-          participantId,
-          { $inc: { coins: tournament.entryCost } }
-        );
-
-        // Log refund transaction with balance tracking
-        await Transaction.create({
-          userId: user._id,
-          type: 'tournament_entry',
-          amount: tournament.entryCost,
-          description: `Refund for cancelled tournament: ${tournament.name}`,
-          balanceBefore: balanceBefore,
-          balanceAfter: balanceAfter,
-          matchId: null
-        });
+      if (tournament.status === 'cancelled') {
+        throw new Error('Tournament is already cancelled');
       }
-    }
 
-    // Update tournament status
-    tournament.status = 'cancelled';
-    tournament.cancelledAt = new Date();
-    tournament.cancellationReason = reason || 'Cancelled by admin';
-    await tournament.save();
+      // Refund all participants, cancel open bracket matches and mark the tournament cancelled
+      refundedCount = await cancelTournament(tournament, reason, { User, Match, Transaction }, session);
+      await tournament.save({ session });
+
+      await logTournamentActivity(tournament, {
+        type: 'cancelled',
+        actorId: req.user.id,
+        description: `Tournament cancelled (${reason}); ${refundedCount} participant(s) refunded`,
+        meta: { reason, refundedCount }
+      }, TournamentActivity, session);
+    });
 
     res.json({
       success: true,
       message: 'Tournament cancelled. All participants have been refunded.',
-      refundedCount: tournament.participants.length
+      refundedCount
     });
   } catch (error) {
     logger.error('Cancel tournament error:', error);
+    const errorMessage = error.message || 'Server error';
+
+    if (errorMessage === 'Tournament not found') {
+      return res.status(404).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('completed tournament') || errorMessage.includes('already cancelled')) {
+      return res.status(400).json({
+        success: false,
+        message: errorMessage
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Server error'
     });
+  } finally {
+    await session.endSession();
   }
 });
 
@@ -0,0 +1,638 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import TournamentTemplate from '../models/TournamentTemplate.js';
+import Tournament from '../models/Tournament.js';
+import User from '../models/User.js';
+import Match from '../models/Match.js';
+import TournamentActivity from '../models/TournamentActivity.js';
+import { MIN_BRACKET_PLAYERS, MAX_BRACKET_PLAYERS, TOURNAMENT_FORMATS } from '../utils/bracketGenerator.js';
+import { TIEBREAKERS } from '../utils/leagueGenerator.js';
+import { SEEDING_MODES } from '../utils/seeding.js';
+import { getTournamentSettingsError, getDefaultMinPlayers } from '../utils/tournamentService.js';
+import { TARGET_POINTS } from '../utils/matchScore.js';
+import { SERIES_LENGTHS } from '../utils/matchSeries.js';
+import { RECURRENCE_FREQUENCIES, createTemplateEdition, getNextOccurrence } from '../utils/templateService.js';
+import { logTournamentActivity } from '../utils/tournamentActivity.js';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware.js';
+import { logger } from '../utils/logger.js';
+import { transformTournamentTemplateToDto, transformTournamentToDto } from '../utils/dtoTransformers.js';
+
+const router = express.Router();
+
+// All routes require admin authentication
+router.use(authenticate);
+router.use(requireAdmin);
+
+/**
+ * Validators shared by create and update (update makes every field optional)
+ */
+const templateValidators = (isUpdate) => {
+  const field = (name) => (isUpdate ? body(name).optional() : body(name));
+
+  return [
+    field('name').trim().isLength({ min: 1, max: 200 }).withMessage('Name is required (max 200 characters)'),
+    body('description').optional().trim(),
+    field('type').isIn(['public', 'private']).withMessage('Type must be public or private'),
+    field('maxPlayers').isInt({ min: MIN_BRACKET_PLAYERS, max: MAX_BRACKET_PLAYERS }).withMessage(`Max players must be between ${MIN_BRACKET_PLAYERS} and ${MAX_BRACKET_PLAYERS}`),
+    body('teamSize').optional().isIn([1, 2, 3, '1', '2', '3']).withMessage('Team size must be 1, 2 or 3'),
+    body('targetPoints').optional().isIn(TARGET_POINTS).withMessage('Target points must be 15 or 30'),
+    body('bestOf').optional().isIn(SERIES_LENGTHS).withMessage('Series length must be 1, 3 or 5'),
+    body('finalBestOf').optional({ nullable: true }).isIn(SERIES_LENGTHS).withMessage('Final series length must be 1, 3 or 5'),
+    field('entryCost').isInt({ min: 1 }).withMessage('Entry cost must be a positive integer'),
+    field('prizePool').if(body('prizePoolMode').not().equals('entry_fees')).isInt({ min: 1 }).withMessage('Prize pool must be a positive integer'),
+    body('prizePoolMode').optional().isIn(['fixed', 'entry_fees']).withMessage('Prize pool mode must be fixed or entry_fees'),
+    body('rakePercentage').optional().isFloat({ min: 0, max: 100 }).withMessage('Rake must be between 0 and 100 percent'),
+    body('guaranteedPrizePool').optional().isInt({ min: 0 }).withMessage('Guaranteed prize pool must be a non-negative integer'),
+    body('payoutStructure').optional().isArray().withMessage('Payout structure must be an array'),
+    body('payoutStructure.*').isFloat({ min: 0, max: 100 }).withMessage('Payout percentages must be between 0 and 100'),
+    body('format').optional().isIn(TOURNAMENT_FORMATS).withMessage('Format must be single_elimination, double_elimination, round_robin or swiss'),
+    body('grandFinalReset').optional().isBoolean().withMessage('Grand final reset must be a boolean'),
+    body('thirdPlaceMatch').optional().isBoolean().withMessage('Third-place match must be a boolean'),
+    body('swissRounds').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Swiss rounds must be a positive integer'),
+    body('tiebreakers').optional().isArray().withMessage('Tiebreakers must be an array'),
+    body('tiebreakers.*').isIn(TIEBREAKERS).withMessage('Tiebreakers must be head_to_head, buchholz or points_difference'),
+    body('seeding').optional().isIn(SEEDING_MODES.filter(mode => mode !== 'manual')).withMessage('Seeding must be random, join_order or rating'),
+    body('minPlayers').optional({ nullable: true }).isInt({ min: MIN_BRACKET_PLAYERS, max: MAX_BRACKET_PLAYERS }).withMessage(`Min players must be between ${MIN_BRACKET_PLAYERS} and ${MAX_BRACKET_PLAYERS}`),
+    body('withdrawalCutoffMinutes').optional().isInt({ min: 0 }).withMessage('Withdrawal cutoff must be a non-negative number of minutes'),
+    body('recurrence.frequency').optional().isIn(RECURRENCE_FREQUENCIES).withMessage('Frequency must be none, daily, weekly or monthly'),
+    body('recurrence.interval').optional().isInt({ min: 1, max: 52 }).withMessage('Interval must be between 1 and 52'),
+    body('nextStartDate').optional({ nullable: true }).isISO8601().withMessage('Invalid date format'),
+    body('registrationLeadHours').optional().isInt({ min: 1 }).withMessage('Registration lead time must be at least 1 hour'),
+    body('registrationCloseMinutes').optional().isInt({ min: 0 }).withMessage('Registration close must be a non-negative number of minutes'),
+    body('active').optional().isBoolean().withMessage('Active must be a boolean')
+  ];
+};
+
+/**
+ * Apply request body fields onto a template (only the fields that were sent)
+ */
+const applyTemplateFields = (template, fields) => {
+  const { name, description, type, maxPlayers, teamSize, targetPoints, bestOf, finalBestOf, entryCost, prizePool, prizePoolMode, rakePercentage, guaranteedPrizePool, payoutStructure, format, grandFinalReset, thirdPlaceMatch, swissRounds, tiebreakers, seeding, minPlayers, withdrawalCutoffMinutes, recurrence, nextStartDate, registrationLeadHours, registrationCloseMinutes, active } = fields;
+
+  if (name !== undefined) template.name = name.trim();
+  if (description !== undefined) template.description = description || '';
+  if (type !== undefined) template.type = type;
+  if (maxPlayers !== undefined) template.maxPlayers = parseInt(maxPlayers);
+  if (teamSize !== undefined) template.teamSize = parseInt(teamSize);
+  if (targetPoints !== undefined) template.targetPoints = parseInt(targetPoints);
+  if (bestOf !== undefined) template.bestOf = parseInt(bestOf);
+  if (finalBestOf !== undefined) template.finalBestOf = finalBestOf ? parseInt(finalBestOf) : null;
+  if (entryCost !== undefined) template.entryCost = parseInt(entryCost);
+  if (prizePoolMode !== undefined) template.prizePoolMode = prizePoolMode;
+  if (prizePool !== undefined) template.prizePool = parseInt(prizePool) || 0;
+  if (rakePercentage !== undefined) template.rakePercentage = parseFloat(rakePercentage);
+  if (guaranteedPrizePool !== undefined) template.guaranteedPrizePool = parseInt(guaranteedPrizePool);
+  if (payoutStructure !== undefined) template.payoutStructure = payoutStructure.map(percentage => parseFloat(percentage));
+  if (format !== undefined) template.format = format;
+  if (grandFinalReset !== undefined) template.grandFinalReset = grandFinalReset !== false && grandFinalReset !== 'false';
+  if (thirdPlaceMatch !== undefined) template.thirdPlaceMatch = thirdPlaceMatch === true || thirdPlaceMatch === 'true';
+  if (swissRounds !== undefined) template.swissRounds = swissRounds ? parseInt(swissRounds) : null;
+  if (tiebreakers?.length) template.tiebreakers = [...new Set(tiebreakers)];
+  if (seeding !== undefined) template.seeding = seeding;
+  if (minPlayers !== undefined) template.minPlayers = minPlayers ? parseInt(minPlayers) : getDefaultMinPlayers(template.format);
+  if (withdrawalCutoffMinutes !== undefined) template.withdrawalCutoffMinutes = parseInt(withdrawalCutoffMinutes);
+  if (recurrence?.frequency !== undefined) template.recurrence.frequency = recurrence.frequency;
+  if (recurrence?.interval !== undefined) template.recurrence.interval = parseInt(recurrence.interval);
+  if (nextStartDate !== undefined) template.nextStartDate = nextStartDate || null;
+  if (registrationLeadHours !== undefined) template.registrationLeadHours = parseInt(registrationLeadHours);
+  if (registrationCloseMinutes !== undefined) template.registrationCloseMinutes = parseInt(registrationCloseMinutes);
+  if (active !== undefined) template.active = active === true || active === 'true';
+
+  // Only Swiss uses a round count
+  if (template.format !== 'swiss') template.swissRounds = null;
+  // Each edition's entry-fee pool comes from its own entries
+  if (template.prizePoolMode === 'entry_fees') template.prizePool = 0;
+};
+
+/**
+ * Check the template as a whole once the request fields are applied
+ * @returns {String|null} Error message, or null if the template is valid
+ */
+const getTemplateError = (template) => {
+  const settingsError = getTournamentSettingsError({
+    format: template.format,
+    maxPlayers: template.maxPlayers,
+    minPlayers: template.minPlayers,
+    payoutStructure: template.payoutStructure?.length ? template.payoutStructure : null,
+    thirdPlaceMatch: template.thirdPlaceMatch,
+    swissRounds: template.swissRounds
+  });
+  if (settingsError) return settingsError;
+
+  // Switching back to a fixed pool needs an amount to pay out
+  if (template.prizePoolMode !== 'entry_fees' && !(template.prizePool >= 1)) {
+    return 'Prize pool is required for a fixed prize pool';
+  }
+
+  if (template.recurrence?.frequency !== 'none' && !template.nextStartDate) {
+    return 'Recurring templates need the start date of the next edition';
+  }
+
+  if ((template.registrationCloseMinutes || 0) >= (template.registrationLeadHours ?? 24) * 60) {
+    return 'Registration must close after it opens';
+  }
+
+  return null;
+};
+
+/**
+ * @swagger
+ * /api/tournament-templates:
+ *   get:
+ *     summary: Get all tournament templates (Admin only)
+ *     description: Saved tournament settings with their recurrence rule, sorted by name
+ *     tags: [Tournament Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Templates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 templates:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TournamentTemplate'
+ *       403:
+ *         description: Admin access required
+ */
+/**
+ * Get all tournament templates (Admin only)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const templates = await TournamentTemplate.find().sort({ name: 1 }).lean();
+
+    res.json({
+      success: true,
+      templates: templates.map(template => transformTournamentTemplateToDto(template))
+    });
+  } catch (error) {
+    logger.error('Get tournament templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournament-templates:
+ *   post:
+ *     summary: Create tournament template (Admin only)
+ *     description: |
+ *       Save tournament settings with a recurrence rule. For recurring templates the scheduler creates
+ *       each edition registrationLeadHours before its start, named "<name> - YYYY-MM-DD".
+ *     tags: [Tournament Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - type
+ *               - maxPlayers
+ *               - entryCost
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 200
+ *                 example: Friday Night 8-player 50-coin
+ *               description:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [public, private]
+ *               maxPlayers:
+ *                 type: integer
+ *                 minimum: 2
+ *                 maximum: 64
+ *                 example: 8
+ *               teamSize:
+ *                 type: integer
+ *                 enum: [1, 2, 3]
+ *                 default: 1
+ *               targetPoints:
+ *                 type: integer
+ *                 enum: [15, 30]
+ *                 default: 30
+ *               bestOf:
+ *                 type: integer
+ *                 enum: [1, 3, 5]
+ *                 default: 1
+ *               finalBestOf:
+ *                 type: integer
+ *                 enum: [1, 3, 5]
+ *                 description: Defaults to bestOf
+ *               entryCost:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 50
+ *               prizePool:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Required in fixed mode; ignored in entry-fee mode
+ *                 example: 400
+ *               prizePoolMode:
+ *                 type: string
+ *                 enum: [fixed, entry_fees]
+ *                 default: fixed
+ *               rakePercentage:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 default: 0
+ *               guaranteedPrizePool:
+ *                 type: integer
+ *                 minimum: 0
+ *                 default: 0
+ *               payoutStructure:
+ *                 type: array
+ *                 items:
+ *                   type: number
+ *                 example: [70, 30]
+ *               format:
+ *                 type: string
+ *                 enum: [single_elimination, double_elimination, round_robin, swiss]
+ *               grandFinalReset:
+ *                 type: boolean
+ *               thirdPlaceMatch:
+ *                 type: boolean
+ *               swissRounds:
+ *                 type: integer
+ *               tiebreakers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [head_to_head, buchholz, points_difference]
+ *               seeding:
+ *                 type: string
+ *                 enum: [random, join_order, rating]
+ *               minPlayers:
+ *                 type: integer
+ *                 example: 4
+ *               withdrawalCutoffMinutes:
+ *                 type: integer
+ *                 example: 60
+ *               recurrence:
+ *                 type: object
+ *                 properties:
+ *                   frequency:
+ *                     type: string
+ *                     enum: [none, daily, weekly, monthly]
+ *                     default: weekly
+ *                   interval:
+ *                     type: integer
+ *                     minimum: 1
+ *                     maximum: 52
+ *                     default: 1
+ *               nextStartDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Start of the next edition (required unless frequency is none)
+ *                 example: 2026-10-23T20:00:00Z
+ *               registrationLeadHours:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 24
+ *               registrationCloseMinutes:
+ *                 type: integer
+ *                 minimum: 0
+ *                 default: 0
+ *               active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Template created successfully
+ *       400:
+ *         description: Validation error or duplicate template name
+ *       403:
+ *         description: Admin access required
+ */
+/**
+ * Create tournament template (Admin only)
+ */
+router.post('/', templateValidators(false), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const existingTemplate = await TournamentTemplate.findOne({ name: req.body.name.trim() });
+    if (existingTemplate) {
+      return res.status(400).json({
+        success: false,
+        message: 'Template with this name already exists'
+      });
+    }
+
+    const template = new TournamentTemplate({ type: req.body.type, createdBy: req.user.id });
+    applyTemplateFields(template, req.body);
+    if (req.body.minPlayers === undefined) {
+      template.minPlayers = getDefaultMinPlayers(template.format);
+    }
+
+    const templateError = getTemplateError(template);
+    if (templateError) {
+      return res.status(400).json({
+        success: false,
+        message: templateError
+      });
+    }
+
+    await template.save();
+
+    res.status(201).json({
+      success: true,
+      data: transformTournamentTemplateToDto(template)
+    });
+  } catch (error) {
+    logger.error('Create tournament template error:', error);
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Template with this name already exists'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournament-templates/{id}:
+ *   patch:
+ *     summary: Update tournament template (Admin only)
+ *     description: Update any template field (same body as create, every field optional). Editions already created are not changed.
+ *     tags: [Tournament Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Template ID
+ *     responses:
+ *       200:
+ *         description: Template updated successfully
+ *       400:
+ *         description: Validation error or duplicate template name
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Template not found
+ */
+/**
+ * Update tournament template (Admin only)
+ * Existing editions keep the settings they were created with
+ */
+router.patch('/:id', templateValidators(true), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: errors.array()
+      });
+    }
+
+    const template = await TournamentTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    if (req.body.name && req.body.name.trim() !== template.name) {
+      const existingTemplate = await TournamentTemplate.findOne({ name: req.body.name.trim() });
+      if (existingTemplate) {
+        return res.status(400).json({
+          success: false,
+          message: 'Template with this name already exists'
+        });
+      }
+    }
+
+    applyTemplateFields(template, req.body);
+
+    const templateError = getTemplateError(template);
+    if (templateError) {
+      return res.status(400).json({
+        success: false,
+        message: templateError
+      });
+    }
+
+    await template.save();
+
+    res.json({
+      success: true,
+      message: 'Template updated successfully',
+      data: transformTournamentTemplateToDto(template)
+    });
+  } catch (error) {
+    logger.error('Update tournament template error:', error);
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Template with this name already exists'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournament-templates/{id}:
+ *   delete:
+ *     summary: Delete tournament template (Admin only)
+ *     description: Stops future editions. Tournaments already created from the template are kept.
+ *     tags: [Tournament Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Template ID
+ *     responses:
+ *       200:
+ *         description: Template deleted successfully
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Template not found
+ */
+/**
+ * Delete tournament template (Admin only)
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const template = await TournamentTemplate.findByIdAndDelete(req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Template deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Delete tournament template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/tournament-templates/{id}/instantiate:
+ *   post:
+ *     summary: Create a tournament from a template now (Admin only)
+ *     description: |
+ *       Without a startDate, creates the next scheduled edition early and advances the schedule.
+ *       With a startDate, creates a one-off edition on that date and leaves the schedule alone.
+ *     tags: [Tournament Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Template ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 example: 2026-10-23T20:00:00Z
+ *     responses:
+ *       201:
+ *         description: Tournament created successfully
+ *       400:
+ *         description: No start date, start date in the past, or an edition with that name already exists
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Template not found
+ */
+/**
+ * Create a tournament from a template now (Admin only)
+ * Uses MongoDB transactions so the edition and the template's schedule stay in step
+ */
+router.post('/:id/instantiate', [
+  body('startDate').optional({ nullable: true }).isISO8601().withMessage('Invalid date format')
+], async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    let createdTournament = null;
+
+    await session.withTransaction(async () => {
+      const template = await TournamentTemplate.findById(req.params.id).session(session);
+      if (!template) {
+        throw new Error('Template not found');
+      }
+
+      const isScheduledEdition = !req.body.startDate;
+      const startDate = isScheduledEdition ? template.nextStartDate : new Date(req.body.startDate);
+      if (!startDate) {
+        throw new Error('Start date is required for templates without a scheduled edition');
+      }
+      if (startDate <= new Date()) {
+        throw new Error('Start date must be in the future');
+      }
+
+      createdTournament = await createTemplateEdition(template, startDate, { Tournament }, session);
+      await logTournamentActivity(createdTournament, {
+        type: 'created',
+        actorId: req.user.id,
+        description: `Tournament created from template ${template.name}`,
+        meta: { source: 'template', templateId: template._id.toString() }
+      }, TournamentActivity, session);
+      if (isScheduledEdition) {
+        template.nextStartDate = getNextOccurrence(startDate, template.recurrence);
+      }
+      await template.save({ session });
+    });
+
+    const tournamentDto = await transformTournamentToDto(createdTournament.toObject(), Match, User, { isAdmin: true });
+
+    res.status(201).json({
+      success: true,
+      message: 'Tournament created from template',
+      data: tournamentDto
+    });
+  } catch (error) {
+    logger.error('Instantiate tournament template error:', error);
+
+    const errorMessage = error.message || 'Server error';
+    let statusCode = 500;
+
+    if (errorMessage.includes('not found')) {
+      statusCode = 404;
+    } else if (errorMessage.includes('required') || errorMessage.includes('future') || errorMessage.includes('already exists')) {
+      statusCode = 400;
+    }
+
+    res.status(statusCode).json({
+      success: false,
+      message: errorMessage
+    });
+  } finally {
+    await session.endSession();
+  }
+});
+
+export default router;
@@ -28,7 +28,7 @@ router.use(authenticate);
  *         name: type
  *         schema:
  *           type: string
- *           enum: [match_entry, match_win, tournament_entry, tournament_win, coin_purchase, admin_add, admin_remove]
+ *           enum: [match_entry, match_win, match_refund, match_prize_hold, match_prize_release, match_win_reversal, tournament_entry, tournament_refund, tournament_win, coin_purchase, admin_add, admin_remove, house_rake, house_guarantee, house_prize_shortfall]
  *         description: Filter transactions by type
  *       - in: query
  *         name: limit
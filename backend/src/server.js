@@ -11,12 +11,16 @@ import { swaggerSpec, swaggerUi } from './config/swagger.js';
 import { validateEnv, getEnvConfig } from './utils/env.js';
 import { logger } from './utils/logger.js';
 import { initializeEmailService } from './utils/emailService.js';
+import { startTournamentScheduler } from './utils/tournamentScheduler.js';
+import { startMatchScheduler } from './utils/matchScheduler.js';
 import authRoutes from './routes/auth.routes.js';
 import userRoutes from './routes/user.routes.js';
 import matchRoutes from './routes/match.routes.js';
 import tournamentRoutes from './routes/tournament.routes.js';
+import tournamentTemplateRoutes from './routes/tournamentTemplate.routes.js';
 import transactionRoutes from './routes/transaction.routes.js';
 import dashboardRoutes from './routes/dashboard.routes.js';
+import disputeRoutes from './routes/dispute.routes.js';
 
 // Get current directory (ES module way)
 const __filename = fileURLToPath(import.meta.url);
@@ -154,8 +158,10 @@ app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/matches', matchRoutes);
 app.use('/api/tournaments', tournamentRoutes);
+app.use('/api/tournament-templates', tournamentTemplateRoutes);
 app.use('/api/transactions', transactionRoutes);
 app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/disputes', disputeRoutes);
 
 // Error handling middleware - Unity requires {error: "message"} format
 app.use((err, req, res, next) => {
@@ -187,6 +193,8 @@ app.use((req, res) => {
 const startServer = async () => {
   try {
     await connectDB();
+    startTournamentScheduler();
+    startMatchScheduler();
     const HOST = process.env.HOST || '0.0.0.0';
     app.listen(PORT, HOST, () => {
       logger.info(`🚀 Server running on ${HOST}:${PORT}`);
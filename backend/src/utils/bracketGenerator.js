@@ -1,137 +1,144 @@
 /**
  * Bracket Generator Utility
- * Generates tournament brackets for 4 and 8 player tournaments
+ * Generates single- and double-elimination tournament brackets for any field size up to 64 players.
+ * Fields that are not a power of two are padded with byes in the first round.
+ * Round-robin and Swiss leagues are delegated to the league generator.
  */
 
+import { getSeedPlacement } from './seeding.js';
+import { generateLeagueBracket, isLeagueFormat, recordLeagueResult } from './leagueGenerator.js';
+
+export const MIN_BRACKET_PLAYERS = 2;
+export const MAX_BRACKET_PLAYERS = 64;
+export const MIN_DOUBLE_ELIMINATION_PLAYERS = 3;
+export const MIN_THIRD_PLACE_PLAYERS = 4;
+export const TOURNAMENT_FORMATS = ['single_elimination', 'double_elimination', 'round_robin', 'swiss'];
+export const BRACKET_SIDES = ['winners', 'losers', 'grand_final'];
+
+/**
+ * Smallest power of two that can hold the given number of players
+ * @param {Number} playerCount - Number of players in the field
+ * @returns {Number} Bracket size (2, 4, 8, ... 64)
+ */
+export const getBracketSize = (playerCount) => {
+  let size = 1;
+  while (size < playerCount) {
+    size *= 2;
+  }
+  return size;
+};
+
+/**
+ * Human readable name for a round, counted from the final backwards
+ * e.g. with 5 rounds: Round of 32, Round of 16, Quarter-Finals, Semi-Finals, Final
+ * @param {Number} roundNumber - 1-based round number
+ * @param {Number} totalRounds - Total rounds in the bracket
+ * @returns {String} Round name
+ */
+export const getRoundName = (roundNumber, totalRounds) => {
+  const roundsRemaining = totalRounds - roundNumber;
+
+  if (roundsRemaining === 0) return 'Final';
+  if (roundsRemaining === 1) return 'Semi-Finals';
+  if (roundsRemaining === 2) return 'Quarter-Finals';
+  return `Round of ${2 ** (roundsRemaining + 1)}`;
+};
+
+const createEmptyMatch = () => ({
+  matchId: null,
+  player1Id: null,
+  player2Id: null,
+  winnerId: null,
+  status: 'pending'
+});
+
 /**
  * Generate bracket structure for a tournament
- * @param {Number} maxPlayers - Number of players (4 or 8)
- * @param {Array} participantIds - Array of participant user IDs
+ * Participants are placed with standard 1-vs-N seeding, so the top seeds receive
+ * the byes when the field is not a power of two.
+ * @param {Number} maxPlayers - Tournament capacity (2 to 64)
+ * @param {Array} participantIds - Array of participant user IDs in seed order (seed 1 first)
+ * @param {Object} options - { format, grandFinalReset: Boolean, thirdPlaceMatch: Boolean, swissRounds: Number, tiebreakers: Array<String> }
  * @returns {Object} Bracket structure with rounds and matches
  */
-export const generateBracket = (maxPlayers, participantIds) => {
-  if (![4, 8].includes(maxPlayers)) {
-    throw new Error('Tournament must have 4 or 8 players');
+export const generateBracket = (maxPlayers, participantIds, options = {}) => {
+  if (isLeagueFormat(options.format)) {
+    return generateLeagueBracket(participantIds, options);
+  }
+  if (options.format === 'double_elimination') {
+    return generateDoubleEliminationBracket(maxPlayers, participantIds, options);
+  }
+  return generateSingleEliminationBracket(maxPlayers, participantIds, options);
+};
+
+const generateSingleEliminationBracket = (maxPlayers, participantIds, options = {}) => {
+  if (!Number.isInteger(maxPlayers) || maxPlayers < MIN_BRACKET_PLAYERS || maxPlayers > MAX_BRACKET_PLAYERS) {
+    throw new Error(`Tournament must have between ${MIN_BRACKET_PLAYERS} and ${MAX_BRACKET_PLAYERS} players`);
   }
 
-  if (participantIds.length !== maxPlayers) {
-    throw new Error(`Tournament requires exactly ${maxPlayers} players`);
+  if (participantIds.length < MIN_BRACKET_PLAYERS || participantIds.length > maxPlayers) {
+    throw new Error(`Tournament requires between ${MIN_BRACKET_PLAYERS} and ${maxPlayers} players`);
   }
 
+  const playerCount = participantIds.length;
+  const bracketSize = getBracketSize(playerCount);
+  const totalRounds = Math.log2(bracketSize);
+  const byeCount = bracketSize - playerCount;
+
   const bracket = {
+    format: 'single_elimination',
     rounds: [],
-    totalRounds: maxPlayers === 4 ? 2 : 3, // 4 players = 2 rounds, 8 players = 3 rounds
-    maxPlayers
+    totalRounds,
+    maxPlayers,
+    bracketSize,
+    byes: byeCount
   };
 
-  if (maxPlayers === 4) {
-    // 4-player tournament: Semi-finals (2 matches) -> Final (1 match)
-    bracket.rounds = [
-      {
-        roundNumber: 1,
-        name: 'Semi-Finals',
-        matches: [
-          {
-            matchId: null,
-            player1Id: participantIds[0],
-            player2Id: participantIds[1],
-            winnerId: null,
-            status: 'pending'
-          },
-          {
-            matchId: null,
-            player1Id: participantIds[2],
-            player2Id: participantIds[3],
-            winnerId: null,
-            status: 'pending'
-          }
-        ]
-      },
-      {
-        roundNumber: 2,
-        name: 'Final',
-        matches: [
-          {
-            matchId: null,
-            player1Id: null, // Will be winner of semi-final 1
-            player2Id: null, // Will be winner of semi-final 2
-            winnerId: null,
-            status: 'pending'
-          }
-        ]
-      }
-    ];
-  } else if (maxPlayers === 8) {
-    // 8-player tournament: Quarter-finals (4 matches) -> Semi-finals (2 matches) -> Final (1 match)
-    bracket.rounds = [
-      {
-        roundNumber: 1,
-        name: 'Quarter-Finals',
-        matches: [
-          {
-            matchId: null,
-            player1Id: participantIds[0],
-            player2Id: participantIds[1],
-            winnerId: null,
-            status: 'pending'
-          },
-          {
-            matchId: null,
-            player1Id: participantIds[2],
-            player2Id: participantIds[3],
-            winnerId: null,
-            status: 'pending'
-          },
-          {
-            matchId: null,
-            player1Id: participantIds[4],
-            player2Id: participantIds[5],
-            winnerId: null,
-            status: 'pending'
-          },
-          {
-            matchId: null,
-            player1Id: participantIds[6],
-            player2Id: participantIds[7],
-            winnerId: null,
-            status: 'pending'
-          }
-        ]
-      },
-      {
-        roundNumber: 2,
-        name: 'Semi-Finals',
-        matches: [
-          {
-            matchId: null,
-            player1Id: null, // Winner of QF 1
-            player2Id: null, // Winner of QF 2
-            winnerId: null,
-            status: 'pending'
-          },
-          {
-            matchId: null,
-            player1Id: null, // Winner of QF 3
-            player2Id: null, // Winner of QF 4
-            winnerId: null,
-            status: 'pending'
-          }
-        ]
-      },
-      {
-        roundNumber: 3,
-        name: 'Final',
-        matches: [
-          {
-            matchId: null,
-            player1Id: null, // Winner of SF 1
-            player2Id: null, // Winner of SF 2
-            winnerId: null,
-            status: 'pending'
-          }
-        ]
+  for (let roundNumber = 1; roundNumber <= totalRounds; roundNumber++) {
+    const matchCount = bracketSize / 2 ** roundNumber;
+    bracket.rounds.push({
+      roundNumber,
+      name: getRoundName(roundNumber, totalRounds),
+      matches: Array.from({ length: matchCount }, createEmptyMatch)
+    });
+  }
+
+  // Fill round 1 from the seed placement; seeds beyond the field size are byes,
+  // and the player facing a bye advances automatically
+  const firstRound = bracket.rounds[0];
+  const placement = getSeedPlacement(bracketSize);
+
+  firstRound.matches.forEach((match, matchIndex) => {
+    const seed1 = placement[matchIndex * 2];
+    const seed2 = placement[matchIndex * 2 + 1];
+    match.player1Id = participantIds[seed1 - 1];
+    match.player1Seed = seed1;
+
+    if (seed2 > playerCount) {
+      match.winnerId = match.player1Id;
+      match.status = 'completed';
+      match.isBye = true;
+    } else {
+      match.player2Id = participantIds[seed2 - 1];
+      match.player2Seed = seed2;
+    }
+  });
+
+  // Optional bronze match between the semi-final losers, played alongside the final.
+  // Needs two real semi-finals, so at least 4 players.
+  if (options.thirdPlaceMatch && playerCount >= MIN_THIRD_PLACE_PLAYERS) {
+    bracket.thirdPlaceMatch = true;
+    bracket.rounds[totalRounds - 1].matches.push({ ...createEmptyMatch(), isThirdPlace: true });
+  }
+
+  // Bye winners are already known, so seat them in round 2 straight away
+  if (totalRounds > 1) {
+    firstRound.matches.forEach((match, matchIndex) => {
+      if (match.isBye) {
+        const nextMatch = bracket.rounds[1].matches[Math.floor(matchIndex / 2)];
+        nextMatch[matchIndex % 2 === 0 ? 'player1Id' : 'player2Id'] = match.winnerId;
       }
-    ];
+    });
   }
 
   return bracket;
@@ -139,14 +146,15 @@ export const generateBracket = (maxPlayers, participantIds) => {
 
 /**
  * Progress tournament to next round
+ * Winner of match i in the completed round plays in match floor(i / 2) of the next round.
  * @param {Object} bracket - Current bracket structure
  * @param {Number} completedRound - Round number that just completed
- * @param {Array} winners - Array of winner IDs from completed round
+ * @param {Array} winners - Array of winner IDs from completed round (one per match, in match order)
  * @returns {Object} Updated bracket with next round populated
  */
 export const progressToNextRound = (bracket, completedRound, winners) => {
   const bracketCopy = JSON.parse(JSON.stringify(bracket)); // Deep copy
-  
+
   // Mark completed round matches as completed
   const completedRoundData = bracketCopy.rounds.find(r => r.roundNumber === completedRound);
   if (completedRoundData) {
@@ -160,23 +168,16 @@ export const progressToNextRound = (bracket, completedRound, winners) => {
   const nextRound = bracketCopy.rounds.find(r => r.roundNumber === completedRound + 1);
   if (nextRound) {
     nextRound.matches.forEach((match, matchIndex) => {
-      if (bracketCopy.maxPlayers === 8) {
-        // 8-player: 4 QF winners -> 2 SF matches, 2 SF winners -> 1 Final
-        if (completedRound === 1) {
-          // QF completed, populate SF
-          match.player1Id = winners[matchIndex * 2];
-          match.player2Id = winners[matchIndex * 2 + 1];
-        } else if (completedRound === 2) {
-          // SF completed, populate Final
-          match.player1Id = winners[0];
-          match.player2Id = winners[1];
-        }
-      } else if (bracketCopy.maxPlayers === 4) {
-        // 4-player: 2 SF winners -> 1 Final
-        if (completedRound === 1) {
-          match.player1Id = winners[0];
-          match.player2Id = winners[1];
-        }
+      if (match.isThirdPlace) {
+        // Semi-finals just finished: the losers play for third place
+        const losers = completedRoundData.matches.map(m =>
+          (m.winnerId?.toString() === m.player1Id?.toString() ? m.player2Id : m.player1Id)
+        );
+        match.player1Id = losers[0];
+        match.player2Id = losers[1];
+      } else {
+        match.player1Id = winners[matchIndex * 2];
+        match.player2Id = winners[matchIndex * 2 + 1];
       }
       match.status = 'active';
     });
@@ -185,3 +186,347 @@ export const progressToNextRound = (bracket, completedRound, winners) => {
   return bracketCopy;
 };
 
+/**
+ * Record the result of a single-elimination match
+ * Once every match in the round is decided, winners are advanced with progressToNextRound.
+ * @param {Object} bracket - Current bracket structure
+ * @param {Object} result - { roundNumber, matchIndex, winnerId }
+ * @returns {Object} { bracket, championId } - championId is set once the final is decided
+ */
+const recordSingleEliminationResult = (bracket, { roundNumber, matchIndex, winnerId }) => {
+  const bracketCopy = JSON.parse(JSON.stringify(bracket)); // Deep copy
+  const round = bracketCopy.rounds.find(r => r.roundNumber === roundNumber);
+  const match = round?.matches?.[matchIndex];
+
+  if (!match) {
+    throw new Error('Bracket match not found');
+  }
+  if (match.status === 'completed') {
+    throw new Error('Bracket match is already completed');
+  }
+  if (!match.player1Id || !match.player2Id) {
+    throw new Error('Bracket match is not ready to be played');
+  }
+
+  const winnerIdStr = winnerId.toString();
+  if (winnerIdStr !== match.player1Id.toString() && winnerIdStr !== match.player2Id.toString()) {
+    throw new Error('Winner must be one of the match players');
+  }
+
+  match.winnerId = winnerIdStr === match.player1Id.toString() ? match.player1Id : match.player2Id;
+  match.status = 'completed';
+
+  const roundComplete = round.matches.every(m => m.status === 'completed');
+
+  // The final round also holds the third-place match, if any; the tournament ends once both are played
+  if (roundNumber === bracketCopy.totalRounds) {
+    return { bracket: bracketCopy, championId: roundComplete ? round.matches[0].winnerId : null };
+  }
+
+  if (roundComplete) {
+    const winners = round.matches.map(m => m.winnerId);
+    return { bracket: progressToNextRound(bracketCopy, roundNumber, winners), championId: null };
+  }
+
+  return { bracket: bracketCopy, championId: null };
+};
+
+/**
+ * Record a match result for any tournament format
+ * @param {Object} bracket - Current bracket structure
+ * @param {Object} result - { side, roundNumber, matchIndex, winnerId } (side is only used by double elimination)
+ * @returns {Object} { bracket, championId } - championId is set once the tournament is decided
+ *   (for leagues: the standings leader once every round has been played)
+ */
+export const recordBracketResult = (bracket, result) => {
+  if (isLeagueFormat(bracket.format)) {
+    const { bracket: updatedBracket, isComplete } = recordLeagueResult(bracket, result);
+    return {
+      bracket: updatedBracket,
+      championId: isComplete ? updatedBracket.standings[0].playerId : null
+    };
+  }
+  if (bracket.format === 'double_elimination') {
+    return recordDoubleEliminationResult(bracket, { ...result, side: result.side || 'winners' });
+  }
+  return recordSingleEliminationResult(bracket, result);
+};
+
+/**
+ * Finishing order of a tournament, for prize distribution
+ * Players knocked out in the same round share a place, so each entry is a group:
+ * e.g. single elimination => [[champion], [runner-up], [both semi-final losers], ...].
+ * Leagues follow the standings, one player per place.
+ * @param {Object} bracket - Bracket structure
+ * @param {String} championId - Tournament champion
+ * @returns {Array<Array>} Groups of player IDs, best finish first
+ */
+export const getFinishingOrder = (bracket, championId) => {
+  const groups = [[championId]];
+
+  const getLosers = (round) => round.matches
+    .filter(match => match.status === 'completed' && !match.isBye && match.winnerId && match.player1Id && match.player2Id)
+    .map(match => (match.winnerId.toString() === match.player1Id.toString() ? match.player2Id : match.player1Id));
+
+  if (isLeagueFormat(bracket?.format)) {
+    (bracket.standings || []).forEach(row => groups.push([row.playerId]));
+  } else if (bracket?.format === 'double_elimination') {
+    // Winners-bracket losers drop into the losers bracket, so only grand final and losers-bracket exits place
+    const grandFinalLosers = [...(bracket.grandFinalRounds || [])].reverse().flatMap(getLosers);
+    groups.push(grandFinalLosers.slice(0, 1));
+    [...(bracket.losersRounds || [])].reverse().forEach(round => groups.push(getLosers(round)));
+  } else {
+    const rounds = [...(bracket?.rounds || [])].reverse();
+    const [finalRound, ...earlierRounds] = rounds;
+    const [final, thirdPlace] = finalRound ? finalRound.matches : [];
+    if (final) groups.push(getLosers({ matches: [final] }));
+    if (thirdPlace?.status === 'completed') {
+      groups.push([thirdPlace.winnerId]);
+      groups.push(getLosers({ matches: [thirdPlace] }));
+    }
+    earlierRounds.forEach(round => groups.push(getLosers(round)));
+  }
+
+  // Each player keeps only their best finish
+  const placed = new Set();
+  return groups
+    .map(group => group.filter(playerId => {
+      const key = playerId?.toString();
+      if (!key || placed.has(key)) return false;
+      placed.add(key);
+      return true;
+    }))
+    .filter(group => group.length > 0);
+};
+
+/**
+ * First round that still has undecided matches (winners side for double elimination)
+ * @param {Object} bracket - Current bracket structure
+ * @returns {Number} Round number, or totalRounds once every round is decided
+ */
+export const getCurrentRound = (bracket) => {
+  const openRound = (bracket.rounds || []).find(round =>
+    round.matches.some(match => match.status !== 'completed')
+  );
+  return openRound ? openRound.roundNumber : bracket.totalRounds;
+};
+
+/**
+ * Rounds array for one side of a bracket
+ * Single-elimination brackets only have the 'winners' side (bracket.rounds)
+ */
+export const getBracketRounds = (bracket, side = 'winners') => {
+  if (side === 'losers') return bracket.losersRounds || [];
+  if (side === 'grand_final') return bracket.grandFinalRounds || [];
+  return bracket.rounds || [];
+};
+
+const getBracketMatch = (bracket, side, roundNumber, matchIndex) => {
+  const round = getBracketRounds(bracket, side).find(r => r.roundNumber === roundNumber);
+  return round?.matches?.[matchIndex] || null;
+};
+
+/**
+ * Where the winner and loser of a double-elimination match go next
+ * Winners round r feeds losers round 1 (r = 1) or the drop-in losers round 2(r - 1).
+ * Drop-ins are reversed on even winners rounds so players don't immediately rematch.
+ * @returns {Object} { winnerTo, loserTo } - each { side, roundNumber, matchIndex, slot } or null
+ */
+const getDoubleEliminationRoutes = (bracket, side, roundNumber, matchIndex) => {
+  const winnersRounds = bracket.totalRounds;
+  const losersRounds = bracket.losersRounds.length;
+
+  if (side === 'winners') {
+    const winnerTo = roundNumber < winnersRounds
+      ? { side: 'winners', roundNumber: roundNumber + 1, matchIndex: Math.floor(matchIndex / 2), slot: matchIndex % 2 }
+      : { side: 'grand_final', roundNumber: 1, matchIndex: 0, slot: 0 };
+
+    if (roundNumber === 1) {
+      return {
+        winnerTo,
+        loserTo: { side: 'losers', roundNumber: 1, matchIndex: Math.floor(matchIndex / 2), slot: matchIndex % 2 }
+      };
+    }
+
+    const dropInRound = 2 * (roundNumber - 1);
+    const dropInMatches = bracket.losersRounds[dropInRound - 1].matches.length;
+    const dropInIndex = roundNumber % 2 === 0 ? dropInMatches - 1 - matchIndex : matchIndex;
+    return {
+      winnerTo,
+      loserTo: { side: 'losers', roundNumber: dropInRound, matchIndex: dropInIndex, slot: 1 }
+    };
+  }
+
+  if (side === 'losers') {
+    if (roundNumber === losersRounds) {
+      return { winnerTo: { side: 'grand_final', roundNumber: 1, matchIndex: 0, slot: 1 }, loserTo: null };
+    }
+    // Odd losers rounds feed the drop-in round one-to-one, even rounds halve the field
+    const winnerTo = roundNumber % 2 === 1
+      ? { side: 'losers', roundNumber: roundNumber + 1, matchIndex, slot: 0 }
+      : { side: 'losers', roundNumber: roundNumber + 1, matchIndex: Math.floor(matchIndex / 2), slot: matchIndex % 2 };
+    return { winnerTo, loserTo: null };
+  }
+
+  return { winnerTo: null, loserTo: null };
+};
+
+/**
+ * Seat a player (or a bye, when playerId is null) in a double-elimination slot,
+ * then auto-resolve the match if it can no longer be played
+ */
+const placeEntrant = (bracket, target, playerId) => {
+  const match = getBracketMatch(bracket, target.side, target.roundNumber, target.matchIndex);
+  const key = target.slot === 0 ? 'player1' : 'player2';
+
+  if (playerId) {
+    match[`${key}Id`] = playerId;
+  } else {
+    match[`${key}Bye`] = true;
+  }
+
+  resolveByeMatch(bracket, target.side, target.roundNumber, target.matchIndex);
+};
+
+/**
+ * A match with a bye on one side advances the other player; a match with byes
+ * on both sides passes a bye on, so empty losers-bracket branches collapse
+ */
+const resolveByeMatch = (bracket, side, roundNumber, matchIndex) => {
+  const match = getBracketMatch(bracket, side, roundNumber, matchIndex);
+  const player1Decided = match.player1Id || match.player1Bye;
+  const player2Decided = match.player2Id || match.player2Bye;
+
+  if (match.status === 'completed' || !player1Decided || !player2Decided) return;
+  if (!match.player1Bye && !match.player2Bye) return;
+
+  match.winnerId = match.player1Id || match.player2Id || null;
+  match.status = 'completed';
+  match.isBye = true;
+
+  const { winnerTo, loserTo } = getDoubleEliminationRoutes(bracket, side, roundNumber, matchIndex);
+  if (winnerTo) placeEntrant(bracket, winnerTo, match.winnerId);
+  if (loserTo) placeEntrant(bracket, loserTo, null);
+};
+
+/**
+ * Generate a double-elimination bracket
+ * Winners bracket is a seeded single-elimination bracket; every loser drops into the
+ * losers bracket, and the two bracket champions meet in the grand final.
+ * If the losers-bracket champion wins the grand final and grandFinalReset is on,
+ * a deciding reset match is played.
+ * @param {Number} maxPlayers - Tournament capacity
+ * @param {Array} participantIds - Participant user IDs in seed order
+ * @param {Object} options - { grandFinalReset: Boolean (default true) }
+ * @returns {Object} Bracket with rounds (winners), losersRounds and grandFinalRounds
+ */
+const generateDoubleEliminationBracket = (maxPlayers, participantIds, options = {}) => {
+  if (participantIds.length < MIN_DOUBLE_ELIMINATION_PLAYERS) {
+    throw new Error(`Double elimination requires at least ${MIN_DOUBLE_ELIMINATION_PLAYERS} players`);
+  }
+
+  const bracket = generateSingleEliminationBracket(maxPlayers, participantIds);
+  const winnersRounds = bracket.totalRounds;
+  const losersRoundCount = 2 * (winnersRounds - 1);
+
+  bracket.format = 'double_elimination';
+  bracket.grandFinalReset = options.grandFinalReset !== false;
+
+  bracket.rounds.forEach(round => {
+    round.name = `Winners ${round.name}`;
+  });
+
+  // Losers round 1 pairs winners round 1 losers; after that the field alternates
+  // between a drop-in round (same size) and a halving round
+  bracket.losersRounds = [];
+  let matchCount = bracket.bracketSize / 4;
+  for (let roundNumber = 1; roundNumber <= losersRoundCount; roundNumber++) {
+    if (roundNumber > 1 && roundNumber % 2 === 1) {
+      matchCount /= 2;
+    }
+    bracket.losersRounds.push({
+      roundNumber,
+      name: roundNumber === losersRoundCount ? 'Losers Final' : `Losers Round ${roundNumber}`,
+      matches: Array.from({ length: matchCount }, createEmptyMatch)
+    });
+  }
+
+  bracket.grandFinalRounds = [
+    {
+      roundNumber: 1,
+      name: 'Grand Final',
+      matches: [createEmptyMatch()]
+    }
+  ];
+  if (bracket.grandFinalReset) {
+    bracket.grandFinalRounds.push({
+      roundNumber: 2,
+      name: 'Grand Final Reset',
+      matches: [createEmptyMatch()]
+    });
+  }
+
+  // First-round byes produce no loser, so their losers-bracket slot is a bye too
+  bracket.rounds[0].matches.forEach((match, matchIndex) => {
+    if (match.isBye) {
+      const { loserTo } = getDoubleEliminationRoutes(bracket, 'winners', 1, matchIndex);
+      placeEntrant(bracket, loserTo, null);
+    }
+  });
+
+  return bracket;
+};
+
+/**
+ * Record the result of a double-elimination match
+ * Routes the winner onward and drops the loser into the correct losers-bracket slot.
+ * @param {Object} bracket - Current bracket structure
+ * @param {Object} result - { side, roundNumber, matchIndex, winnerId }
+ * @returns {Object} { bracket, championId } - championId is set once the grand final is decided
+ */
+export const recordDoubleEliminationResult = (bracket, { side, roundNumber, matchIndex, winnerId }) => {
+  const bracketCopy = JSON.parse(JSON.stringify(bracket)); // Deep copy
+  const match = getBracketMatch(bracketCopy, side, roundNumber, matchIndex);
+
+  if (!match) {
+    throw new Error('Bracket match not found');
+  }
+  if (match.status === 'completed') {
+    throw new Error('Bracket match is already completed');
+  }
+  if (!match.player1Id || !match.player2Id) {
+    throw new Error('Bracket match is not ready to be played');
+  }
+
+  const winnerIdStr = winnerId.toString();
+  const player1IdStr = match.player1Id.toString();
+  const player2IdStr = match.player2Id.toString();
+  if (winnerIdStr !== player1IdStr && winnerIdStr !== player2IdStr) {
+    throw new Error('Winner must be one of the match players');
+  }
+
+  const winner = winnerIdStr === player1IdStr ? match.player1Id : match.player2Id;
+  const loser = winnerIdStr === player1IdStr ? match.player2Id : match.player1Id;
+  match.winnerId = winner;
+  match.status = 'completed';
+
+  if (side === 'grand_final') {
+    // Winners-bracket champion (slot 1) has not lost yet, so a grand final win ends it
+    const resetMatch = getBracketMatch(bracketCopy, 'grand_final', 2, 0);
+    if (roundNumber === 1 && winnerIdStr !== player1IdStr && resetMatch) {
+      resetMatch.player1Id = match.player1Id;
+      resetMatch.player2Id = match.player2Id;
+      return { bracket: bracketCopy, championId: null };
+    }
+    if (roundNumber === 1 && resetMatch) {
+      resetMatch.status = 'skipped';
+    }
+    return { bracket: bracketCopy, championId: winner };
+  }
+
+  const { winnerTo, loserTo } = getDoubleEliminationRoutes(bracketCopy, side, roundNumber, matchIndex);
+  if (winnerTo) placeEntrant(bracketCopy, winnerTo, winner);
+  if (loserTo) placeEntrant(bracketCopy, loserTo, loser);
+
+  return { bracket: bracketCopy, championId: null };
+};
@@ -0,0 +1,146 @@
+/**
+ * Dispute Service
+ * Opening and resolving disputes of completed standalone match results.
+ * Models are passed in (like the match service) so callers control the session.
+ */
+
+import { reassignMatchWinner, recoverMatchPrize } from './matchService.js';
+
+export const DISPUTE_DECISIONS = ['uphold', 'overturn'];
+
+/**
+ * Open a dispute on a completed match and hold the winner's prize
+ * The hold is taken from the winner's balance (as much of the prize as they still have) and
+ * logged as a match_prize_hold transaction. Does not save the match.
+ * @param {Object} match - Match document
+ * @param {Object} dispute - { playerId, reason, evidence }
+ * @param {Object} models - { MatchDispute, User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} Created MatchDispute document
+ */
+export async function openMatchDispute(match, { playerId, reason, evidence = '' }, { MatchDispute, User, Transaction }, session = null) {
+  if (match.tournamentId) {
+    throw new Error('Tournament match results cannot be disputed here');
+  }
+
+  if (match.status !== 'completed' || !match.winnerId) {
+    throw new Error('Only completed matches can be disputed');
+  }
+
+  const playerIdStr = playerId.toString();
+  if (match.player1Id?.toString() !== playerIdStr && match.player2Id?.toString() !== playerIdStr) {
+    throw new Error('Only the match players can dispute its result');
+  }
+
+  // A corrected or reversed-and-recorded-again result can be disputed afresh
+  const resultVersion = match.resultCorrections?.length || 0;
+  if (await MatchDispute.exists({ matchId: match._id, resultVersion }).session(session)) {
+    throw new Error('This match result has already been disputed');
+  }
+
+  const winner = await User.findById(match.winnerId).session(session);
+  const heldAmount = winner ? Math.min(match.prize, winner.coins) : 0;
+
+  const [dispute] = await MatchDispute.create([{
+    matchId: match._id,
+    resultVersion,
+    openedBy: playerId,
+    reason,
+    evidence,
+    originalWinnerId: match.winnerId,
+    heldAmount
+  }], { session });
+
+  if (heldAmount > 0) {
+    await User.findByIdAndUpdate(winner._id, { $inc: { coins: -heldAmount } }, { session });
+    await Transaction.create([{
+      userId: winner._id,
+      type: 'match_prize_hold',
+      amount: -heldAmount,
+      description: `Prize held while match result is disputed: ${match.name}`,
+      balanceBefore: winner.coins,
+      balanceAfter: winner.coins - heldAmount,
+      meta: { disputeId: dispute._id.toString() },
+      matchId: match._id
+    }], { session });
+  }
+
+  match.resultDisputeStatus = 'open';
+  return dispute;
+}
+
+/**
+ * Resolve an open dispute
+ * uphold: the held prize goes back to the winner.
+ * overturn: the held prize is kept and whatever part of the prize wasn't held is taken back from the
+ * original winner (the house covers what they can no longer pay); the opponent becomes the winner
+ * (win/loss counters move with it) and is paid the full prize with a match_win transaction.
+ * Does not save the dispute or the match.
+ * @param {Object} dispute - Open MatchDispute document
+ * @param {Object} match - The disputed Match document
+ * @param {Object} resolution - { decision, adminId, note }
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<void>}
+ */
+export async function resolveMatchDispute(dispute, match, { decision, adminId, note = '' }, { User, Transaction }, session = null) {
+  if (dispute.status !== 'open') {
+    throw new Error('Dispute has already been resolved');
+  }
+
+  const meta = { disputeId: dispute._id.toString() };
+
+  if (decision === 'uphold') {
+    if (dispute.heldAmount > 0) {
+      const winner = await User.findById(dispute.originalWinnerId).session(session);
+      if (winner) {
+        await User.findByIdAndUpdate(winner._id, { $inc: { coins: dispute.heldAmount } }, { session });
+        await Transaction.create([{
+          userId: winner._id,
+          type: 'match_prize_release',
+          amount: dispute.heldAmount,
+          description: `Held prize released, disputed result upheld: ${match.name}`,
+          balanceBefore: winner.coins,
+          balanceAfter: winner.coins + dispute.heldAmount,
+          meta,
+          matchId: match._id
+        }], { session });
+      }
+    }
+    dispute.status = 'upheld';
+  } else {
+    const { reclaimedAmount, houseCoveredAmount } = await recoverMatchPrize(
+      match,
+      dispute.originalWinnerId,
+      match.prize - dispute.heldAmount,
+      { description: `Prize reversed, disputed result overturned: ${match.name}`, meta },
+      { User, Transaction },
+      session
+    );
+    dispute.reclaimedAmount = reclaimedAmount;
+    dispute.houseCoveredAmount = houseCoveredAmount;
+
+    const { winnerId } = await reassignMatchWinner(match, { User }, session);
+
+    const newWinner = await User.findById(winnerId).session(session);
+    if (newWinner && match.prize > 0) {
+      await User.findByIdAndUpdate(winnerId, { $inc: { coins: match.prize } }, { session });
+      await Transaction.create([{
+        userId: winnerId,
+        type: 'match_win',
+        amount: match.prize,
+        description: `Prize for winning match (disputed result overturned): ${match.name}`,
+        balanceBefore: newWinner.coins,
+        balanceAfter: newWinner.coins + match.prize,
+        meta,
+        matchId: match._id
+      }], { session });
+    }
+    dispute.status = 'overturned';
+  }
+
+  dispute.resolvedBy = adminId;
+  dispute.resolvedAt = new Date();
+  dispute.resolutionNote = note;
+  match.resultDisputeStatus = dispute.status;
+}
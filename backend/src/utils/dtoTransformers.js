@@ -3,6 +3,11 @@
  * These functions transform database models to match the Unity C# DTOs
  */
 
+import { getPayoutStructure, getHousePercentage, getPrizePoolBreakdown, getEntryShare } from './tournamentService.js';
+import { getNextEditionOpenDate } from './templateService.js';
+import { DEFAULT_TARGET_POINTS } from './matchScore.js';
+import { getSeriesWins, DEFAULT_SERIES_LENGTH } from './matchSeries.js';
+
 /**
  * Transform User to UserDto format
  */
@@ -31,10 +36,22 @@ export function transformUserToDto(user) {
     };
   }
   
+  /**
+   * Private access fields (invite code and allow-list), only shown to admins
+   */
+  function getPrivateAccessFields(eventObj, isAdmin) {
+    if (!isAdmin || eventObj.type !== 'private') return {};
+    return {
+      inviteCode: eventObj.inviteCode || null,
+      allowedUserIds: (eventObj.allowedUserIds || []).map(u => (u._id || u).toString())
+    };
+  }
+
   /**
    * Transform Tournament to TournamentDto format
+   * Pass { isAdmin: true } to include the invite code and allow-list of private tournaments
    */
-  export async function transformTournamentToDto(tournament, Match, User) {
+  export async function transformTournamentToDto(tournament, Match, User, { isAdmin = false } = {}) {
     if (!tournament) return null;
     
     const tournamentObj = tournament.toObject ? tournament.toObject() : tournament;
@@ -73,6 +90,24 @@ export function transformUserToDto(user) {
       }
     }
     
+    // Populate waitlisted players (in queue order) as UserDto objects
+    let waitlist = [];
+    if (tournamentObj.waitlist && tournamentObj.waitlist.length > 0) {
+      const waitlistUsers = await User.find({
+        _id: { $in: tournamentObj.waitlist.map(entry => entry.userId?._id || entry.userId) }
+      }).lean();
+      waitlist = tournamentObj.waitlist.map((entry, index) => {
+        const waitlistUser = waitlistUsers.find(u => u._id.toString() === (entry.userId?._id || entry.userId).toString());
+        return {
+          position: index + 1,
+          user: waitlistUser ? transformUserToDto(waitlistUser) : null,
+          joinedAt: entry.joinedAt ? new Date(entry.joinedAt).toISOString() : null
+        };
+      });
+    }
+    
+    const prizePool = getPrizePoolBreakdown(tournamentObj);
+
     // Get matches for this tournament
     let matches = [];
     if (Match) {
@@ -87,24 +122,82 @@ export function transformUserToDto(user) {
       name: tournamentObj.name || '',
       description: tournamentObj.description || '',
       type: tournamentObj.type || 'public',
+      ...getPrivateAccessFields(tournamentObj, isAdmin),
+      format: tournamentObj.format || 'single_elimination',
+      grandFinalReset: tournamentObj.grandFinalReset !== false,
+      thirdPlaceMatch: tournamentObj.thirdPlaceMatch || false,
+      swissRounds: tournamentObj.swissRounds || null,
+      tiebreakers: tournamentObj.tiebreakers || [],
       entryFee: tournamentObj.entryCost || tournamentObj.entryFee || 0,
+      entryShare: getEntryShare(tournamentObj),
       maxPlayers: tournamentObj.maxPlayers || 0,
+      minPlayers: tournamentObj.minPlayers || 2,
+      teamSize: tournamentObj.teamSize || 1,
+      targetPoints: tournamentObj.targetPoints || DEFAULT_TARGET_POINTS,
+      bestOf: tournamentObj.bestOf || DEFAULT_SERIES_LENGTH,
+      finalBestOf: tournamentObj.finalBestOf || null,
+      // Members are among the players; invited players haven't accepted (or paid) yet
+      teams: (tournamentObj.teams || []).map(team => ({
+        _id: team._id.toString(),
+        name: team.name,
+        captainId: (team.captainId?._id || team.captainId).toString(),
+        memberIds: (team.memberIds || []).map(m => (m._id || m).toString()),
+        invitedIds: (team.invitedIds || []).map(m => (m._id || m).toString()),
+        complete: (team.memberIds || []).length >= (tournamentObj.teamSize || 1)
+      })),
       status: tournamentObj.status || 'registration',
+      seeding: tournamentObj.seeding || 'join_order',
+      seedOrder: (tournamentObj.seedOrder || []).map(s => (s._id || s).toString()),
       players: players,
+      waitlist: waitlist,
       champion: champion,
+      winnerTeamId: tournamentObj.winnerTeamId?.toString() || null,
+      disqualified: (tournamentObj.disqualified || []).map(entry => ({
+        userId: (entry.userId?._id || entry.userId)?.toString() || null,
+        reason: entry.reason || '',
+        disqualifiedAt: entry.disqualifiedAt ? new Date(entry.disqualifiedAt).toISOString() : null
+      })),
+      thirdPlaceId: (tournamentObj.thirdPlaceId?._id || tournamentObj.thirdPlaceId)?.toString() || null,
+      registrationDeadline: tournamentObj.registrationDeadline ? new Date(tournamentObj.registrationDeadline).toISOString() : null,
       startDate: tournamentObj.startDate ? new Date(tournamentObj.startDate).toISOString() : null,
+      withdrawalCutoffMinutes: tournamentObj.withdrawalCutoffMinutes ?? 60,
       endDate: tournamentObj.endDate ? new Date(tournamentObj.endDate).toISOString() : null,
       tournamentAwardPercentage: tournamentObj.awardPercentage || tournamentObj.tournamentAwardPercentage || 80,
-      prizePool: tournamentObj.prizePool || 0,
+      payoutStructure: getPayoutStructure(tournamentObj),
+      housePercentage: getHousePercentage(getPayoutStructure(tournamentObj)),
+      payouts: (tournamentObj.payouts || []).map(p => ({
+        place: p.place,
+        userId: (p.userId?._id || p.userId)?.toString() || null,
+        teamId: p.teamId?.toString() || null,
+        percentage: p.percentage,
+        amount: p.amount
+      })),
+      houseAmount: tournamentObj.houseAmount ?? null,
+      // Live pool: in entry-fee mode it follows the fees collected until prizes are paid
+      prizePool: prizePool.prizePool,
+      prizePoolMode: prizePool.mode,
+      rakePercentage: prizePool.rakePercentage,
+      guaranteedPrizePool: prizePool.guaranteed,
+      collectedEntryFees: prizePool.collected,
+      rakeAmount: prizePool.rake,
+      guaranteeAmount: prizePool.guaranteeTopUp,
       matches: matches,
-      prizeDistributed: tournamentObj.prizeDistributed || false
+      bracket: tournamentObj.bracket?.rounds ? tournamentObj.bracket : null,
+      currentRound: tournamentObj.currentRound || 0,
+      standings: (tournamentObj.bracket?.standings || []).map(s => ({
+        ...s,
+        playerId: s.playerId?.toString() || null
+      })),
+      prizeDistributed: tournamentObj.prizeDistributed || false,
+      templateId: (tournamentObj.templateId?._id || tournamentObj.templateId)?.toString() || null
     };
   }
   
   /**
    * Transform Match to MatchDto format
+   * Pass { isAdmin: true } to include the invite code and allow-list of private matches
    */
-  export function transformMatchToDto(match, Tournament, User) {
+  export function transformMatchToDto(match, Tournament, User, { isAdmin = false } = {}) {
     if (!match) return null;
     
     const matchObj = match.toObject ? match.toObject() : match;
@@ -158,6 +251,7 @@ export function transformUserToDto(user) {
       _id: matchObj._id?.toString() || matchObj.id?.toString() || matchObj._id || matchObj.id,
       name: matchObj.name || '',
       type: matchObj.type || 'public',
+      ...getPrivateAccessFields(matchObj, isAdmin),
       cost: matchObj.cost || 0,
       prize: matchObj.prize || 0,
       matchDate: matchObj.matchDate ? new Date(matchObj.matchDate).toISOString() : null,
@@ -165,7 +259,56 @@ export function transformUserToDto(user) {
       players: players,
       status: matchObj.status || 'active',
       winner: winner,
+      resultType: matchObj.resultType || 'normal',
+      resultReason: matchObj.resultReason || '',
+      targetPoints: matchObj.targetPoints || DEFAULT_TARGET_POINTS,
+      score: matchObj.score
+        ? {
+            player1: matchObj.score.player1,
+            player2: matchObj.score.player2,
+            hands: (matchObj.score.hands || []).map(hand => ({ player1: hand.player1, player2: hand.player2 }))
+          }
+        : null,
+      bestOf: matchObj.bestOf || DEFAULT_SERIES_LENGTH,
+      // Best-of-N series: games so far and games won by each player
+      games: (matchObj.games || []).map(game => ({
+        winnerId: (game.winnerId?._id || game.winnerId).toString(),
+        score: game.score ? { player1: game.score.player1, player2: game.score.player2 } : null,
+        recordedAt: game.recordedAt ? new Date(game.recordedAt).toISOString() : null
+      })),
+      seriesWins: getSeriesWins(matchObj.games, matchObj.player1Id?._id || matchObj.player1Id),
+      startedAt: matchObj.startedAt ? new Date(matchObj.startedAt).toISOString() : null,
       finishedAt: matchObj.completedAt ? new Date(matchObj.completedAt).toISOString() : null,
+      cancelledAt: matchObj.cancelledAt ? new Date(matchObj.cancelledAt).toISOString() : null,
+      cancellationReason: matchObj.cancellationReason || null,
+      // Started matches with no result after the result timeout, awaiting an admin
+      reviewFlaggedAt: matchObj.reviewFlaggedAt ? new Date(matchObj.reviewFlaggedAt).toISOString() : null,
+      reviewReason: matchObj.reviewReason || null,
+      // Player-reported results and, if they conflict or one is missing, the dispute
+      resultReports: (matchObj.resultReports || []).map(report => ({
+        playerId: (report.playerId?._id || report.playerId).toString(),
+        winnerId: (report.winnerId?._id || report.winnerId).toString(),
+        score: report.score ? { player1: report.score.player1, player2: report.score.player2 } : null,
+        reportedAt: report.reportedAt ? new Date(report.reportedAt).toISOString() : null
+      })),
+      reportDeadline: matchObj.reportDeadline ? new Date(matchObj.reportDeadline).toISOString() : null,
+      disputedAt: matchObj.disputedAt ? new Date(matchObj.disputedAt).toISOString() : null,
+      disputeReason: matchObj.disputeReason || null,
+      resultDisputeStatus: matchObj.resultDisputeStatus || null,
+      // Admin corrections and reversals of the recorded result, oldest first
+      resultCorrections: (matchObj.resultCorrections || []).map(correction => ({
+        action: correction.action,
+        previousWinnerId: (correction.previousWinnerId?._id || correction.previousWinnerId).toString(),
+        previousScore: correction.previousScore ? { player1: correction.previousScore.player1, player2: correction.previousScore.player2 } : null,
+        winnerId: correction.winnerId ? (correction.winnerId._id || correction.winnerId).toString() : null,
+        score: correction.score ? { player1: correction.score.player1, player2: correction.score.player2 } : null,
+        reclaimedAmount: correction.reclaimedAmount || 0,
+        houseCoveredAmount: correction.houseCoveredAmount || 0,
+        paidAmount: correction.paidAmount || 0,
+        reason: correction.reason || '',
+        correctedBy: (correction.correctedBy?._id || correction.correctedBy).toString(),
+        correctedAt: correction.correctedAt ? new Date(correction.correctedAt).toISOString() : null
+      })),
       createdAt: matchObj.createdAt ? new Date(matchObj.createdAt).toISOString() : null
     };
   }
@@ -204,4 +347,107 @@ export function transformUserToDto(user) {
     };
   }
   
-  
\ No newline at end of file
+  
+
+  /**
+   * Transform TournamentActivity to TournamentActivityDto format
+   * Expects actorId and playerId populated; only names are exposed since players can read the timeline
+   */
+  export function transformTournamentActivityToDto(activity) {
+    if (!activity) return null;
+
+    const activityObj = activity.toObject ? activity.toObject() : activity;
+    const actor = activityObj.actorId;
+    const player = activityObj.playerId;
+
+    return {
+      _id: activityObj._id?.toString(),
+      type: activityObj.type,
+      description: activityObj.description || '',
+      actor: actor?._id ? { _id: actor._id.toString(), username: actor.name || '', role: actor.role || 'player' } : null,
+      player: player?._id ? { _id: player._id.toString(), username: player.name || '' } : null,
+      meta: activityObj.meta || {},
+      createdAt: activityObj.createdAt ? new Date(activityObj.createdAt).toISOString() : null
+    };
+  }
+
+  /**
+   * Transform MatchDispute to MatchDisputeDto format
+   * matchId, openedBy, originalWinnerId and resolvedBy may be populated or plain IDs
+   */
+  export function transformMatchDisputeToDto(dispute) {
+    if (!dispute) return null;
+
+    const disputeObj = dispute.toObject ? dispute.toObject() : dispute;
+    const toPlayer = (user) => (user
+      ? { _id: (user._id || user).toString(), username: user.name || '' }
+      : null);
+
+    return {
+      _id: disputeObj._id?.toString(),
+      matchId: (disputeObj.matchId?._id || disputeObj.matchId)?.toString() || null,
+      matchName: disputeObj.matchId?.name || '',
+      openedBy: toPlayer(disputeObj.openedBy),
+      reason: disputeObj.reason || '',
+      evidence: disputeObj.evidence || '',
+      status: disputeObj.status || 'open',
+      originalWinner: toPlayer(disputeObj.originalWinnerId),
+      heldAmount: disputeObj.heldAmount || 0,
+      reclaimedAmount: disputeObj.reclaimedAmount || 0,
+      houseCoveredAmount: disputeObj.houseCoveredAmount || 0,
+      resolvedBy: toPlayer(disputeObj.resolvedBy),
+      resolvedAt: disputeObj.resolvedAt ? new Date(disputeObj.resolvedAt).toISOString() : null,
+      resolutionNote: disputeObj.resolutionNote || '',
+      createdAt: disputeObj.createdAt ? new Date(disputeObj.createdAt).toISOString() : null
+    };
+  }
+
+  /**
+   * Transform TournamentTemplate to TournamentTemplateDto format
+   */
+  export function transformTournamentTemplateToDto(template) {
+    if (!template) return null;
+
+    const templateObj = template.toObject ? template.toObject() : template;
+    const nextOpenDate = getNextEditionOpenDate(templateObj);
+
+    return {
+      _id: templateObj._id?.toString() || templateObj.id?.toString() || templateObj._id || templateObj.id,
+      name: templateObj.name || '',
+      description: templateObj.description || '',
+      type: templateObj.type || 'public',
+      format: templateObj.format || 'single_elimination',
+      grandFinalReset: templateObj.grandFinalReset !== false,
+      thirdPlaceMatch: templateObj.thirdPlaceMatch || false,
+      swissRounds: templateObj.swissRounds || null,
+      tiebreakers: templateObj.tiebreakers || [],
+      maxPlayers: templateObj.maxPlayers || 0,
+      minPlayers: templateObj.minPlayers || 2,
+      teamSize: templateObj.teamSize || 1,
+      targetPoints: templateObj.targetPoints || DEFAULT_TARGET_POINTS,
+      bestOf: templateObj.bestOf || DEFAULT_SERIES_LENGTH,
+      finalBestOf: templateObj.finalBestOf || null,
+      entryCost: templateObj.entryCost || 0,
+      prizePoolMode: templateObj.prizePoolMode || 'fixed',
+      prizePool: templateObj.prizePool || 0,
+      rakePercentage: templateObj.rakePercentage || 0,
+      guaranteedPrizePool: templateObj.guaranteedPrizePool || 0,
+      payoutStructure: getPayoutStructure(templateObj),
+      housePercentage: getHousePercentage(getPayoutStructure(templateObj)),
+      seeding: templateObj.seeding || 'join_order',
+      withdrawalCutoffMinutes: templateObj.withdrawalCutoffMinutes ?? 60,
+      recurrence: {
+        frequency: templateObj.recurrence?.frequency || 'none',
+        interval: templateObj.recurrence?.interval || 1
+      },
+      nextStartDate: templateObj.nextStartDate ? new Date(templateObj.nextStartDate).toISOString() : null,
+      nextOpenDate: nextOpenDate ? nextOpenDate.toISOString() : null,
+      registrationLeadHours: templateObj.registrationLeadHours ?? 24,
+      registrationCloseMinutes: templateObj.registrationCloseMinutes ?? 0,
+      active: templateObj.active !== false,
+      editionCount: templateObj.editionCount || 0,
+      lastTournamentId: (templateObj.lastTournamentId?._id || templateObj.lastTournamentId)?.toString() || null,
+      lastInstantiatedAt: templateObj.lastInstantiatedAt ? new Date(templateObj.lastInstantiatedAt).toISOString() : null,
+      createdAt: templateObj.createdAt ? new Date(templateObj.createdAt).toISOString() : null
+    };
+  }
@@ -264,6 +264,71 @@ export async function sendVerificationEmail(email, verificationOTP, userName = '
   }
 }
 
+/**
+ * Send waitlist promotion email (a seat opened up and the entry fee was charged)
+ */
+export async function sendWaitlistPromotionEmail(email, tournamentName, entryCost, userName = 'User') {
+  // In development, if email service is not configured, just log
+  if (!transporter) {
+    logger.info(`[DEV] Waitlist promotion email would be sent to ${email} for tournament "${tournamentName}"`);
+    return false;
+  }
+
+  const mailOptions = {
+    from: `"${process.env.EMAIL_FROM_NAME || 'Truco Game'}" <${process.env.EMAIL_FROM || process.env.SMTP_USER}>`,
+    to: email,
+    subject: `You're in: ${tournamentName} - Truco Game`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🏆 A Seat Opened Up</h1>
+          </div>
+          <div class="content">
+            <p>Hello ${userName},</p>
+            <p>A player withdrew from <strong>${tournamentName}</strong> and you were next on the waitlist, so you are now registered.</p>
+            <p>The entry fee of <strong>${entryCost} coins</strong> has been charged to your balance. You can still withdraw for a refund until the withdrawal cutoff.</p>
+            <div class="footer">
+              <p>© ${new Date().getFullYear()} Truco Game. All rights reserved.</p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `
+      Hello ${userName},
+
+      A player withdrew from ${tournamentName} and you were next on the waitlist, so you are now registered.
+
+      The entry fee of ${entryCost} coins has been charged to your balance. You can still withdraw for a refund until the withdrawal cutoff.
+
+      © ${new Date().getFullYear()} Truco Game. All rights reserved.
+    `
+  };
+
+  try {
+    const info = await transporter.sendMail(mailOptions);
+    logger.info(`Waitlist promotion email sent to ${email}: ${info.messageId}`);
+    return true;
+  } catch (error) {
+    logger.error('Error sending waitlist promotion email:', error);
+    return false;
+  }
+}
+
 // Initialize email service on module load
 if (process.env.NODE_ENV === 'production' || process.env.SMTP_HOST) {
   initializeEmailService();
@@ -0,0 +1,55 @@
+/**
+ * Invite Codes
+ * Access control for private tournaments and matches: a player may join a private
+ * event with its invite code, or without one if they are on its allow-list.
+ */
+
+import crypto from 'crypto';
+
+// No 0/O or 1/I/L, so codes can be read out or typed without confusion
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+/**
+ * Generate a random invite code (e.g. "K7QM2XWD")
+ * @returns {String} Invite code
+ */
+export const generateInviteCode = () => {
+  let code = '';
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[crypto.randomInt(INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+};
+
+/**
+ * Normalize a code typed by a player (case and surrounding spaces don't matter)
+ * @param {String} code - Invite code as entered
+ * @returns {String} Normalized code
+ */
+export const normalizeInviteCode = (code) => (code ? String(code).trim().toUpperCase() : '');
+
+/**
+ * Whether a user may join an event (tournament or match)
+ * Public events are open to everyone. Private events need the current invite code
+ * or the user on the allow-list; a revoked code (null) leaves only the allow-list.
+ * @param {Object} event - Tournament or Match document ({ type, inviteCode, allowedUserIds })
+ * @param {String} userId - Joining user
+ * @param {String} inviteCode - Code supplied with the join request
+ * @returns {Boolean} True if the user may join
+ */
+export const canJoinPrivateEvent = (event, userId, inviteCode) => {
+  if (event.type !== 'private') return true;
+
+  const userIdStr = userId.toString();
+  if ((event.allowedUserIds || []).some(allowedId => allowedId.toString() === userIdStr)) {
+    return true;
+  }
+
+  if (!event.inviteCode || !inviteCode) return false;
+
+  // Constant-time comparison so codes can't be guessed from response timing
+  const expected = Buffer.from(event.inviteCode);
+  const supplied = Buffer.from(normalizeInviteCode(inviteCode));
+  return expected.length === supplied.length && crypto.timingSafeEqual(expected, supplied);
+};
@@ -0,0 +1,326 @@
+/**
+ * League Generator Utility
+ * Generates round-robin and Swiss-system pairings and keeps the standings table.
+ * Unlike knockout brackets nobody is eliminated: the champion is the standings leader.
+ */
+
+export const LEAGUE_FORMATS = ['round_robin', 'swiss'];
+export const TIEBREAKERS = ['head_to_head', 'buchholz', 'points_difference'];
+export const DEFAULT_TIEBREAKERS = ['head_to_head', 'buchholz', 'points_difference'];
+
+// Truco has no draws, so a league point is simply a win (a Swiss bye counts as one)
+const POINTS_PER_WIN = 1;
+
+// Give up on rematch-free Swiss pairings after this many backtracking steps
+const MAX_PAIRING_STEPS = 10000;
+
+/**
+ * Whether a tournament format is played as a league (standings) rather than a knockout bracket
+ * @param {String} format - Tournament format
+ * @returns {Boolean}
+ */
+export const isLeagueFormat = (format) => LEAGUE_FORMATS.includes(format);
+
+/**
+ * Default number of Swiss rounds: enough to separate a single unbeaten leader
+ * @param {Number} playerCount - Number of players in the field
+ * @returns {Number} Round count
+ */
+export const getDefaultSwissRounds = (playerCount) => Math.max(1, Math.ceil(Math.log2(playerCount)));
+
+const createLeagueMatch = (player1Id, player2Id) => ({
+  matchId: null,
+  player1Id,
+  player2Id,
+  winnerId: null,
+  status: 'pending'
+});
+
+// Round robin byes just sit the round out; Swiss byes are awarded a win
+const createByeMatch = (playerId, awardWin) => ({
+  matchId: null,
+  player1Id: playerId,
+  player2Id: null,
+  winnerId: awardWin ? playerId : null,
+  status: 'completed',
+  isBye: true
+});
+
+const getPlayerKey = (playerId) => playerId.toString();
+
+const getPairKey = (playerA, playerB) => [getPlayerKey(playerA), getPlayerKey(playerB)].sort().join(':');
+
+/**
+ * Generate a league bracket
+ * @param {Array} participantIds - Participant user IDs in seed order (seed 1 first)
+ * @param {Object} options - { format: 'round_robin' | 'swiss', swissRounds: Number, tiebreakers: Array<String> }
+ * @returns {Object} Bracket with rounds, participants and standings
+ */
+export const generateLeagueBracket = (participantIds, options = {}) => {
+  if (participantIds.length < 2) {
+    throw new Error('A league requires at least 2 players');
+  }
+
+  const bracket = {
+    format: options.format,
+    participants: [...participantIds],
+    tiebreakers: options.tiebreakers?.length ? [...options.tiebreakers] : [...DEFAULT_TIEBREAKERS],
+    rounds: [],
+    standings: []
+  };
+
+  if (options.format === 'swiss') {
+    const swissRounds = options.swissRounds || getDefaultSwissRounds(participantIds.length);
+    if (swissRounds > participantIds.length - 1) {
+      throw new Error(`Swiss tournaments with ${participantIds.length} players can have at most ${participantIds.length - 1} rounds`);
+    }
+    bracket.totalRounds = swissRounds;
+    bracket.rounds.push(pairSwissRound(bracket));
+  } else {
+    bracket.rounds = generateRoundRobinRounds(participantIds);
+    bracket.totalRounds = bracket.rounds.length;
+  }
+
+  bracket.standings = computeStandings(bracket);
+  return bracket;
+};
+
+/**
+ * Round-robin schedule using the circle method
+ * Seed 1 stays fixed while everyone else rotates, so each pair meets exactly once.
+ * Odd fields get a bye slot; the player drawn against it sits that round out.
+ */
+const generateRoundRobinRounds = (participantIds) => {
+  const slots = participantIds.length % 2 === 0 ? [...participantIds] : [...participantIds, null];
+  const roundCount = slots.length - 1;
+  const rounds = [];
+
+  for (let roundNumber = 1; roundNumber <= roundCount; roundNumber++) {
+    const matches = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      // Alternate seed 1's side so nobody is always listed first
+      const home = i === 0 && roundNumber % 2 === 0 ? slots[slots.length - 1] : slots[i];
+      const away = i === 0 && roundNumber % 2 === 0 ? slots[0] : slots[slots.length - 1 - i];
+      if (home && away) {
+        matches.push(createLeagueMatch(home, away));
+      } else {
+        matches.push(createByeMatch(home || away, false));
+      }
+    }
+    rounds.push({ roundNumber, name: `Round ${roundNumber}`, matches });
+
+    // Rotate every slot except the first
+    slots.splice(1, 0, slots.pop());
+  }
+
+  return rounds;
+};
+
+/**
+ * Pair the next Swiss round
+ * Round 1 pairs the top half of the seeds against the bottom half. Later rounds pair
+ * players in standings order with the nearest opponent they haven't met yet, so
+ * players on the same score meet each other. If no rematch-free pairing exists,
+ * rematches are allowed rather than stalling the tournament.
+ * An odd player out gets a bye (worth a win): the lowest-ranked player without one.
+ */
+const pairSwissRound = (bracket) => {
+  const roundNumber = bracket.rounds.length + 1;
+  const standings = computeStandings(bracket);
+  let ordered = standings.map(s => s.playerId);
+  const matches = [];
+
+  if (ordered.length % 2 === 1) {
+    const byeCandidate = [...standings].reverse().find(s => s.byes === 0) || standings[standings.length - 1];
+    ordered = ordered.filter(id => getPlayerKey(id) !== getPlayerKey(byeCandidate.playerId));
+    matches.push(createByeMatch(byeCandidate.playerId, true));
+  }
+
+  if (roundNumber === 1) {
+    const half = ordered.length / 2;
+    const pairings = ordered.slice(0, half).map((playerId, i) => createLeagueMatch(playerId, ordered[half + i]));
+    return { roundNumber, name: `Round ${roundNumber}`, matches: [...pairings, ...matches] };
+  }
+
+  const playedPairs = new Set();
+  bracket.rounds.forEach(round => {
+    round.matches.forEach(match => {
+      if (match.player1Id && match.player2Id) {
+        playedPairs.add(getPairKey(match.player1Id, match.player2Id));
+      }
+    });
+  });
+
+  const pairs = findSwissPairs(ordered, playedPairs) || findSwissPairs(ordered, new Set());
+  const pairings = pairs.map(([player1Id, player2Id]) => createLeagueMatch(player1Id, player2Id));
+  return { roundNumber, name: `Round ${roundNumber}`, matches: [...pairings, ...matches] };
+};
+
+/**
+ * Backtracking search for rematch-free pairs, preferring the nearest opponent in standings order
+ * @returns {Array|null} Array of [player1Id, player2Id] pairs, or null if none found
+ */
+const findSwissPairs = (ordered, playedPairs) => {
+  let steps = 0;
+
+  const search = (remaining) => {
+    if (remaining.length === 0) return [];
+    if (++steps > MAX_PAIRING_STEPS) return null;
+
+    const [player, ...rest] = remaining;
+    for (let i = 0; i < rest.length; i++) {
+      if (playedPairs.has(getPairKey(player, rest[i]))) continue;
+      const pairs = search([...rest.slice(0, i), ...rest.slice(i + 1)]);
+      if (pairs) return [[player, rest[i]], ...pairs];
+    }
+    return null;
+  };
+
+  return search(ordered);
+};
+
+/**
+ * Build the standings table from completed league matches
+ * Ranked by points, then the bracket's tiebreakers in order, then seed:
+ * - head_to_head: wins against the other players on the same points
+ * - buchholz: sum of opponents' points (strength of schedule)
+ * - points_difference: game points scored minus conceded (from match scores, when recorded)
+ * @param {Object} bracket - League bracket
+ * @returns {Array} Standings rows, leader first
+ */
+export const computeStandings = (bracket) => {
+  const stats = new Map();
+  (bracket.participants || []).forEach((playerId, index) => {
+    stats.set(getPlayerKey(playerId), {
+      playerId,
+      seed: index + 1,
+      played: 0,
+      wins: 0,
+      losses: 0,
+      byes: 0,
+      points: 0,
+      pointsFor: 0,
+      pointsAgainst: 0,
+      opponents: []
+    });
+  });
+
+  const completedMatches = (bracket.rounds || [])
+    .flatMap(round => round.matches)
+    .filter(match => match.status === 'completed');
+
+  completedMatches.forEach(match => {
+    if (match.isBye) {
+      const row = stats.get(getPlayerKey(match.player1Id));
+      if (row && match.winnerId) {
+        row.wins += 1;
+        row.byes += 1;
+        row.points += POINTS_PER_WIN;
+      }
+      return;
+    }
+
+    const player1 = stats.get(getPlayerKey(match.player1Id));
+    const player2 = stats.get(getPlayerKey(match.player2Id));
+    if (!player1 || !player2) return;
+
+    const player1Won = getPlayerKey(match.winnerId) === getPlayerKey(match.player1Id);
+    const winner = player1Won ? player1 : player2;
+    const loser = player1Won ? player2 : player1;
+
+    player1.played += 1;
+    player2.played += 1;
+    player1.opponents.push(getPlayerKey(match.player2Id));
+    player2.opponents.push(getPlayerKey(match.player1Id));
+    winner.wins += 1;
+    winner.points += POINTS_PER_WIN;
+    loser.losses += 1;
+
+    if (match.score) {
+      player1.pointsFor += match.score.player1 || 0;
+      player1.pointsAgainst += match.score.player2 || 0;
+      player2.pointsFor += match.score.player2 || 0;
+      player2.pointsAgainst += match.score.player1 || 0;
+    }
+  });
+
+  const rows = [...stats.values()];
+  rows.forEach(row => {
+    row.buchholz = row.opponents.reduce((sum, opponentKey) => sum + (stats.get(opponentKey)?.points || 0), 0);
+    row.pointsDifference = row.pointsFor - row.pointsAgainst;
+    row.headToHead = completedMatches.filter(match => {
+      if (match.isBye || getPlayerKey(match.winnerId) !== getPlayerKey(row.playerId)) return false;
+      const loserId = getPlayerKey(match.player1Id) === getPlayerKey(match.winnerId) ? match.player2Id : match.player1Id;
+      return stats.get(getPlayerKey(loserId))?.points === row.points;
+    }).length;
+  });
+
+  const tiebreakerKeys = {
+    head_to_head: 'headToHead',
+    buchholz: 'buchholz',
+    points_difference: 'pointsDifference'
+  };
+  const tiebreakers = (bracket.tiebreakers || DEFAULT_TIEBREAKERS).map(t => tiebreakerKeys[t]).filter(Boolean);
+
+  rows.sort((a, b) => {
+    if (b.points !== a.points) return b.points - a.points;
+    for (const key of tiebreakers) {
+      if (b[key] !== a[key]) return b[key] - a[key];
+    }
+    return a.seed - b.seed;
+  });
+
+  return rows.map(({ opponents, ...row }, index) => ({ rank: index + 1, ...row }));
+};
+
+/**
+ * Record the result of a league match and refresh the standings
+ * In Swiss tournaments the next round is paired once every match in the current round is done.
+ * @param {Object} bracket - Current league bracket
+ * @param {Object} result - { roundNumber, matchIndex, winnerId, score: { player1, player2 } (optional) }
+ * @returns {Object} { bracket, isComplete } - isComplete once every round has been played
+ */
+export const recordLeagueResult = (bracket, { roundNumber, matchIndex, winnerId, score }) => {
+  const bracketCopy = JSON.parse(JSON.stringify(bracket)); // Deep copy
+  const round = bracketCopy.rounds.find(r => r.roundNumber === roundNumber);
+  const match = round?.matches?.[matchIndex];
+
+  if (!match) {
+    throw new Error('Bracket match not found');
+  }
+  if (match.status === 'completed') {
+    throw new Error('Bracket match is already completed');
+  }
+  if (!match.player1Id || !match.player2Id) {
+    throw new Error('Bracket match is not ready to be played');
+  }
+
+  const winnerIdStr = winnerId.toString();
+  if (winnerIdStr !== getPlayerKey(match.player1Id) && winnerIdStr !== getPlayerKey(match.player2Id)) {
+    throw new Error('Winner must be one of the match players');
+  }
+
+  match.winnerId = winnerIdStr === getPlayerKey(match.player1Id) ? match.player1Id : match.player2Id;
+  match.status = 'completed';
+  if (score) {
+    match.score = { player1: score.player1, player2: score.player2 };
+  }
+
+  const roundComplete = round.matches.every(m => m.status === 'completed');
+  if (bracketCopy.format === 'swiss' && roundComplete && roundNumber === bracketCopy.rounds.length && bracketCopy.rounds.length < bracketCopy.totalRounds) {
+    bracketCopy.rounds.push(pairSwissRound(bracketCopy));
+  }
+
+  bracketCopy.standings = computeStandings(bracketCopy);
+
+  return { bracket: bracketCopy, isComplete: isLeagueComplete(bracketCopy) };
+};
+
+/**
+ * Whether every league round has been paired and played
+ * @param {Object} bracket - League bracket
+ * @returns {Boolean}
+ */
+export const isLeagueComplete = (bracket) =>
+  (bracket.rounds || []).length === bracket.totalRounds &&
+  bracket.rounds.every(round => round.matches.every(match => match.status === 'completed'));
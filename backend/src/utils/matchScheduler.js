@@ -0,0 +1,224 @@
+/**
+ * Match Scheduler
+ * Background job for standalone matches that stall:
+ * matches that don't fill within the open time-to-live are cancelled and their entry fees refunded,
+ * started matches with no result after the result timeout are flagged for admin review,
+ * and matches where only one player reported the result by the report deadline are disputed.
+ */
+
+import mongoose from 'mongoose';
+import Match from '../models/Match.js';
+import User from '../models/User.js';
+import Transaction from '../models/Transaction.js';
+import { cancelMatch } from './matchService.js';
+import { logger } from './logger.js';
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+const DEFAULT_OPEN_TTL_HOURS = 24;
+const DEFAULT_RESULT_TIMEOUT_HOURS = 6;
+const DEFAULT_REPORT_WINDOW_HOURS = 2;
+const HOUR_MS = 60 * 60 * 1000;
+
+let schedulerTimer = null;
+let isRunning = false;
+
+/**
+ * Hours from an environment variable; 0 turns the check off
+ * @param {String} name - Variable name
+ * @param {Number} defaultHours - Used when unset or invalid
+ * @returns {Number}
+ */
+const getHoursSetting = (name, defaultHours) => {
+  const hours = parseFloat(process.env[name]);
+  return Number.isFinite(hours) && hours >= 0 ? hours : defaultHours;
+};
+
+/**
+ * Expiry settings, read on every run so they can be changed without touching the code
+ * MATCH_OPEN_TTL_HOURS (default 24), MATCH_RESULT_TIMEOUT_HOURS (default 6) and
+ * MATCH_REPORT_WINDOW_HOURS (default 2, how long a player has to confirm the opponent's report).
+ * @returns {Object} { openTtlHours, resultTimeoutHours, reportWindowHours }
+ */
+export const getMatchExpirySettings = () => ({
+  openTtlHours: getHoursSetting('MATCH_OPEN_TTL_HOURS', DEFAULT_OPEN_TTL_HOURS),
+  resultTimeoutHours: getHoursSetting('MATCH_RESULT_TIMEOUT_HOURS', DEFAULT_RESULT_TIMEOUT_HOURS),
+  reportWindowHours: getHoursSetting('MATCH_REPORT_WINDOW_HOURS', DEFAULT_REPORT_WINDOW_HOURS)
+});
+
+// A standalone match still waiting for a player, open since before the cutoff.
+// Scheduled matches count from their match date rather than from creation.
+const getOpenMatchFilter = (cutoff) => ({
+  status: 'active',
+  tournamentId: null,
+  $and: [
+    { $or: [{ player1Id: null }, { player2Id: null }] },
+    {
+      $or: [
+        { matchDate: null, createdAt: { $lte: cutoff } },
+        { matchDate: { $ne: null, $lte: cutoff } }
+      ]
+    }
+  ]
+});
+
+/**
+ * Cancel one open match whose time-to-live has passed and refund the joined player
+ * Runs in its own transaction so a failure only affects this match.
+ * @param {String} matchId - Match ID
+ * @param {Number} openTtlHours - Open time-to-live
+ * @returns {Promise<Array|null>} Refunds made, or null if the match was no longer due
+ */
+export async function expireOpenMatch(matchId, openTtlHours) {
+  const session = await mongoose.startSession();
+  let refunds = null;
+
+  try {
+    await session.withTransaction(async () => {
+      refunds = null;
+
+      // Re-check inside the transaction: a player may have joined or an admin cancelled it meanwhile
+      const cutoff = new Date(Date.now() - openTtlHours * HOUR_MS);
+      const match = await Match.findOne({ _id: matchId, ...getOpenMatchFilter(cutoff) }).session(session);
+      if (!match) {
+        return;
+      }
+
+      refunds = await cancelMatch(match, `Expired: not filled within ${openTtlHours}h`, { User, Transaction }, session);
+      await match.save({ session });
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return refunds;
+}
+
+/**
+ * Flag started matches that have gone past the result timeout
+ * Matches started before startedAt was tracked count from their creation. Matches with a
+ * player's report pending are left to the report deadline.
+ * @param {Number} resultTimeoutHours - Result timeout
+ * @returns {Promise<Number>} Number of matches flagged
+ */
+export async function flagStaleMatches(resultTimeoutHours) {
+  const cutoff = new Date(Date.now() - resultTimeoutHours * HOUR_MS);
+  const result = await Match.updateMany(
+    {
+      status: 'active',
+      tournamentId: null,
+      player1Id: { $ne: null },
+      player2Id: { $ne: null },
+      reviewFlaggedAt: null,
+      reportDeadline: null,
+      $or: [
+        { startedAt: { $ne: null, $lte: cutoff } },
+        { startedAt: null, createdAt: { $lte: cutoff } }
+      ]
+    },
+    {
+      $set: {
+        reviewFlaggedAt: new Date(),
+        reviewReason: `No result reported within ${resultTimeoutHours}h of the match starting`
+      }
+    }
+  );
+
+  return result.modifiedCount;
+}
+
+/**
+ * Dispute matches whose report deadline passed with only one player's report
+ * (two reports either complete the match or dispute it straight away).
+ * @returns {Promise<Number>} Number of matches disputed
+ */
+export async function disputeUnconfirmedReports() {
+  const now = new Date();
+  const result = await Match.updateMany(
+    { status: 'active', tournamentId: null, reportDeadline: { $ne: null, $lte: now } },
+    {
+      $set: {
+        status: 'disputed',
+        disputedAt: now,
+        disputeReason: 'Opponent did not confirm the reported result before the deadline'
+      }
+    }
+  );
+
+  return result.modifiedCount;
+}
+
+/**
+ * Expire open matches, flag stale started ones and dispute unconfirmed reports
+ * @returns {Promise<Object>} { expired, flagged, disputed }
+ */
+export async function runMatchScheduler() {
+  const { openTtlHours, resultTimeoutHours } = getMatchExpirySettings();
+  const summary = { expired: 0, flagged: 0, disputed: 0 };
+
+  if (openTtlHours > 0) {
+    const cutoff = new Date(Date.now() - openTtlHours * HOUR_MS);
+    const dueMatches = await Match.find(getOpenMatchFilter(cutoff)).select('_id name').lean();
+
+    for (const match of dueMatches) {
+      try {
+        const refunds = await expireOpenMatch(match._id, openTtlHours);
+        if (refunds) {
+          summary.expired++;
+          logger.info(`Match "${match.name}" expired unfilled, ${refunds.length} player(s) refunded`);
+        }
+      } catch (error) {
+        logger.error(`Match scheduler failed for ${match._id}:`, error);
+      }
+    }
+  }
+
+  if (resultTimeoutHours > 0) {
+    summary.flagged = await flagStaleMatches(resultTimeoutHours);
+    if (summary.flagged > 0) {
+      logger.warn(`${summary.flagged} match(es) flagged for review: no result within ${resultTimeoutHours}h`);
+    }
+  }
+
+  summary.disputed = await disputeUnconfirmedReports();
+  if (summary.disputed > 0) {
+    logger.warn(`${summary.disputed} match(es) disputed: reported result not confirmed in time`);
+  }
+
+  return summary;
+}
+
+/**
+ * Start the background scheduler (no-op if already running)
+ * Interval can be configured with MATCH_SCHEDULER_INTERVAL_MS (default 60 seconds).
+ */
+export const startMatchScheduler = () => {
+  if (schedulerTimer) return;
+
+  const intervalMs = parseInt(process.env.MATCH_SCHEDULER_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runMatchScheduler();
+    } catch (error) {
+      logger.error('Match scheduler error:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, intervalMs);
+  tick();
+  logger.info(`⏰ Match scheduler running every ${Math.round(intervalMs / 1000)}s`);
+};
+
+/**
+ * Stop the background scheduler
+ */
+export const stopMatchScheduler = () => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * Match Scores
+ * Truco games are played to a target of 15 or 30 points. A reported score is
+ * { player1, player2, hands? } from the match's player 1 / player 2 point of view,
+ * where hands optionally lists the points each player won per hand.
+ */
+
+export const TARGET_POINTS = [15, 30];
+export const DEFAULT_TARGET_POINTS = 30;
+
+// Points must arrive as JSON numbers: Number() would accept true, '7' or '' as well
+const isPoints = (value) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Score in its stored shape (numbers, hands only if given)
+ * @param {Object} score - Reported score
+ * @returns {Object} { player1, player2, hands }
+ */
+export const normalizeScore = (score) => ({
+  player1: Number(score.player1),
+  player2: Number(score.player2),
+  hands: (score.hands || []).map(hand => ({ player1: Number(hand.player1), player2: Number(hand.player2) }))
+});
+
+/**
+ * Check a reported score against the target and the reported winner
+ * The winner must have reached the target and the loser must have stayed below it;
+ * per-hand points, when given, must add up to the final score.
+ * @param {Object} score - { player1, player2, hands }
+ * @param {Object} options - { winnerSide: 'player1' | 'player2', targetPoints }
+ * @returns {String|null} Error message, or null if the score is valid
+ */
+export const getScoreError = (score, { winnerSide, targetPoints = DEFAULT_TARGET_POINTS }) => {
+  if (!score || typeof score !== 'object' || !isPoints(score.player1) || !isPoints(score.player2)) {
+    return 'Invalid score: both players need a non-negative number of points';
+  }
+
+  const hasHands = score.hands !== undefined && score.hands !== null;
+  if (hasHands && (!Array.isArray(score.hands) || score.hands.some(hand => !hand || !isPoints(hand.player1) || !isPoints(hand.player2)))) {
+    return 'Invalid score: each hand needs a non-negative number of points for both players';
+  }
+
+  const { player1, player2, hands } = normalizeScore(score);
+  const winnerPoints = winnerSide === 'player1' ? player1 : player2;
+  const loserPoints = winnerSide === 'player1' ? player2 : player1;
+
+  if (winnerPoints <= loserPoints) {
+    return 'Invalid score: the reported winner must have more points than the loser';
+  }
+  if (winnerPoints < targetPoints) {
+    return `Invalid score: the winner must reach ${targetPoints} points`;
+  }
+  if (loserPoints >= targetPoints) {
+    return `Invalid score: the loser cannot have reached ${targetPoints} points`;
+  }
+
+  if (hands.length > 0) {
+    const handTotals = hands.reduce(
+      (totals, hand) => ({ player1: totals.player1 + hand.player1, player2: totals.player2 + hand.player2 }),
+      { player1: 0, player2: 0 }
+    );
+    if (handTotals.player1 !== player1 || handTotals.player2 !== player2) {
+      return `Invalid score: hand points add up to ${handTotals.player1}-${handTotals.player2}, not the final score of ${player1}-${player2}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Score as "30-22" (player 1 first), or '' if none was recorded
+ * @param {Object|null} score - Stored score
+ * @returns {String}
+ */
+export const formatScore = (score) =>
+  score && score.player1 !== undefined && score.player1 !== null ? `${score.player1}-${score.player2}` : '';
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getScoreError } from './matchScore.js';
+
+test('accepts a valid score', () => {
+  assert.equal(getScoreError({ player1: 30, player2: 22 }, { winnerSide: 'player1' }), null);
+});
+
+test('accepts hands that add up to the final score', () => {
+  const score = { player1: 15, player2: 9, hands: [{ player1: 10, player2: 4 }, { player1: 5, player2: 5 }] };
+  assert.equal(getScoreError(score, { winnerSide: 'player1', targetPoints: 15 }), null);
+});
+
+test('rejects boolean points', () => {
+  assert.match(getScoreError({ player1: 30, player2: true }, { winnerSide: 'player1' }), /non-negative number of points/);
+  assert.match(getScoreError({ player1: 30, player2: false }, { winnerSide: 'player1' }), /non-negative number of points/);
+});
+
+test('rejects boolean hand points', () => {
+  const score = { player1: 30, player2: 1, hands: [{ player1: 30, player2: true }] };
+  assert.match(getScoreError(score, { winnerSide: 'player1' }), /each hand needs/);
+});
+
+test('rejects points sent as strings, negative or fractional numbers', () => {
+  for (const player2 of ['22', '', null, -1, 2.5]) {
+    assert.match(getScoreError({ player1: 30, player2 }, { winnerSide: 'player1' }), /non-negative number of points/);
+  }
+});
@@ -0,0 +1,69 @@
+/**
+ * Match Series
+ * A match can be played as a best-of-N series (e.g. best of three for a final). Each game's winner,
+ * with an optional score, is recorded against the match; the series is decided once a player has
+ * won a majority of the games.
+ */
+
+export const SERIES_LENGTHS = [1, 3, 5];
+export const DEFAULT_SERIES_LENGTH = 1;
+
+/**
+ * Games a player must win to take the series (2 of 3, 3 of 5)
+ * @param {Number} bestOf - Series length
+ * @returns {Number}
+ */
+export const getWinsNeeded = (bestOf) => Math.floor((bestOf || DEFAULT_SERIES_LENGTH) / 2) + 1;
+
+/**
+ * Games won by each side of a series
+ * @param {Array} games - Recorded games ({ winnerId, score })
+ * @param {String} player1Id - The match's player 1; every other game was won by player 2
+ * @returns {Object} { player1, player2 }
+ */
+export const getSeriesWins = (games, player1Id) => {
+  const player1IdStr = player1Id?.toString();
+  const player1 = (games || []).filter(game => game.winnerId?.toString() === player1IdStr).length;
+  return { player1, player2: (games || []).length - player1 };
+};
+
+/**
+ * Combined points of a series, only if every game was scored
+ * @param {Array} games - Recorded games
+ * @returns {Object|null} { player1, player2 }
+ */
+export const getSeriesScore = (games) => {
+  if (!games?.length || games.some(game => !game.score)) {
+    return null;
+  }
+  return games.reduce(
+    (total, game) => ({ player1: total.player1 + game.score.player1, player2: total.player2 + game.score.player2 }),
+    { player1: 0, player2: 0 }
+  );
+};
+
+/**
+ * Series standing as "2-1" (player 1 first)
+ * @param {Object} wins - { player1, player2 }
+ * @returns {String}
+ */
+export const formatSeriesWins = (wins) => `${wins.player1}-${wins.player2}`;
+
+/**
+ * Add a game to a series match
+ * The winner must be one of the match players and the score, if any, already validated.
+ * Does not save the match.
+ * @param {Object} match - Match document (player1Id, player2Id, bestOf, games)
+ * @param {Object} game - { winnerId, score }
+ * @returns {Object} { gameNumber, wins, winnerId } - winnerId is set once the series is decided
+ */
+export const addSeriesGame = (match, { winnerId, score = null }) => {
+  match.games.push({ winnerId, score, recordedAt: new Date() });
+
+  const wins = getSeriesWins(match.games, match.player1Id);
+  const winsNeeded = getWinsNeeded(match.bestOf);
+  const seriesWinnerId = wins.player1 >= winsNeeded ? match.player1Id
+    : wins.player2 >= winsNeeded ? match.player2Id : null;
+
+  return { gameNumber: match.games.length, wins, winnerId: seriesWinnerId };
+};
@@ -0,0 +1,352 @@
+/**
+ * Match Service
+ * Shared bookkeeping for standalone (non-tournament) matches.
+ * Models are passed in (like the tournament service) so callers control the session.
+ */
+
+/**
+ * Players who have joined a match
+ * @param {Object} match - Match document
+ * @returns {Array} Player IDs (0 to 2)
+ */
+export const getJoinedPlayerIds = (match) => [match.player1Id, match.player2Id].filter(Boolean);
+
+/**
+ * Complete a match and pay its prize to the winner
+ * Updates both players' win/loss counters. Does not save the match.
+ * @param {Object} match - Active or disputed Match document
+ * @param {Object} result - { winnerId, loserId, score } - score already validated and normalized, or null
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<void>}
+ */
+export async function completeMatch(match, { winnerId, loserId, score = null }, { User, Transaction }, session = null) {
+  match.status = 'completed';
+  match.winnerId = winnerId;
+  match.score = score;
+  match.completedAt = new Date();
+
+  const winnerUser = await User.findById(winnerId).session(session);
+  const balanceBefore = winnerUser.coins;
+
+  await User.findByIdAndUpdate(winnerId, { $inc: { wins: 1, coins: match.prize } }, { session });
+  await User.findByIdAndUpdate(loserId, { $inc: { losses: 1 } }, { session });
+
+  await Transaction.create([{
+    userId: winnerId,
+    type: 'match_win',
+    amount: match.prize,
+    description: `Prize for winning match: ${match.name}`,
+    balanceBefore,
+    balanceAfter: balanceBefore + match.prize,
+    matchId: match._id
+  }], { session });
+}
+
+/**
+ * Make the other player the winner of a completed match
+ * Moves the win and the loss between the two players' counters; prize money is left to the caller.
+ * The recorded score belonged to the old result, so it is cleared. Does not save the match.
+ * @param {Object} match - Completed Match document
+ * @param {Object} models - { User }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} { previousWinnerId, winnerId }
+ */
+export async function reassignMatchWinner(match, { User }, session = null) {
+  const previousWinnerId = match.winnerId;
+  const winnerId = match.player1Id.toString() === previousWinnerId.toString() ? match.player2Id : match.player1Id;
+
+  await User.findByIdAndUpdate(previousWinnerId, { $inc: { wins: -1, losses: 1 } }, { session });
+  await User.findByIdAndUpdate(winnerId, { $inc: { wins: 1, losses: -1 } }, { session });
+
+  match.winnerId = winnerId;
+  match.score = null;
+
+  return { previousWinnerId, winnerId };
+}
+
+/**
+ * Take back prize money a player was paid but should not have kept
+ * As much as the player still has is debited with a match_win_reversal transaction. The house covers
+ * the rest, logged as a negative house_prize_shortfall entry, so paying the rightful winner in full
+ * doesn't create coins.
+ * @param {Object} match - Match document
+ * @param {String} userId - Player who was paid
+ * @param {Number} amount - Coins to take back
+ * @param {Object} details - { description, meta } for the transactions
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} { reclaimedAmount, houseCoveredAmount }
+ */
+export async function recoverMatchPrize(match, userId, amount, { description, meta = {} }, { User, Transaction }, session = null) {
+  if (amount <= 0) {
+    return { reclaimedAmount: 0, houseCoveredAmount: 0 };
+  }
+
+  const user = await User.findById(userId).session(session);
+  const reclaimedAmount = user ? Math.min(amount, user.coins) : 0;
+  const houseCoveredAmount = amount - reclaimedAmount;
+
+  if (reclaimedAmount > 0) {
+    await User.findByIdAndUpdate(user._id, { $inc: { coins: -reclaimedAmount } }, { session });
+    await Transaction.create([{
+      userId: user._id,
+      type: 'match_win_reversal',
+      amount: -reclaimedAmount,
+      description,
+      balanceBefore: user.coins,
+      balanceAfter: user.coins - reclaimedAmount,
+      meta,
+      matchId: match._id
+    }], { session });
+  }
+
+  if (houseCoveredAmount > 0) {
+    await Transaction.create([{
+      userId: null,
+      type: 'house_prize_shortfall',
+      amount: -houseCoveredAmount,
+      description: `Prize the previous winner could no longer pay back: ${match.name}`,
+      meta: { ...meta, previousWinnerId: userId.toString() },
+      matchId: match._id
+    }], { session });
+  }
+
+  return { reclaimedAmount, houseCoveredAmount };
+}
+
+const isSameScore = (a, b) => a.player1 === b.player1 && a.player2 === b.player2;
+
+const checkCorrectableResult = (match) => {
+  if (match.tournamentId) {
+    throw new Error('Tournament match results cannot be corrected here');
+  }
+
+  if (match.status !== 'completed' || !match.winnerId) {
+    throw new Error('Only completed matches can be corrected');
+  }
+
+  if (match.resultDisputeStatus === 'open') {
+    throw new Error('Resolve the open dispute on this result first');
+  }
+};
+
+/**
+ * Correct the winner and/or score of a completed standalone match
+ * When the winner changes, the prize is reclaimed from the old winner (the house covers what they no
+ * longer have), the win and loss move between
+ * the players and the new winner is paid the prize. The correction is added to match.resultCorrections.
+ * Does not save the match.
+ * @param {Object} match - Completed Match document
+ * @param {Object} correction - { winnerId, score, reason, adminId } - score already validated and normalized, or null
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} The correction record
+ */
+export async function correctMatchResult(match, { winnerId, score = null, reason, adminId }, { User, Transaction }, session = null) {
+  checkCorrectableResult(match);
+
+  // A series winner follows from its games; those are corrected by reversing and recording again
+  if (match.bestOf > 1) {
+    throw new Error('Best-of-N results must be reversed and recorded again');
+  }
+
+  const previousWinnerId = match.winnerId;
+  const previousScore = match.score;
+  const winnerChanged = previousWinnerId.toString() !== winnerId.toString();
+
+  if (!winnerChanged && (score && previousScore ? isSameScore(score, previousScore) : !score && !previousScore)) {
+    throw new Error('The corrected result is the same as the recorded one');
+  }
+
+  let reclaimedAmount = 0;
+  let houseCoveredAmount = 0;
+  let paidAmount = 0;
+
+  if (winnerChanged) {
+    ({ reclaimedAmount, houseCoveredAmount } = await recoverMatchPrize(
+      match,
+      previousWinnerId,
+      match.prize,
+      { description: `Prize reversed, match result corrected: ${match.name}` },
+      { User, Transaction },
+      session
+    ));
+    await reassignMatchWinner(match, { User }, session);
+
+    const newWinner = await User.findById(match.winnerId).session(session);
+    if (newWinner && match.prize > 0) {
+      await User.findByIdAndUpdate(newWinner._id, { $inc: { coins: match.prize } }, { session });
+      await Transaction.create([{
+        userId: newWinner._id,
+        type: 'match_win',
+        amount: match.prize,
+        description: `Prize for winning match (result corrected): ${match.name}`,
+        balanceBefore: newWinner.coins,
+        balanceAfter: newWinner.coins + match.prize,
+        matchId: match._id
+      }], { session });
+      paidAmount = match.prize;
+    }
+  }
+
+  match.score = score;
+  // Any earlier dispute was about the old result
+  match.resultDisputeStatus = null;
+
+  const record = {
+    action: 'correct',
+    previousWinnerId,
+    previousScore,
+    winnerId: match.winnerId,
+    score,
+    reclaimedAmount,
+    houseCoveredAmount,
+    paidAmount,
+    reason,
+    correctedBy: adminId,
+    correctedAt: new Date()
+  };
+  match.resultCorrections.push(record);
+  return record;
+}
+
+/**
+ * Reverse the result of a completed standalone match
+ * The prize is reclaimed from the winner (the house covers what they no longer have), both players' win/loss counters are undone and the match
+ * goes back to active with no result, so it can be recorded again. The reversal is added to
+ * match.resultCorrections. Does not save the match.
+ * @param {Object} match - Completed Match document
+ * @param {Object} correction - { reason, adminId }
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} The correction record
+ */
+export async function reverseMatchResult(match, { reason, adminId }, { User, Transaction }, session = null) {
+  checkCorrectableResult(match);
+
+  const previousWinnerId = match.winnerId;
+  const previousScore = match.score;
+  const loserId = match.player1Id.toString() === previousWinnerId.toString() ? match.player2Id : match.player1Id;
+
+  const { reclaimedAmount, houseCoveredAmount } = await recoverMatchPrize(
+    match,
+    previousWinnerId,
+    match.prize,
+    { description: `Prize reversed, match result reversed: ${match.name}` },
+    { User, Transaction },
+    session
+  );
+  await User.findByIdAndUpdate(previousWinnerId, { $inc: { wins: -1 } }, { session });
+  await User.findByIdAndUpdate(loserId, { $inc: { losses: -1 } }, { session });
+
+  match.status = 'active';
+  match.winnerId = null;
+  match.score = null;
+  match.games = [];
+  match.completedAt = null;
+  match.resultReports = [];
+  match.reportDeadline = null;
+  match.reviewFlaggedAt = null;
+  match.reviewReason = null;
+  match.resultDisputeStatus = null;
+
+  const record = {
+    action: 'reverse',
+    previousWinnerId,
+    previousScore,
+    winnerId: null,
+    score: null,
+    reclaimedAmount,
+    houseCoveredAmount,
+    paidAmount: 0,
+    reason,
+    correctedBy: adminId,
+    correctedAt: new Date()
+  };
+  match.resultCorrections.push(record);
+  return record;
+}
+
+/**
+ * Put a match on hold for an admin to decide the result
+ * Does not save the match.
+ * @param {Object} match - Active Match document
+ * @param {String} reason - Why the match is disputed
+ */
+export const disputeMatch = (match, reason) => {
+  match.status = 'disputed';
+  match.disputedAt = new Date();
+  match.disputeReason = reason;
+};
+
+/**
+ * Add a player's result report and compare it with the opponent's
+ * The reporter must be one of the match players, and the score, if any, already validated and normalized.
+ * A player may replace their report until the opponent has reported. Does not save the match.
+ * @param {Object} match - Active Match document with both players
+ * @param {Object} report - { playerId, winnerId, score }
+ * @returns {Object} { outcome, winnerId, loserId, score } - outcome is 'pending' (waiting for the opponent),
+ *   'agreed' (winner and score to record) or 'conflict'
+ */
+export const addResultReport = (match, { playerId, winnerId, score = null }) => {
+  const playerIdStr = playerId.toString();
+  match.resultReports = match.resultReports.filter(report => report.playerId.toString() !== playerIdStr);
+  match.resultReports.push({ playerId, winnerId, score, reportedAt: new Date() });
+
+  if (match.resultReports.length < 2) {
+    return { outcome: 'pending' };
+  }
+
+  const [first, second] = match.resultReports;
+  // Both must name the same winner; scores only have to match if both players gave one
+  if (first.winnerId.toString() !== second.winnerId.toString() ||
+      (first.score && second.score && !isSameScore(first.score, second.score))) {
+    return { outcome: 'conflict' };
+  }
+
+  const agreedWinnerId = first.winnerId;
+  const loserId = match.player1Id.toString() === agreedWinnerId.toString() ? match.player2Id : match.player1Id;
+  return { outcome: 'agreed', winnerId: agreedWinnerId, loserId, score: first.score || second.score || null };
+};
+
+/**
+ * Cancel an active match and refund every joined player's entry cost
+ * Does not save the match; the caller saves it with its own session.
+ * @param {Object} match - Active or disputed standalone Match document
+ * @param {String} reason - Cancellation reason
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Array>} Refunds made: [{ userId, amount }]
+ */
+export async function cancelMatch(match, reason, { User, Transaction }, session = null) {
+  const refunds = [];
+
+  for (const playerId of getJoinedPlayerIds(match)) {
+    if (!match.cost) break;
+
+    const user = await User.findById(playerId).session(session);
+    if (!user) continue;
+
+    const balanceBefore = user.coins;
+    await User.findByIdAndUpdate(playerId, { $inc: { coins: match.cost } }, { session });
+
+    await Transaction.create([{
+      userId: user._id,
+      type: 'match_refund',
+      amount: match.cost,
+      description: `Refund for cancelled match: ${match.name}`,
+      balanceBefore,
+      balanceAfter: balanceBefore + match.cost,
+      matchId: match._id
+    }], { session });
+
+    refunds.push({ userId: user._id, amount: match.cost });
+  }
+
+  match.status = 'cancelled';
+  match.cancelledAt = new Date();
+  match.cancellationReason = reason;
+
+  return refunds;
+}
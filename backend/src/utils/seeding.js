@@ -0,0 +1,100 @@
+/**
+ * Seeding Utility
+ * Orders tournament participants into seeds (seed 1 = strongest) before the bracket is generated
+ */
+
+export const SEEDING_MODES = ['random', 'join_order', 'rating', 'manual'];
+
+/**
+ * Standard 1-vs-N bracket placement
+ * Returns the seed number for each bracket slot, so slots (0,1), (2,3), ... are first-round pairings.
+ * e.g. size 8 => [1, 8, 4, 5, 2, 7, 3, 6]: seeds 1 and 2 can only meet in the final.
+ * @param {Number} bracketSize - Power of two bracket size
+ * @returns {Array<Number>} Seed number per slot
+ */
+export const getSeedPlacement = (bracketSize) => {
+  let placement = [1];
+  while (placement.length < bracketSize) {
+    const size = placement.length * 2;
+    placement = placement.flatMap(seed => [seed, size + 1 - seed]);
+  }
+  return placement;
+};
+
+/**
+ * Rating used for seeded placement
+ * Smoothed win rate so a 1-0 newcomer doesn't outrank a 40-10 regular
+ * @param {Object} user - User document with wins/losses
+ * @returns {Number} Rating between 0 and 1
+ */
+export const getPlayerRating = (user) => {
+  const wins = user?.wins || 0;
+  const losses = user?.losses || 0;
+  return (wins + 1) / (wins + losses + 2);
+};
+
+const shuffle = (items) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Order tournament participants by seed according to the tournament's seeding mode
+ * Team tournaments seed teams (in registration order by default); a team's rating is its members' average.
+ * @param {Object} tournament - Tournament document (participants or teams, seeding, seedOrder)
+ * @param {Object} User - User model (used for rating-based seeding)
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Array>} Participant (or team) IDs, seed 1 first
+ */
+export async function seedParticipants(tournament, User, session = null) {
+  const teams = (tournament.teamSize || 1) > 1 ? tournament.teams || [] : null;
+  const participants = teams ? teams.map(team => team._id) : [...tournament.participants];
+  const seeding = tournament.seeding || 'join_order';
+
+  if (seeding === 'random') {
+    return shuffle(participants);
+  }
+
+  if (seeding === 'rating') {
+    const users = await User.find({ _id: { $in: tournament.participants } })
+      .select('wins losses')
+      .session(session)
+      .lean();
+    const usersById = new Map(users.map(u => [u._id.toString(), u]));
+
+    // Each entrant's rating and wins (averaged and summed over a team's members)
+    const records = new Map(participants.map(entrantId => {
+      const memberIds = teams
+        ? teams.find(team => team._id.toString() === entrantId.toString()).memberIds
+        : [entrantId];
+      const members = memberIds.map(memberId => usersById.get(memberId.toString()));
+      return [entrantId.toString(), {
+        rating: members.reduce((sum, user) => sum + getPlayerRating(user), 0) / Math.max(members.length, 1),
+        wins: members.reduce((sum, user) => sum + (user?.wins || 0), 0)
+      }];
+    }));
+
+    // Array.prototype.sort is stable, so equal records keep join order
+    return participants.sort((a, b) => {
+      const recordA = records.get(a.toString());
+      const recordB = records.get(b.toString());
+      const ratingDiff = recordB.rating - recordA.rating;
+      if (ratingDiff !== 0) return ratingDiff;
+      return recordB.wins - recordA.wins;
+    });
+  }
+
+  if (seeding === 'manual' && tournament.seedOrder?.length) {
+    // Players who joined after the last manual reorder are seeded last, in join order
+    const participantIds = new Set(participants.map(p => p.toString()));
+    const seeded = tournament.seedOrder.filter(id => participantIds.has(id.toString()));
+    const seededIds = new Set(seeded.map(id => id.toString()));
+    return [...seeded, ...participants.filter(p => !seededIds.has(p.toString()))];
+  }
+
+  return participants;
+}
@@ -0,0 +1,101 @@
+/**
+ * Tournament Template Service
+ * Recurrence rules and edition creation for recurring tournament templates.
+ * Models are passed in (like the tournament service) so callers control the session.
+ */
+
+import { generateInviteCode } from './inviteCodes.js';
+import { getTournamentDefinition } from './tournamentDefinition.js';
+
+export const RECURRENCE_FREQUENCIES = ['none', 'daily', 'weekly', 'monthly'];
+
+/**
+ * Start date of the edition after `date` according to the recurrence rule
+ * Dates are stepped in UTC; monthly editions on the 29th-31st fall back to the last day of shorter months.
+ * @param {Date} date - Start date of the current edition
+ * @param {Object} recurrence - { frequency, interval }
+ * @returns {Date|null} Next start date, or null if the template doesn't repeat
+ */
+export const getNextOccurrence = (date, recurrence) => {
+  const frequency = recurrence?.frequency || 'none';
+  const interval = Math.max(parseInt(recurrence?.interval) || 1, 1);
+  if (!date || frequency === 'none') return null;
+
+  const next = new Date(date);
+  if (frequency === 'daily') {
+    next.setUTCDate(next.getUTCDate() + interval);
+  } else if (frequency === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + interval * 7);
+  } else if (frequency === 'monthly') {
+    const day = next.getUTCDate();
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + interval);
+    const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+    next.setUTCDate(Math.min(day, daysInMonth));
+  }
+  return next;
+};
+
+/**
+ * When the template's next edition should be created (registration opens)
+ * @param {Object} template - Tournament template
+ * @returns {Date|null} Open date, or null if no edition is scheduled
+ */
+export const getNextEditionOpenDate = (template) => {
+  if (!template.nextStartDate) return null;
+  const leadHours = template.registrationLeadHours ?? 24;
+  return new Date(new Date(template.nextStartDate).getTime() - leadHours * 60 * 60 * 1000);
+};
+
+/**
+ * Dated tournament name for one edition, e.g. "Friday Night - 2026-10-23"
+ * @param {String} templateName - Template name
+ * @param {Date} startDate - Edition start date
+ * @returns {String} Tournament name
+ */
+export const getEditionName = (templateName, startDate) =>
+  `${templateName} - ${new Date(startDate).toISOString().slice(0, 10)}`;
+
+/**
+ * Create the tournament for one edition of a template
+ * Updates the template's edition bookkeeping but does not save it.
+ * @param {Object} template - Tournament template document
+ * @param {Date} startDate - Edition start date
+ * @param {Object} models - { Tournament }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} Created tournament
+ */
+export async function createTemplateEdition(template, startDate, { Tournament }, session = null) {
+  const name = getEditionName(template.name, startDate);
+
+  const existingTournament = await Tournament.findOne({ name }).session(session);
+  if (existingTournament) {
+    throw new Error('Tournament with this name already exists');
+  }
+
+  const closeMinutes = template.registrationCloseMinutes || 0;
+  // The same settings a duplicated tournament carries (teams, prize pool mode, points target, series, ...)
+  const { payoutStructure = [], ...settings } = getTournamentDefinition(template);
+
+  const [tournament] = await Tournament.create([{
+    ...settings,
+    name,
+    description: template.description || '',
+    ...(payoutStructure.length ? {
+      payoutStructure: [...payoutStructure],
+      awardPercentage: payoutStructure[0]
+    } : {}),
+    startDate,
+    registrationDeadline: closeMinutes > 0 ? new Date(new Date(startDate).getTime() - closeMinutes * 60 * 1000) : null,
+    // Each private edition gets its own invite code
+    inviteCode: template.type === 'private' ? generateInviteCode() : null,
+    templateId: template._id,
+    status: 'registration'
+  }], { session });
+
+  template.editionCount = (template.editionCount || 0) + 1;
+  template.lastTournamentId = tournament._id;
+  template.lastInstantiatedAt = new Date();
+
+  return tournament;
+}
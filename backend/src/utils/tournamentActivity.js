@@ -0,0 +1,64 @@
+/**
+ * Tournament Activity
+ * Append-only timeline of what happened in a tournament and who did it.
+ * Entries are written in the same session as the change they describe, so an aborted
+ * transaction leaves no trace in the timeline either.
+ */
+
+import { getOrdinal } from './tournamentService.js';
+
+/**
+ * Append an entry to a tournament's timeline
+ * @param {Object} tournament - Tournament document (or anything with _id)
+ * @param {Object} activity - { type, actorId, playerId, description, meta }; actorId null means automatic
+ * @param {Object} TournamentActivity - TournamentActivity model
+ * @param {Object} session - Optional MongoDB session
+ */
+export async function logTournamentActivity(tournament, { type, actorId = null, playerId = null, description = '', meta = {} }, TournamentActivity, session = null) {
+  await TournamentActivity.create([{
+    tournamentId: tournament._id,
+    type,
+    actorId,
+    playerId,
+    description,
+    meta
+  }], { session });
+}
+
+/**
+ * Log a tournament's completion and each prize paid out
+ * @param {Object} tournament - Completed tournament
+ * @param {Array} payouts - Payouts returned by completeTournament (empty if prizes were already paid)
+ * @param {String|null} actorId - Who completed the tournament
+ * @param {Object} TournamentActivity - TournamentActivity model
+ * @param {Object} session - Optional MongoDB session
+ */
+export async function logTournamentCompletion(tournament, payouts, actorId, TournamentActivity, session = null) {
+  const championTeam = tournament.winnerTeamId
+    ? tournament.teams.find(team => team._id.toString() === tournament.winnerTeamId.toString())
+    : null;
+
+  await logTournamentActivity(tournament, {
+    type: 'completed',
+    actorId,
+    playerId: tournament.winnerId,
+    description: championTeam ? `Won the tournament with team ${championTeam.name}` : 'Won the tournament',
+    meta: championTeam ? { teamId: championTeam._id.toString() } : {}
+  }, TournamentActivity, session);
+
+  for (const payout of payouts) {
+    if (payout.amount <= 0) continue;
+    await logTournamentActivity(tournament, {
+      type: 'prize_paid',
+      actorId,
+      playerId: payout.userId,
+      description: `Received ${payout.amount} coins for ${getOrdinal(payout.place)} place (${payout.percentage}%)`,
+      meta: {
+        place: payout.place,
+        amount: payout.amount,
+        percentage: payout.percentage,
+        ...(payout.teamId ? { teamId: payout.teamId.toString() } : {})
+      }
+    }, TournamentActivity, session);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Tournament Definitions
+ * Export, import and duplication of a tournament's configuration (no participants, results or dates),
+ * e.g. to set up the same event in staging and production.
+ * Models are passed in (like the tournament service) so callers control the session.
+ */
+
+import { generateInviteCode } from './inviteCodes.js';
+import { getTournamentSettingsError } from './tournamentService.js';
+
+export const DEFINITION_VERSION = 1;
+
+// Configuration carried by a definition. Dates, participants, allow-lists (user IDs differ
+// between environments), invite codes and results are left out.
+const DEFINITION_FIELDS = [
+  'name',
+  'description',
+  'type',
+  'format',
+  'grandFinalReset',
+  'thirdPlaceMatch',
+  'swissRounds',
+  'tiebreakers',
+  'maxPlayers',
+  'minPlayers',
+  'teamSize',
+  'targetPoints',
+  'bestOf',
+  'finalBestOf',
+  'entryCost',
+  'prizePoolMode',
+  'prizePool',
+  'rakePercentage',
+  'guaranteedPrizePool',
+  'awardPercentage',
+  'payoutStructure',
+  'seeding',
+  'withdrawalCutoffMinutes'
+];
+
+const MAX_NAME_LENGTH = 255;
+
+/**
+ * Configuration-only definition of a tournament
+ * Manual seeding falls back to join order, since a seed order lists participants.
+ * @param {Object} tournament - Tournament document or plain object
+ * @returns {Object} Definition fields
+ */
+export const getTournamentDefinition = (tournament) => {
+  const definition = {};
+  for (const field of DEFINITION_FIELDS) {
+    if (tournament[field] !== undefined) {
+      definition[field] = Array.isArray(tournament[field]) ? [...tournament[field]] : tournament[field];
+    }
+  }
+  if (definition.seeding === 'manual') {
+    definition.seeding = 'join_order';
+  }
+  // Entry-fee pools are recomputed from the new tournament's own entries
+  if (definition.prizePoolMode === 'entry_fees') {
+    definition.prizePool = 0;
+  }
+  return definition;
+};
+
+/**
+ * Versioned export document for a tournament definition
+ * @param {Object} tournament - Tournament document or plain object
+ * @returns {Object} { version, exportedAt, tournament }
+ */
+export const exportTournamentDefinition = (tournament) => ({
+  version: DEFINITION_VERSION,
+  exportedAt: new Date().toISOString(),
+  tournament: getTournamentDefinition(tournament)
+});
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * First free tournament name based on the requested one
+ * Tournament names are unique, so a taken name gets a numbered suffix: "Cup" => "Cup (2)", "Cup (3)", ...
+ * A name that already has a suffix is numbered from its base ("Cup (2)" => "Cup (3)").
+ * @param {String} name - Requested name
+ * @param {Object} models - { Tournament }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<String>} Unused name
+ */
+export async function getAvailableTournamentName(name, { Tournament }, session = null) {
+  const requested = name.trim();
+  if (!(await Tournament.exists({ name: requested }).session(session))) {
+    return requested;
+  }
+
+  const baseName = requested.replace(/ \(\d+\)$/, '');
+  const existing = await Tournament.find({ name: new RegExp(`^${escapeRegExp(baseName)}( \\(\\d+\\))?$`) })
+    .select('name')
+    .session(session)
+    .lean();
+  const taken = new Set(existing.map(t => t.name));
+
+  for (let n = 2; ; n++) {
+    const suffix = ` (${n})`;
+    const candidate = `${baseName.slice(0, MAX_NAME_LENGTH - suffix.length)}${suffix}`;
+    if (!taken.has(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Create a tournament (in registration) from a definition
+ * Unknown fields are ignored. The document is validated against the Tournament schema and the
+ * same settings rules as tournament creation; a name collision is resolved with a numbered suffix.
+ * @param {Object} definition - Definition fields (see getTournamentDefinition)
+ * @param {Object} models - { Tournament }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} { tournament, renamed } - renamed is true if the name was taken
+ */
+export async function createTournamentFromDefinition(definition, { Tournament }, session = null) {
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    throw new Error('Invalid tournament definition');
+  }
+
+  const fields = getTournamentDefinition(definition);
+  if (typeof fields.name !== 'string' || !fields.name.trim()) {
+    throw new Error('Invalid tournament definition: name is required');
+  }
+
+  for (const field of ['payoutStructure', 'tiebreakers']) {
+    if (fields[field] !== undefined && !Array.isArray(fields[field])) {
+      throw new Error(`Invalid tournament definition: ${field} must be a list`);
+    }
+  }
+
+  const settingsError = getTournamentSettingsError(fields);
+  if (settingsError) {
+    throw new Error(`Invalid tournament definition: ${settingsError}`);
+  }
+
+  const tournament = new Tournament({
+    ...fields,
+    ...(fields.payoutStructure?.length ? { awardPercentage: fields.payoutStructure[0] } : {}),
+    // Each private tournament gets its own invite code
+    inviteCode: fields.type === 'private' ? generateInviteCode() : null,
+    status: 'registration'
+  });
+
+  try {
+    await tournament.validate();
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      const messages = Object.values(error.errors).map(e => e.message);
+      throw new Error(`Invalid tournament definition: ${messages.join(', ')}`);
+    }
+    throw error;
+  }
+
+  const name = await getAvailableTournamentName(tournament.name, { Tournament }, session);
+  const renamed = name !== tournament.name;
+  tournament.name = name;
+
+  await tournament.save({ session });
+  return { tournament, renamed };
+}
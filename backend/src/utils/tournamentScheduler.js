@@ -0,0 +1,292 @@
+/**
+ * Tournament Scheduler
+ * Background job that closes registration at each tournament's deadline:
+ * starts the tournament with the registered players (or complete teams) if minPlayers is met,
+ * otherwise cancels it and refunds every participant.
+ * It also creates the next edition of each recurring tournament template.
+ */
+
+import mongoose from 'mongoose';
+import Tournament from '../models/Tournament.js';
+import User from '../models/User.js';
+import Match from '../models/Match.js';
+import Transaction from '../models/Transaction.js';
+import TournamentTemplate from '../models/TournamentTemplate.js';
+import TournamentActivity from '../models/TournamentActivity.js';
+import { MIN_BRACKET_PLAYERS } from './bracketGenerator.js';
+import { startTournament, cancelTournament, getRegistrationDeadline, getReadyEntrantCount, isTeamTournament } from './tournamentService.js';
+import { createTemplateEdition, getNextOccurrence, getNextEditionOpenDate } from './templateService.js';
+import { logTournamentActivity } from './tournamentActivity.js';
+import { logger } from './logger.js';
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+let schedulerTimer = null;
+let isRunning = false;
+
+/**
+ * Load a tournament whose registration is due to close
+ * Re-checked inside each transaction: the tournament may have filled or been cancelled meanwhile.
+ * @param {String} tournamentId - Tournament ID
+ * @param {Object} session - MongoDB session
+ * @returns {Promise<Object|null>} Tournament document, or null if nothing is due
+ */
+async function findDueTournament(tournamentId, session) {
+  const tournament = await Tournament.findById(tournamentId).session(session);
+  const deadline = tournament ? getRegistrationDeadline(tournament) : null;
+  if (!tournament || tournament.status !== 'registration' || !deadline || deadline > new Date()) {
+    return null;
+  }
+  return tournament;
+}
+
+/**
+ * Close registration for one tournament whose deadline has passed
+ * Runs in its own transaction so a failure only affects this tournament. If the field can't be
+ * started, that transaction is aborted and the tournament is cancelled in a fresh one, so nothing
+ * the failed start wrote is kept.
+ * @param {String} tournamentId - Tournament ID
+ * @returns {Promise<String|null>} 'started', 'cancelled', or null if nothing was due
+ */
+export async function closeTournamentRegistration(tournamentId) {
+  const session = await mongoose.startSession();
+  let outcome = null;
+  let cancelReason = null;
+  let startError = null;
+
+  try {
+    try {
+      await session.withTransaction(async () => {
+        outcome = null;
+        cancelReason = null;
+        startError = null;
+
+        const tournament = await findDueTournament(tournamentId, session);
+        if (!tournament) {
+          return;
+        }
+
+        const minPlayers = Math.max(tournament.minPlayers || MIN_BRACKET_PLAYERS, MIN_BRACKET_PLAYERS);
+        // Team tournaments count complete teams; minPlayers is then a number of teams
+        const playerCount = getReadyEntrantCount(tournament);
+        if (playerCount < minPlayers) {
+          cancelReason = `Registration closed with ${playerCount} of ${minPlayers} required ${isTeamTournament(tournament) ? 'teams' : 'players'}`;
+          return;
+        }
+
+        try {
+          await startTournament(tournament, { User, Match, Transaction }, session);
+        } catch (error) {
+          startError = error;
+          throw error;
+        }
+
+        await tournament.save({ session });
+
+        // Automatic event, so the timeline entry has no actor
+        const entrants = getReadyEntrantCount(tournament);
+        await logTournamentActivity(tournament, {
+          type: 'bracket_generated',
+          description: `Registration closed: ${entrants} ${isTeamTournament(tournament) ? 'teams' : 'players'} seeded and bracket generated`,
+          meta: { entrants }
+        }, TournamentActivity, session);
+        outcome = 'started';
+      });
+    } catch (error) {
+      // Database failures propagate; only a field that can't be played in this format
+      // (e.g. too few for double elimination) cancels the tournament
+      if (error !== startError || error instanceof mongoose.mongo.MongoError) {
+        throw error;
+      }
+      logger.warn(`Tournament ${tournamentId} could not start: ${error.message}`);
+      cancelReason = `Registration closed: ${error.message}`;
+    }
+
+    if (cancelReason) {
+      await session.withTransaction(async () => {
+        outcome = null;
+
+        const tournament = await findDueTournament(tournamentId, session);
+        if (!tournament) {
+          return;
+        }
+
+        const refundedCount = await cancelTournament(tournament, cancelReason, { User, Match, Transaction }, session);
+        await tournament.save({ session });
+
+        await logTournamentActivity(tournament, {
+          type: 'cancelled',
+          description: `Tournament cancelled (${cancelReason}); ${refundedCount} participant(s) refunded`,
+          meta: { reason: cancelReason, refundedCount }
+        }, TournamentActivity, session);
+        outcome = 'cancelled';
+      });
+    }
+  } finally {
+    await session.endSession();
+  }
+
+  return outcome;
+}
+
+/**
+ * Process every tournament whose registration deadline has passed
+ * @returns {Promise<Object>} { started, cancelled }
+ */
+export async function runTournamentScheduler() {
+  const now = new Date();
+  const dueTournaments = await Tournament.find({
+    status: 'registration',
+    $or: [
+      { registrationDeadline: { $ne: null, $lte: now } },
+      { registrationDeadline: null, startDate: { $ne: null, $lte: now } }
+    ]
+  }).select('_id name').lean();
+
+  const summary = { started: 0, cancelled: 0 };
+
+  for (const tournament of dueTournaments) {
+    try {
+      const outcome = await closeTournamentRegistration(tournament._id);
+      if (outcome === 'started') {
+        summary.started++;
+        logger.info(`Tournament "${tournament.name}" started at registration deadline`);
+      } else if (outcome === 'cancelled') {
+        summary.cancelled++;
+        logger.info(`Tournament "${tournament.name}" cancelled at registration deadline, entries refunded`);
+      }
+    } catch (error) {
+      logger.error(`Tournament scheduler failed for ${tournament._id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Create the next edition of a recurring template if its registration should be open
+ * Editions whose start date already passed (e.g. while the server was down) are skipped.
+ * @param {String} templateId - Tournament template ID
+ * @returns {Promise<Object|null>} Created tournament, or null if nothing was due
+ */
+export async function createDueTemplateEdition(templateId) {
+  const session = await mongoose.startSession();
+  let tournament = null;
+
+  try {
+    await session.withTransaction(async () => {
+      tournament = null;
+
+      const template = await TournamentTemplate.findById(templateId).session(session);
+      if (!template || !template.active || !template.nextStartDate || template.recurrence?.frequency === 'none') {
+        return;
+      }
+
+      const now = new Date();
+      let skipped = 0;
+      while (template.nextStartDate && template.nextStartDate <= now) {
+        template.nextStartDate = getNextOccurrence(template.nextStartDate, template.recurrence);
+        skipped++;
+      }
+      if (skipped > 0) {
+        logger.warn(`Template "${template.name}" skipped ${skipped} missed edition(s)`);
+      }
+
+      const openDate = getNextEditionOpenDate(template);
+      const isDue = openDate && openDate <= now;
+      if (isDue) {
+        try {
+          tournament = await createTemplateEdition(template, template.nextStartDate, { Tournament }, session);
+          await logTournamentActivity(tournament, {
+            type: 'created',
+            description: `Tournament created from recurring template ${template.name}`,
+            meta: { source: 'template', templateId: template._id.toString() }
+          }, TournamentActivity, session);
+        } catch (error) {
+          if (!error.message.includes('already exists')) throw error;
+          // Created by hand already; move on to the following edition
+          logger.warn(`Template "${template.name}" edition for ${template.nextStartDate.toISOString()} already exists`);
+        }
+        template.nextStartDate = getNextOccurrence(template.nextStartDate, template.recurrence);
+      }
+
+      if (skipped > 0 || isDue) {
+        await template.save({ session });
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return tournament;
+}
+
+/**
+ * Create every template edition that is due
+ * @returns {Promise<Number>} Number of tournaments created
+ */
+export async function runTemplateScheduler() {
+  const templates = await TournamentTemplate.find({
+    active: true,
+    nextStartDate: { $ne: null },
+    'recurrence.frequency': { $ne: 'none' }
+  }).select('_id name nextStartDate registrationLeadHours').lean();
+
+  const now = new Date();
+  let created = 0;
+
+  for (const template of templates) {
+    if (getNextEditionOpenDate(template) > now) continue;
+
+    try {
+      // A lead time longer than the interval can leave several editions due at once
+      let tournament;
+      while ((tournament = await createDueTemplateEdition(template._id))) {
+        created++;
+        logger.info(`Tournament "${tournament.name}" created from template "${template.name}"`);
+      }
+    } catch (error) {
+      logger.error(`Template scheduler failed for ${template._id}:`, error);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Start the background scheduler (no-op if already running)
+ * Interval can be configured with TOURNAMENT_SCHEDULER_INTERVAL_MS (default 60 seconds).
+ */
+export const startTournamentScheduler = () => {
+  if (schedulerTimer) return;
+
+  const intervalMs = parseInt(process.env.TOURNAMENT_SCHEDULER_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap with a slow previous run
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runTemplateScheduler();
+      await runTournamentScheduler();
+    } catch (error) {
+      logger.error('Tournament scheduler error:', error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, intervalMs);
+  tick();
+  logger.info(`⏰ Tournament scheduler running every ${Math.round(intervalMs / 1000)}s`);
+};
+
+/**
+ * Stop the background scheduler
+ */
+export const stopTournamentScheduler = () => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+};
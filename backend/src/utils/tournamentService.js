@@ -0,0 +1,1027 @@
+/**
+ * Tournament Service
+ * Shared tournament bookkeeping used by the tournament routes and the scheduler:
+ * starting and cancelling tournaments, backing Match documents for bracket slots and prize payouts.
+ * Models are passed in (like the DTO transformers) so callers control the session.
+ */
+
+import {
+  generateBracket,
+  getBracketRounds,
+  getCurrentRound,
+  getFinishingOrder,
+  recordBracketResult,
+  BRACKET_SIDES,
+  MIN_BRACKET_PLAYERS,
+  MIN_DOUBLE_ELIMINATION_PLAYERS,
+  MIN_THIRD_PLACE_PLAYERS
+} from './bracketGenerator.js';
+import { seedParticipants } from './seeding.js';
+import { getScoreError, normalizeScore, DEFAULT_TARGET_POINTS } from './matchScore.js';
+import { addSeriesGame, getSeriesScore, DEFAULT_SERIES_LENGTH } from './matchSeries.js';
+
+/**
+ * Bracket sides present for a tournament format
+ * @param {Object} bracket - Bracket structure
+ * @returns {Array<String>} Sides to walk ('winners' only, unless double elimination)
+ */
+export const getBracketSides = (bracket) =>
+  bracket?.format === 'double_elimination' ? BRACKET_SIDES : ['winners'];
+
+/**
+ * Check that tournament settings fit together (format, field size, payouts)
+ * Shared by tournament creation and tournament templates; field-level checks stay in the validators.
+ * @param {Object} settings - { format, maxPlayers, minPlayers, payoutStructure, thirdPlaceMatch, swissRounds }
+ * @returns {String|null} Error message, or null if the settings are valid
+ */
+export const getTournamentSettingsError = (settings) => {
+  const format = settings.format || 'single_elimination';
+  const maxPlayers = parseInt(settings.maxPlayers);
+  const minPlayers = settings.minPlayers ? parseInt(settings.minPlayers) : null;
+  const hasThirdPlaceMatch = settings.thirdPlaceMatch === true || settings.thirdPlaceMatch === 'true';
+
+  if (format === 'double_elimination' && maxPlayers < MIN_DOUBLE_ELIMINATION_PLAYERS) {
+    return `Double elimination requires at least ${MIN_DOUBLE_ELIMINATION_PLAYERS} players`;
+  }
+
+  if (settings.payoutStructure) {
+    const totalPercentage = settings.payoutStructure.reduce((sum, percentage) => sum + parseFloat(percentage), 0);
+    if (totalPercentage > 100) {
+      return 'Payout percentages cannot exceed 100% in total';
+    }
+    if (settings.payoutStructure.length > maxPlayers) {
+      return 'Payout structure cannot have more places than players';
+    }
+  }
+
+  if (hasThirdPlaceMatch && format !== 'single_elimination') {
+    return 'Third-place match is only available for single elimination';
+  }
+
+  if (hasThirdPlaceMatch && maxPlayers < MIN_THIRD_PLACE_PLAYERS) {
+    return `Third-place match requires at least ${MIN_THIRD_PLACE_PLAYERS} players`;
+  }
+
+  if (minPlayers) {
+    if (minPlayers > maxPlayers) {
+      return 'Min players cannot exceed max players';
+    }
+    if (format === 'double_elimination' && minPlayers < MIN_DOUBLE_ELIMINATION_PLAYERS) {
+      return `Double elimination requires at least ${MIN_DOUBLE_ELIMINATION_PLAYERS} players`;
+    }
+  }
+
+  // Swiss avoids rematches, so there can't be more rounds than opponents
+  if (format === 'swiss' && settings.swissRounds && parseInt(settings.swissRounds) > maxPlayers - 1) {
+    return `Swiss tournaments with ${maxPlayers} players can have at most ${maxPlayers - 1} rounds`;
+  }
+
+  return null;
+};
+
+/**
+ * Default minimum field for a format (double elimination needs 3 players)
+ * @param {String} format - Tournament format
+ * @returns {Number} Minimum players
+ */
+export const getDefaultMinPlayers = (format) =>
+  format === 'double_elimination' ? MIN_DOUBLE_ELIMINATION_PLAYERS : MIN_BRACKET_PLAYERS;
+
+/**
+ * Series length of a bracket slot
+ * An admin's per-slot choice wins; otherwise finals (the single-elimination final, the grand final
+ * and its reset) use finalBestOf and every other slot the tournament's bestOf.
+ * @param {Object} tournament - Tournament document
+ * @param {String} side - Bracket side
+ * @param {Object} round - Bracket round holding the slot
+ * @param {Object} slot - Bracket slot
+ * @returns {Number} Series length (1 = single game)
+ */
+export const getSlotSeriesLength = (tournament, side, round, slot) => {
+  if (slot.bestOf) return slot.bestOf;
+
+  const bestOf = tournament.bestOf || DEFAULT_SERIES_LENGTH;
+  const isFinal = side === 'grand_final' ||
+    (tournament.bracket?.format === 'single_elimination' && round.roundNumber === tournament.bracket.totalRounds && !slot.isThirdPlace);
+  return isFinal ? tournament.finalBestOf || bestOf : bestOf;
+};
+
+/**
+ * Create a backing Match document for every bracket slot that has both players seated
+ * Slots that already have a matchId are left alone, so this is safe to call after every update.
+ * @param {Object} tournament - Tournament document (bracket is updated in place with new matchIds)
+ * @param {Object} Match - Match model
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Number>} Number of Match documents created
+ */
+export async function syncBracketMatches(tournament, Match, session = null) {
+  const bracket = tournament.bracket;
+  if (!bracket?.rounds) return 0;
+
+  let created = 0;
+  for (const side of getBracketSides(bracket)) {
+    for (const round of getBracketRounds(bracket, side)) {
+      for (const slot of round.matches) {
+        if (slot.matchId || slot.isBye || !slot.player1Id || !slot.player2Id) continue;
+
+        const roundLabel = slot.isThirdPlace ? 'Third-Place Match' : round.name || `Round ${round.roundNumber}`;
+        slot.bestOf = getSlotSeriesLength(tournament, side, round, slot);
+        const [match] = await Match.create([{
+          name: `${tournament.name} - ${roundLabel}`,
+          type: 'private', // Tournament matches are typically private
+          cost: 0, // Tournament matches don't have entry fee
+          prize: 0, // Prize is paid out by the tournament
+          tournamentId: tournament._id,
+          // Team matches are played by the captains on the teams' behalf
+          player1Id: getEntrantPlayerId(tournament, slot.player1Id),
+          player2Id: getEntrantPlayerId(tournament, slot.player2Id),
+          targetPoints: tournament.targetPoints || DEFAULT_TARGET_POINTS,
+          bestOf: slot.bestOf,
+          status: 'active'
+        }], { session });
+
+        slot.matchId = match._id.toString();
+        created++;
+      }
+    }
+  }
+
+  if (created > 0) {
+    tournament.markModified('bracket');
+  }
+  return created;
+}
+
+/**
+ * Whether a Match document backs one of the tournament's bracket slots
+ * Those are only decided through recordBracketMatch, which advances the bracket.
+ * @param {Object} tournament - Tournament document
+ * @param {String} matchId - Match ID
+ * @returns {Boolean}
+ */
+export const isBracketMatch = (tournament, matchId) => {
+  const bracket = tournament.bracket;
+  if (!bracket?.rounds) return false;
+
+  const matchIdStr = matchId.toString();
+  return getBracketSides(bracket).some(side =>
+    getBracketRounds(bracket, side).some(round =>
+      round.matches.some(slot => slot.matchId?.toString() === matchIdStr)));
+};
+
+/**
+ * Whether a tournament is played by fixed teams (2v2 / 3v3) rather than individual players
+ * @param {Object} tournament - Tournament document
+ * @returns {Boolean}
+ */
+export const isTeamTournament = (tournament) => (tournament.teamSize || 1) > 1;
+
+/**
+ * What each player pays to enter (and gets back on a refund)
+ * In team tournaments entryCost prices a whole team: each member pays an equal share,
+ * rounded up to a whole coin (a 100-coin trio pays 34 per member).
+ * @param {Object} tournament - Tournament document
+ * @returns {Number} Coins per player
+ */
+export const getEntryShare = (tournament) =>
+  Math.ceil((tournament.entryCost || 0) / (isTeamTournament(tournament) ? tournament.teamSize : 1));
+
+/**
+ * Whether a team has all its members (invited players who haven't accepted don't count)
+ * @param {Object} tournament - Team tournament document
+ * @param {Object} team - Team subdocument
+ * @returns {Boolean}
+ */
+export const isTeamComplete = (tournament, team) => (team.memberIds || []).length >= (tournament.teamSize || 1);
+
+/**
+ * Bracket entrants: team IDs in team tournaments, otherwise the participants
+ * @param {Object} tournament - Tournament document
+ * @returns {Array} Entrant IDs in registration order
+ */
+export const getEntrantIds = (tournament) =>
+  isTeamTournament(tournament) ? (tournament.teams || []).map(team => team._id) : [...tournament.participants];
+
+/**
+ * Number of entrants that could play if the tournament started now
+ * @param {Object} tournament - Tournament document
+ * @returns {Number} Complete teams, or registered players
+ */
+export const getReadyEntrantCount = (tournament) =>
+  isTeamTournament(tournament)
+    ? (tournament.teams || []).filter(team => isTeamComplete(tournament, team)).length
+    : tournament.participants.length;
+
+/**
+ * Team a player is a member of (not merely invited to)
+ * @param {Object} tournament - Team tournament document
+ * @param {String} userId - Player ID
+ * @returns {Object|null} Team subdocument
+ */
+export const findUserTeam = (tournament, userId) =>
+  (tournament.teams || []).find(team => team.memberIds.some(m => m.toString() === userId.toString())) || null;
+
+/**
+ * Players behind a bracket entrant: the team's members, or the player themself
+ * @param {Object} tournament - Tournament document
+ * @param {String} entrantId - Team ID (team tournaments) or player ID
+ * @returns {Array} Player IDs
+ */
+export const getEntrantMemberIds = (tournament, entrantId) => {
+  if (!isTeamTournament(tournament)) return [entrantId];
+  const team = (tournament.teams || []).find(t => t._id.toString() === entrantId.toString());
+  return team ? [...team.memberIds] : [];
+};
+
+/**
+ * Player who represents a bracket entrant in Match documents: the team captain, or the player themself
+ * @param {Object} tournament - Tournament document
+ * @param {String} entrantId - Team ID (team tournaments) or player ID
+ * @returns {String|null} Player ID
+ */
+export const getEntrantPlayerId = (tournament, entrantId) => {
+  if (!entrantId || !isTeamTournament(tournament)) return entrantId;
+  return (tournament.teams || []).find(t => t._id.toString() === entrantId.toString())?.captainId || null;
+};
+
+/**
+ * Charge a player's entry fee and add them to a team (and to the participants)
+ * Does not save the tournament; the caller saves it with its own session.
+ * @param {Object} tournament - Team tournament document in registration
+ * @param {Object} team - Team subdocument
+ * @param {String} userId - Joining player (captain or accepted invitee)
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Number>} Coin balance after the entry fee
+ */
+export async function addTeamMember(tournament, team, userId, { User, Transaction }, session = null) {
+  const user = await User.findById(userId).session(session);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const entryShare = getEntryShare(tournament);
+  if (user.coins < entryShare) {
+    throw new Error('Insufficient coins');
+  }
+
+  // Track balance before transaction
+  const balanceBefore = user.coins;
+  const balanceAfter = balanceBefore - entryShare;
+
+  await User.findByIdAndUpdate(user._id, { $inc: { coins: -entryShare } }, { session });
+  tournament.participants.push(user._id);
+  team.memberIds.push(user._id);
+  team.invitedIds = team.invitedIds.filter(id => id.toString() !== user._id.toString());
+
+  // Log transaction with balance tracking
+  await Transaction.create([{
+    userId: user._id,
+    type: 'tournament_entry',
+    amount: -entryShare,
+    description: `Entry fee for tournament: ${tournament.name} (team ${team.name})`,
+    balanceBefore: balanceBefore,
+    balanceAfter: balanceAfter,
+    meta: { tournamentId: tournament._id.toString(), teamId: team._id.toString() },
+    matchId: null
+  }], { session });
+
+  return balanceAfter;
+}
+
+/**
+ * Remove teams still waiting on partners and refund their members
+ * Used when a team tournament starts: only complete teams go into the bracket.
+ * Does not save the tournament; the caller saves it with its own session.
+ * @param {Object} tournament - Team tournament document in registration
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Number>} Number of teams removed
+ */
+export async function dropIncompleteTeams(tournament, { User, Transaction }, session = null) {
+  const incompleteTeams = tournament.teams.filter(team => !isTeamComplete(tournament, team));
+
+  for (const team of incompleteTeams) {
+    for (const memberId of [...team.memberIds]) {
+      await refundEntry(tournament, memberId, `Refund for incomplete team "${team.name}" in tournament: ${tournament.name}`, { User, Transaction }, session);
+    }
+    tournament.teams.pull(team._id);
+    tournament.seedOrder = (tournament.seedOrder || []).filter(s => s.toString() !== team._id.toString());
+  }
+
+  return incompleteTeams.length;
+}
+
+/**
+ * Seed the registered players (or complete teams), generate the bracket and start the tournament
+ * The bracket is sized for the entrants actually registered, so a tournament started
+ * before it fills gets fewer (or no) byes. Does not save the tournament.
+ * @param {Object} tournament - Tournament document in registration
+ * @param {Object} models - { User, Match, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ */
+export async function startTournament(tournament, { User, Match, Transaction }, session = null) {
+  // Teams still waiting on partners can't play; their members get their entry fee back
+  if (isTeamTournament(tournament)) {
+    await dropIncompleteTeams(tournament, { User, Transaction }, session);
+  }
+
+  const seededParticipants = await seedParticipants(tournament, User, session);
+  const bracket = generateBracket(tournament.maxPlayers, seededParticipants, {
+    format: tournament.format,
+    grandFinalReset: tournament.grandFinalReset,
+    thirdPlaceMatch: tournament.thirdPlaceMatch,
+    // A short field can't play more Swiss rounds than it has opponents
+    swissRounds: tournament.swissRounds ? Math.min(tournament.swissRounds, seededParticipants.length - 1) : null,
+    tiebreakers: tournament.tiebreakers
+  });
+  tournament.bracket = bracket;
+  tournament.status = 'active';
+  tournament.currentRound = 1;
+
+  // Create the Match documents for every first-round pairing
+  await syncBracketMatches(tournament, Match, session);
+}
+
+/**
+ * Whether a player (or team) has been disqualified from a tournament
+ * @param {Object} tournament - Tournament document
+ * @param {String} userId - Player ID (team ID in team tournaments)
+ * @returns {Boolean}
+ */
+export const isDisqualified = (tournament, userId) =>
+  !!userId && (tournament.disqualified || []).some(entry => entry.userId?.toString() === userId.toString());
+
+/**
+ * Backing Match document of a bracket slot, created if the slot doesn't have one yet
+ * @param {Object} tournament - Tournament document
+ * @param {Object} slot - Bracket slot with both players seated
+ * @param {Number} roundNumber - Round of the slot (for the match name)
+ * @param {Object} Match - Match model
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} Match document
+ */
+async function getSlotMatch(tournament, slot, roundNumber, Match, session = null) {
+  const match = slot.matchId ? await Match.findById(slot.matchId).session(session) : null;
+  if (match) return match;
+
+  return new Match({
+    name: `${tournament.name} - Round ${roundNumber}`,
+    type: 'private',
+    cost: 0,
+    prize: 0,
+    tournamentId: tournament._id,
+    player1Id: getEntrantPlayerId(tournament, slot.player1Id),
+    player2Id: getEntrantPlayerId(tournament, slot.player2Id),
+    targetPoints: tournament.targetPoints || DEFAULT_TARGET_POINTS,
+    bestOf: slot.bestOf || DEFAULT_SERIES_LENGTH,
+    status: 'active'
+  });
+}
+
+/**
+ * Record the winner of a bracket slot, complete its backing Match document and advance the bracket
+ * Walkovers are recorded the same way with resultType 'forfeit' or 'disqualification'.
+ * An optional score (slot player 1 / player 2 points) is checked against the winner and the
+ * tournament's points target; in leagues it feeds the points-difference tiebreaker.
+ * In a best-of-N slot a played result is one game of the series: the bracket only advances once
+ * the series is decided, and leagues then count the points of all its games. A walkover decides
+ * the whole series.
+ * Player stats are left to the caller, since a walkover doesn't count as a played match.
+ * Does not save the tournament; the caller saves it with its own session.
+ * @param {Object} tournament - Active tournament document
+ * @param {Object} result - { side, roundNumber, matchIndex, winnerId, score, resultType, resultReason }
+ * @param {Object} Match - Match model
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} { championId, loserId, series } - championId is set once the tournament is decided;
+ *   series ({ gameNumber, wins, decided }) is set for a game of a best-of-N slot, loserId only once the slot is decided
+ */
+export async function recordBracketMatch(tournament, { side = 'winners', roundNumber, matchIndex, winnerId, score = null, resultType = 'normal', resultReason = '' }, Match, session = null) {
+  const slot = getBracketRounds(tournament.bracket, side)
+    .find(r => r.roundNumber === roundNumber)?.matches?.[matchIndex];
+
+  const winnerIdStr = winnerId.toString();
+  const winnerSide = slot?.player1Id?.toString() === winnerIdStr ? 'player1'
+    : slot?.player2Id?.toString() === winnerIdStr ? 'player2' : null;
+
+  // Slot and winner problems are reported by recordBracketResult; only a playable result's score is checked here
+  let normalizedScore = null;
+  if (score && winnerSide && slot.player1Id && slot.player2Id && slot.status !== 'completed') {
+    const scoreError = getScoreError(score, {
+      winnerSide,
+      targetPoints: tournament.targetPoints || DEFAULT_TARGET_POINTS
+    });
+    if (scoreError) {
+      throw new Error(scoreError);
+    }
+    normalizedScore = normalizeScore(score);
+  }
+
+  let match = slot?.player1Id && slot?.player2Id ? await getSlotMatch(tournament, slot, roundNumber, Match, session) : null;
+  let slotScore = normalizedScore;
+  let series = null;
+
+  if ((match?.bestOf || 1) > 1 && resultType === 'normal') {
+    // Same checks as recordBracketResult, which only runs once the series is decided
+    if (slot.status === 'completed') {
+      throw new Error('Bracket match is already completed');
+    }
+    if (!winnerSide) {
+      throw new Error('Winner must be one of the match players');
+    }
+
+    const game = addSeriesGame(match, { winnerId: getEntrantPlayerId(tournament, winnerIdStr), score: normalizedScore });
+    slot.seriesWins = game.wins;
+    slot.matchId = match._id.toString();
+    tournament.markModified('bracket');
+    series = { gameNumber: game.gameNumber, wins: game.wins, decided: !!game.winnerId };
+
+    if (!game.winnerId) {
+      await match.save({ session });
+      return { championId: null, loserId: null, series };
+    }
+    // The game that decides the series is won by the series winner, so winnerId stands
+    slotScore = getSeriesScore(match.games);
+    normalizedScore = null;
+  }
+
+  // Validates the slot and winner, then advances the bracket
+  const result = recordBracketResult(tournament.bracket, { side, roundNumber, matchIndex, winnerId, score: slotScore });
+
+  const loserId = slot.player1Id.toString() === winnerIdStr ? slot.player2Id : slot.player1Id;
+
+  // Complete the backing Match document (created when the slot was filled)
+  Object.assign(match, {
+    status: 'completed',
+    winnerId: getEntrantPlayerId(tournament, winnerIdStr),
+    score: normalizedScore,
+    resultType,
+    resultReason,
+    completedAt: new Date()
+  });
+  await match.save({ session });
+
+  const updatedSlot = getBracketRounds(result.bracket, side)
+    .find(r => r.roundNumber === roundNumber).matches[matchIndex];
+  updatedSlot.matchId = match._id.toString();
+  if (resultType !== 'normal') {
+    updatedSlot.resultType = resultType;
+  }
+  if (slotScore) {
+    updatedSlot.score = { player1: slotScore.player1, player2: slotScore.player2 };
+  }
+
+  tournament.bracket = result.bracket;
+  tournament.currentRound = getCurrentRound(result.bracket);
+  tournament.markModified('bracket');
+
+  return { championId: result.championId, loserId, series };
+}
+
+/**
+ * Award walkovers in every ready bracket slot that has a disqualified player
+ * Runs until no such slot is left, since a walkover can advance a player straight into
+ * another disqualified player (or, in double elimination, drop a disqualified player into the losers bracket).
+ * Does not save the tournament; the caller saves it with its own session.
+ * @param {Object} tournament - Active tournament document
+ * @param {Object} Match - Match model
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Object>} { walkovers, championId } - championId is set if a walkover decided the tournament
+ */
+export async function resolveDisqualifiedMatches(tournament, Match, session = null) {
+  const findDisqualifiedSlot = () => {
+    for (const side of getBracketSides(tournament.bracket)) {
+      for (const round of getBracketRounds(tournament.bracket, side)) {
+        const matchIndex = round.matches.findIndex(slot =>
+          slot.status !== 'completed' && !slot.isBye && slot.player1Id && slot.player2Id &&
+          (isDisqualified(tournament, slot.player1Id) || isDisqualified(tournament, slot.player2Id))
+        );
+        if (matchIndex !== -1) {
+          return { side, roundNumber: round.roundNumber, slot: round.matches[matchIndex], matchIndex };
+        }
+      }
+    }
+    return null;
+  };
+
+  let walkovers = 0;
+  let championId = null;
+  let target = findDisqualifiedSlot();
+
+  while (target && !championId) {
+    const { side, roundNumber, matchIndex, slot } = target;
+    // If both players were disqualified, player 1 advances and loses their next match by walkover
+    const winnerId = isDisqualified(tournament, slot.player1Id) && !isDisqualified(tournament, slot.player2Id)
+      ? slot.player2Id
+      : slot.player1Id;
+    const loserId = winnerId.toString() === slot.player1Id.toString() ? slot.player2Id : slot.player1Id;
+    const entry = tournament.disqualified.find(d => d.userId.toString() === loserId.toString());
+
+    const result = await recordBracketMatch(tournament, {
+      side,
+      roundNumber,
+      matchIndex,
+      winnerId,
+      resultType: 'disqualification',
+      resultReason: entry?.reason || ''
+    }, Match, session);
+
+    walkovers++;
+    championId = result.championId;
+    target = findDisqualifiedSlot();
+  }
+
+  return { walkovers, championId };
+}
+
+/**
+ * Cancel a tournament and refund every participant's entry cost
+ * Bracket matches still waiting for a result are cancelled with it.
+ * Does not save the tournament; the caller saves it with its own session.
+ * @param {Object} tournament - Tournament document (not completed or cancelled)
+ * @param {String} reason - Cancellation reason
+ * @param {Object} models - { User, Match, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Number>} Number of participants refunded
+ */
+export async function cancelTournament(tournament, reason, { User, Match, Transaction }, session = null) {
+  let refundedCount = 0;
+  const entryShare = getEntryShare(tournament);
+
+  // Refund all participants (use atomic operations)
+  for (const participantId of tournament.participants) {
+    const user = await User.findById(participantId).session(session);
+    if (user) {
+      // Get balance before refund
+      const balanceBefore = user.coins;
+      const balanceAfter = balanceBefore + entryShare;
+
+      // Atomically refund coins
+      await User.findByIdAndUpdate(
+        participantId,
+        { $inc: { coins: entryShare } },
+        { session }
+      );
+
+      // Log refund transaction with balance tracking
+      await Transaction.create([{
+        userId: user._id,
+        type: 'tournament_refund',
+        amount: entryShare,
+        description: `Refund for cancelled tournament: ${tournament.name}`,
+        balanceBefore: balanceBefore,
+        balanceAfter: balanceAfter,
+        matchId: null
+      }], { session });
+
+      refundedCount++;
+    }
+  }
+
+  // Update tournament status
+  tournament.status = 'cancelled';
+  tournament.cancelledAt = new Date();
+  tournament.cancellationReason = reason;
+
+  await Match.updateMany(
+    { tournamentId: tournament._id, status: 'active' },
+    { $set: { status: 'cancelled', cancelledAt: tournament.cancelledAt, cancellationReason: `Tournament cancelled: ${reason}` } },
+    { session }
+  );
+
+  return refundedCount;
+}
+
+/**
+ * Remove a registered player and refund their entry cost
+ * Does not save the tournament; the caller saves it with its own session.
+ * @param {Object} tournament - Tournament document in registration
+ * @param {String} userId - Participant to remove
+ * @param {String} description - Refund transaction description
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Number>} Coin balance after the refund
+ */
+export async function withdrawParticipant(tournament, userId, description, { User, Transaction }, session = null) {
+  const userIdStr = userId.toString();
+  if (!tournament.participants.some(p => p.toString() === userIdStr)) {
+    throw new Error('User is not registered for this tournament');
+  }
+
+  const balanceAfter = await refundEntry(tournament, userIdStr, description, { User, Transaction }, session);
+
+  // A member leaving frees their place in the team; the captain leaving disbands it
+  const team = isTeamTournament(tournament) ? findUserTeam(tournament, userIdStr) : null;
+  if (team && team.captainId.toString() === userIdStr) {
+    for (const memberId of team.memberIds.filter(m => m.toString() !== userIdStr)) {
+      await refundEntry(tournament, memberId, `Refund for disbanded team "${team.name}" in tournament: ${tournament.name}`, { User, Transaction }, session);
+    }
+    tournament.teams.pull(team._id);
+    tournament.seedOrder = (tournament.seedOrder || []).filter(s => s.toString() !== team._id.toString());
+  } else if (team) {
+    team.memberIds = team.memberIds.filter(m => m.toString() !== userIdStr);
+  }
+
+  return balanceAfter;
+}
+
+/**
+ * Take a player out of the participants and refund their entry cost
+ * @returns {Promise<Number>} Coin balance after the refund
+ */
+async function refundEntry(tournament, userId, description, { User, Transaction }, session = null) {
+  const userIdStr = userId.toString();
+  const user = await User.findById(userIdStr).session(session);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  tournament.participants = tournament.participants.filter(p => p.toString() !== userIdStr);
+  tournament.seedOrder = (tournament.seedOrder || []).filter(p => p.toString() !== userIdStr);
+
+  // Track balance before transaction
+  const entryShare = getEntryShare(tournament);
+  const balanceBefore = user.coins;
+  const balanceAfter = balanceBefore + entryShare;
+
+  await User.findByIdAndUpdate(userIdStr, { $inc: { coins: entryShare } }, { session });
+
+  // Log refund transaction with balance tracking
+  await Transaction.create([{
+    userId: user._id,
+    type: 'tournament_refund',
+    amount: entryShare,
+    description,
+    balanceBefore: balanceBefore,
+    balanceAfter: balanceAfter,
+    matchId: null
+  }], { session });
+
+  return balanceAfter;
+}
+
+/**
+ * Change the entry cost of a tournament in registration, settling the difference with every participant
+ * A lower cost refunds the difference; a higher cost charges it, and fails if any participant can't pay.
+ * In team tournaments the difference is between the old and new per-member shares.
+ * Does not save the tournament; the caller saves it with its own session.
+ * @param {Object} tournament - Tournament document in registration
+ * @param {Number} newEntryCost - New entry cost
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Number>} Number of participants charged or refunded
+ */
+export async function adjustEntryCost(tournament, newEntryCost, { User, Transaction }, session = null) {
+  const previousEntryCost = tournament.entryCost;
+  const previousShare = getEntryShare(tournament);
+  tournament.entryCost = newEntryCost;
+  const difference = getEntryShare(tournament) - previousShare;
+  if (difference === 0) return 0;
+
+  let adjustedCount = 0;
+
+  for (const participantId of tournament.participants) {
+    const user = await User.findById(participantId).session(session);
+    if (!user) continue;
+
+    if (difference > 0 && user.coins < difference) {
+      throw new Error(`${user.name} cannot afford the new entry cost (${difference} more coins needed)`);
+    }
+
+    // Track balance before transaction
+    const balanceBefore = user.coins;
+    const balanceAfter = balanceBefore - difference;
+
+    await User.findByIdAndUpdate(participantId, { $inc: { coins: -difference } }, { session });
+
+    // Log the price difference with balance tracking
+    await Transaction.create([{
+      userId: user._id,
+      type: difference > 0 ? 'tournament_entry' : 'tournament_refund',
+      amount: -difference,
+      description: difference > 0
+        ? `Entry fee increase for tournament: ${tournament.name} (${previousEntryCost} to ${newEntryCost} coins)`
+        : `Entry fee reduction for tournament: ${tournament.name} (${previousEntryCost} to ${newEntryCost} coins)`,
+      balanceBefore: balanceBefore,
+      balanceAfter: balanceAfter,
+      meta: { tournamentId: tournament._id.toString(), previousEntryCost, newEntryCost },
+      matchId: null
+    }], { session });
+
+    adjustedCount++;
+  }
+
+  return adjustedCount;
+}
+
+/**
+ * Fill open seats from the waitlist, charging each promoted player's entry fee
+ * Waitlisted players who can no longer pay (or no longer exist) are dropped from the queue.
+ * Does not save the tournament; the caller saves it with its own session.
+ * @param {Object} tournament - Tournament document in registration
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Array>} Promoted users ({ _id, name, email }), for notifying after commit
+ */
+export async function promoteFromWaitlist(tournament, { User, Transaction }, session = null) {
+  const promoted = [];
+
+  while (tournament.waitlist?.length && tournament.participants.length < tournament.maxPlayers) {
+    const [entry] = tournament.waitlist.splice(0, 1);
+    const user = await User.findById(entry.userId).session(session);
+
+    if (!user || user.status === 'suspended' || user.coins < tournament.entryCost) {
+      continue;
+    }
+
+    // Track balance before transaction
+    const balanceBefore = user.coins;
+    const balanceAfter = balanceBefore - tournament.entryCost;
+
+    await User.findByIdAndUpdate(user._id, { $inc: { coins: -tournament.entryCost } }, { session });
+    tournament.participants.push(user._id);
+
+    // Log transaction with balance tracking
+    await Transaction.create([{
+      userId: user._id,
+      type: 'tournament_entry',
+      amount: -tournament.entryCost,
+      description: `Entry fee for tournament: ${tournament.name} (promoted from waitlist)`,
+      balanceBefore: balanceBefore,
+      balanceAfter: balanceAfter,
+      meta: { tournamentId: tournament._id.toString(), waitlist: true },
+      matchId: null
+    }], { session });
+
+    promoted.push({ _id: user._id, name: user.name, email: user.email });
+  }
+
+  return promoted;
+}
+
+/**
+ * Last moment a player may withdraw: withdrawalCutoffMinutes before the start date
+ * @param {Object} tournament - Tournament document
+ * @returns {Date|null} Cutoff, or null if the tournament has no start date
+ */
+export const getWithdrawalCutoff = (tournament) => {
+  if (!tournament.startDate) return null;
+  const cutoffMinutes = tournament.withdrawalCutoffMinutes ?? 60;
+  return new Date(new Date(tournament.startDate).getTime() - cutoffMinutes * 60 * 1000);
+};
+
+/**
+ * When registration closes: the explicit deadline, otherwise the start date
+ * @param {Object} tournament - Tournament document
+ * @returns {Date|null} Deadline, or null if registration stays open until the tournament fills
+ */
+export const getRegistrationDeadline = (tournament) =>
+  tournament.registrationDeadline || tournament.startDate || null;
+
+/**
+ * Whether filling the field starts the tournament straight away
+ * Only an explicit registration deadline holds a full tournament back, so waitlisted players can
+ * still take seats that free up before then; a start date alone doesn't.
+ * @param {Object} tournament - Tournament document
+ * @returns {Boolean}
+ */
+export const startsWhenFull = (tournament) => !tournament.registrationDeadline;
+
+/**
+ * Prize pool and how it was derived
+ * Fixed-mode tournaments pay the prizePool as entered. In entry-fee mode the pool is what was
+ * actually collected (each player's entry share x current participants, so refunds lower it) minus the rake,
+ * topped up by the house to the guaranteed minimum. Once prizes are paid the frozen pool is used.
+ * @param {Object} tournament - Tournament document
+ * @returns {Object} { mode, collected, rakePercentage, rake, guaranteed, guaranteeTopUp, prizePool }
+ */
+export const getPrizePoolBreakdown = (tournament) => {
+  const mode = tournament.prizePoolMode || 'fixed';
+  const collected = getEntryShare(tournament) * (tournament.participants?.length || 0);
+
+  if (mode !== 'entry_fees') {
+    return { mode, collected, rakePercentage: 0, rake: 0, guaranteed: 0, guaranteeTopUp: 0, prizePool: tournament.prizePool || 0 };
+  }
+
+  const rakePercentage = tournament.rakePercentage || 0;
+  const guaranteed = tournament.guaranteedPrizePool || 0;
+
+  if (tournament.prizeDistributed) {
+    return {
+      mode,
+      collected,
+      rakePercentage,
+      rake: tournament.rakeAmount || 0,
+      guaranteed,
+      guaranteeTopUp: tournament.guaranteeAmount || 0,
+      prizePool: tournament.prizePool || 0
+    };
+  }
+
+  // The rake is rounded down, so players never lose a fraction of a coin to the house
+  const rake = Math.floor(collected * rakePercentage / 100);
+  const guaranteeTopUp = Math.max(0, guaranteed - (collected - rake));
+  return { mode, collected, rakePercentage, rake, guaranteed, guaranteeTopUp, prizePool: collected - rake + guaranteeTopUp };
+};
+
+/**
+ * Prize share per finishing place (1st place first)
+ * Tournaments without a payout structure pay awardPercentage (default 80%) to the champion.
+ * @param {Object} tournament - Tournament document
+ * @returns {Array<Number>} Percentages of the prize pool
+ */
+export const getPayoutStructure = (tournament) =>
+  tournament.payoutStructure?.length ? [...tournament.payoutStructure] : [tournament.awardPercentage || 80];
+
+/**
+ * Percentage of the prize pool kept by the house
+ * @param {Array<Number>} payoutStructure - Percentages per place
+ * @returns {Number} House percentage
+ */
+export const getHousePercentage = (payoutStructure) =>
+  Math.max(0, 100 - payoutStructure.reduce((sum, percentage) => sum + percentage, 0));
+
+export const getOrdinal = (place) => {
+  const suffixes = { one: 'st', two: 'nd', few: 'rd', other: 'th' };
+  return `${place}${suffixes[new Intl.PluralRules('en', { type: 'ordinal' }).select(place)]}`;
+};
+
+/**
+ * Split the prize pool across the finishing order
+ * Players sharing a place split the percentages of the places they cover
+ * (e.g. two semi-final losers share 3rd + 4th equally). Rounding leftovers go to the house.
+ * @param {Number} prizePool - Prize pool in coins
+ * @param {Array<Number>} payoutStructure - Percentages per place
+ * @param {Array<Array>} finishingOrder - Groups of player IDs, best finish first
+ * @returns {Object} { payouts: [{ place, userId, percentage, amount }], houseAmount }
+ */
+export const calculatePayouts = (prizePool, payoutStructure, finishingOrder) => {
+  const payouts = [];
+  let place = 1;
+
+  for (const group of finishingOrder) {
+    const percentages = payoutStructure.slice(place - 1, place - 1 + group.length);
+    if (percentages.length === 0) break;
+
+    const percentage = percentages.reduce((sum, p) => sum + p, 0) / group.length;
+    const amount = Math.floor(prizePool * (percentage / 100));
+    group.forEach(userId => payouts.push({ place, userId, percentage, amount }));
+    place += group.length;
+  }
+
+  const paid = payouts.reduce((sum, payout) => sum + payout.amount, 0);
+  return { payouts, houseAmount: prizePool - paid };
+};
+
+/**
+ * Freeze an entry-fee prize pool and log the house's side of it
+ * The rake is logged as house_rake revenue and a guarantee shortfall as a negative house_guarantee entry.
+ */
+async function settlePrizePool(tournament, Transaction, session = null) {
+  const breakdown = getPrizePoolBreakdown(tournament);
+  tournament.prizePool = breakdown.prizePool;
+  tournament.rakeAmount = breakdown.rake;
+  tournament.guaranteeAmount = breakdown.guaranteeTopUp;
+
+  const meta = {
+    tournamentId: tournament._id.toString(),
+    collected: breakdown.collected,
+    rakePercentage: breakdown.rakePercentage,
+    guaranteedPrizePool: breakdown.guaranteed,
+    prizePool: breakdown.prizePool
+  };
+
+  if (breakdown.rake > 0) {
+    await Transaction.create([{
+      userId: null,
+      type: 'house_rake',
+      amount: breakdown.rake,
+      description: `Rake (${breakdown.rakePercentage}% of ${breakdown.collected} coins in entry fees) for tournament: ${tournament.name}`,
+      meta,
+      matchId: null
+    }], { session });
+  }
+
+  if (breakdown.guaranteeTopUp > 0) {
+    await Transaction.create([{
+      userId: null,
+      type: 'house_guarantee',
+      amount: -breakdown.guaranteeTopUp,
+      description: `Guaranteed prize pool (${breakdown.guaranteed} coins) shortfall for tournament: ${tournament.name}`,
+      meta,
+      matchId: null
+    }], { session });
+  }
+}
+
+/**
+ * Crown the champion, complete the tournament and pay out the prizes (once)
+ * Every paid placement gets its own tournament_win transaction (one per member for a
+ * placed team); what is not paid out is recorded on the tournament as the house share.
+ * Does not save the tournament; the caller saves it with its own session.
+ * @param {Object} tournament - Tournament document
+ * @param {String} championId - Champion user ID (team ID in team tournaments)
+ * @param {Object} models - { User, Transaction }
+ * @param {Object} session - Optional MongoDB session
+ * @returns {Promise<Array>} Payouts made (empty if the prize was already distributed)
+ */
+export async function completeTournament(tournament, championId, { User, Transaction }, session = null) {
+  // Disqualified players forfeit their placing (and prize); everyone behind them moves up
+  const finishingOrder = getFinishingOrder(tournament.bracket || {}, championId)
+    .map(group => group.filter(playerId => !isDisqualified(tournament, playerId)))
+    .filter(group => group.length > 0);
+
+  // e.g. a league leader disqualified before the last round: the best remaining finisher is crowned
+  if (isDisqualified(tournament, championId) && finishingOrder[0]?.length) {
+    championId = finishingOrder[0][0];
+  }
+
+  const teamTournament = isTeamTournament(tournament);
+  const findTeam = (teamId) => tournament.teams.find(team => team._id.toString() === teamId.toString());
+
+  // In team tournaments the bracket champion is a team; its captain stands in as winnerId
+  if (teamTournament) {
+    tournament.winnerTeamId = championId;
+    tournament.winnerId = findTeam(championId)?.captainId || null;
+  } else {
+    tournament.winnerId = championId;
+  }
+  tournament.status = 'completed';
+  tournament.completedAt = new Date();
+
+  if (tournament.prizeDistributed) {
+    return [];
+  }
+
+  // Players sharing third (e.g. semi-final losers without a bronze match) leave it unset
+  if (!teamTournament && finishingOrder[0]?.length === 1 && finishingOrder[1]?.length === 1 && finishingOrder[2]?.length === 1) {
+    tournament.thirdPlaceId = finishingOrder[2][0];
+  }
+
+  // Entry-fee pools are fixed now: the rake and any guarantee shortfall go into the house ledger
+  if (tournament.prizePoolMode === 'entry_fees') {
+    await settlePrizePool(tournament, Transaction, session);
+  }
+
+  const { payouts: placePayouts, houseAmount: unpaidAmount } = calculatePayouts(tournament.prizePool, getPayoutStructure(tournament), finishingOrder);
+  let payouts = placePayouts;
+  let houseAmount = unpaidAmount;
+
+  // A team's prize is split evenly among its members; the rounding remainder goes to the house
+  if (teamTournament) {
+    payouts = [];
+    for (const payout of placePayouts) {
+      const team = findTeam(payout.userId);
+      const memberIds = team?.memberIds || [];
+      if (memberIds.length === 0) {
+        houseAmount += payout.amount;
+        continue;
+      }
+      const share = Math.floor(payout.amount / memberIds.length);
+      houseAmount += payout.amount - share * memberIds.length;
+      memberIds.forEach(memberId => payouts.push({ ...payout, userId: memberId, teamId: team._id, amount: share }));
+    }
+  }
+
+  for (const payout of payouts) {
+    if (payout.amount <= 0) continue;
+
+    const user = await User.findById(payout.userId).session(session);
+    if (!user) {
+      throw new Error(payout.place === 1 ? 'Champion not found' : 'Prize winner not found');
+    }
+
+    // Track balance before transaction
+    const balanceBefore = user.coins;
+    const balanceAfter = balanceBefore + payout.amount;
+
+    await User.findByIdAndUpdate(payout.userId, { $inc: { coins: payout.amount } }, { session });
+
+    // Log transaction with balance tracking
+    await Transaction.create([{
+      userId: payout.userId,
+      type: 'tournament_win',
+      amount: payout.amount,
+      description: (payout.place === 1
+        ? `Tournament prize (${payout.percentage}%) for winning: ${tournament.name}`
+        : `Tournament prize (${payout.percentage}%) for ${getOrdinal(payout.place)} place: ${tournament.name}`)
+        + (payout.teamId ? ` (team ${findTeam(payout.teamId).name})` : ''),
+      balanceBefore: balanceBefore,
+      balanceAfter: balanceAfter,
+      meta: {
+        tournamentId: tournament._id.toString(),
+        place: payout.place,
+        percentage: payout.percentage,
+        ...(payout.teamId ? { teamId: payout.teamId.toString() } : {})
+      },
+      matchId: null
+    }], { session });
+  }
+
+  // Mark prize as distributed and record the split, including the house share
+  tournament.prizeDistributed = true;
+  tournament.payouts = payouts;
+  tournament.houseAmount = houseAmount;
+
+  return payouts;
+}
@@ -14,7 +14,9 @@ import Dashboard from "./pages/Dashboard";
 import Users from "./pages/Users";
 import Matches from "./pages/Matches";
 import Tournaments from "./pages/Tournaments";
+import TournamentTemplates from "./pages/TournamentTemplates";
 import Transactions from "./pages/Transactions";
+import Disputes from "./pages/Disputes";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -48,7 +50,9 @@ const App = () => (
                 <Route path="/users" element={<ProtectedRoute requireAdmin><Users /></ProtectedRoute>} />
                 <Route path="/matches" element={<ProtectedRoute><Matches /></ProtectedRoute>} />
                 <Route path="/tournaments" element={<ProtectedRoute><Tournaments /></ProtectedRoute>} />
+                <Route path="/tournament-templates" element={<ProtectedRoute requireAdmin><TournamentTemplates /></ProtectedRoute>} />
                 <Route path="/transactions" element={<ProtectedRoute requireAdmin><Transactions /></ProtectedRoute>} />
+                <Route path="/disputes" element={<ProtectedRoute requireAdmin><Disputes /></ProtectedRoute>} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
             </BrowserRouter>
@@ -3,7 +3,9 @@ import {
   Users,
   Swords,
   Trophy,
+  CalendarClock,
   Receipt,
+  Gavel,
   LogOut,
   X
 } from 'lucide-react';
@@ -29,7 +31,9 @@ const menuItems = [
   { title: 'Users', url: '/users', icon: Users, adminOnly: true },
   { title: 'Matches', url: '/matches', icon: Swords, adminOnly: false },
   { title: 'Tournaments', url: '/tournaments', icon: Trophy, adminOnly: false },
+  { title: 'Templates', url: '/tournament-templates', icon: CalendarClock, adminOnly: true },
   { title: 'Transactions', url: '/transactions', icon: Receipt, adminOnly: true },
+  { title: 'Disputes', url: '/disputes', icon: Gavel, adminOnly: true },
 ];
 
 export const AppSidebar = () => {
@@ -37,10 +37,24 @@ export const TOURNAMENT_STATUS = {
 } as const;
 
 export const TOURNAMENT_MAX_PLAYERS = {
-  FOUR: 4,
-  EIGHT: 8,
+  MIN: 2,
+  MAX: 64,
 } as const;
 
+// Standings tiebreakers for round-robin and Swiss tournaments, in default order
+export const TOURNAMENT_TIEBREAKERS = [
+  { value: 'head_to_head', label: 'Head-to-head' },
+  { value: 'buchholz', label: 'Buchholz (opponents\' points)' },
+  { value: 'points_difference', label: 'Points difference' },
+] as const;
+
+export const TEMPLATE_RECURRENCE_FREQUENCIES = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+] as const;
+
 export const ALERT_TYPES = {
   INFO: 'info',
   WARNING: 'warning',
@@ -67,10 +81,18 @@ export const TRANSACTION_TYPES = {
   MATCH_ENTRY: 'match_entry',
   MATCH_WIN: 'match_win',
   MATCH_LOSS: 'match_loss',
+  MATCH_REFUND: 'match_refund',
+  MATCH_PRIZE_HOLD: 'match_prize_hold',
+  MATCH_PRIZE_RELEASE: 'match_prize_release',
+  MATCH_WIN_REVERSAL: 'match_win_reversal',
   TOURNAMENT_ENTRY: 'tournament_entry',
+  TOURNAMENT_REFUND: 'tournament_refund',
   TOURNAMENT_WIN: 'tournament_win',
   ADMIN_ADD: 'admin_add',
   ADMIN_REMOVE: 'admin_remove',
+  HOUSE_RAKE: 'house_rake',
+  HOUSE_GUARANTEE: 'house_guarantee',
+  HOUSE_PRIZE_SHORTFALL: 'house_prize_shortfall',
 } as const;
 
 export const ERROR_MESSAGES = {
@@ -0,0 +1,334 @@
+import { useEffect, useState } from 'react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { apiService } from '@/services/apiService';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Gavel, Eye, Trophy, ShieldCheck, ShieldX } from 'lucide-react';
+import { toast } from 'sonner';
+import type { MatchDisputeDto, MatchDisputeDetailDto, MatchDisputeStatus, MatchDisputeDecision } from '@/types';
+import { logger } from '@/utils/logger';
+import { ERROR_MESSAGES } from '@/constants';
+import { formatScore } from '@/utils/matchScore';
+
+type DisputeFilter = MatchDisputeStatus | 'all';
+
+const STATUS_STYLES: Record<MatchDisputeStatus, string> = {
+  open: 'bg-warning/10 text-warning border-warning/30',
+  upheld: 'bg-success/10 text-success border-success/30',
+  overturned: 'bg-destructive/10 text-destructive border-destructive/30',
+};
+
+const Disputes = () => {
+  const [disputes, setDisputes] = useState<MatchDisputeDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<DisputeFilter>('open');
+  const [detail, setDetail] = useState<MatchDisputeDetailDto | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+
+  const fetchDisputes = async (status: DisputeFilter) => {
+    setIsLoading(true);
+    try {
+      const data = await apiService.getMatchDisputes(status === 'all' ? undefined : status);
+      setDisputes(data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.NETWORK_ERROR;
+      logger.error('Failed to load disputes:', error);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDisputes(filter);
+  }, [filter]);
+
+  const openReview = async (dispute: MatchDisputeDto) => {
+    try {
+      const data = await apiService.getMatchDispute(dispute._id);
+      setResolutionNote('');
+      setDetail(data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to load dispute:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleResolve = async (decision: MatchDisputeDecision) => {
+    if (!detail) return;
+    setIsResolving(true);
+    try {
+      const result = await apiService.resolveMatchDispute(detail.dispute._id, decision, resolutionNote.trim());
+      if (result.success) {
+        toast.success(result.message || 'Dispute resolved');
+        setDetail(null);
+        await fetchDisputes(filter);
+      } else {
+        toast.error(result.message || 'Failed to resolve dispute');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to resolve dispute:', error);
+      toast.error(errorMessage);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const match = detail?.match;
+  const opponentOf = (winnerId?: string) => match?.players.find(player => player._id !== winnerId);
+
+  return (
+    <AppLayout>
+      <div className="p-4 sm:p-6 md:p-8 lg:p-10 space-y-6 sm:space-y-8 relative">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-6 pb-6 border-b border-border/40 animate-fade-in">
+          <div className="flex items-center gap-4">
+            <div className="relative">
+              <div className="absolute inset-0 bg-accent/20 blur-xl rounded-2xl" />
+              <div className="relative h-10 w-10 sm:h-12 sm:w-12 rounded-2xl bg-gradient-to-br from-accent via-accent to-primary flex items-center justify-center shadow-2xl ring-2 ring-accent/30 transform hover:scale-110 transition-transform duration-300">
+                <Gavel className="h-4 w-4 sm:h-5 sm:w-5 text-white" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <h1 className="text-3xl sm:text-4xl md:text-5xl font-black tracking-tight bg-gradient-to-r from-foreground via-accent to-primary bg-clip-text text-transparent">
+                Disputes
+              </h1>
+              <p className="text-xs sm:text-sm md:text-base text-muted-foreground/80 font-medium">
+                Challenged match results waiting for a decision; the winner's prize is held meanwhile
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as DisputeFilter)} className="w-full">
+          <TabsList className="grid w-full max-w-lg grid-cols-4">
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="upheld">Upheld</TabsTrigger>
+            <TabsTrigger value="overturned">Overturned</TabsTrigger>
+            <TabsTrigger value="all">All</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="border-2 rounded-xl shadow-lg overflow-hidden bg-card/80 backdrop-blur-sm">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30 hover:bg-muted/30">
+                  <TableHead className="min-w-[160px]">Match</TableHead>
+                  <TableHead className="min-w-[120px]">Opened By</TableHead>
+                  <TableHead className="min-w-[200px]">Reason</TableHead>
+                  <TableHead className="min-w-[120px]">Recorded Winner</TableHead>
+                  <TableHead className="min-w-[100px]">Held</TableHead>
+                  <TableHead className="min-w-[100px]">Status</TableHead>
+                  <TableHead className="min-w-[140px]">Opened</TableHead>
+                  <TableHead className="min-w-[80px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-12">
+                      <div className="flex flex-col items-center gap-3">
+                        <div className="h-8 w-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                        <span className="text-muted-foreground">Loading disputes...</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : disputes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-12">
+                      <div className="flex flex-col items-center gap-3">
+                        <Gavel className="h-10 w-10 text-muted-foreground/50" />
+                        <p className="font-medium">{filter === 'open' ? 'No disputes waiting for review' : 'No disputes found'}</p>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  disputes.map((dispute) => (
+                    <TableRow key={dispute._id} className="hover:bg-primary/5 transition-all duration-200 border-b border-border/30">
+                      <TableCell className="font-medium">{dispute.matchName || 'Match'}</TableCell>
+                      <TableCell>{dispute.openedBy?.username || '-'}</TableCell>
+                      <TableCell className="text-sm max-w-[280px] truncate" title={dispute.reason}>{dispute.reason}</TableCell>
+                      <TableCell>{dispute.originalWinner?.username || '-'}</TableCell>
+                      <TableCell>{dispute.heldAmount} coins</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_STYLES[dispute.status]}>
+                          {dispute.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(dispute.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => openReview(dispute)} title="Review dispute">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {/* Review Dialog */}
+        <Dialog open={!!detail} onOpenChange={(open) => !open && setDetail(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            {detail && match && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="flex items-center gap-2">
+                    {detail.dispute.matchName || 'Match'}
+                    <Badge variant="outline" className={STATUS_STYLES[detail.dispute.status]}>
+                      {detail.dispute.status}
+                    </Badge>
+                  </DialogTitle>
+                  <DialogDescription>
+                    Disputed by {detail.dispute.openedBy?.username || 'a player'} on {new Date(detail.dispute.createdAt).toLocaleString()}
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-6">
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-1 text-sm">
+                      <div className="text-muted-foreground">Recorded result</div>
+                      <div className="flex items-center gap-1.5 font-semibold">
+                        <Trophy className="h-4 w-4 text-success" />
+                        {detail.dispute.originalWinner?.username || '-'}
+                        <span className="font-normal text-muted-foreground">
+                          beat {opponentOf(detail.dispute.originalWinner?._id)?.username || '-'}
+                        </span>
+                      </div>
+                      {match.score && <div>Score {formatScore(match.score)}</div>}
+                      {match.resultType && match.resultType !== 'normal' && <div>Walkover ({match.resultType})</div>}
+                      <div className="text-muted-foreground">
+                        Prize {match.prize || 0} coins · {detail.dispute.heldAmount} held
+                      </div>
+                      {detail.dispute.status === 'overturned' && (detail.dispute.reclaimedAmount > 0 || detail.dispute.houseCoveredAmount > 0) && (
+                        <div className="text-muted-foreground">
+                          {detail.dispute.reclaimedAmount} more taken back at resolution
+                          {detail.dispute.houseCoveredAmount > 0 && ` · ${detail.dispute.houseCoveredAmount} covered by the house`}
+                        </div>
+                      )}
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-1 text-sm">
+                      <div className="text-muted-foreground">Reason</div>
+                      <div className="font-medium">{detail.dispute.reason}</div>
+                      {detail.dispute.evidence && (
+                        <>
+                          <div className="text-muted-foreground pt-1">Evidence</div>
+                          <div className="whitespace-pre-wrap break-words">{detail.dispute.evidence}</div>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h3 className="font-semibold">Transactions</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Player</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Amount</TableHead>
+                          <TableHead>Date</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {detail.transactions.map((transaction) => (
+                          <TableRow key={transaction._id}>
+                            <TableCell>{transaction.user?.username || (transaction.type.startsWith('house_') ? 'House' : '-')}</TableCell>
+                            <TableCell className="text-sm">{transaction.type}</TableCell>
+                            <TableCell className={transaction.amount >= 0 ? 'text-success' : 'text-destructive'}>
+                              {transaction.amount > 0 ? '+' : ''}{transaction.amount}
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {new Date(transaction.createdAt).toLocaleString()}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    {detail.playerHistory.map((history) => (
+                      <div key={history.player._id} className="p-3 border rounded-lg space-y-2 text-sm">
+                        <div className="font-semibold">{history.player.username}</div>
+                        <div className="text-muted-foreground">
+                          {history.player.stats?.wins ?? 0}W / {history.player.stats?.losses ?? 0}L · {history.disputesOpened} dispute(s) opened · {history.resultsOverturned} win(s) overturned
+                        </div>
+                        <div className="space-y-1">
+                          {history.recentMatches.length === 0 ? (
+                            <div className="text-muted-foreground">No other matches</div>
+                          ) : (
+                            history.recentMatches.map((recent) => (
+                              <div key={recent._id} className="flex justify-between gap-2">
+                                <span className="truncate">
+                                  {recent.name} vs {recent.opponent?.username || '-'}
+                                </span>
+                                <span className="text-muted-foreground whitespace-nowrap">
+                                  {recent.won === null ? recent.status : recent.won ? 'Won' : 'Lost'}
+                                  {recent.resultDisputeStatus && ` · ${recent.resultDisputeStatus}`}
+                                </span>
+                              </div>
+                            ))
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {detail.dispute.status === 'open' ? (
+                    <div className="space-y-3 pt-2 border-t">
+                      <div className="space-y-2">
+                        <Label htmlFor="resolutionNote">Decision note (optional)</Label>
+                        <Textarea
+                          id="resolutionNote"
+                          value={resolutionNote}
+                          onChange={(e) => setResolutionNote(e.target.value)}
+                          placeholder="e.g. Replay confirms the recorded winner"
+                          maxLength={1000}
+                        />
+                      </div>
+                      <div className="flex gap-3">
+                        <Button className="flex-1" variant="outline" disabled={isResolving} onClick={() => handleResolve('uphold')}>
+                          <ShieldCheck className="h-4 w-4 mr-2" />
+                          Uphold Result
+                        </Button>
+                        <Button className="flex-1" variant="destructive" disabled={isResolving} onClick={() => handleResolve('overturn')}>
+                          <ShieldX className="h-4 w-4 mr-2" />
+                          Overturn ({opponentOf(detail.dispute.originalWinner?._id)?.username || 'opponent'} wins)
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Upholding releases the held coins to the winner. Overturning keeps them, swaps both players' win/loss records
+                        and pays the {match.prize || 0}-coin prize to the other player.
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="pt-2 border-t text-sm text-muted-foreground">
+                      {detail.dispute.status === 'upheld' ? 'Upheld' : 'Overturned'} by {detail.dispute.resolvedBy?.username || 'an admin'}
+                      {detail.dispute.resolvedAt && ` on ${new Date(detail.dispute.resolvedAt).toLocaleString()}`}
+                      {detail.dispute.resolutionNote && `: ${detail.dispute.resolutionNote}`}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Disputes;
@@ -5,18 +5,22 @@ import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Plus, Trophy, Calendar, CheckCircle2, Zap, Swords, BarChart3, TrendingUp, TrendingDown, Download } from 'lucide-react';
+import { Plus, Trophy, Calendar, CheckCircle2, Zap, Swords, BarChart3, TrendingUp, TrendingDown, Download, KeyRound, Copy, RefreshCw, XCircle, AlertTriangle, Gavel, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
-import type { Match, User, CreateMatchForm } from '@/types';
+import type { Match, User, CreateMatchForm, MatchResultCorrectionAction } from '@/types';
 import { logger } from '@/utils/logger';
 import { ERROR_MESSAGES } from '@/constants';
+import { DEFAULT_TARGET_POINTS, EMPTY_SCORE_INPUT, TARGET_POINTS_OPTIONS, formatScore, parseScoreInput } from '@/utils/matchScore';
+import { SERIES_LENGTH_OPTIONS, formatSeriesProgress, getSeriesLengthLabel } from '@/utils/matchSeries';
 import { useAuth } from '@/context/AuthContext';
 
 const Matches = () => {
@@ -26,8 +30,17 @@ const Matches = () => {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState<boolean>(false);
   const [isResultDialogOpen, setIsResultDialogOpen] = useState<boolean>(false);
+  const [isReporting, setIsReporting] = useState<boolean>(false); // Result dialog used by a player to report
   const [selectedMatch, setSelectedMatch] = useState<Match | null>(null);
-  const [filter, setFilter] = useState<'all' | 'active' | 'completed'>('all');
+  const [accessMatch, setAccessMatch] = useState<Match | null>(null);
+  const [cancellingMatch, setCancellingMatch] = useState<Match | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [disputingMatch, setDisputingMatch] = useState<Match | null>(null);
+  const [disputeForm, setDisputeForm] = useState({ reason: '', evidence: '' });
+  const [correctingMatch, setCorrectingMatch] = useState<Match | null>(null);
+  const [correctionForm, setCorrectionForm] = useState<{ action: MatchResultCorrectionAction; winnerId: string; reason: string }>({ action: 'correct', winnerId: '', reason: '' });
+  const [correctionScore, setCorrectionScore] = useState(EMPTY_SCORE_INPUT);
+  const [filter, setFilter] = useState<'all' | 'active' | 'completed' | 'disputed' | 'cancelled'>('all');
   const [isAutoJoining, setIsAutoJoining] = useState(false);
   const [matchStats, setMatchStats] = useState({
     total: 0,
@@ -43,12 +56,15 @@ const Matches = () => {
     type: 'public',
     cost: '',
     prize: '',
-    matchDate: ''
+    matchDate: '',
+    targetPoints: String(DEFAULT_TARGET_POINTS),
+    bestOf: '1'
   });
   const [resultData, setResultData] = useState({
     winnerId: '',
     loserId: ''
   });
+  const [scoreInput, setScoreInput] = useState(EMPTY_SCORE_INPUT);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -64,7 +80,7 @@ const Matches = () => {
       const completed = matchesData.filter(m => m.status === 'completed');
       const active = matchesData.filter(m => m.status === 'active');
       const totalPrizeDistributed = completed.reduce((sum, m) => sum + ((m as any).prize || 0), 0);
-      const totalEntryFees = matchesData.reduce((sum, m) => {
+      const totalEntryFees = matchesData.filter(m => m.status !== 'cancelled').reduce((sum, m) => {
         const players = Array.isArray(m.players) ? m.players.length : 0;
         return sum + (((m as any).cost || 0) * players);
       }, 0);
@@ -95,7 +111,7 @@ const Matches = () => {
     const completed = matchesData.filter(m => m.status === 'completed');
     const active = matchesData.filter(m => m.status === 'active');
     const totalPrizeDistributed = completed.reduce((sum, m) => sum + ((m as any).prize || 0), 0);
-    const totalEntryFees = matchesData.reduce((sum, m) => {
+    const totalEntryFees = matchesData.filter(m => m.status !== 'cancelled').reduce((sum, m) => {
       const players = Array.isArray(m.players) ? m.players.length : 0;
       return sum + (((m as any).cost || 0) * players);
     }, 0);
@@ -116,8 +132,11 @@ const Matches = () => {
   const filteredMatches = matches.filter(match => {
     if (filter === 'active') return match.status === 'active';
     if (filter === 'completed') return match.status === 'completed';
+    if (filter === 'disputed') return match.status === 'disputed';
+    if (filter === 'cancelled') return match.status === 'cancelled';
     return true;
   });
+  const showReasonColumn = filter === 'cancelled' || filter === 'disputed';
 
   const handleCreateMatch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -152,7 +171,7 @@ const Matches = () => {
       if (result.success) {
         toast.success('Match created successfully!');
         setIsCreateDialogOpen(false);
-        setFormData({ name: '', type: 'public', cost: '', prize: '', matchDate: '' });
+        setFormData({ name: '', type: 'public', cost: '', prize: '', matchDate: '', targetPoints: String(DEFAULT_TARGET_POINTS), bestOf: '1' });
         await refreshMatches(); // Refresh to show new match
       } else {
         toast.error(result.message || 'Failed to create match');
@@ -164,14 +183,16 @@ const Matches = () => {
     }
   };
 
-  const handleRecordResult = (match: Match) => {
+  const handleRecordResult = (match: Match, reporting = false) => {
     setSelectedMatch(match);
+    setIsReporting(reporting);
     const player1Id = match.players?.[0]?._id || (match as any).player1Id || '';
     const player2Id = match.players?.[1]?._id || (match as any).player2Id || '';
     setResultData({
       winnerId: player1Id,
       loserId: player2Id
     });
+    setScoreInput(EMPTY_SCORE_INPUT);
     setIsResultDialogOpen(true);
   };
 
@@ -206,18 +227,30 @@ const Matches = () => {
       return;
     }
 
+    // Optional; the backend checks it against the winner and the points target
+    const score = parseScoreInput(scoreInput);
+    if (score === null) {
+      toast.error('Score must be whole numbers of points, with hands written as "12-3, 3-0"');
+      return;
+    }
+
     try {
-      const result = await apiService.recordMatchResult(
-        selectedMatch._id,
-        resultData.winnerId,
-        resultData.loserId
-      );
+      const result = isReporting
+        ? await apiService.reportMatchResult(selectedMatch._id, resultData.winnerId, score)
+        : await apiService.recordMatchResult(
+          selectedMatch._id,
+          resultData.winnerId,
+          resultData.loserId,
+          score
+        );
 
       if (result.success) {
-        toast.success('Match result recorded successfully!');
+        // Reports say whether the opponent agreed; for best-of-N the message has the series standing
+        toast.success(isReporting || (selectedMatch.bestOf && selectedMatch.bestOf > 1) ? result.message || 'Result saved' : 'Match result recorded successfully!');
         setIsResultDialogOpen(false);
         setSelectedMatch(null);
         setResultData({ winnerId: '', loserId: '' });
+        setScoreInput(EMPTY_SCORE_INPUT);
         await refreshMatches(); // Refresh to get updated data from server
       } else {
         toast.error(result.message || 'Failed to record match result');
@@ -229,6 +262,94 @@ const Matches = () => {
     }
   };
 
+  const handleCancelMatch = async () => {
+    if (!cancellingMatch) return;
+    try {
+      const result = await apiService.cancelMatch(cancellingMatch._id, cancelReason.trim());
+      if (result.success) {
+        toast.success(result.message || 'Match cancelled');
+        setCancellingMatch(null);
+        await refreshMatches();
+      } else {
+        toast.error(result.message || 'Failed to cancel match');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to cancel match:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleOpenDispute = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!disputingMatch) return;
+    if (!disputeForm.reason.trim()) {
+      toast.error('Please give a reason for the dispute');
+      return;
+    }
+    try {
+      const result = await apiService.openMatchDispute(disputingMatch._id, disputeForm.reason.trim(), disputeForm.evidence.trim());
+      if (result.success) {
+        toast.success(result.message || 'Dispute opened');
+        setDisputingMatch(null);
+        await refreshMatches();
+      } else {
+        toast.error(result.message || 'Failed to open dispute');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to open dispute:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleStartCorrection = (match: Match) => {
+    // A series can only be reversed and recorded again
+    setCorrectionForm({ action: match.bestOf && match.bestOf > 1 ? 'reverse' : 'correct', winnerId: match.winner?._id || '', reason: '' });
+    setCorrectionScore(EMPTY_SCORE_INPUT);
+    setCorrectingMatch(match);
+  };
+
+  const handleCorrectResult = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!correctingMatch) return;
+    if (!correctionForm.reason.trim()) {
+      toast.error('Please give a reason for the correction');
+      return;
+    }
+
+    const isCorrection = correctionForm.action === 'correct';
+    if (isCorrection && !correctionForm.winnerId) {
+      toast.error('Please select the winner');
+      return;
+    }
+
+    const score = isCorrection ? parseScoreInput(correctionScore) : undefined;
+    if (score === null) {
+      toast.error('Score must be whole numbers of points, with hands written as "12-3, 3-0"');
+      return;
+    }
+
+    try {
+      const result = await apiService.correctMatchResult(correctingMatch._id, {
+        action: correctionForm.action,
+        ...(isCorrection ? { winnerId: correctionForm.winnerId, score } : {}),
+        reason: correctionForm.reason.trim()
+      });
+      if (result.success) {
+        toast.success(result.message || 'Match result corrected');
+        setCorrectingMatch(null);
+        await refreshMatches();
+      } else {
+        toast.error(result.message || 'Failed to correct match result');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to correct match result:', error);
+      toast.error(errorMessage);
+    }
+  };
+
   const getUserName = (userId: string) => {
     const user = users.find(u => u._id === userId);
     return user ? user.username : `User ${userId}`;
@@ -254,6 +375,39 @@ const Matches = () => {
     }
   };
 
+  /**
+   * Regenerate or revoke the invite code of a private match (admin only)
+   */
+  const handleUpdateInviteCode = async (match: Match, regenerate: boolean) => {
+    try {
+      const result = regenerate
+        ? await apiService.regenerateMatchInviteCode(match._id)
+        : await apiService.revokeMatchInviteCode(match._id);
+      if (result.success && result.match) {
+        const updatedMatch = result.match;
+        toast.success(result.message || (regenerate ? 'Invite code regenerated' : 'Invite code revoked'));
+        setAccessMatch(updatedMatch);
+        setMatches(prev => prev.map(m => (m._id === updatedMatch._id ? updatedMatch : m)));
+      } else {
+        toast.error(result.message || 'Failed to update invite code');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to update invite code:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleCopyInviteCode = async (inviteCode: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteCode);
+      toast.success('Invite code copied');
+    } catch (error) {
+      logger.error('Failed to copy invite code:', error);
+      toast.error('Failed to copy invite code');
+    }
+  };
+
   // Get available matches (active, public, not full)
   const availableMatches = matches.filter(match => 
     match.status === 'active' && 
@@ -368,6 +522,41 @@ const Matches = () => {
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="targetPoints">Played to</Label>
+                  <Select
+                    value={formData.targetPoints}
+                    onValueChange={(value) => setFormData({ ...formData, targetPoints: value })}
+                  >
+                    <SelectTrigger id="targetPoints">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TARGET_POINTS_OPTIONS.map(points => (
+                        <SelectItem key={points} value={String(points)}>{points} points</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bestOf">Series</Label>
+                  <Select
+                    value={formData.bestOf}
+                    onValueChange={(value) => setFormData({ ...formData, bestOf: value })}
+                  >
+                    <SelectTrigger id="bestOf">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SERIES_LENGTH_OPTIONS.map(length => (
+                        <SelectItem key={length} value={String(length)}>{getSeriesLengthLabel(length)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    In a series each game is recorded; the prize is paid once a player has won the majority
+                  </p>
+                </div>
                 <div className="space-y-2">
                   <Label htmlFor="matchDate">
                     <Calendar className="h-3.5 w-3.5 inline mr-1" />
@@ -438,11 +627,13 @@ const Matches = () => {
           </div>
         </div>
 
-        <Tabs value={filter} onValueChange={(value) => setFilter(value as 'all' | 'active' | 'completed')} className="w-full">
-          <TabsList className="grid w-full max-w-md grid-cols-3">
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as 'all' | 'active' | 'completed' | 'disputed' | 'cancelled')} className="w-full">
+          <TabsList className="grid w-full max-w-2xl grid-cols-5">
             <TabsTrigger value="all">All Matches</TabsTrigger>
             <TabsTrigger value="active">Active</TabsTrigger>
             <TabsTrigger value="completed">Past Matches</TabsTrigger>
+            <TabsTrigger value="disputed">Disputed</TabsTrigger>
+            <TabsTrigger value="cancelled">Cancelled</TabsTrigger>
           </TabsList>
         </Tabs>
 
@@ -546,6 +737,7 @@ const Matches = () => {
                 <TableHead className="min-w-[100px]">Status</TableHead>
                 <TableHead className="min-w-[80px]">Players</TableHead>
                 {filter === 'completed' && <TableHead className="min-w-[120px]">Winner</TableHead>}
+                {showReasonColumn && <TableHead className="min-w-[160px]">Reason</TableHead>}
                 <TableHead className="min-w-[120px]">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -561,13 +753,13 @@ const Matches = () => {
                     <TableCell><Skeleton className="h-4 w-16" /></TableCell>
                     <TableCell><Skeleton className="h-6 w-20" /></TableCell>
                     <TableCell><Skeleton className="h-4 w-28" /></TableCell>
-                    {filter === 'completed' && <TableCell><Skeleton className="h-4 w-24" /></TableCell>}
+                    {(filter === 'completed' || showReasonColumn) && <TableCell><Skeleton className="h-4 w-24" /></TableCell>}
                     <TableCell><Skeleton className="h-8 w-24" /></TableCell>
                   </TableRow>
                 ))
               ) : filteredMatches.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={filter === 'completed' ? 9 : 8} className="text-center py-12">
+                  <TableCell colSpan={filter === 'completed' || showReasonColumn ? 9 : 8} className="text-center py-12">
                     <div className="flex flex-col items-center gap-3">
                       <Swords className="h-10 w-10 text-muted-foreground/50" />
                       <div>
@@ -586,14 +778,29 @@ const Matches = () => {
                   const player2Id = match.players?.[1]?._id || matchAny.player2Id;
                   const winnerId = match.winner?._id || matchAny.winnerId;
                   const playersCount = Array.isArray(match.players) ? match.players.length : 0;
+                  const isPlayer = !!user && (user._id === player1Id || user._id === player2Id);
+                  const hasReported = !!match.resultReports?.some(report => report.playerId === user?._id);
                   
                   return (
                   <TableRow key={match._id} className="hover:bg-primary/5 transition-all duration-200 border-b border-border/30">
                     <TableCell className="font-medium">{matchAny.name || 'Match'}</TableCell>
                     <TableCell>
-                      <Badge variant={matchAny.type === 'public' ? 'default' : 'secondary'}>
-                        {matchAny.type || 'public'}
-                      </Badge>
+                      <div className="flex items-center gap-1">
+                        <Badge variant={matchAny.type === 'public' ? 'default' : 'secondary'}>
+                          {matchAny.type || 'public'}
+                        </Badge>
+                        {user?.role === 'admin' && match.type === 'private' && !match.tournament && match.status === 'active' && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            title="Private access"
+                            onClick={() => setAccessMatch(match)}
+                          >
+                            <KeyRound className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
                       <div className="hidden md:table-cell">
@@ -614,11 +821,49 @@ const Matches = () => {
                         variant={match.status === 'active' ? 'default' : 'secondary'}
                         className={match.status === 'active' 
                           ? 'bg-success/10 text-success border-success/30' 
-                          : 'bg-muted text-muted-foreground'
+                          : match.status === 'cancelled'
+                            ? 'bg-destructive/10 text-destructive border-destructive/30'
+                            : match.status === 'disputed'
+                              ? 'bg-warning/10 text-warning border-warning/30'
+                              : 'bg-muted text-muted-foreground'
                         }
                       >
                         {match.status}
                       </Badge>
+                      {match.status === 'active' && match.reviewFlaggedAt && (
+                        <Badge
+                          variant="outline"
+                          className="mt-1 flex w-fit items-center gap-1 bg-warning/10 text-warning border-warning/30"
+                          title={match.reviewReason || undefined}
+                        >
+                          <AlertTriangle className="h-3 w-3" />
+                          Needs review
+                        </Badge>
+                      )}
+                      {(match.resultDisputeStatus === 'open' || match.resultDisputeStatus === 'overturned') && (
+                        <Badge
+                          variant="outline"
+                          className="mt-1 flex w-fit items-center gap-1 bg-warning/10 text-warning border-warning/30"
+                        >
+                          <Gavel className="h-3 w-3" />
+                          {match.resultDisputeStatus === 'open' ? 'Result disputed' : 'Result overturned'}
+                        </Badge>
+                      )}
+                      {match.resultCorrections && match.resultCorrections.length > 0 && (
+                        <Badge
+                          variant="outline"
+                          className="mt-1 flex w-fit items-center gap-1"
+                          title={[
+                            match.resultCorrections[match.resultCorrections.length - 1].reason,
+                            match.resultCorrections[match.resultCorrections.length - 1].houseCoveredAmount > 0
+                              ? `${match.resultCorrections[match.resultCorrections.length - 1].houseCoveredAmount} coins covered by the house`
+                              : '',
+                          ].filter(Boolean).join(' · ')}
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          {match.resultCorrections[match.resultCorrections.length - 1].action === 'reverse' ? 'Result reversed' : 'Result corrected'}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="text-sm font-medium">
@@ -631,6 +876,17 @@ const Matches = () => {
                           <span className="text-muted-foreground">No players</span>
                         )}
                       </div>
+                      {match.bestOf && match.bestOf > 1 && (
+                        <div className="text-xs text-muted-foreground mt-0.5">
+                          {formatSeriesProgress(match.bestOf, match.seriesWins)}
+                        </div>
+                      )}
+                      {(match.status === 'active' || match.status === 'disputed') && match.resultReports?.map(report => (
+                        <div key={report.playerId} className="text-xs text-muted-foreground mt-0.5">
+                          {getUserName(report.playerId)} reported {getUserName(report.winnerId)} won
+                          {report.score && ` (${formatScore(report.score)})`}
+                        </div>
+                      ))}
                     </TableCell>
                     {filter === 'completed' && (
                       <TableCell>
@@ -638,32 +894,93 @@ const Matches = () => {
                           <div className="flex items-center gap-1.5 text-success font-semibold">
                             <Trophy className="h-4 w-4" />
                             {getUserName(winnerId)}
+                            {match.score && (
+                              <span className="text-xs font-normal text-muted-foreground">({formatScore(match.score)})</span>
+                            )}
                           </div>
                         ) : (
                           <span className="text-muted-foreground text-sm">-</span>
                         )}
                       </TableCell>
                     )}
+                    {showReasonColumn && (
+                      <TableCell className="text-sm text-muted-foreground">
+                        {(match.status === 'disputed' ? match.disputeReason : match.cancellationReason) || '-'}
+                      </TableCell>
+                    )}
                     <TableCell>
-                      {match.status === 'active' && playersCount === 2 ? (
-                        user?.role === 'admin' ? (
+                      <div className="flex items-center gap-1">
+                        {(match.status === 'active' || match.status === 'disputed') && playersCount === 2 ? (
+                          user?.role === 'admin' && !match.tournament ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRecordResult(match)}
+                              className="hover:bg-primary/10 hover:text-primary hover:border-primary/30 transition-all"
+                            >
+                              <CheckCircle2 className="h-3.5 w-3.5 mr-1.5" />
+                              Record Result
+                            </Button>
+                          ) : isPlayer && match.status === 'active' && !match.tournament ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRecordResult(match, true)}
+                              className="hover:bg-primary/10 hover:text-primary hover:border-primary/30 transition-all"
+                            >
+                              <CheckCircle2 className="h-3.5 w-3.5 mr-1.5" />
+                              {hasReported ? 'Change Report' : 'Report Result'}
+                            </Button>
+                          ) : (
+                            <span className="text-muted-foreground text-sm">
+                              {match.status === 'disputed' ? 'Awaiting admin decision' : 'Match in progress'}
+                            </span>
+                          )
+                        ) : (
+                          <span className="text-muted-foreground text-sm">
+                            {match.status === 'active' ? 'Waiting for players' : match.status === 'cancelled' ? 'Cancelled' : 'Completed'}
+                          </span>
+                        )}
+                        {/* A player can dispute a completed result once; the prize is held until an admin decides */}
+                        {isPlayer && match.status === 'completed' && !match.tournament && !match.resultDisputeStatus && (
                           <Button
-                            variant="outline"
+                            variant="ghost"
                             size="sm"
-                            onClick={() => handleRecordResult(match)}
-                            className="hover:bg-primary/10 hover:text-primary hover:border-primary/30 transition-all"
+                            title="Dispute result"
+                            onClick={() => {
+                              setDisputeForm({ reason: '', evidence: '' });
+                              setDisputingMatch(match);
+                            }}
                           >
-                            <CheckCircle2 className="h-3.5 w-3.5 mr-1.5" />
-                            Record Result
+                            <Gavel className="h-4 w-4 text-warning" />
                           </Button>
-                        ) : (
-                          <span className="text-muted-foreground text-sm">Match in progress</span>
-                        )
-                      ) : (
-                        <span className="text-muted-foreground text-sm">
-                          {match.status === 'active' ? 'Waiting for players' : 'Completed'}
-                        </span>
-                      )}
+                        )}
+                        {/* Admins fix a wrong result; not while a player's dispute of it is open */}
+                        {user?.role === 'admin' && match.status === 'completed' && !match.tournament && match.resultDisputeStatus !== 'open' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Correct or reverse result"
+                            onClick={() => handleStartCorrection(match)}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {/* Tournament matches are cancelled with their tournament */}
+                        {user?.role === 'admin' && (match.status === 'active' || match.status === 'disputed') && !match.tournament && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Cancel match and refund players"
+                            onClick={() => {
+                              setCancelReason('');
+                              setCancellingMatch(match);
+                            }}
+                          >
+                            <XCircle className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
                     </TableCell>
                   </TableRow>
                   );
@@ -678,12 +995,22 @@ const Matches = () => {
         <Dialog open={isResultDialogOpen} onOpenChange={setIsResultDialogOpen}>
           <DialogContent className="sm:max-w-md">
             <DialogHeader>
-              <DialogTitle className="text-xl">Record Match Result</DialogTitle>
+              <DialogTitle className="text-xl">{isReporting ? 'Report Match Result' : 'Record Match Result'}</DialogTitle>
               <DialogDescription className="text-base">
                 {selectedMatch && (
                   <div className="mt-2 p-3 bg-muted/50 rounded-lg">
                     <div className="text-sm text-muted-foreground mb-1">Match</div>
                     <div className="font-semibold text-lg">{(selectedMatch as any).name || 'Match'}</div>
+                    {selectedMatch.bestOf && selectedMatch.bestOf > 1 && !isReporting && (
+                      <div className="text-sm text-muted-foreground mt-1">
+                        {formatSeriesProgress(selectedMatch.bestOf, selectedMatch.seriesWins)} · recording game {(selectedMatch.games?.length || 0) + 1}
+                      </div>
+                    )}
+                    {isReporting && (
+                      <div className="text-sm text-muted-foreground mt-1">
+                        Your opponent must report the same result; otherwise an admin will decide it.
+                      </div>
+                    )}
                   </div>
                 )}
               </DialogDescription>
@@ -752,13 +1079,45 @@ const Matches = () => {
                     </SelectContent>
                   </Select>
                 </div>
+                {/* A reported series has no score; an admin records its games */}
+                {!(isReporting && selectedMatch.bestOf && selectedMatch.bestOf > 1) && (
+                <div className="space-y-2">
+                  <Label>Score (optional, played to {selectedMatch.targetPoints || DEFAULT_TARGET_POINTS})</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {(['player1', 'player2'] as const).map((side, index) => {
+                      const playerId = selectedMatch.players?.[index]?._id;
+                      return (
+                        <div key={side} className="space-y-1">
+                          <Label htmlFor={`score-${side}`} className="text-xs text-muted-foreground">
+                            {playerId ? getUserName(playerId) : `Player ${index + 1}`}
+                          </Label>
+                          <Input
+                            id={`score-${side}`}
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={scoreInput[side]}
+                            onChange={(e) => setScoreInput({ ...scoreInput, [side]: e.target.value })}
+                            placeholder="Points"
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <Input
+                    value={scoreInput.hands}
+                    onChange={(e) => setScoreInput({ ...scoreInput, hands: e.target.value })}
+                    placeholder="Points per hand, e.g. 12-3, 3-0 (optional)"
+                  />
+                </div>
+                )}
                 <div className="p-4 bg-gradient-to-br from-accent/10 to-primary/10 rounded-lg border-2 border-accent/20 space-y-2">
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-muted-foreground">Prize Pool</span>
-                    <span className="text-lg font-bold text-accent">{(selectedMatch as any).prize || 0} coins</span>
+                    <span className="text-lg font-bold text-accent">{selectedMatch.prize ?? 0} coins</span>
                   </div>
                   <div className="text-xs text-muted-foreground pt-2 border-t border-border/50">
-                    Winner will receive {(selectedMatch as any).prize || 0} coins
+                    {selectedMatch.bestOf && selectedMatch.bestOf > 1 ? 'The series winner' : 'Winner'} will receive {selectedMatch.prize ?? 0} coins
                   </div>
                 </div>
                 <div className="flex gap-3 pt-2">
@@ -774,13 +1133,247 @@ const Matches = () => {
                     type="submit" 
                     className="flex-1 bg-gradient-to-r from-primary to-primary/80 shadow-md hover:shadow-lg"
                   >
-                    Record Result
+                    {isReporting
+                      ? 'Report Result'
+                      : selectedMatch.bestOf && selectedMatch.bestOf > 1 ? `Record Game ${(selectedMatch.games?.length || 0) + 1}` : 'Record Result'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Cancel Match Dialog */}
+        <AlertDialog open={!!cancellingMatch} onOpenChange={(open) => !open && setCancellingMatch(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel Match</AlertDialogTitle>
+              <AlertDialogDescription>
+                This will cancel "{cancellingMatch?.name || 'this match'}" and refund {cancellingMatch?.players?.length || 0} joined player(s) their {cancellingMatch?.cost || 0}-coin entry fee.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="cancelReason">Reason</Label>
+              <Input
+                id="cancelReason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder="Optional, e.g. Opponent never joined"
+              />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Match</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleCancelMatch}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Cancel Match
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* Dispute Result Dialog */}
+        <Dialog open={!!disputingMatch} onOpenChange={(open) => !open && setDisputingMatch(null)}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Dispute Result</DialogTitle>
+              <DialogDescription>
+                The winner's prize for "{disputingMatch?.name || 'this match'}" is held while an admin reviews the result. A result can only be disputed once.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleOpenDispute} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="disputeReason">Reason</Label>
+                <Input
+                  id="disputeReason"
+                  value={disputeForm.reason}
+                  onChange={(e) => setDisputeForm({ ...disputeForm, reason: e.target.value })}
+                  placeholder="e.g. The wrong winner was recorded"
+                  maxLength={500}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="disputeEvidence">Evidence (optional)</Label>
+                <Textarea
+                  id="disputeEvidence"
+                  value={disputeForm.evidence}
+                  onChange={(e) => setDisputeForm({ ...disputeForm, evidence: e.target.value })}
+                  placeholder="What happened, links to screenshots or recordings"
+                  maxLength={5000}
+                  rows={5}
+                />
+              </div>
+              <div className="flex gap-3 pt-2">
+                <Button type="button" variant="outline" className="flex-1" onClick={() => setDisputingMatch(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" className="flex-1">
+                  Open Dispute
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Correct Result Dialog */}
+        <Dialog open={!!correctingMatch} onOpenChange={(open) => !open && setCorrectingMatch(null)}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Correct Result</DialogTitle>
+              <DialogDescription>
+                {correctingMatch?.winner
+                  ? <>Recorded winner of "{correctingMatch.name || 'this match'}": {getUserName(correctingMatch.winner._id)}{correctingMatch.score && ` (${formatScore(correctingMatch.score)})`}.</>
+                  : <>Correct the recorded result of "{correctingMatch?.name || 'this match'}".</>}
+              </DialogDescription>
+            </DialogHeader>
+            {correctingMatch && (
+              <form onSubmit={handleCorrectResult} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="correctionAction">Correction</Label>
+                  <Select
+                    value={correctionForm.action}
+                    onValueChange={(value) => setCorrectionForm({ ...correctionForm, action: value as MatchResultCorrectionAction })}
+                  >
+                    <SelectTrigger id="correctionAction">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="correct" disabled={!!correctingMatch.bestOf && correctingMatch.bestOf > 1}>
+                        Change winner or score
+                      </SelectItem>
+                      <SelectItem value="reverse">Reverse result and reopen match</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {correctingMatch.bestOf && correctingMatch.bestOf > 1 && (
+                    <p className="text-xs text-muted-foreground">A best-of-{correctingMatch.bestOf} series is reversed and its games recorded again.</p>
+                  )}
+                </div>
+                {correctionForm.action === 'correct' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="correctionWinner">Winner</Label>
+                      <Select
+                        value={correctionForm.winnerId}
+                        onValueChange={(value) => setCorrectionForm({ ...correctionForm, winnerId: value })}
+                      >
+                        <SelectTrigger id="correctionWinner">
+                          <SelectValue placeholder="Select winner" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {correctingMatch.players?.map(player => (
+                            <SelectItem key={player._id} value={player._id}>
+                              {getUserName(player._id)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Score (optional, played to {correctingMatch.targetPoints || DEFAULT_TARGET_POINTS})</Label>
+                      <div className="grid grid-cols-2 gap-3">
+                        {(['player1', 'player2'] as const).map((side, index) => {
+                          const playerId = correctingMatch.players?.[index]?._id;
+                          return (
+                            <div key={side} className="space-y-1">
+                              <Label htmlFor={`correction-score-${side}`} className="text-xs text-muted-foreground">
+                                {playerId ? getUserName(playerId) : `Player ${index + 1}`}
+                              </Label>
+                              <Input
+                                id={`correction-score-${side}`}
+                                type="number"
+                                min="0"
+                                step="1"
+                                value={correctionScore[side]}
+                                onChange={(e) => setCorrectionScore({ ...correctionScore, [side]: e.target.value })}
+                                placeholder="Points"
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <Input
+                        value={correctionScore.hands}
+                        onChange={(e) => setCorrectionScore({ ...correctionScore, hands: e.target.value })}
+                        placeholder="Points per hand, e.g. 12-3, 3-0 (optional)"
+                      />
+                    </div>
+                  </>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="correctionReason">Reason</Label>
+                  <Input
+                    id="correctionReason"
+                    value={correctionForm.reason}
+                    onChange={(e) => setCorrectionForm({ ...correctionForm, reason: e.target.value })}
+                    placeholder="e.g. Winner recorded on the wrong player"
+                    maxLength={500}
+                    required
+                  />
+                </div>
+                {/* What the correction does to the prize and the players' records */}
+                {correctingMatch.winner && (correctionForm.action === 'reverse' || (correctionForm.winnerId && correctionForm.winnerId !== correctingMatch.winner._id)) && (
+                  <div className="p-3 bg-warning/10 rounded-lg border border-warning/30 text-sm text-muted-foreground">
+                    {correctionForm.action === 'reverse'
+                      ? `The ${correctingMatch.prize || 0}-coin prize is taken back from ${getUserName(correctingMatch.winner._id)} (as much as they still have), both players' win/loss records are undone and the match is reopened for a new result.`
+                      : `The ${correctingMatch.prize || 0}-coin prize is taken back from ${getUserName(correctingMatch.winner._id)} (as much as they still have) and paid to ${getUserName(correctionForm.winnerId)}; the win and loss move with it.`}
+                  </div>
+                )}
+                <div className="flex gap-3 pt-2">
+                  <Button type="button" variant="outline" className="flex-1" onClick={() => setCorrectingMatch(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="flex-1">
+                    {correctionForm.action === 'reverse' ? 'Reverse Result' : 'Correct Result'}
                   </Button>
                 </div>
               </form>
             )}
           </DialogContent>
         </Dialog>
+
+        {/* Private Access Dialog */}
+        <Dialog open={!!accessMatch} onOpenChange={(open) => !open && setAccessMatch(null)}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Private Access</DialogTitle>
+              <DialogDescription>
+                Players join "{accessMatch?.name || 'this match'}" with the invite code. {accessMatch?.allowedUserIds?.length || 0} player(s) on the allow-list can join without it.
+              </DialogDescription>
+            </DialogHeader>
+            {accessMatch && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-center gap-2 rounded-lg border p-4">
+                  <KeyRound className="h-4 w-4 text-muted-foreground" />
+                  {accessMatch.inviteCode ? (
+                    <span className="font-mono text-lg font-semibold tracking-widest">{accessMatch.inviteCode}</span>
+                  ) : (
+                    <span className="text-muted-foreground">No invite code (revoked)</span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {accessMatch.inviteCode && (
+                    <Button variant="outline" className="flex-1" onClick={() => handleCopyInviteCode(accessMatch.inviteCode!)}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy
+                    </Button>
+                  )}
+                  <Button variant="outline" className="flex-1" onClick={() => handleUpdateInviteCode(accessMatch, true)}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    {accessMatch.inviteCode ? 'Regenerate' : 'Generate'}
+                  </Button>
+                  {accessMatch.inviteCode && (
+                    <Button variant="outline" className="flex-1" onClick={() => handleUpdateInviteCode(accessMatch, false)}>
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </AppLayout>
   );
@@ -0,0 +1,775 @@
+import { useEffect, useState } from 'react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { apiService } from '@/services/apiService';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Plus, CalendarClock, Users, Trophy, Pencil, Trash2, PlayCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import type { TournamentTemplateDto, TournamentTemplateForm, TemplateRecurrence, TemplateRecurrenceFrequency, TournamentFormat, PrizePoolMode } from '@/types';
+import { logger } from '@/utils/logger';
+import { ERROR_MESSAGES, TOURNAMENT_MAX_PLAYERS, TEMPLATE_RECURRENCE_FREQUENCIES } from '@/constants';
+import { parsePayoutStructure, toDateTimeLocal, DEFAULT_PAYOUT_STRUCTURE, FORMAT_LABELS } from '@/utils/tournament';
+import { DEFAULT_TARGET_POINTS, TARGET_POINTS_OPTIONS } from '@/utils/matchScore';
+import { SERIES_LENGTH_OPTIONS, getSeriesLengthLabel } from '@/utils/matchSeries';
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  type: 'public',
+  format: 'single_elimination',
+  maxPlayers: '8',
+  minPlayers: '',
+  teamSize: '1',
+  targetPoints: String(DEFAULT_TARGET_POINTS),
+  bestOf: '1',
+  finalBestOf: '',
+  entryCost: '',
+  prizePoolMode: 'fixed',
+  prizePool: '',
+  rakePercentage: '10',
+  guaranteedPrizePool: '',
+  payoutStructure: DEFAULT_PAYOUT_STRUCTURE,
+  seeding: 'join_order',
+  thirdPlaceMatch: false,
+  withdrawalCutoffMinutes: '60',
+  frequency: 'weekly',
+  interval: '1',
+  nextStartDate: '',
+  registrationLeadHours: '24',
+  registrationCloseMinutes: '0',
+  active: true,
+};
+
+// Only elimination brackets have a final with its own series length
+const isEliminationFormat = (format: string) => format === 'single_elimination' || format === 'double_elimination';
+
+const RECURRENCE_UNITS: Record<Exclude<TemplateRecurrenceFrequency, 'none'>, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+// "Every week", "Every 2 weeks", "Does not repeat"
+const describeRecurrence = (recurrence: TemplateRecurrence) => {
+  if (recurrence.frequency === 'none') return 'Does not repeat';
+  const unit = RECURRENCE_UNITS[recurrence.frequency];
+  return recurrence.interval > 1 ? `Every ${recurrence.interval} ${unit}s` : `Every ${unit}`;
+};
+
+const TournamentTemplates = () => {
+  const [templates, setTemplates] = useState<TournamentTemplateDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<TournamentTemplateDto | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<TournamentTemplateDto | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const fetchTemplates = async () => {
+    setIsLoading(true);
+    try {
+      const data = await apiService.getTournamentTemplates();
+      setTemplates(data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.NETWORK_ERROR;
+      logger.error('Failed to load tournament templates:', error);
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const openCreateDialog = () => {
+    setEditingTemplate(null);
+    setFormData(EMPTY_FORM);
+    setIsFormDialogOpen(true);
+  };
+
+  const openEditDialog = (template: TournamentTemplateDto) => {
+    setEditingTemplate(template);
+    setFormData({
+      name: template.name,
+      description: template.description,
+      type: template.type,
+      format: template.format,
+      maxPlayers: String(template.maxPlayers),
+      minPlayers: String(template.minPlayers),
+      teamSize: String(template.teamSize),
+      targetPoints: String(template.targetPoints),
+      bestOf: String(template.bestOf),
+      finalBestOf: template.finalBestOf ? String(template.finalBestOf) : '',
+      entryCost: String(template.entryCost),
+      prizePoolMode: template.prizePoolMode,
+      prizePool: template.prizePoolMode === 'fixed' ? String(template.prizePool) : '',
+      rakePercentage: String(template.rakePercentage),
+      guaranteedPrizePool: template.guaranteedPrizePool ? String(template.guaranteedPrizePool) : '',
+      payoutStructure: template.payoutStructure.join('/'),
+      seeding: template.seeding,
+      thirdPlaceMatch: template.thirdPlaceMatch,
+      withdrawalCutoffMinutes: String(template.withdrawalCutoffMinutes),
+      frequency: template.recurrence.frequency,
+      interval: String(template.recurrence.interval),
+      nextStartDate: toDateTimeLocal(template.nextStartDate),
+      registrationLeadHours: String(template.registrationLeadHours),
+      registrationCloseMinutes: String(template.registrationCloseMinutes),
+      active: template.active,
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  const handleSaveTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Template name is required');
+      return;
+    }
+
+    const maxPlayers = parseInt(formData.maxPlayers, 10);
+    if (!maxPlayers || maxPlayers < TOURNAMENT_MAX_PLAYERS.MIN || maxPlayers > TOURNAMENT_MAX_PLAYERS.MAX) {
+      toast.error(`Number of players must be between ${TOURNAMENT_MAX_PLAYERS.MIN} and ${TOURNAMENT_MAX_PLAYERS.MAX}`);
+      return;
+    }
+
+    if (!formData.entryCost || parseInt(formData.entryCost, 10) <= 0) {
+      toast.error('Entry cost must be a positive number');
+      return;
+    }
+
+    if (formData.prizePoolMode === 'fixed' && (!formData.prizePool || parseInt(formData.prizePool, 10) <= 0)) {
+      toast.error('Prize pool must be a positive number');
+      return;
+    }
+
+    if (formData.prizePoolMode === 'entry_fees') {
+      const rakePercentage = parseFloat(formData.rakePercentage || '0');
+      if (isNaN(rakePercentage) || rakePercentage < 0 || rakePercentage > 100) {
+        toast.error('Rake must be between 0 and 100 percent');
+        return;
+      }
+    }
+
+    const payoutStructure = parsePayoutStructure(formData.payoutStructure);
+    if (!payoutStructure) {
+      toast.error('Payout structure must be percentages between 0 and 100, e.g. 60/25/10/5');
+      return;
+    }
+    if (payoutStructure.reduce((sum, p) => sum + p, 0) > 100) {
+      toast.error('Payout percentages cannot exceed 100% in total');
+      return;
+    }
+
+    if (formData.frequency !== 'none' && !formData.nextStartDate) {
+      toast.error('Recurring templates need the start date of the next edition');
+      return;
+    }
+
+    const data: TournamentTemplateForm = {
+      name: formData.name,
+      description: formData.description,
+      type: formData.type as TournamentTemplateForm['type'],
+      format: formData.format as TournamentFormat,
+      maxPlayers: formData.maxPlayers,
+      minPlayers: formData.minPlayers,
+      teamSize: formData.teamSize,
+      targetPoints: formData.targetPoints,
+      bestOf: formData.bestOf,
+      finalBestOf: isEliminationFormat(formData.format) && formData.finalBestOf ? formData.finalBestOf : null,
+      entryCost: formData.entryCost,
+      prizePoolMode: formData.prizePoolMode as PrizePoolMode,
+      prizePool: formData.prizePoolMode === 'fixed' ? formData.prizePool : '',
+      rakePercentage: formData.prizePoolMode === 'entry_fees' ? formData.rakePercentage : undefined,
+      guaranteedPrizePool: formData.prizePoolMode === 'entry_fees' ? formData.guaranteedPrizePool || '0' : undefined,
+      payoutStructure,
+      seeding: formData.seeding as TournamentTemplateForm['seeding'],
+      thirdPlaceMatch: formData.format === 'single_elimination' && formData.thirdPlaceMatch,
+      withdrawalCutoffMinutes: formData.withdrawalCutoffMinutes,
+      recurrence: {
+        frequency: formData.frequency as TemplateRecurrenceFrequency,
+        interval: parseInt(formData.interval, 10) || 1,
+      },
+      nextStartDate: formData.nextStartDate || null,
+      registrationLeadHours: formData.registrationLeadHours,
+      registrationCloseMinutes: formData.registrationCloseMinutes,
+      active: formData.active,
+    };
+
+    try {
+      const result = editingTemplate
+        ? await apiService.updateTournamentTemplate(editingTemplate._id, data)
+        : await apiService.createTournamentTemplate(data);
+      if (result.success) {
+        toast.success(editingTemplate ? 'Template updated successfully!' : 'Template created successfully!');
+        setIsFormDialogOpen(false);
+        fetchTemplates();
+      } else {
+        toast.error(result.message || 'Failed to save template');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to save tournament template:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleToggleActive = async (template: TournamentTemplateDto, active: boolean) => {
+    try {
+      const result = await apiService.updateTournamentTemplate(template._id, { active });
+      if (result.success) {
+        toast.success(active ? 'Template resumed' : 'Template paused');
+        fetchTemplates();
+      } else {
+        toast.error(result.message || 'Failed to update template');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to update tournament template:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleInstantiate = async (template: TournamentTemplateDto) => {
+    try {
+      const result = await apiService.instantiateTournamentTemplate(template._id);
+      if (result.success && result.data) {
+        toast.success(`Tournament "${result.data.name}" created`);
+        fetchTemplates();
+      } else {
+        toast.error(result.message || 'Failed to create tournament');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to create tournament from template:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!templateToDelete) return;
+    try {
+      const result = await apiService.deleteTournamentTemplate(templateToDelete._id);
+      if (result.success) {
+        toast.success('Template deleted');
+        fetchTemplates();
+      } else {
+        toast.error(result.message || 'Failed to delete template');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to delete tournament template:', error);
+      toast.error(errorMessage);
+    } finally {
+      setTemplateToDelete(null);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="p-4 sm:p-6 md:p-8 lg:p-10 space-y-6 sm:space-y-8 relative">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-6 pb-6 border-b border-border/40 animate-fade-in">
+          <div className="flex items-center gap-4">
+            <div className="relative">
+              <div className="absolute inset-0 bg-accent/20 blur-xl rounded-2xl" />
+              <div className="relative h-10 w-10 sm:h-12 sm:w-12 rounded-2xl bg-gradient-to-br from-accent via-accent to-primary flex items-center justify-center shadow-2xl ring-2 ring-accent/30 transform hover:scale-110 transition-transform duration-300">
+                <CalendarClock className="h-4 w-4 sm:h-5 sm:w-5 text-white" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <h1 className="text-3xl sm:text-4xl md:text-5xl font-black tracking-tight bg-gradient-to-r from-foreground via-accent to-primary bg-clip-text text-transparent">
+                Tournament Templates
+              </h1>
+              <p className="text-xs sm:text-sm md:text-base text-muted-foreground/80 font-medium">
+                Saved tournament settings that create new editions on a schedule
+              </p>
+            </div>
+          </div>
+          <Button size="sm" onClick={openCreateDialog} className="shadow-lg hover:shadow-xl transition-all duration-300 bg-gradient-to-r from-accent via-accent to-primary hover:from-accent/90 hover:to-primary/90 font-semibold neon-glow-accent hover:scale-105 text-xs sm:text-sm">
+            <Plus className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" />
+            <span className="hidden sm:inline">Create Template</span>
+            <span className="sm:hidden">Create</span>
+          </Button>
+        </div>
+
+        <div className="border-2 rounded-xl shadow-lg overflow-hidden bg-card/80 backdrop-blur-sm">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30 hover:bg-muted/30">
+                  <TableHead className="min-w-[180px]">Template Name</TableHead>
+                  <TableHead className="min-w-[120px]">Format</TableHead>
+                  <TableHead className="min-w-[80px]">Players</TableHead>
+                  <TableHead className="min-w-[100px]">Entry Cost</TableHead>
+                  <TableHead className="min-w-[100px]">Prize Pool</TableHead>
+                  <TableHead className="min-w-[120px]">Repeats</TableHead>
+                  <TableHead className="min-w-[160px]">Next Edition</TableHead>
+                  <TableHead className="min-w-[80px]">Editions</TableHead>
+                  <TableHead className="min-w-[80px]">Active</TableHead>
+                  <TableHead className="min-w-[140px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={10} className="text-center py-12">
+                      <div className="flex flex-col items-center gap-3">
+                        <div className="h-8 w-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+                        <span className="text-muted-foreground">Loading templates...</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : templates.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={10} className="text-center py-12">
+                      <div className="flex flex-col items-center gap-3">
+                        <CalendarClock className="h-10 w-10 text-muted-foreground/50" />
+                        <div>
+                          <p className="font-medium">No templates yet</p>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            Save a recurring tournament once and let the scheduler create each edition
+                          </p>
+                        </div>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  templates.map((template) => (
+                    <TableRow key={template._id} className="hover:bg-primary/5 transition-all duration-200 border-b border-border/30">
+                      <TableCell className="font-medium">
+                        <div>{template.name}</div>
+                        <Badge variant={template.type === 'public' ? 'default' : 'secondary'} className="mt-1">
+                          {template.type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{FORMAT_LABELS[template.format]}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Users className="h-3.5 w-3.5 text-muted-foreground" />
+                          <span>{template.minPlayers}-{template.maxPlayers}{template.teamSize > 1 ? ` teams (${template.teamSize}v${template.teamSize})` : ''}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{template.entryCost} coins</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Trophy className="h-3.5 w-3.5 text-accent" />
+                          <span>
+                            {template.prizePoolMode === 'entry_fees'
+                              ? `Entry fees, ${template.rakePercentage}% rake`
+                              : `${template.prizePool} coins`} ({template.payoutStructure.join('/')}%)
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{describeRecurrence(template.recurrence)}</TableCell>
+                      <TableCell>
+                        {template.nextStartDate ? (
+                          <div className="text-sm">
+                            <div>{new Date(template.nextStartDate).toLocaleString()}</div>
+                            {template.nextOpenDate && template.recurrence.frequency !== 'none' && (
+                              <div className="text-xs text-muted-foreground">
+                                Opens {new Date(template.nextOpenDate).toLocaleString()}
+                              </div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground text-sm">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{template.editionCount}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={template.active}
+                          onCheckedChange={(checked) => handleToggleActive(template, checked)}
+                          aria-label={template.active ? 'Pause template' : 'Resume template'}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleInstantiate(template)}
+                            disabled={!template.nextStartDate}
+                            title="Create the next edition now"
+                          >
+                            <PlayCircle className="h-4 w-4 text-accent" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEditDialog(template)}
+                            title="Edit template"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setTemplateToDelete(template)}
+                            title="Delete template"
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {/* Create / Edit Template Dialog */}
+        <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+          <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingTemplate ? 'Edit Template' : 'Create Template'}</DialogTitle>
+              <DialogDescription>
+                Each edition is created as a tournament named "{formData.name.trim() || 'Template name'} - YYYY-MM-DD".
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSaveTemplate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="templateName">Template Name</Label>
+                <Input
+                  id="templateName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Friday Night 8-player 50-coin"
+                  maxLength={200}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateType">Type</Label>
+                  <Select value={formData.type} onValueChange={(value) => setFormData({ ...formData, type: value })}>
+                    <SelectTrigger id="templateType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="public">Public</SelectItem>
+                      <SelectItem value="private">Private</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="templateFormat">Format</Label>
+                  <Select value={formData.format} onValueChange={(value) => setFormData({ ...formData, format: value })}>
+                    <SelectTrigger id="templateFormat">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateTeamSize">Team Size</Label>
+                  <Select value={formData.teamSize} onValueChange={(value) => setFormData({ ...formData, teamSize: value })}>
+                    <SelectTrigger id="templateTeamSize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">Individual (1v1)</SelectItem>
+                      <SelectItem value="2">Pairs (2v2)</SelectItem>
+                      <SelectItem value="3">Trios (3v3)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="templateTargetPoints">Matches Played To</Label>
+                  <Select value={formData.targetPoints} onValueChange={(value) => setFormData({ ...formData, targetPoints: value })}>
+                    <SelectTrigger id="templateTargetPoints">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TARGET_POINTS_OPTIONS.map(points => (
+                        <SelectItem key={points} value={String(points)}>{points} points</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateBestOf">Matches</Label>
+                  <Select value={formData.bestOf} onValueChange={(value) => setFormData({ ...formData, bestOf: value })}>
+                    <SelectTrigger id="templateBestOf">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SERIES_LENGTH_OPTIONS.map(length => (
+                        <SelectItem key={length} value={String(length)}>{getSeriesLengthLabel(length)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {isEliminationFormat(formData.format) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="templateFinalBestOf">{formData.format === 'double_elimination' ? 'Grand Final' : 'Final'}</Label>
+                    <Select
+                      value={formData.finalBestOf || formData.bestOf}
+                      onValueChange={(value) => setFormData({ ...formData, finalBestOf: value })}
+                    >
+                      <SelectTrigger id="templateFinalBestOf">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SERIES_LENGTH_OPTIONS.map(length => (
+                          <SelectItem key={length} value={String(length)}>{getSeriesLengthLabel(length)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateMaxPlayers">{formData.teamSize !== '1' ? 'Max Teams' : 'Max Players'}</Label>
+                  <Input
+                    id="templateMaxPlayers"
+                    type="number"
+                    min={TOURNAMENT_MAX_PLAYERS.MIN}
+                    max={TOURNAMENT_MAX_PLAYERS.MAX}
+                    value={formData.maxPlayers}
+                    onChange={(e) => setFormData({ ...formData, maxPlayers: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="templateMinPlayers">{formData.teamSize !== '1' ? 'Min Teams' : 'Min Players'}</Label>
+                  <Input
+                    id="templateMinPlayers"
+                    type="number"
+                    min={TOURNAMENT_MAX_PLAYERS.MIN}
+                    max={TOURNAMENT_MAX_PLAYERS.MAX}
+                    value={formData.minPlayers}
+                    onChange={(e) => setFormData({ ...formData, minPlayers: e.target.value })}
+                    placeholder="Default"
+                  />
+                </div>
+              </div>
+              {formData.format === 'single_elimination' && (
+                <div className="flex items-center justify-between rounded-lg border border-border/50 p-3">
+                  <Label htmlFor="templateThirdPlace">Third-place match</Label>
+                  <Switch
+                    id="templateThirdPlace"
+                    checked={formData.thirdPlaceMatch}
+                    onCheckedChange={(checked) => setFormData({ ...formData, thirdPlaceMatch: checked })}
+                  />
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateEntryCost">Entry Cost (coins)</Label>
+                  <Input
+                    id="templateEntryCost"
+                    type="number"
+                    min="1"
+                    value={formData.entryCost}
+                    onChange={(e) => setFormData({ ...formData, entryCost: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="templatePrizePoolMode">Prize Pool</Label>
+                  <Select value={formData.prizePoolMode} onValueChange={(value) => setFormData({ ...formData, prizePoolMode: value })}>
+                    <SelectTrigger id="templatePrizePoolMode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fixed">Fixed amount</SelectItem>
+                      <SelectItem value="entry_fees">From entry fees (minus rake)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {formData.prizePoolMode === 'fixed' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="templatePrizePool">Prize Pool (coins)</Label>
+                  <Input
+                    id="templatePrizePool"
+                    type="number"
+                    min="1"
+                    value={formData.prizePool}
+                    onChange={(e) => setFormData({ ...formData, prizePool: e.target.value })}
+                    required
+                  />
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="templateRakePercentage">House Rake (%)</Label>
+                    <Input
+                      id="templateRakePercentage"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={formData.rakePercentage}
+                      onChange={(e) => setFormData({ ...formData, rakePercentage: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="templateGuaranteedPrizePool">Guaranteed Pool (coins)</Label>
+                    <Input
+                      id="templateGuaranteedPrizePool"
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={formData.guaranteedPrizePool}
+                      onChange={(e) => setFormData({ ...formData, guaranteedPrizePool: e.target.value })}
+                      placeholder="Optional"
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="templatePayoutStructure">Payout Structure (%)</Label>
+                <Input
+                  id="templatePayoutStructure"
+                  value={formData.payoutStructure}
+                  onChange={(e) => setFormData({ ...formData, payoutStructure: e.target.value })}
+                  placeholder="e.g. 60/25/10/5"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="templateSeeding">Seeding</Label>
+                <Select value={formData.seeding} onValueChange={(value) => setFormData({ ...formData, seeding: value })}>
+                  <SelectTrigger id="templateSeeding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="join_order">Join order</SelectItem>
+                    <SelectItem value="rating">Rating (win rate)</SelectItem>
+                    <SelectItem value="random">Random</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateFrequency">Repeats</Label>
+                  <Select value={formData.frequency} onValueChange={(value) => setFormData({ ...formData, frequency: value })}>
+                    <SelectTrigger id="templateFrequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEMPLATE_RECURRENCE_FREQUENCIES.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.frequency !== 'none' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="templateInterval">Every</Label>
+                    <Input
+                      id="templateInterval"
+                      type="number"
+                      min="1"
+                      max="52"
+                      value={formData.interval}
+                      onChange={(e) => setFormData({ ...formData, interval: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="templateNextStart">Next Edition Starts</Label>
+                <Input
+                  id="templateNextStart"
+                  type="datetime-local"
+                  value={formData.nextStartDate}
+                  onChange={(e) => setFormData({ ...formData, nextStartDate: e.target.value })}
+                  required={formData.frequency !== 'none'}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateLeadHours">Opens (hours before)</Label>
+                  <Input
+                    id="templateLeadHours"
+                    type="number"
+                    min="1"
+                    value={formData.registrationLeadHours}
+                    onChange={(e) => setFormData({ ...formData, registrationLeadHours: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="templateCloseMinutes">Closes (minutes before)</Label>
+                  <Input
+                    id="templateCloseMinutes"
+                    type="number"
+                    min="0"
+                    value={formData.registrationCloseMinutes}
+                    onChange={(e) => setFormData({ ...formData, registrationCloseMinutes: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="templateWithdrawalCutoff">Withdrawal Cutoff (minutes before start)</Label>
+                <Input
+                  id="templateWithdrawalCutoff"
+                  type="number"
+                  min="0"
+                  value={formData.withdrawalCutoffMinutes}
+                  onChange={(e) => setFormData({ ...formData, withdrawalCutoffMinutes: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-lg border border-border/50 p-3">
+                <div>
+                  <Label htmlFor="templateActive">Active</Label>
+                  <p className="text-xs text-muted-foreground">Paused templates don't create new editions</p>
+                </div>
+                <Switch
+                  id="templateActive"
+                  checked={formData.active}
+                  onCheckedChange={(checked) => setFormData({ ...formData, active: checked })}
+                />
+              </div>
+              <Button type="submit" className="w-full">
+                {editingTemplate ? 'Save Changes' : 'Create Template'}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!templateToDelete} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Template</AlertDialogTitle>
+              <AlertDialogDescription>
+                "{templateToDelete?.name}" will stop creating editions. Tournaments already created from it are kept.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Template</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDeleteTemplate}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Delete Template
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </AppLayout>
+  );
+};
+
+export default TournamentTemplates;
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { apiService } from '@/services/apiService';
 import { Button } from '@/components/ui/button';
@@ -8,15 +8,20 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Plus, Calendar, Trophy, Users, XCircle, Eye, CheckCircle2, Download } from 'lucide-react';
+import { Plus, Calendar, Trophy, Users, XCircle, Eye, CheckCircle2, Download, KeyRound, Copy, RefreshCw, Pencil, Ban, CopyPlus, FileJson, Upload } from 'lucide-react';
 import { toast } from 'sonner';
-import type { Tournament, CreateTournamentForm } from '@/types';
+import type { Tournament, TournamentActivityDto, CreateTournamentForm, UpdateTournamentForm, BracketRoundDto, BracketSide, TournamentTiebreaker, MatchSeriesLength } from '@/types';
 import { logger } from '@/utils/logger';
-import { ERROR_MESSAGES } from '@/constants';
+import { ERROR_MESSAGES, TOURNAMENT_MAX_PLAYERS, TOURNAMENT_TIEBREAKERS } from '@/constants';
 import { useAuth } from '@/context/AuthContext';
+import { isLeagueFormat, isTeamTournament, getEntryShare, getEntryFeePrizePool, parsePayoutStructure, getOrdinal, toDateTimeLocal, DEFAULT_PAYOUT_STRUCTURE, FORMAT_LABELS, ACTIVITY_TYPE_LABELS } from '@/utils/tournament';
+import { DEFAULT_TARGET_POINTS, EMPTY_SCORE_INPUT, TARGET_POINTS_OPTIONS, formatScore, parseScoreInput } from '@/utils/matchScore';
+import { SERIES_LENGTH_OPTIONS, formatSeriesProgress, getSeriesLengthLabel } from '@/utils/matchSeries';
 
 const Tournaments = () => {
   const { user } = useAuth();
@@ -25,22 +30,62 @@ const Tournaments = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [detailsTab, setDetailsTab] = useState<'overview' | 'timeline'>('overview');
+  const [activity, setActivity] = useState<TournamentActivityDto[]>([]);
+  const [isActivityLoading, setIsActivityLoading] = useState(false);
   const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
   const [isMatchDialogOpen, setIsMatchDialogOpen] = useState(false);
+  const [editingTournament, setEditingTournament] = useState<Tournament | null>(null);
+  const [editData, setEditData] = useState<UpdateTournamentForm>({
+    name: '',
+    description: '',
+    type: 'public',
+    entryCost: '',
+    prizePool: '',
+    prizePoolMode: 'fixed',
+    rakePercentage: '',
+    guaranteedPrizePool: '',
+    registrationDeadline: '',
+    startDate: '',
+    endDate: ''
+  });
   const [filter, setFilter] = useState<'all' | 'registration' | 'active' | 'completed'>('all');
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [formData, setFormData] = useState({
     name: '',
     type: 'public',
     maxPlayers: '4',
+    teamSize: '1',
+    targetPoints: String(DEFAULT_TARGET_POINTS),
+    bestOf: '1',
+    finalBestOf: '',
     entryCost: '',
+    prizePoolMode: 'fixed',
     prizePool: '',
+    rakePercentage: '10',
+    guaranteedPrizePool: '',
+    payoutStructure: DEFAULT_PAYOUT_STRUCTURE,
+    seeding: 'join_order',
+    format: 'single_elimination',
+    grandFinalReset: true,
+    thirdPlaceMatch: false,
+    swissRounds: '',
+    tiebreakers: TOURNAMENT_TIEBREAKERS.map(t => t.value) as TournamentTiebreaker[],
+    minPlayers: '',
+    registrationDeadline: '',
+    withdrawalCutoffMinutes: '60',
     startDate: ''
   });
-  const [matchData, setMatchData] = useState({
+  const [matchData, setMatchData] = useState<{ roundNumber: number; matchIndex: number; winnerId: string; bracketSide: BracketSide; walkover: boolean; reason: string }>({
     roundNumber: 0,
     matchIndex: 0,
-    winnerId: ''
+    winnerId: '',
+    bracketSide: 'winners',
+    walkover: false,
+    reason: ''
   });
+  const [scoreInput, setScoreInput] = useState(EMPTY_SCORE_INPUT);
+  const [disqualifyReason, setDisqualifyReason] = useState('');
 
   const fetchTournaments = async () => {
     setIsLoading(true);
@@ -71,16 +116,67 @@ const Tournaments = () => {
       return;
     }
     
+    const maxPlayers = parseInt(String(formData.maxPlayers), 10);
+    if (!maxPlayers || maxPlayers < TOURNAMENT_MAX_PLAYERS.MIN || maxPlayers > TOURNAMENT_MAX_PLAYERS.MAX) {
+      toast.error(`Number of players must be between ${TOURNAMENT_MAX_PLAYERS.MIN} and ${TOURNAMENT_MAX_PLAYERS.MAX}`);
+      return;
+    }
+
+    if (formData.format === 'double_elimination' && maxPlayers < 3) {
+      toast.error('Double elimination requires at least 3 players');
+      return;
+    }
+
+    if (formData.format === 'single_elimination' && formData.thirdPlaceMatch && maxPlayers < 4) {
+      toast.error('A third-place match requires at least 4 players');
+      return;
+    }
+
+    if (formData.format === 'swiss' && formData.swissRounds) {
+      const swissRounds = parseInt(String(formData.swissRounds), 10);
+      if (!swissRounds || swissRounds < 1 || swissRounds > maxPlayers - 1) {
+        toast.error(`Swiss rounds must be between 1 and ${maxPlayers - 1}`);
+        return;
+      }
+    }
+
+    if (isLeagueFormat(formData.format) && formData.tiebreakers.length === 0) {
+      toast.error('Select at least one tiebreaker');
+      return;
+    }
+
     if (!formData.entryCost || parseInt(String(formData.entryCost), 10) <= 0) {
       toast.error('Entry cost must be a positive number');
       return;
     }
     
-    if (!formData.prizePool || parseInt(String(formData.prizePool), 10) <= 0) {
+    if (formData.prizePoolMode === 'fixed' && (!formData.prizePool || parseInt(String(formData.prizePool), 10) <= 0)) {
       toast.error('Prize pool must be a positive number');
       return;
     }
+
+    if (formData.prizePoolMode === 'entry_fees') {
+      const rakePercentage = parseFloat(formData.rakePercentage || '0');
+      if (isNaN(rakePercentage) || rakePercentage < 0 || rakePercentage > 100) {
+        toast.error('House rake must be between 0 and 100 percent');
+        return;
+      }
+    }
     
+    const payoutStructure = parsePayoutStructure(formData.payoutStructure);
+    if (!payoutStructure) {
+      toast.error('Payout structure must be percentages between 0 and 100, e.g. 60/25/10/5');
+      return;
+    }
+    if (payoutStructure.reduce((sum, p) => sum + p, 0) > 100) {
+      toast.error('Payout percentages cannot exceed 100% in total');
+      return;
+    }
+    if (payoutStructure.length > maxPlayers) {
+      toast.error('Payout structure cannot have more places than players');
+      return;
+    }
+
     // Validate date if provided
     if (formData.startDate) {
       const startDate = new Date(formData.startDate);
@@ -89,13 +185,33 @@ const Tournaments = () => {
         return;
       }
     }
+
+    if (formData.minPlayers) {
+      const minPlayers = parseInt(String(formData.minPlayers), 10);
+      if (!minPlayers || minPlayers < TOURNAMENT_MAX_PLAYERS.MIN || minPlayers > maxPlayers) {
+        toast.error(`Min players must be between ${TOURNAMENT_MAX_PLAYERS.MIN} and ${maxPlayers}`);
+        return;
+      }
+    }
+
+    if (formData.registrationDeadline) {
+      const registrationDeadline = new Date(formData.registrationDeadline);
+      if (isNaN(registrationDeadline.getTime())) {
+        toast.error('Invalid registration deadline');
+        return;
+      }
+      if (formData.startDate && registrationDeadline > new Date(formData.startDate)) {
+        toast.error('Registration deadline must be before the start date');
+        return;
+      }
+    }
     
     try {
-      const result = await apiService.createTournament(formData as CreateTournamentForm);
+      const result = await apiService.createTournament({ ...formData, payoutStructure } as CreateTournamentForm);
       if (result.success && result.data) {
         toast.success('Tournament created successfully!');
         setIsCreateDialogOpen(false);
-        setFormData({ name: '', type: 'public', maxPlayers: '4', entryCost: '', prizePool: '', startDate: '' });
+        setFormData({ name: '', type: 'public', maxPlayers: '4', teamSize: '1', targetPoints: String(DEFAULT_TARGET_POINTS), bestOf: '1', finalBestOf: '', entryCost: '', prizePoolMode: 'fixed', prizePool: '', rakePercentage: '10', guaranteedPrizePool: '', payoutStructure: DEFAULT_PAYOUT_STRUCTURE, seeding: 'join_order', format: 'single_elimination', grandFinalReset: true, thirdPlaceMatch: false, swissRounds: '', tiebreakers: TOURNAMENT_TIEBREAKERS.map(t => t.value) as TournamentTiebreaker[], minPlayers: '', registrationDeadline: '', withdrawalCutoffMinutes: '60', startDate: '' });
         // Switch to registration tab if not already on all or registration tab
         // so the newly created tournament is visible
         // useEffect will automatically fetch tournaments when filter changes
@@ -119,6 +235,8 @@ const Tournaments = () => {
     try {
       const tournament = await apiService.getTournament(tournamentId);
       setSelectedTournament(tournament);
+      setDetailsTab('overview');
+      setActivity([]);
       setIsViewDialogOpen(true);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.NETWORK_ERROR;
@@ -127,6 +245,91 @@ const Tournaments = () => {
     }
   };
 
+  // The timeline is loaded (and refreshed) each time its tab is opened
+  const handleDetailsTabChange = async (value: string) => {
+    setDetailsTab(value as typeof detailsTab);
+    if (value !== 'timeline' || !selectedTournament) return;
+
+    setIsActivityLoading(true);
+    try {
+      setActivity(await apiService.getTournamentActivity(selectedTournament._id));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.NETWORK_ERROR;
+      logger.error('Failed to load tournament activity:', error);
+      toast.error(errorMessage);
+    } finally {
+      setIsActivityLoading(false);
+    }
+  };
+
+  const openEditDialog = (tournament: Tournament) => {
+    setEditingTournament(tournament);
+    setEditData({
+      name: tournament.name,
+      description: tournament.description || '',
+      type: tournament.type === 'private' ? 'private' : 'public',
+      entryCost: String(tournament.entryFee),
+      prizePool: String(tournament.prizePool || ''),
+      prizePoolMode: tournament.prizePoolMode || 'fixed',
+      rakePercentage: String(tournament.rakePercentage ?? 0),
+      guaranteedPrizePool: tournament.guaranteedPrizePool ? String(tournament.guaranteedPrizePool) : '',
+      registrationDeadline: toDateTimeLocal(tournament.registrationDeadline),
+      startDate: toDateTimeLocal(tournament.startDate),
+      endDate: toDateTimeLocal(tournament.endDate)
+    });
+  };
+
+  const handleUpdateTournament = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTournament) return;
+
+    if (!editData.name.trim()) {
+      toast.error('Tournament name is required');
+      return;
+    }
+
+    const entryCost = parseInt(String(editData.entryCost), 10);
+    const prizePool = editData.prizePoolMode === 'entry_fees' ? 1 : parseInt(String(editData.prizePool), 10);
+    if (isNaN(entryCost) || entryCost < 1 || isNaN(prizePool) || prizePool < 1) {
+      toast.error('Entry cost and prize pool must be positive numbers');
+      return;
+    }
+
+    const rakePercentage = parseFloat(String(editData.rakePercentage || 0));
+    if (editData.prizePoolMode === 'entry_fees' && (isNaN(rakePercentage) || rakePercentage < 0 || rakePercentage > 100)) {
+      toast.error('House rake must be between 0 and 100 percent');
+      return;
+    }
+
+    if (editData.registrationDeadline && editData.startDate && new Date(editData.registrationDeadline) > new Date(editData.startDate)) {
+      toast.error('Registration must close before the start date');
+      return;
+    }
+
+    if (editData.startDate && editData.endDate && new Date(editData.endDate) < new Date(editData.startDate)) {
+      toast.error('End date must be after the start date');
+      return;
+    }
+
+    try {
+      const result = await apiService.updateTournament(editingTournament._id, { ...editData, name: editData.name.trim() });
+      if (result.success) {
+        toast.success(result.message || 'Tournament updated');
+        if (result.data && selectedTournament?._id === result.data._id) {
+          setSelectedTournament(result.data);
+        }
+        setEditingTournament(null);
+        fetchTournaments();
+      } else {
+        toast.error(result.message || 'Failed to update tournament');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to update tournament:', error);
+      toast.error(errorMessage);
+    }
+  };
+
   const handleCancelTournament = async (tournamentId: string, reason?: string) => {
     try {
       const result = await apiService.cancelTournament(tournamentId, reason);
@@ -144,13 +347,17 @@ const Tournaments = () => {
     }
   };
 
-  const handleRecordMatch = (tournament: Tournament, roundNumber: number, matchIndex: number) => {
+  const handleRecordMatch = (tournament: Tournament, roundNumber: number, matchIndex: number, bracketSide: BracketSide = 'winners') => {
     setSelectedTournament(tournament);
     setMatchData({
       roundNumber,
       matchIndex,
-      winnerId: ''
+      winnerId: '',
+      bracketSide,
+      walkover: false,
+      reason: ''
     });
+    setScoreInput(EMPTY_SCORE_INPUT);
     setIsMatchDialogOpen(true);
   };
 
@@ -162,14 +369,41 @@ const Tournaments = () => {
     }
 
     try {
-      const result = await apiService.recordTournamentMatch(
-        selectedTournament._id,
-        matchData.roundNumber,
-        matchData.matchIndex,
-        matchData.winnerId
-      );
+      let result;
+      if (matchData.walkover) {
+        // The player not selected as winner forfeits
+        const slot = getBracketRounds(matchData.bracketSide).find((r) => r.roundNumber === matchData.roundNumber)?.matches?.[matchData.matchIndex];
+        const forfeitingPlayerId = slot?.player1Id === matchData.winnerId ? slot?.player2Id : slot?.player1Id;
+        if (!forfeitingPlayerId) {
+          toast.error('Match is not ready to be played');
+          return;
+        }
+        result = await apiService.forfeitTournamentMatch(
+          selectedTournament._id,
+          matchData.roundNumber,
+          matchData.matchIndex,
+          forfeitingPlayerId,
+          matchData.bracketSide,
+          matchData.reason.trim()
+        );
+      } else {
+        const score = parseScoreInput(scoreInput);
+        if (score === null) {
+          toast.error('Score must be whole numbers of points, with hands written as "12-3, 3-0"');
+          return;
+        }
+        result = await apiService.recordTournamentMatch(
+          selectedTournament._id,
+          matchData.roundNumber,
+          matchData.matchIndex,
+          matchData.winnerId,
+          matchData.bracketSide,
+          score
+        );
+      }
       if (result.success) {
-        toast.success('Match result recorded successfully');
+        // A series game's message has the series standing
+        toast.success(matchData.walkover ? 'Walkover recorded successfully' : result.message || 'Match result recorded successfully');
         setIsMatchDialogOpen(false);
         await handleViewTournament(selectedTournament._id);
         fetchTournaments();
@@ -181,6 +415,23 @@ const Tournaments = () => {
     }
   };
 
+  const handleSetSeriesLength = async (roundNumber: number, matchIndex: number, bracketSide: BracketSide, bestOf: MatchSeriesLength) => {
+    if (!selectedTournament) return;
+    try {
+      const result = await apiService.setTournamentSeriesLength(selectedTournament._id, roundNumber, matchIndex, bestOf, bracketSide);
+      if (result.success && result.data) {
+        toast.success(result.message || 'Series length updated');
+        setSelectedTournament(result.data);
+      } else {
+        toast.error(result.message || 'Failed to update series length');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to update series length:', error);
+      toast.error(errorMessage);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'registration': return 'default';
@@ -191,12 +442,223 @@ const Tournaments = () => {
     }
   };
 
+  const getPayoutPreview = () => {
+    const payoutStructure = parsePayoutStructure(formData.payoutStructure);
+    // Entry-fee pools are previewed for a full field (every seat, every team member paid their share)
+    const teamSize = parseInt(formData.teamSize, 10) || 1;
+    const prizePool = formData.prizePoolMode === 'entry_fees'
+      ? getEntryFeePrizePool(
+        getEntryShare(parseInt(String(formData.entryCost), 10) || 0, teamSize) * teamSize * (parseInt(String(formData.maxPlayers), 10) || 0),
+        parseFloat(formData.rakePercentage) || 0,
+        parseInt(formData.guaranteedPrizePool, 10) || 0
+      ).prizePool
+      : parseInt(String(formData.prizePool), 10) || 0;
+    const totalPercentage = payoutStructure?.reduce((sum, p) => sum + p, 0) ?? 0;
+    if (!payoutStructure || totalPercentage > 100) return null;
+
+    const places = payoutStructure.map((percentage, index) => ({
+      place: index + 1,
+      percentage,
+      amount: Math.floor(prizePool * (percentage / 100))
+    }));
+    return {
+      places,
+      housePercentage: Math.round((100 - totalPercentage) * 100) / 100,
+      houseAmount: prizePool - places.reduce((sum, p) => sum + p.amount, 0)
+    };
+  };
+  const payoutPreview = getPayoutPreview();
+
   const getParticipantName = (participantId: string) => {
     if (!selectedTournament) return `User ${participantId}`;
+    // Team tournaments: bracket slots, standings and placings hold team IDs
+    const team = selectedTournament.teams?.find((t) => t._id === participantId);
+    if (team) return team.name;
     const participant = selectedTournament.players?.find((p) => p._id === participantId);
     return participant?.username || `User ${participantId}`;
   };
 
+  const getBracketRounds = (side: BracketSide): BracketRoundDto[] => {
+    const bracket = selectedTournament?.bracket;
+    if (side === 'losers') return bracket?.losersRounds || [];
+    if (side === 'grand_final') return bracket?.grandFinalRounds || [];
+    return bracket?.rounds || [];
+  };
+
+  const renderBracketRounds = (rounds: BracketRoundDto[], side: BracketSide) => (
+    <div className="space-y-4">
+      {rounds.map((round, roundIdx: number) => (
+        <div key={`${side}-round-${round.roundNumber || roundIdx}`} className="border rounded-lg p-4">
+          <div className="font-medium mb-3">{round.name || (round.roundNumber ? `Round ${round.roundNumber}` : `Round ${roundIdx + 1}`)}</div>
+          <div className="grid gap-3">
+            {round.matches.map((match, matchIdx: number) => (
+              <div key={`${side}-match-${roundIdx}-${matchIdx}-${match.player1Id || ''}-${match.player2Id || ''}`} className="p-3 bg-muted rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    {match.isThirdPlace && (
+                      <div className="text-xs text-muted-foreground font-medium mb-1">Third-Place Match</div>
+                    )}
+                    <div className="text-sm">
+                      {match.player1Id ? getParticipantName(match.player1Id) : (match.isBye ? 'Bye' : 'TBD')} vs {' '}
+                      {match.player2Id ? getParticipantName(match.player2Id) : (match.isBye ? 'Bye' : 'TBD')}
+                    </div>
+                    {match.bestOf && match.bestOf > 1 && (
+                      <div className="text-xs text-muted-foreground mt-0.5">{formatSeriesProgress(match.bestOf, match.seriesWins)}</div>
+                    )}
+                    {match.winnerId && (
+                      <div className="text-xs text-success font-medium mt-1">
+                        Winner: {getParticipantName(match.winnerId)}
+                        {match.score && (
+                          <span className="text-muted-foreground font-normal"> ({formatScore(match.score)})</span>
+                        )}
+                        {match.resultType && match.resultType !== 'normal' && (
+                          <span className="text-muted-foreground font-normal">
+                            {' '}(walkover, {match.resultType === 'forfeit' ? 'forfeit' : 'opponent disqualified'})
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {/* The series length can change until the first game is played */}
+                    {selectedTournament?.status === 'active' && user?.role === 'admin' && !match.isBye && match.status !== 'completed' && !match.seriesWins && (
+                      <Select
+                        value={String(match.bestOf || 1)}
+                        onValueChange={(value) => handleSetSeriesLength(round.roundNumber, matchIdx, side, Number(value) as MatchSeriesLength)}
+                      >
+                        <SelectTrigger className="h-8 w-[120px] text-xs" title="Series length">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SERIES_LENGTH_OPTIONS.map(length => (
+                            <SelectItem key={length} value={String(length)}>{getSeriesLengthLabel(length)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Badge variant={match.status === 'completed' ? 'secondary' : 'default'}>
+                      {match.status}
+                    </Badge>
+                    {selectedTournament?.status === 'active' && (match.status === 'pending' || match.status === 'active') && match.player1Id && match.player2Id && user?.role === 'admin' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRecordMatch(selectedTournament, round.roundNumber, matchIdx, side)}
+                      >
+                        <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                        Record Result
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const handleRemoveParticipant = async (tournament: Tournament, userId: string) => {
+    try {
+      const result = await apiService.removeTournamentParticipant(tournament._id, userId);
+      if (result.success) {
+        toast.success(result.message || 'Participant removed and refunded');
+        if (result.data) {
+          setSelectedTournament(result.data);
+        }
+        fetchTournaments();
+      } else {
+        toast.error(result.message || 'Failed to remove participant');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to remove participant:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  // In team tournaments the whole team is disqualified, so members are matched through their team
+  const isParticipantDisqualified = (participantId: string) => {
+    const teamId = selectedTournament?.teams?.find((t) => t.memberIds.includes(participantId))?._id;
+    return !!selectedTournament?.disqualified?.some((entry) => entry.userId === participantId || (!!teamId && entry.userId === teamId));
+  };
+
+  const handleDisqualifyParticipant = async (tournament: Tournament, userId: string) => {
+    if (!disqualifyReason.trim()) {
+      toast.error('Please enter a reason for the disqualification');
+      return;
+    }
+
+    try {
+      const result = await apiService.disqualifyTournamentParticipant(tournament._id, userId, disqualifyReason.trim());
+      if (result.success) {
+        toast.success(result.message || 'Player disqualified');
+        if (result.data) {
+          setSelectedTournament(result.data);
+        }
+        fetchTournaments();
+      } else {
+        toast.error(result.message || 'Failed to disqualify player');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to disqualify player:', error);
+      toast.error(errorMessage);
+    } finally {
+      setDisqualifyReason('');
+    }
+  };
+
+  const handleUpdateInviteCode = async (tournament: Tournament, regenerate: boolean) => {
+    try {
+      const result = regenerate
+        ? await apiService.regenerateTournamentInviteCode(tournament._id)
+        : await apiService.revokeTournamentInviteCode(tournament._id);
+      if (result.success) {
+        toast.success(result.message || (regenerate ? 'Invite code regenerated' : 'Invite code revoked'));
+        if (result.data) {
+          setSelectedTournament(result.data);
+        }
+      } else {
+        toast.error(result.message || 'Failed to update invite code');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to update invite code:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleCopyInviteCode = async (inviteCode: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteCode);
+      toast.success('Invite code copied');
+    } catch (error) {
+      logger.error('Failed to copy invite code:', error);
+      toast.error('Failed to copy invite code');
+    }
+  };
+
+  const handleFinalizeLeague = async (tournament: Tournament) => {
+    try {
+      const result = await apiService.finalizeTournament(tournament._id);
+      if (result.success) {
+        toast.success(result.message || 'Tournament finalized successfully');
+        if (result.tournament) {
+          setSelectedTournament(result.tournament);
+        }
+        fetchTournaments();
+      } else {
+        toast.error(result.message || 'Failed to finalize tournament');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to finalize tournament:', error);
+      toast.error(errorMessage);
+    }
+  };
+
   const handleExport = async (format: 'csv' | 'json') => {
     try {
       const statusToExport = filter === 'all' ? undefined : filter;
@@ -209,6 +671,64 @@ const Tournaments = () => {
     }
   };
 
+  const handleDuplicateTournament = async (tournament: Tournament) => {
+    try {
+      const result = await apiService.duplicateTournament(tournament._id);
+      if (result.success) {
+        toast.success(result.message || 'Tournament duplicated successfully');
+        fetchTournaments();
+      } else {
+        toast.error(result.message || 'Failed to duplicate tournament');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to duplicate tournament:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleExportDefinition = async (tournament: Tournament) => {
+    try {
+      await apiService.exportTournamentDefinition(tournament._id);
+      toast.success('Tournament definition exported successfully!');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to export tournament definition:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleImportDefinition = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    let definition: unknown;
+    try {
+      definition = JSON.parse(await file.text());
+    } catch {
+      toast.error('The selected file is not valid JSON');
+      return;
+    }
+
+    try {
+      const result = await apiService.importTournamentDefinition(definition);
+      if (result.success) {
+        toast.success(result.message || 'Tournament imported successfully');
+        fetchTournaments();
+      } else {
+        toast.error(result.message || 'Failed to import tournament');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : ERROR_MESSAGES.SERVER_ERROR;
+      logger.error('Failed to import tournament definition:', error);
+      toast.error(errorMessage);
+    }
+  };
+
   return (
     <AppLayout>
       <div className="p-4 sm:p-6 md:p-8 lg:p-10 space-y-6 sm:space-y-8 relative">
@@ -226,7 +746,7 @@ const Tournaments = () => {
                 Championship Arena
               </h1>
               <p className="text-xs sm:text-sm md:text-base text-muted-foreground/80 font-medium">
-                Create and manage tournaments (4 & 8 players)
+                Create and manage tournaments (2 to 64 players)
               </p>
             </div>
           </div>
@@ -251,6 +771,27 @@ const Tournaments = () => {
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
+            {user?.role === 'admin' && (
+              <>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleImportDefinition}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => importInputRef.current?.click()}
+                  className="shadow-lg hover:shadow-xl transition-all duration-300 border-border/50 hover:border-primary/50 text-xs sm:text-sm"
+                  title="Import a tournament definition (JSON)"
+                >
+                  <Upload className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1.5 sm:mr-2" />
+                  <span className="hidden sm:inline">Import</span>
+                </Button>
+              </>
+            )}
             {user?.role === 'admin' && (
               <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
                 <DialogTrigger asChild>
@@ -264,7 +805,7 @@ const Tournaments = () => {
               <DialogHeader>
                 <DialogTitle>Create New Tournament</DialogTitle>
                 <DialogDescription>
-                  Create a tournament with 4 or 8 players. Prize: 80% to champion.
+                  Create a tournament with 2 to 64 players. Prize: 80% to champion.
                 </DialogDescription>
               </DialogHeader>
               <form onSubmit={handleCreateTournament} className="space-y-4">
@@ -295,20 +836,213 @@ const Tournaments = () => {
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="maxPlayers">Number of Players</Label>
+                  <Label htmlFor="teamSize">Team Size</Label>
+                  <Select
+                    value={formData.teamSize}
+                    onValueChange={(value) => setFormData({ ...formData, teamSize: value })}
+                  >
+                    <SelectTrigger id="teamSize">
+                      <SelectValue placeholder="Select team size" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">Individual (1v1)</SelectItem>
+                      <SelectItem value="2">Pairs (2v2)</SelectItem>
+                      <SelectItem value="3">Trios (3v3)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {formData.teamSize !== '1' && (
+                    <p className="text-xs text-muted-foreground">
+                      Players register as named teams; the entry cost is per team and each member pays an equal share (rounded up), then shares the team's prize.
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="targetPoints">Matches Played To</Label>
                   <Select
+                    value={formData.targetPoints}
+                    onValueChange={(value) => setFormData({ ...formData, targetPoints: value })}
+                  >
+                    <SelectTrigger id="targetPoints">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TARGET_POINTS_OPTIONS.map(points => (
+                        <SelectItem key={points} value={String(points)}>{points} points</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="bestOf">Matches</Label>
+                    <Select
+                      value={formData.bestOf}
+                      onValueChange={(value) => setFormData({ ...formData, bestOf: value })}
+                    >
+                      <SelectTrigger id="bestOf">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SERIES_LENGTH_OPTIONS.map(length => (
+                          <SelectItem key={length} value={String(length)}>{getSeriesLengthLabel(length)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {(formData.format === 'single_elimination' || formData.format === 'double_elimination') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="finalBestOf">{formData.format === 'double_elimination' ? 'Grand Final' : 'Final'}</Label>
+                      <Select
+                        value={formData.finalBestOf || formData.bestOf}
+                        onValueChange={(value) => setFormData({ ...formData, finalBestOf: value })}
+                      >
+                        <SelectTrigger id="finalBestOf">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SERIES_LENGTH_OPTIONS.map(length => (
+                            <SelectItem key={length} value={String(length)}>{getSeriesLengthLabel(length)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxPlayers">{formData.teamSize !== '1' ? 'Number of Teams' : 'Number of Players'}</Label>
+                  <Input
+                    id="maxPlayers"
+                    type="number"
+                    min={TOURNAMENT_MAX_PLAYERS.MIN}
+                    max={TOURNAMENT_MAX_PLAYERS.MAX}
+                    step="1"
                     value={formData.maxPlayers}
-                    onValueChange={(value) => setFormData({ ...formData, maxPlayers: value })}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      // Only allow positive integers
+                      if (value === '' || /^\d+$/.test(value)) {
+                        setFormData({ ...formData, maxPlayers: value });
+                      }
+                    }}
+                    placeholder="Enter number of players"
                     required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {TOURNAMENT_MAX_PLAYERS.MIN}-{TOURNAMENT_MAX_PLAYERS.MAX} {formData.teamSize !== '1' ? 'teams' : 'players'}. Fields that aren't a power of two get first-round byes.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="format">Format</Label>
+                  <Select
+                    value={formData.format}
+                    onValueChange={(value) => setFormData({ ...formData, format: value })}
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="Select number of players" />
+                      <SelectValue placeholder="Select tournament format" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="4">4 Players</SelectItem>
-                      <SelectItem value="8">8 Players</SelectItem>
+                      <SelectItem value="single_elimination">Single elimination</SelectItem>
+                      <SelectItem value="double_elimination">Double elimination</SelectItem>
+                      <SelectItem value="round_robin">Round robin</SelectItem>
+                      <SelectItem value="swiss">Swiss</SelectItem>
                     </SelectContent>
                   </Select>
+                  {isLeagueFormat(formData.format) && (
+                    <p className="text-xs text-muted-foreground">
+                      {formData.format === 'swiss'
+                        ? 'Players on the same score are paired each round without rematches; the standings leader wins'
+                        : 'Everyone plays everyone once; the standings leader wins'}
+                    </p>
+                  )}
+                </div>
+                {formData.format === 'swiss' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="swissRounds">Swiss Rounds</Label>
+                    <Input
+                      id="swissRounds"
+                      type="number"
+                      min={1}
+                      value={formData.swissRounds}
+                      onChange={(e) => setFormData({ ...formData, swissRounds: e.target.value })}
+                      placeholder="Default: enough rounds for one unbeaten leader"
+                    />
+                  </div>
+                )}
+                {isLeagueFormat(formData.format) && (
+                  <div className="space-y-2">
+                    <Label>Tiebreakers</Label>
+                    <div className="space-y-2 rounded-lg border p-3">
+                      {TOURNAMENT_TIEBREAKERS.map((tiebreaker) => (
+                        <div key={tiebreaker.value} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`tiebreaker-${tiebreaker.value}`}
+                            checked={formData.tiebreakers.includes(tiebreaker.value)}
+                            onCheckedChange={(checked) => setFormData({
+                              ...formData,
+                              tiebreakers: TOURNAMENT_TIEBREAKERS
+                                .map(t => t.value)
+                                .filter(value => value === tiebreaker.value ? checked === true : formData.tiebreakers.includes(value))
+                            })}
+                          />
+                          <Label htmlFor={`tiebreaker-${tiebreaker.value}`} className="font-normal">
+                            {tiebreaker.label}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Applied in this order when players are level on points
+                    </p>
+                  </div>
+                )}
+                {formData.format === 'single_elimination' && (
+                  <div className="flex items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="thirdPlaceMatch">Third-place match</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Semi-final losers play for third place alongside the final (4+ players)
+                      </p>
+                    </div>
+                    <Switch
+                      id="thirdPlaceMatch"
+                      checked={formData.thirdPlaceMatch}
+                      onCheckedChange={(checked) => setFormData({ ...formData, thirdPlaceMatch: checked })}
+                    />
+                  </div>
+                )}
+                {formData.format === 'double_elimination' && (
+                  <div className="flex items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="grandFinalReset">Grand final reset</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Play a deciding match if the losers-bracket champion wins the grand final
+                      </p>
+                    </div>
+                    <Switch
+                      id="grandFinalReset"
+                      checked={formData.grandFinalReset}
+                      onCheckedChange={(checked) => setFormData({ ...formData, grandFinalReset: checked })}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="seeding">Seeding</Label>
+                  <Select
+                    value={formData.seeding}
+                    onValueChange={(value) => setFormData({ ...formData, seeding: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select seeding mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="join_order">Join order</SelectItem>
+                      <SelectItem value="rating">By player record (win rate)</SelectItem>
+                      <SelectItem value="random">Random draw</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Seeds are placed 1 vs N, so the top seeds can only meet in later rounds
+                  </p>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="startDate">
@@ -324,48 +1058,171 @@ const Tournaments = () => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="entryCost">Entry Cost (coins)</Label>
+                  <Label htmlFor="registrationDeadline">Registration Closes</Label>
                   <Input
-                    id="entryCost"
+                    id="registrationDeadline"
+                    type="datetime-local"
+                    value={formData.registrationDeadline}
+                    onChange={(e) => setFormData({ ...formData, registrationDeadline: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Defaults to the start date. If the tournament hasn't filled by then, it starts with the registered players or is cancelled and refunded.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="withdrawalCutoffMinutes">Withdrawal Cutoff (minutes before start)</Label>
+                  <Input
+                    id="withdrawalCutoffMinutes"
                     type="number"
-                    min="1"
+                    min="0"
                     step="1"
-                    value={formData.entryCost}
+                    value={formData.withdrawalCutoffMinutes}
                     onChange={(e) => {
                       const value = e.target.value;
-                      // Only allow positive integers
                       if (value === '' || /^\d+$/.test(value)) {
-                        setFormData({ ...formData, entryCost: value });
+                        setFormData({ ...formData, withdrawalCutoffMinutes: value });
                       }
                     }}
-                    placeholder="Enter entry cost"
-                    required
                   />
                   <p className="text-xs text-muted-foreground">
-                    Whole numbers only (no decimals)
+                    Players can leave with a full refund until this long before the start date
                   </p>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="prizePool">Prize Pool (coins)</Label>
+                  <Label htmlFor="minPlayers">Min Players to Start</Label>
                   <Input
-                    id="prizePool"
+                    id="minPlayers"
+                    type="number"
+                    min={TOURNAMENT_MAX_PLAYERS.MIN}
+                    max={formData.maxPlayers || TOURNAMENT_MAX_PLAYERS.MAX}
+                    value={formData.minPlayers}
+                    onChange={(e) => setFormData({ ...formData, minPlayers: e.target.value })}
+                    placeholder={`Default: ${formData.format === 'double_elimination' ? 3 : TOURNAMENT_MAX_PLAYERS.MIN}`}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="entryCost">{formData.teamSize !== '1' ? 'Entry Cost per Team (coins)' : 'Entry Cost (coins)'}</Label>
+                  <Input
+                    id="entryCost"
                     type="number"
                     min="1"
                     step="1"
-                    value={formData.prizePool}
+                    value={formData.entryCost}
                     onChange={(e) => {
                       const value = e.target.value;
                       // Only allow positive integers
                       if (value === '' || /^\d+$/.test(value)) {
-                        setFormData({ ...formData, prizePool: value });
+                        setFormData({ ...formData, entryCost: value });
                       }
                     }}
-                    placeholder="Enter prize pool"
+                    placeholder="Enter entry cost"
                     required
                   />
                   <p className="text-xs text-muted-foreground">
-                    Champion will receive 80% of prize pool (whole numbers only)
+                    Whole numbers only (no decimals)
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="prizePoolMode">Prize Pool</Label>
+                  <Select
+                    value={formData.prizePoolMode}
+                    onValueChange={(value) => setFormData({ ...formData, prizePoolMode: value })}
+                  >
+                    <SelectTrigger id="prizePoolMode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fixed">Fixed amount</SelectItem>
+                      <SelectItem value="entry_fees">From entry fees (minus rake)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.prizePoolMode === 'fixed' ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="prizePool">Prize Pool (coins)</Label>
+                    <Input
+                      id="prizePool"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={formData.prizePool}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        // Only allow positive integers
+                        if (value === '' || /^\d+$/.test(value)) {
+                          setFormData({ ...formData, prizePool: value });
+                        }
+                      }}
+                      placeholder="Enter prize pool"
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Whole numbers only
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="rakePercentage">House Rake (%)</Label>
+                        <Input
+                          id="rakePercentage"
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                          value={formData.rakePercentage}
+                          onChange={(e) => setFormData({ ...formData, rakePercentage: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="guaranteedPrizePool">Guaranteed Pool (coins)</Label>
+                        <Input
+                          id="guaranteedPrizePool"
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={formData.guaranteedPrizePool}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            if (value === '' || /^\d+$/.test(value)) {
+                              setFormData({ ...formData, guaranteedPrizePool: value });
+                            }
+                          }}
+                          placeholder="Optional"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The pool is the entry fees actually collected minus the rake; the house covers any shortfall below the guarantee. The preview below assumes a full field.
+                    </p>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="payoutStructure">Payout Structure (%)</Label>
+                  <Input
+                    id="payoutStructure"
+                    value={formData.payoutStructure}
+                    onChange={(e) => setFormData({ ...formData, payoutStructure: e.target.value })}
+                    placeholder="e.g. 60/25/10/5"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Share of the prize pool for 1st, 2nd, 3rd... place. Players knocked out in the same round split their places.
                   </p>
+                  {payoutPreview && (
+                    <div className="rounded-lg border p-3 space-y-1 text-sm">
+                      {payoutPreview.places.map((payout) => (
+                        <div key={payout.place} className="flex justify-between">
+                          <span>{getOrdinal(payout.place)} place ({payout.percentage}%)</span>
+                          <span className="font-medium">{payout.amount} coins</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between text-muted-foreground border-t pt-1">
+                        <span>House ({payoutPreview.housePercentage}%)</span>
+                        <span>{payoutPreview.houseAmount} coins</span>
+                      </div>
+                    </div>
+                  )}
                 </div>
                 <div className="flex gap-2">
                   <Button type="button" variant="outline" className="flex-1" onClick={() => setIsCreateDialogOpen(false)}>
@@ -457,7 +1314,12 @@ const Tournaments = () => {
                       </Badge>
                     </TableCell>
                     <TableCell>
-                      {tournament.players?.length || 0}/{tournament.maxPlayers}
+                      {isTeamTournament(tournament)
+                        ? `${tournament.teams?.length || 0}/${tournament.maxPlayers} teams`
+                        : `${tournament.players?.length || 0}/${tournament.maxPlayers}`}
+                      {tournament.waitlist && tournament.waitlist.length > 0 && (
+                        <div className="text-xs text-muted-foreground">+{tournament.waitlist.length} waitlisted</div>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="hidden md:table-cell">
@@ -481,6 +1343,36 @@ const Tournaments = () => {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
+                        {user?.role === 'admin' && tournament.status === 'registration' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEditDialog(tournament)}
+                            title="Edit tournament"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {user?.role === 'admin' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDuplicateTournament(tournament)}
+                            title="Duplicate tournament"
+                          >
+                            <CopyPlus className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {user?.role === 'admin' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleExportDefinition(tournament)}
+                            title="Export definition (JSON)"
+                          >
+                            <FileJson className="h-4 w-4" />
+                          </Button>
+                        )}
                         {user?.role === 'admin' && tournament.status !== 'completed' && tournament.status !== 'cancelled' && (
                           <AlertDialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
                             <AlertDialogTrigger asChild>
@@ -525,6 +1417,180 @@ const Tournaments = () => {
           </div>
         </div>
 
+        {/* Edit Tournament Dialog */}
+        <Dialog open={!!editingTournament} onOpenChange={(open) => !open && setEditingTournament(null)}>
+          <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Edit Tournament</DialogTitle>
+              <DialogDescription>
+                Settings can be changed until registration closes.
+              </DialogDescription>
+            </DialogHeader>
+            {editingTournament && (() => {
+              const entryCost = parseInt(String(editData.entryCost), 10);
+              // Settled per participant: each member's share in team tournaments
+              const teamSize = editingTournament.teamSize || 1;
+              const difference = isNaN(entryCost) ? 0 : getEntryShare(entryCost, teamSize) - getEntryShare(editingTournament.entryFee, teamSize);
+              const participantCount = editingTournament.players?.length || 0;
+
+              return (
+                <form onSubmit={handleUpdateTournament} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="editName">Tournament Name</Label>
+                    <Input
+                      id="editName"
+                      value={editData.name}
+                      onChange={(e) => setEditData({ ...editData, name: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="editDescription">Description</Label>
+                    <Input
+                      id="editDescription"
+                      value={editData.description}
+                      onChange={(e) => setEditData({ ...editData, description: e.target.value })}
+                      placeholder="Optional"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="editType">Type</Label>
+                    <Select
+                      value={editData.type}
+                      onValueChange={(value) => setEditData({ ...editData, type: value as UpdateTournamentForm['type'] })}
+                    >
+                      <SelectTrigger id="editType">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="public">Public</SelectItem>
+                        <SelectItem value="private">Private</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="editEntryCost">{isTeamTournament(editingTournament) ? 'Entry Cost per Team (coins)' : 'Entry Cost (coins)'}</Label>
+                      <Input
+                        id="editEntryCost"
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={editData.entryCost}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          if (value === '' || /^\d+$/.test(value)) {
+                            setEditData({ ...editData, entryCost: value });
+                          }
+                        }}
+                        required
+                      />
+                    </div>
+                    {editData.prizePoolMode !== 'entry_fees' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="editPrizePool">Prize Pool (coins)</Label>
+                        <Input
+                          id="editPrizePool"
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={editData.prizePool}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            if (value === '' || /^\d+$/.test(value)) {
+                              setEditData({ ...editData, prizePool: value });
+                            }
+                          }}
+                          required
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {editData.prizePoolMode === 'entry_fees' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="editRakePercentage">House Rake (%)</Label>
+                        <Input
+                          id="editRakePercentage"
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                          value={editData.rakePercentage}
+                          onChange={(e) => setEditData({ ...editData, rakePercentage: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="editGuaranteedPrizePool">Guaranteed Pool (coins)</Label>
+                        <Input
+                          id="editGuaranteedPrizePool"
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={editData.guaranteedPrizePool}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            if (value === '' || /^\d+$/.test(value)) {
+                              setEditData({ ...editData, guaranteedPrizePool: value });
+                            }
+                          }}
+                          placeholder="Optional"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {difference !== 0 && participantCount > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {difference > 0
+                        ? `Each of the ${participantCount} participant(s) will be charged ${difference} more coins.`
+                        : `Each of the ${participantCount} participant(s) will be refunded ${-difference} coins.`}
+                    </p>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="editStartDate">
+                      <Calendar className="h-3.5 w-3.5 inline mr-1" />
+                      Start Date
+                    </Label>
+                    <Input
+                      id="editStartDate"
+                      type="datetime-local"
+                      value={editData.startDate || ''}
+                      onChange={(e) => setEditData({ ...editData, startDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="editEndDate">End Date</Label>
+                    <Input
+                      id="editEndDate"
+                      type="datetime-local"
+                      value={editData.endDate || ''}
+                      onChange={(e) => setEditData({ ...editData, endDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="editRegistrationDeadline">Registration Closes</Label>
+                    <Input
+                      id="editRegistrationDeadline"
+                      type="datetime-local"
+                      value={editData.registrationDeadline || ''}
+                      onChange={(e) => setEditData({ ...editData, registrationDeadline: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Defaults to the start date when empty.
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="button" variant="outline" className="flex-1" onClick={() => setEditingTournament(null)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" className="flex-1">Save Changes</Button>
+                  </div>
+                </form>
+              );
+            })()}
+          </DialogContent>
+        </Dialog>
+
         {/* View Tournament Details Dialog */}
         <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
           <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -533,112 +1599,379 @@ const Tournaments = () => {
               <DialogDescription>
                 {selectedTournament && (
                   <>
-                    {selectedTournament.maxPlayers}-player tournament • Prize: {selectedTournament.prizePool || 0} coins (80% to champion)
+                    {isTeamTournament(selectedTournament)
+                      ? `${selectedTournament.maxPlayers}-team ${selectedTournament.teamSize}v${selectedTournament.teamSize}`
+                      : `${selectedTournament.maxPlayers}-player`} {FORMAT_LABELS[selectedTournament.format || 'single_elimination'].toLowerCase()} tournament to {selectedTournament.targetPoints || DEFAULT_TARGET_POINTS} points • Prize: {selectedTournament.prizePool || 0} coins ({(selectedTournament.payoutStructure || [selectedTournament.tournamentAwardPercentage || 80]).join('/')}%)
                   </>
                 )}
               </DialogDescription>
             </DialogHeader>
             {selectedTournament && (
-              <div className="space-y-6">
-                {/* Tournament Info */}
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  <div className="p-3 bg-muted rounded-lg">
-                    <div className="text-xs text-muted-foreground">Status</div>
-                    <Badge variant={getStatusColor(selectedTournament.status)} className="mt-1">
-                      {selectedTournament.status}
-                    </Badge>
-                  </div>
+              <Tabs value={detailsTab} onValueChange={handleDetailsTabChange}>
+                <TabsList className="grid w-full max-w-xs grid-cols-2">
+                  <TabsTrigger value="overview">Overview</TabsTrigger>
+                  <TabsTrigger value="timeline">Timeline</TabsTrigger>
+                </TabsList>
+                <TabsContent value="overview" className="space-y-6">
+                  {/* Tournament Info */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div className="p-3 bg-muted rounded-lg">
-                    <div className="text-xs text-muted-foreground">Participants</div>
-                    <div className="text-lg font-bold mt-1">
-                      {selectedTournament.players?.length || 0}/{selectedTournament.maxPlayers}
+                      <div className="text-xs text-muted-foreground">Status</div>
+                      <Badge variant={getStatusColor(selectedTournament.status)} className="mt-1">
+                        {selectedTournament.status}
+                      </Badge>
                     </div>
-                  </div>
-                  <div className="p-3 bg-muted rounded-lg">
-                    <div className="text-xs text-muted-foreground">Entry Cost</div>
-                    <div className="text-lg font-bold mt-1">{selectedTournament.entryFee} coins</div>
-                  </div>
-                  <div className="p-3 bg-muted rounded-lg">
-                    <div className="text-xs text-muted-foreground">Prize Pool</div>
-                    <div className="text-lg font-bold mt-1">{selectedTournament.prizePool || 0} coins</div>
-                  </div>
-                </div>
-
-                {/* Participants List */}
-                {selectedTournament.players && selectedTournament.players.length > 0 && (
-                  <div>
-                    <h3 className="font-semibold mb-3">Participants</h3>
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                      {selectedTournament.players.map((participant, index: number) => (
-                        <div key={participant._id || `participant-${index}`} className="p-2 bg-muted rounded text-sm">
-                          {participant.username || `Player ${index + 1}`}
+                      <div className="p-3 bg-muted rounded-lg">
+                      <div className="text-xs text-muted-foreground">{isTeamTournament(selectedTournament) ? 'Teams' : 'Participants'}</div>
+                      <div className="text-lg font-bold mt-1">
+                        {isTeamTournament(selectedTournament) ? selectedTournament.teams?.length || 0 : selectedTournament.players?.length || 0}/{selectedTournament.maxPlayers}
+                      </div>
+                    </div>
+                    <div className="p-3 bg-muted rounded-lg">
+                      <div className="text-xs text-muted-foreground">Entry Cost{isTeamTournament(selectedTournament) ? ' (per team)' : ''}</div>
+                      <div className="text-lg font-bold mt-1">{selectedTournament.entryFee} coins</div>
+                      {isTeamTournament(selectedTournament) && (
+                        <div className="text-xs text-muted-foreground">{selectedTournament.entryShare ?? getEntryShare(selectedTournament.entryFee, selectedTournament.teamSize)} per member</div>
+                      )}
+                    </div>
+                    <div className="p-3 bg-muted rounded-lg">
+                      <div className="text-xs text-muted-foreground">Prize Pool{selectedTournament.prizePoolMode === 'entry_fees' && !selectedTournament.prizeDistributed ? ' (live)' : ''}</div>
+                      <div className="text-lg font-bold mt-1">{selectedTournament.prizePool || 0} coins</div>
+                      {selectedTournament.prizePoolMode === 'entry_fees' && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {selectedTournament.collectedEntryFees || 0} collected − {selectedTournament.rakeAmount || 0} rake ({selectedTournament.rakePercentage || 0}%)
+                          {selectedTournament.guaranteeAmount ? ` + ${selectedTournament.guaranteeAmount} guarantee` : ''}
                         </div>
-                      ))}
+                      )}
                     </div>
                   </div>
-                )}
 
-                {/* Bracket View */}
-                {(selectedTournament as any).bracket && (selectedTournament as any).bracket.rounds && (
-                  <div>
-                    <h3 className="font-semibold mb-3">Tournament Bracket</h3>
-                    <div className="space-y-4">
-                      {(selectedTournament as any).bracket.rounds.map((round: any, roundIdx: number) => (
-                        <div key={`round-${round.roundNumber || roundIdx}`} className="border rounded-lg p-4">
-                          <div className="font-medium mb-3">{round.roundNumber ? `Round ${round.roundNumber}` : `Round ${roundIdx + 1}`}</div>
-                          <div className="grid gap-3">
-                            {round.matches.map((match: any, matchIdx: number) => (
-                              <div key={`match-${roundIdx}-${matchIdx}-${match.player1Id || ''}-${match.player2Id || ''}`} className="p-3 bg-muted rounded-lg">
-                                <div className="flex items-center justify-between">
-                                  <div className="flex-1">
-                                    <div className="text-sm">
-                                      {match.player1Id ? getParticipantName(match.player1Id) : 'TBD'} vs {' '}
-                                      {match.player2Id ? getParticipantName(match.player2Id) : 'TBD'}
-                                    </div>
-                                    {match.winnerId && (
-                                      <div className="text-xs text-success font-medium mt-1">
-                                        Winner: {getParticipantName(match.winnerId)}
-                                      </div>
-                                    )}
-                                  </div>
-                                  <div className="flex items-center gap-2">
-                                    <Badge variant={match.status === 'completed' ? 'secondary' : 'default'}>
-                                      {match.status}
-                                    </Badge>
-                                    {match.status === 'pending' && match.player1Id && match.player2Id && user?.role === 'admin' && (
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => handleRecordMatch(selectedTournament, round.roundNumber, matchIdx)}
-                                      >
-                                        <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
-                                        Record Result
-                                      </Button>
-                                    )}
+                  {/* Prize Payouts */}
+                  {selectedTournament.payouts && selectedTournament.payouts.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-3">Prize Payouts</h3>
+                      <div className="rounded-lg border p-3 space-y-1 text-sm">
+                        {selectedTournament.payouts.map((payout, index: number) => (
+                          <div key={`payout-${payout.place}-${payout.userId || index}`} className="flex justify-between">
+                            <span>
+                              {getOrdinal(payout.place)} • {payout.userId ? getParticipantName(payout.userId) : 'Unknown'}
+                              {payout.teamId ? ` (${getParticipantName(payout.teamId)})` : ''} ({payout.percentage}%)
+                            </span>
+                            <span className="font-medium">{payout.amount} coins</span>
+                          </div>
+                        ))}
+                        {selectedTournament.houseAmount !== null && selectedTournament.houseAmount !== undefined && (
+                          <div className="flex justify-between text-muted-foreground border-t pt-1">
+                            <span>House</span>
+                            <span>{selectedTournament.houseAmount} coins</span>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Participants List */}
+                  {selectedTournament.players && selectedTournament.players.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-3">Participants</h3>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                        {selectedTournament.players.map((participant, index: number) => (
+                          <div key={participant._id || `participant-${index}`} className="p-2 bg-muted rounded text-sm flex items-center justify-between gap-1">
+                            <span className={`truncate ${isParticipantDisqualified(participant._id) ? 'line-through text-muted-foreground' : ''}`}>
+                              {participant.username || `Player ${index + 1}`}
+                            </span>
+                            {isParticipantDisqualified(participant._id) && (
+                              <Badge variant="destructive" className="shrink-0 text-[10px] px-1.5">DQ</Badge>
+                            )}
+                            {selectedTournament.status === 'active' && user?.role === 'admin' && participant._id && !isParticipantDisqualified(participant._id) && (
+                              <AlertDialog onOpenChange={(open) => !open && setDisqualifyReason('')}>
+                                <AlertDialogTrigger asChild>
+                                  <Button size="icon" variant="ghost" className="h-6 w-6 shrink-0" title="Disqualify">
+                                    <Ban className="h-3.5 w-3.5" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Disqualify participant?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      {participant.username || 'This player'} will lose every remaining match in "{selectedTournament.name}" by walkover and won't receive a prize. The entry fee is not refunded.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <div className="space-y-2">
+                                    <Label htmlFor={`disqualify-reason-${participant._id}`}>Reason</Label>
+                                    <Input
+                                      id={`disqualify-reason-${participant._id}`}
+                                      value={disqualifyReason}
+                                      onChange={(e) => setDisqualifyReason(e.target.value)}
+                                      placeholder="e.g. Account banned for cheating"
+                                    />
                                   </div>
-                                </div>
-                              </div>
-                            ))}
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Keep</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => handleDisqualifyParticipant(selectedTournament, participant._id)}
+                                      disabled={!disqualifyReason.trim()}
+                                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                    >
+                                      Disqualify
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                            {selectedTournament.status === 'registration' && user?.role === 'admin' && participant._id && (
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button size="icon" variant="ghost" className="h-6 w-6 shrink-0" title="Remove and refund">
+                                    <XCircle className="h-3.5 w-3.5" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Remove participant?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      {participant.username || 'This player'} will be removed from "{selectedTournament.name}" and refunded {selectedTournament.entryShare ?? selectedTournament.entryFee} coins.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Keep</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => handleRemoveParticipant(selectedTournament, participant._id)}>
+                                      Remove &amp; Refund
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Teams (team tournaments; members are also listed under Participants) */}
+                  {isTeamTournament(selectedTournament) && selectedTournament.teams && selectedTournament.teams.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-3">Teams ({selectedTournament.teams.length}/{selectedTournament.maxPlayers})</h3>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        {selectedTournament.teams.map((team) => (
+                          <div key={team._id} className="p-3 bg-muted rounded text-sm space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className={`font-medium truncate ${isParticipantDisqualified(team._id) ? 'line-through text-muted-foreground' : ''}`}>{team.name}</span>
+                              <Badge variant={team.complete ? 'default' : 'secondary'} className="shrink-0 text-[10px] px-1.5">
+                                {team.complete ? 'Complete' : `${team.memberIds.length}/${selectedTournament.teamSize}`}
+                              </Badge>
+                            </div>
+                            <div className="text-muted-foreground">
+                              {team.memberIds.map((memberId) => `${getParticipantName(memberId)}${memberId === team.captainId ? ' (C)' : ''}`).join(', ')}
+                            </div>
+                            {team.invitedIds.length > 0 && (
+                              <div className="text-xs text-muted-foreground">{team.invitedIds.length} invite(s) pending</div>
+                            )}
                           </div>
+                        ))}
+                      </div>
+                      {selectedTournament.status === 'registration' && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Teams still missing players when the tournament starts are removed and their members refunded.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Waitlist (admins only; players queue here once the tournament is full) */}
+                  {user?.role === 'admin' && selectedTournament.waitlist && selectedTournament.waitlist.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-3">Waitlist ({selectedTournament.waitlist.length})</h3>
+                      <div className="rounded-lg border p-3 space-y-1 text-sm">
+                        {selectedTournament.waitlist.map((entry) => (
+                          <div key={`waitlist-${entry.position}`} className="flex justify-between">
+                            <span>{entry.position}. {entry.user?.username || 'Unknown'}</span>
+                            <span className="text-muted-foreground">
+                              {entry.joinedAt ? new Date(entry.joinedAt).toLocaleString() : '-'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      {selectedTournament.status === 'registration' && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          When a participant withdraws or is removed, the first player here is charged {selectedTournament.entryFee} coins and takes the seat.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Private Access (admins only) */}
+                  {user?.role === 'admin' && selectedTournament.type === 'private' && (
+                    <div>
+                      <h3 className="font-semibold mb-3">Private Access</h3>
+                      <div className="rounded-lg border p-3 space-y-3 text-sm">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div className="flex items-center gap-2">
+                            <KeyRound className="h-4 w-4 text-muted-foreground" />
+                            {selectedTournament.inviteCode ? (
+                              <span className="font-mono font-semibold tracking-widest">{selectedTournament.inviteCode}</span>
+                            ) : (
+                              <span className="text-muted-foreground">No invite code (revoked)</span>
+                            )}
+                          </div>
+                          {selectedTournament.status !== 'completed' && selectedTournament.status !== 'cancelled' && (
+                            <div className="flex gap-2">
+                              {selectedTournament.inviteCode && (
+                                <Button size="sm" variant="outline" onClick={() => handleCopyInviteCode(selectedTournament.inviteCode!)}>
+                                  <Copy className="h-3.5 w-3.5 mr-1" />
+                                  Copy
+                                </Button>
+                              )}
+                              <Button size="sm" variant="outline" onClick={() => handleUpdateInviteCode(selectedTournament, true)}>
+                                <RefreshCw className="h-3.5 w-3.5 mr-1" />
+                                {selectedTournament.inviteCode ? 'Regenerate' : 'Generate'}
+                              </Button>
+                              {selectedTournament.inviteCode && (
+                                <Button size="sm" variant="outline" onClick={() => handleUpdateInviteCode(selectedTournament, false)}>
+                                  <XCircle className="h-3.5 w-3.5 mr-1" />
+                                  Revoke
+                                </Button>
+                              )}
+                            </div>
+                          )}
                         </div>
-                      ))}
+                        <p className="text-xs text-muted-foreground">
+                          Players join with this code. {selectedTournament.allowedUserIds?.length || 0} player(s) on the allow-list can join without it.
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
 
-                {/* Winner */}
-                {(selectedTournament.champion || (selectedTournament as any).winnerId) && (
-                  <div className="p-4 bg-success/10 rounded-lg border border-success/20">
-                    <div className="flex items-center gap-2">
-                      <Trophy className="h-5 w-5 text-success" />
-                      <div>
-                        <div className="font-semibold text-success">Tournament Champion</div>
-                        <div className="text-sm">{selectedTournament.champion?.username || getParticipantName(selectedTournament.champion?._id || (selectedTournament as any).winnerId || '')}</div>
+                  {/* Standings (round robin / Swiss) */}
+                  {isLeagueFormat(selectedTournament.format) && selectedTournament.standings && selectedTournament.standings.length > 0 && (
+                    <div>
+                      <div className="flex items-center justify-between mb-3">
+                        <h3 className="font-semibold">Standings</h3>
+                        {selectedTournament.status === 'active' && user?.role === 'admin' && (
+                          <Button size="sm" variant="outline" onClick={() => handleFinalizeLeague(selectedTournament)}>
+                            <Trophy className="h-3.5 w-3.5 mr-1" />
+                            Crown Leader
+                          </Button>
+                        )}
+                      </div>
+                      <div className="border rounded-lg overflow-x-auto">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>#</TableHead>
+                              <TableHead>Player</TableHead>
+                              <TableHead className="text-right">Played</TableHead>
+                              <TableHead className="text-right">W</TableHead>
+                              <TableHead className="text-right">L</TableHead>
+                              <TableHead className="text-right">Points</TableHead>
+                              {selectedTournament.tiebreakers?.includes('head_to_head') && <TableHead className="text-right">H2H</TableHead>}
+                              {selectedTournament.tiebreakers?.includes('buchholz') && <TableHead className="text-right">Buchholz</TableHead>}
+                              {selectedTournament.tiebreakers?.includes('points_difference') && <TableHead className="text-right">+/-</TableHead>}
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {selectedTournament.standings.map((standing) => (
+                              <TableRow key={standing.playerId || standing.rank}>
+                                <TableCell>{standing.rank}</TableCell>
+                                <TableCell className="font-medium">{standing.playerId ? getParticipantName(standing.playerId) : 'Unknown'}</TableCell>
+                                <TableCell className="text-right">{standing.played}</TableCell>
+                                <TableCell className="text-right">{standing.wins}</TableCell>
+                                <TableCell className="text-right">{standing.losses}</TableCell>
+                                <TableCell className="text-right font-bold">{standing.points}</TableCell>
+                                {selectedTournament.tiebreakers?.includes('head_to_head') && <TableCell className="text-right">{standing.headToHead}</TableCell>}
+                                {selectedTournament.tiebreakers?.includes('buchholz') && <TableCell className="text-right">{standing.buchholz}</TableCell>}
+                                {selectedTournament.tiebreakers?.includes('points_difference') && <TableCell className="text-right">{standing.pointsDifference}</TableCell>}
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
                       </div>
                     </div>
-                  </div>
-                )}
-              </div>
+                  )}
+
+                  {/* Bracket View */}
+                  {selectedTournament.bracket?.rounds && (
+                    <div>
+                      <h3 className="font-semibold mb-3">
+                        {selectedTournament.bracket.format === 'double_elimination' ? 'Winners Bracket' : isLeagueFormat(selectedTournament.bracket.format) ? 'Rounds' : 'Tournament Bracket'}
+                      </h3>
+                      {renderBracketRounds(getBracketRounds('winners'), 'winners')}
+                    </div>
+                  )}
+
+                  {getBracketRounds('losers').length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-3">Losers Bracket</h3>
+                      {renderBracketRounds(getBracketRounds('losers'), 'losers')}
+                    </div>
+                  )}
+
+                  {getBracketRounds('grand_final').length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-3">Grand Final</h3>
+                      {renderBracketRounds(getBracketRounds('grand_final'), 'grand_final')}
+                    </div>
+                  )}
+
+                  {/* Winner */}
+                  {(selectedTournament.champion || (selectedTournament as any).winnerId) && (
+                    <div className="p-4 bg-success/10 rounded-lg border border-success/20">
+                      <div className="flex items-center gap-2">
+                        <Trophy className="h-5 w-5 text-success" />
+                        <div>
+                          <div className="font-semibold text-success">Tournament Champion</div>
+                          <div className="text-sm">{selectedTournament.winnerTeamId ? getParticipantName(selectedTournament.winnerTeamId) : selectedTournament.champion?.username || getParticipantName(selectedTournament.champion?._id || (selectedTournament as any).winnerId || '')}</div>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Third Place */}
+                  {selectedTournament.thirdPlaceId && (
+                    <div className="p-4 bg-muted rounded-lg border">
+                      <div className="flex items-center gap-2">
+                        <Trophy className="h-5 w-5 text-muted-foreground" />
+                        <div>
+                          <div className="font-semibold">Third Place</div>
+                          <div className="text-sm">{getParticipantName(selectedTournament.thirdPlaceId)}</div>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </TabsContent>
+                <TabsContent value="timeline">
+                  {isActivityLoading ? (
+                    <div className="text-sm text-muted-foreground py-6 text-center">Loading timeline...</div>
+                  ) : activity.length === 0 ? (
+                    <div className="text-sm text-muted-foreground py-6 text-center">No activity recorded yet</div>
+                  ) : (
+                    <ol className="relative border-l border-border ml-2 space-y-4 py-2">
+                      {activity.map((entry) => (
+                        <li key={entry._id} className="ml-4">
+                          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant={entry.type === 'cancelled' || entry.type === 'disqualified' ? 'destructive' : 'outline'}>
+                              {ACTIVITY_TYPE_LABELS[entry.type] || entry.type}
+                            </Badge>
+                            <time className="text-xs text-muted-foreground" dateTime={entry.createdAt}>
+                              {new Date(entry.createdAt).toLocaleString()}
+                            </time>
+                          </div>
+                          <div className="text-sm mt-1">
+                            {entry.player && <span className="font-medium">{entry.player.username}: </span>}
+                            {entry.description}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {entry.actor
+                              ? `by ${entry.actor.username}${entry.actor.role === 'admin' ? ' (admin)' : ''}`
+                              : 'Automatic'}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </TabsContent>
+              </Tabs>
             )}
           </DialogContent>
         </Dialog>
@@ -655,8 +1988,7 @@ const Tournaments = () => {
             {selectedTournament && matchData.roundNumber > 0 && (
               <form onSubmit={handleSubmitMatchResult} className="space-y-4">
                 {(() => {
-                  const bracket = (selectedTournament as any)?.bracket;
-                  const round = bracket?.rounds?.find((r: any) => r.roundNumber === matchData.roundNumber);
+                  const round = getBracketRounds(matchData.bracketSide).find((r) => r.roundNumber === matchData.roundNumber);
                   const match = round?.matches?.[matchData.matchIndex];
                   if (!match) return null;
 
@@ -668,6 +2000,11 @@ const Tournaments = () => {
                           {match.player1Id ? getParticipantName(match.player1Id) : 'TBD'} vs {' '}
                           {match.player2Id ? getParticipantName(match.player2Id) : 'TBD'}
                         </div>
+                        {match.bestOf && match.bestOf > 1 && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {formatSeriesProgress(match.bestOf, match.seriesWins)} · a result records one game
+                          </div>
+                        )}
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor="winnerId">Winner</Label>
@@ -692,11 +2029,66 @@ const Tournaments = () => {
                           </SelectContent>
                         </Select>
                       </div>
+                      <div className="flex items-center justify-between rounded-lg border p-3">
+                        <div className="space-y-0.5">
+                          <Label htmlFor="walkover">Walkover</Label>
+                          <p className="text-xs text-muted-foreground">
+                            The other player forfeited (e.g. didn't show up). No win or loss is recorded
+                          </p>
+                        </div>
+                        <Switch
+                          id="walkover"
+                          checked={matchData.walkover}
+                          onCheckedChange={(checked) => setMatchData({ ...matchData, walkover: checked })}
+                        />
+                      </div>
+                      {!matchData.walkover && (
+                        <div className="space-y-2">
+                          <Label>Score (optional, played to {selectedTournament.targetPoints || DEFAULT_TARGET_POINTS})</Label>
+                          <div className="grid grid-cols-2 gap-3">
+                            {(['player1', 'player2'] as const).map((side) => {
+                              const participantId = side === 'player1' ? match.player1Id : match.player2Id;
+                              return (
+                                <div key={side} className="space-y-1">
+                                  <Label htmlFor={`score-${side}`} className="text-xs text-muted-foreground">
+                                    {participantId ? getParticipantName(participantId) : 'TBD'}
+                                  </Label>
+                                  <Input
+                                    id={`score-${side}`}
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    value={scoreInput[side]}
+                                    onChange={(e) => setScoreInput({ ...scoreInput, [side]: e.target.value })}
+                                    placeholder="Points"
+                                  />
+                                </div>
+                              );
+                            })}
+                          </div>
+                          <Input
+                            value={scoreInput.hands}
+                            onChange={(e) => setScoreInput({ ...scoreInput, hands: e.target.value })}
+                            placeholder="Points per hand, e.g. 12-3, 3-0 (optional)"
+                          />
+                        </div>
+                      )}
+                      {matchData.walkover && (
+                        <div className="space-y-2">
+                          <Label htmlFor="walkoverReason">Reason</Label>
+                          <Input
+                            id="walkoverReason"
+                            value={matchData.reason}
+                            onChange={(e) => setMatchData({ ...matchData, reason: e.target.value })}
+                            placeholder="Optional, e.g. No-show"
+                          />
+                        </div>
+                      )}
                       <div className="flex gap-2">
                         <Button type="button" variant="outline" className="flex-1" onClick={() => setIsMatchDialogOpen(false)}>
                           Cancel
                         </Button>
-                        <Button type="submit" className="flex-1">Record Result</Button>
+                        <Button type="submit" className="flex-1">{matchData.walkover ? 'Record Walkover' : 'Record Result'}</Button>
                       </div>
                     </>
                   );
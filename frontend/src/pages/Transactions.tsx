@@ -115,11 +115,17 @@ const Transactions = () => {
     switch (type) {
       case 'match_win':
       case 'tournament_win':
+      case 'tournament_refund':
+      case 'match_refund':
+      case 'match_prize_release':
       case 'coin_purchase':
       case 'admin_add':
+      case 'house_rake':
         return 'default';
       case 'match_entry':
       case 'tournament_entry':
+      case 'match_prize_hold':
+      case 'match_win_reversal':
       case 'admin_remove':
         return 'secondary';
       default:
@@ -284,11 +290,19 @@ const Transactions = () => {
                         <SelectItem value="all">All Types</SelectItem>
                         <SelectItem value="match_entry">Match Entry</SelectItem>
                         <SelectItem value="match_win">Match Win</SelectItem>
+                        <SelectItem value="match_refund">Match Refund</SelectItem>
+                        <SelectItem value="match_prize_hold">Prize Held (Dispute)</SelectItem>
+                        <SelectItem value="match_prize_release">Prize Released (Dispute)</SelectItem>
+                        <SelectItem value="match_win_reversal">Prize Reversed (Correction)</SelectItem>
                         <SelectItem value="tournament_entry">Tournament Entry</SelectItem>
+                        <SelectItem value="tournament_refund">Tournament Refund</SelectItem>
                         <SelectItem value="tournament_win">Tournament Win</SelectItem>
                         <SelectItem value="admin_add">Admin Add</SelectItem>
                         <SelectItem value="admin_remove">Admin Remove</SelectItem>
                         <SelectItem value="coin_purchase">Coin Purchase</SelectItem>
+                        <SelectItem value="house_rake">House Rake</SelectItem>
+                        <SelectItem value="house_guarantee">House Guarantee</SelectItem>
+                        <SelectItem value="house_prize_shortfall">House Prize Shortfall</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -382,7 +396,7 @@ const Transactions = () => {
                   <TableRow key={transaction._id} className="hover:bg-primary/10 hover:shadow-md transition-all duration-300 border-b border-border/30 group">
                     <TableCell>
                       <div>
-                        <div className="font-medium">{transaction.user?.username || `User ${transaction.user?._id || ''}`}</div>
+                        <div className="font-medium">{transaction.user ? transaction.user.username || `User ${transaction.user._id || ''}` : 'House'}</div>
                         <div className="text-xs text-muted-foreground">{transaction.user?.email || transaction.user?._id || ''}</div>
                       </div>
                     </TableCell>
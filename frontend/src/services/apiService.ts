@@ -3,13 +3,25 @@ import { logger } from '@/utils/logger';
 import type {
   UserDto,
   MatchDto,
+  MatchScoreDto,
+  MatchResultCorrectionAction,
+  MatchSeriesLength,
   TournamentDto,
+  TournamentActivityDto,
+  MatchDisputeDto,
+  MatchDisputeDetailDto,
+  MatchDisputeStatus,
+  MatchDisputeDecision,
   TransactionDto,
   DashboardStats,
   CreateMatchForm,
   CreateTournamentForm,
+  UpdateTournamentForm,
+  TournamentTemplateDto,
+  TournamentTemplateForm,
   ApiResponse,
   UpdateUserData,
+  BracketSide,
 } from '@/types';
 
 const API_BASE_URL = API_CONFIG.BASE_URL;
@@ -62,6 +74,28 @@ const apiRequest = async <T = unknown>(endpoint: string, options: RequestInit =
   }
 };
 
+const toOptionalInt = (value: string | number | undefined) =>
+  value !== undefined && value !== '' ? parseInt(String(value), 10) : undefined;
+
+// Template form values as the API expects them (numbers parsed, dates as ISO strings)
+const toTemplatePayload = (data: Partial<TournamentTemplateForm>) => ({
+  ...data,
+  maxPlayers: toOptionalInt(data.maxPlayers),
+  minPlayers: toOptionalInt(data.minPlayers),
+  teamSize: toOptionalInt(data.teamSize),
+  targetPoints: toOptionalInt(data.targetPoints),
+  bestOf: toOptionalInt(data.bestOf),
+  finalBestOf: data.finalBestOf ? parseInt(String(data.finalBestOf), 10) : data.finalBestOf,
+  entryCost: toOptionalInt(data.entryCost),
+  prizePool: toOptionalInt(data.prizePool),
+  rakePercentage: data.rakePercentage !== undefined && data.rakePercentage !== '' ? parseFloat(String(data.rakePercentage)) : undefined,
+  guaranteedPrizePool: toOptionalInt(data.guaranteedPrizePool),
+  withdrawalCutoffMinutes: toOptionalInt(data.withdrawalCutoffMinutes),
+  registrationLeadHours: toOptionalInt(data.registrationLeadHours),
+  registrationCloseMinutes: toOptionalInt(data.registrationCloseMinutes),
+  nextStartDate: data.nextStartDate === undefined ? undefined : data.nextStartDate ? new Date(data.nextStartDate).toISOString() : null,
+});
+
 export const apiService = {
   getUsers: async (search?: string, signal?: AbortSignal): Promise<UserDto[]> => {
     const params = search ? `?search=${encodeURIComponent(search)}` : '';
@@ -118,15 +152,17 @@ export const apiService = {
         cost: typeof data.cost === 'number' ? data.cost : parseInt(String(data.cost), 10),
         prize: typeof data.prize === 'number' ? data.prize : parseInt(String(data.prize), 10),
         matchDate: data.matchDate || null,
+        targetPoints: data.targetPoints ? parseInt(String(data.targetPoints), 10) : undefined,
+        bestOf: data.bestOf ? parseInt(String(data.bestOf), 10) : undefined,
       }),
     });
     return response;
   },
 
-  joinMatch: async (matchId: string): Promise<ApiResponse<MatchDto>> => {
+  joinMatch: async (matchId: string, inviteCode?: string): Promise<ApiResponse<MatchDto>> => {
     const response = await apiRequest<ApiResponse<MatchDto>>(`/matches/${matchId}/join`, {
       method: 'POST',
-      body: JSON.stringify({}),
+      body: JSON.stringify(inviteCode ? { inviteCode } : {}),
     });
     return response;
   },
@@ -139,14 +175,91 @@ export const apiService = {
     return response;
   },
 
-  recordMatchResult: async (matchId: string, winnerId: string, loserId: string): Promise<ApiResponse<MatchDto>> => {
+  regenerateMatchInviteCode: async (matchId: string): Promise<{ success: boolean; message?: string; match?: MatchDto }> => {
+    const response = await apiRequest<{ success: boolean; message?: string; match?: MatchDto }>(`/matches/${matchId}/invite-code`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+    return response;
+  },
+
+  revokeMatchInviteCode: async (matchId: string): Promise<{ success: boolean; message?: string; match?: MatchDto }> => {
+    const response = await apiRequest<{ success: boolean; message?: string; match?: MatchDto }>(`/matches/${matchId}/invite-code`, {
+      method: 'DELETE',
+    });
+    return response;
+  },
+
+  setMatchAllowedUsers: async (matchId: string, userIds: string[]): Promise<{ success: boolean; message?: string; match?: MatchDto }> => {
+    const response = await apiRequest<{ success: boolean; message?: string; match?: MatchDto }>(`/matches/${matchId}/allowed-users`, {
+      method: 'POST',
+      body: JSON.stringify({ userIds }),
+    });
+    return response;
+  },
+
+  cancelMatch: async (matchId: string, reason?: string): Promise<ApiResponse<MatchDto>> => {
+    const response = await apiRequest<ApiResponse<MatchDto>>(`/matches/${matchId}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ reason: reason || '' }),
+    });
+    return response;
+  },
+
+  // Match players report who won; the match completes once both reports agree
+  reportMatchResult: async (matchId: string, winnerId: string, score?: MatchScoreDto): Promise<ApiResponse<MatchDto> & { status?: string; match?: MatchDto }> => {
+    const response = await apiRequest<ApiResponse<MatchDto> & { status?: string; match?: MatchDto }>(`/matches/${matchId}/report`, {
+      method: 'POST',
+      body: JSON.stringify({ winnerId, score }),
+    });
+    return response;
+  },
+
+  // Admins fix a completed result: a new winner and/or score, or reverse it and reopen the match
+  correctMatchResult: async (matchId: string, correction: { action: MatchResultCorrectionAction; winnerId?: string; score?: MatchScoreDto; reason: string }): Promise<ApiResponse<MatchDto> & { match?: MatchDto }> => {
+    const response = await apiRequest<ApiResponse<MatchDto> & { match?: MatchDto }>(`/matches/${matchId}/correct-result`, {
+      method: 'POST',
+      body: JSON.stringify(correction),
+    });
+    return response;
+  },
+
+  recordMatchResult: async (matchId: string, winnerId: string, loserId: string, score?: MatchScoreDto): Promise<ApiResponse<MatchDto>> => {
     const response = await apiRequest<ApiResponse<MatchDto>>(`/matches/${matchId}/result`, {
       method: 'POST',
-      body: JSON.stringify({ winnerId, loserId }),
+      body: JSON.stringify({ winnerId, loserId, score }),
     });
     return response;
   },
   
+  // Players dispute a completed match's result; the winner's prize is held until an admin decides
+  openMatchDispute: async (matchId: string, reason: string, evidence?: string): Promise<ApiResponse<MatchDisputeDto> & { dispute?: MatchDisputeDto }> => {
+    const response = await apiRequest<ApiResponse<MatchDisputeDto> & { dispute?: MatchDisputeDto }>('/disputes', {
+      method: 'POST',
+      body: JSON.stringify({ matchId, reason, evidence: evidence || '' }),
+    });
+    return response;
+  },
+
+  getMatchDisputes: async (status?: MatchDisputeStatus): Promise<MatchDisputeDto[]> => {
+    const params = status ? `?status=${status}` : '';
+    const response = await apiRequest<{ disputes: MatchDisputeDto[] }>(`/disputes${params}`);
+    return response.disputes || [];
+  },
+
+  getMatchDispute: async (disputeId: string): Promise<MatchDisputeDetailDto> => {
+    const response = await apiRequest<MatchDisputeDetailDto>(`/disputes/${disputeId}`);
+    return response;
+  },
+
+  resolveMatchDispute: async (disputeId: string, decision: MatchDisputeDecision, note?: string): Promise<ApiResponse<MatchDisputeDto>> => {
+    const response = await apiRequest<ApiResponse<MatchDisputeDto>>(`/disputes/${disputeId}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, note: note || '' }),
+    });
+    return response;
+  },
+
   getTournaments: async (status?: string): Promise<TournamentDto[]> => {
     const params = status ? `?status=${status}` : '';
     const response = await apiRequest<{ tournaments: TournamentDto[] }>(`/tournaments${params}`);
@@ -158,6 +271,11 @@ export const apiService = {
     return response.tournament;
   },
   
+  getTournamentActivity: async (id: string): Promise<TournamentActivityDto[]> => {
+    const response = await apiRequest<{ activity: TournamentActivityDto[] }>(`/tournaments/${id}/activity`);
+    return response.activity || [];
+  },
+
   createTournament: async (data: CreateTournamentForm): Promise<ApiResponse<TournamentDto>> => {
     const response = await apiRequest<ApiResponse<TournamentDto>>('/tournaments', {
       method: 'POST',
@@ -165,34 +283,203 @@ export const apiService = {
         name: data.name,
         type: data.type,
         maxPlayers: typeof data.maxPlayers === 'number' ? data.maxPlayers : parseInt(String(data.maxPlayers), 10),
+        teamSize: data.teamSize ? parseInt(String(data.teamSize), 10) : 1,
+        targetPoints: data.targetPoints ? parseInt(String(data.targetPoints), 10) : undefined,
+        bestOf: data.bestOf ? parseInt(String(data.bestOf), 10) : undefined,
+        finalBestOf: data.finalBestOf ? parseInt(String(data.finalBestOf), 10) : undefined,
         entryCost: typeof data.entryCost === 'number' ? data.entryCost : parseInt(String(data.entryCost), 10),
-        prizePool: typeof data.prizePool === 'number' ? data.prizePool : parseInt(String(data.prizePool), 10),
+        prizePoolMode: data.prizePoolMode || 'fixed',
+        ...(data.prizePoolMode === 'entry_fees' ? {
+          rakePercentage: data.rakePercentage !== undefined && data.rakePercentage !== '' ? parseFloat(String(data.rakePercentage)) : 0,
+          guaranteedPrizePool: data.guaranteedPrizePool ? parseInt(String(data.guaranteedPrizePool), 10) : 0,
+        } : {
+          prizePool: typeof data.prizePool === 'number' ? data.prizePool : parseInt(String(data.prizePool), 10),
+        }),
+        payoutStructure: data.payoutStructure?.length ? data.payoutStructure : undefined,
+        seeding: data.seeding || 'join_order',
+        format: data.format || 'single_elimination',
+        grandFinalReset: data.grandFinalReset ?? true,
+        thirdPlaceMatch: data.format === 'single_elimination' || !data.format ? data.thirdPlaceMatch ?? false : false,
+        swissRounds: data.format === 'swiss' && data.swissRounds ? parseInt(String(data.swissRounds), 10) : null,
+        tiebreakers: data.tiebreakers,
+        minPlayers: data.minPlayers ? parseInt(String(data.minPlayers), 10) : undefined,
+        registrationDeadline: data.registrationDeadline ? new Date(data.registrationDeadline).toISOString() : null,
+        withdrawalCutoffMinutes: data.withdrawalCutoffMinutes !== undefined && data.withdrawalCutoffMinutes !== '' ? parseInt(String(data.withdrawalCutoffMinutes), 10) : undefined,
         startDate: data.startDate || null,
       }),
     });
     return response;
   },
 
-  joinTournament: async (tournamentId: string): Promise<ApiResponse<TournamentDto>> => {
-    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/join`, {
+  updateTournament: async (tournamentId: string, data: UpdateTournamentForm): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({
+        name: data.name,
+        description: data.description,
+        type: data.type,
+        entryCost: typeof data.entryCost === 'number' ? data.entryCost : parseInt(String(data.entryCost), 10),
+        ...(data.prizePoolMode === 'entry_fees' ? {
+          rakePercentage: data.rakePercentage !== undefined && data.rakePercentage !== '' ? parseFloat(String(data.rakePercentage)) : 0,
+          guaranteedPrizePool: data.guaranteedPrizePool ? parseInt(String(data.guaranteedPrizePool), 10) : 0,
+        } : {
+          prizePool: typeof data.prizePool === 'number' ? data.prizePool : parseInt(String(data.prizePool), 10),
+        }),
+        registrationDeadline: data.registrationDeadline ? new Date(data.registrationDeadline).toISOString() : null,
+        startDate: data.startDate ? new Date(data.startDate).toISOString() : null,
+        endDate: data.endDate ? new Date(data.endDate).toISOString() : null,
+      }),
+    });
+    return response;
+  },
+
+  duplicateTournament: async (tournamentId: string, name?: string): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/duplicate`, {
+      method: 'POST',
+      body: JSON.stringify(name ? { name } : {}),
+    });
+    return response;
+  },
+
+  importTournamentDefinition: async (definition: unknown): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>('/tournaments/import', {
+      method: 'POST',
+      body: JSON.stringify(definition),
+    });
+    return response;
+  },
+
+  joinTournament: async (tournamentId: string, inviteCode?: string): Promise<{ ok: boolean; coins: number; waitlisted?: boolean; waitlistPosition?: number }> => {
+    const response = await apiRequest<{ ok: boolean; coins: number; waitlisted?: boolean; waitlistPosition?: number }>(`/tournaments/${tournamentId}/join`, {
+      method: 'POST',
+      body: JSON.stringify(inviteCode ? { inviteCode } : {}),
+    });
+    return response;
+  },
+
+  leaveTournament: async (tournamentId: string): Promise<{ ok: boolean; coins: number }> => {
+    const response = await apiRequest<{ ok: boolean; coins: number }>(`/tournaments/${tournamentId}/leave`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+    return response;
+  },
+
+  registerTournamentTeam: async (tournamentId: string, name: string, inviteUserIds: string[] = [], inviteCode?: string): Promise<{ ok: boolean; coins: number; teamId: string }> => {
+    const response = await apiRequest<{ ok: boolean; coins: number; teamId: string }>(`/tournaments/${tournamentId}/teams`, {
+      method: 'POST',
+      body: JSON.stringify({ name, inviteUserIds, ...(inviteCode ? { inviteCode } : {}) }),
+    });
+    return response;
+  },
+
+  inviteToTournamentTeam: async (tournamentId: string, teamId: string, userIds: string[]): Promise<ApiResponse> => {
+    const response = await apiRequest<ApiResponse>(`/tournaments/${tournamentId}/teams/${teamId}/invite`, {
+      method: 'POST',
+      body: JSON.stringify({ userIds }),
+    });
+    return response;
+  },
+
+  acceptTournamentTeamInvite: async (tournamentId: string, teamId: string): Promise<{ ok: boolean; coins: number }> => {
+    const response = await apiRequest<{ ok: boolean; coins: number }>(`/tournaments/${tournamentId}/teams/${teamId}/accept`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+    return response;
+  },
+
+  declineTournamentTeamInvite: async (tournamentId: string, teamId: string): Promise<ApiResponse> => {
+    const response = await apiRequest<ApiResponse>(`/tournaments/${tournamentId}/teams/${teamId}/decline`, {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
+    return response;
+  },
+
+  removeTournamentParticipant: async (tournamentId: string, userId: string, reason?: string): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/remove-participant`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, reason: reason || '' }),
+    });
+    return response;
+  },
+
+  regenerateTournamentInviteCode: async (tournamentId: string): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/invite-code`, {
       method: 'POST',
       body: JSON.stringify({}),
     });
     return response;
   },
 
-  recordTournamentMatch: async (tournamentId: string, roundNumber: number, matchIndex: number, winnerId: string): Promise<ApiResponse<TournamentDto>> => {
+  revokeTournamentInviteCode: async (tournamentId: string): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/invite-code`, {
+      method: 'DELETE',
+    });
+    return response;
+  },
+
+  setTournamentAllowedUsers: async (tournamentId: string, userIds: string[]): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/allowed-users`, {
+      method: 'POST',
+      body: JSON.stringify({ userIds }),
+    });
+    return response;
+  },
+
+  recordTournamentMatch: async (tournamentId: string, roundNumber: number, matchIndex: number, winnerId: string, bracketSide: BracketSide = 'winners', score?: MatchScoreDto): Promise<ApiResponse<TournamentDto>> => {
     const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/record-match`, {
       method: 'POST',
       body: JSON.stringify({
         roundNumber,
         matchIndex,
         winnerId,
+        bracketSide,
+        score,
       }),
     });
     return response;
   },
 
+  setTournamentSeriesLength: async (tournamentId: string, roundNumber: number, matchIndex: number, bestOf: MatchSeriesLength, bracketSide: BracketSide = 'winners'): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/series-length`, {
+      method: 'POST',
+      body: JSON.stringify({ roundNumber, matchIndex, bestOf, bracketSide }),
+    });
+    return response;
+  },
+
+  forfeitTournamentMatch: async (tournamentId: string, roundNumber: number, matchIndex: number, forfeitingPlayerId: string, bracketSide: BracketSide = 'winners', reason?: string): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/forfeit`, {
+      method: 'POST',
+      body: JSON.stringify({
+        roundNumber,
+        matchIndex,
+        forfeitingPlayerId,
+        bracketSide,
+        reason: reason || '',
+      }),
+    });
+    return response;
+  },
+
+  disqualifyTournamentParticipant: async (tournamentId: string, userId: string, reason: string): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/disqualify`, {
+      method: 'POST',
+      body: JSON.stringify({ userId, reason }),
+    });
+    return response;
+  },
+
+  finalizeTournament: async (tournamentId: string, championId?: string): Promise<{ success: boolean; message?: string; tournament?: TournamentDto }> => {
+    const response = await apiRequest<{ success: boolean; message?: string; tournament?: TournamentDto }>(`/tournaments/${tournamentId}/finalize`, {
+      method: 'POST',
+      body: JSON.stringify(championId ? { championId } : {}),
+    });
+    return response;
+  },
+
   cancelTournament: async (tournamentId: string, reason?: string): Promise<ApiResponse<TournamentDto>> => {
     const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournaments/${tournamentId}/cancel`, {
       method: 'POST',
@@ -201,6 +488,42 @@ export const apiService = {
     return response;
   },
   
+  getTournamentTemplates: async (): Promise<TournamentTemplateDto[]> => {
+    const response = await apiRequest<{ templates: TournamentTemplateDto[] }>('/tournament-templates');
+    return response.templates || [];
+  },
+
+  createTournamentTemplate: async (data: TournamentTemplateForm): Promise<ApiResponse<TournamentTemplateDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentTemplateDto>>('/tournament-templates', {
+      method: 'POST',
+      body: JSON.stringify(toTemplatePayload(data)),
+    });
+    return response;
+  },
+
+  updateTournamentTemplate: async (templateId: string, data: Partial<TournamentTemplateForm>): Promise<ApiResponse<TournamentTemplateDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentTemplateDto>>(`/tournament-templates/${templateId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(toTemplatePayload(data)),
+    });
+    return response;
+  },
+
+  deleteTournamentTemplate: async (templateId: string): Promise<ApiResponse> => {
+    const response = await apiRequest<ApiResponse>(`/tournament-templates/${templateId}`, {
+      method: 'DELETE',
+    });
+    return response;
+  },
+
+  instantiateTournamentTemplate: async (templateId: string, startDate?: string): Promise<ApiResponse<TournamentDto>> => {
+    const response = await apiRequest<ApiResponse<TournamentDto>>(`/tournament-templates/${templateId}/instantiate`, {
+      method: 'POST',
+      body: JSON.stringify(startDate ? { startDate: new Date(startDate).toISOString() } : {}),
+    });
+    return response;
+  },
+  
   getTransactions: async (userId?: string): Promise<TransactionDto[]> => {
     const params = userId ? `?userId=${userId}` : '';
     const response = await apiRequest<{ transactions: TransactionDto[] }>(`/transactions${params}`);
@@ -316,6 +639,34 @@ export const apiService = {
     document.body.removeChild(a);
   },
 
+  exportTournamentDefinition: async (tournamentId: string): Promise<void> => {
+    const token = getToken();
+    if (!token) {
+      throw new Error('No authentication token');
+    }
+
+    const response = await fetch(`${API_BASE_URL}/tournaments/${tournamentId}/definition`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error('Export failed');
+    }
+
+    const blob = await response.blob();
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = response.headers.get('Content-Disposition')?.split('filename=')[1]?.replace(/"/g, '') || `tournament_${tournamentId}_definition.json`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  },
+
   exportMatches: async (format: 'csv' | 'json' = 'csv', status?: string): Promise<void> => {
     const token = getToken();
     if (!token) {
@@ -23,33 +23,347 @@ export interface UserDto {
 }
 
 // Match Types
+export type MatchResultType = 'normal' | 'forfeit' | 'disqualification';
+
+export type MatchTargetPoints = 15 | 30;
+
+export type MatchSeriesLength = 1 | 3 | 5;
+
+export interface MatchSeriesWinsDto {
+  player1: number;
+  player2: number;
+}
+
+export interface MatchGameDto {
+  winnerId: string;
+  score: MatchScoreDto | null;
+  recordedAt: string | null;
+}
+
+// A player's own account of the result (player-reported matches)
+export interface MatchResultReportDto {
+  playerId: string;
+  winnerId: string;
+  score: MatchScoreDto | null;
+  reportedAt: string | null;
+}
+
+// An admin's correction ('correct': new winner and/or score) or reversal of a completed result
+export type MatchResultCorrectionAction = 'correct' | 'reverse';
+
+export interface MatchResultCorrectionDto {
+  action: MatchResultCorrectionAction;
+  previousWinnerId: string;
+  previousScore: MatchScoreDto | null;
+  winnerId: string | null; // null when reversed
+  score: MatchScoreDto | null;
+  reclaimedAmount: number; // Taken back from the previous winner (capped at their balance)
+  houseCoveredAmount: number; // Rest of the prize, covered by the house
+  paidAmount: number; // Paid to the new winner
+  reason: string;
+  correctedBy: string;
+  correctedAt: string | null;
+}
+
+export interface MatchScoreDto {
+  player1: number;
+  player2: number;
+  hands?: { player1: number; player2: number }[]; // Optional points per hand
+}
+
 export interface MatchDto {
   _id: string;
+  name?: string;
+  type?: string;
+  inviteCode?: string | null; // Private matches, admin only
+  allowedUserIds?: string[]; // Private matches, admin only
+  cost?: number;
+  prize?: number;
   tournament: TournamentDto | null;
   players: UserDto[];
   status: string;
   winner: UserDto | null;
+  resultType?: MatchResultType; // Anything but 'normal' is a walkover
+  resultReason?: string;
+  targetPoints?: MatchTargetPoints;
+  score?: MatchScoreDto | null; // From the player 1 / player 2 point of view
+  bestOf?: MatchSeriesLength;
+  games?: MatchGameDto[]; // Best-of-N series only
+  seriesWins?: MatchSeriesWinsDto;
+  startedAt?: string | null; // When the second player joined
   finishedAt: string | null;
+  cancelledAt?: string | null;
+  cancellationReason?: string | null;
+  reviewFlaggedAt?: string | null; // Started but no result within the result timeout
+  reviewReason?: string | null;
+  resultReports?: MatchResultReportDto[];
+  reportDeadline?: string | null; // The opponent must report by then, or the match is disputed
+  disputedAt?: string | null;
+  disputeReason?: string | null;
+  resultDisputeStatus?: MatchDisputeStatus | null; // A player disputed the completed result
+  resultCorrections?: MatchResultCorrectionDto[];
+  createdAt: string;
+}
+
+// Match Dispute Types
+export type MatchDisputeStatus = 'open' | 'upheld' | 'overturned';
+export type MatchDisputeDecision = 'uphold' | 'overturn';
+
+export interface MatchDisputeDto {
+  _id: string;
+  matchId: string;
+  matchName: string;
+  openedBy: { _id: string; username: string } | null;
+  reason: string;
+  evidence: string;
+  status: MatchDisputeStatus;
+  originalWinner: { _id: string; username: string } | null; // Winner when the dispute was opened
+  heldAmount: number; // Prize held from the winner while the dispute is open
+  reclaimedAmount: number; // Overturned: rest of the prize taken back from the original winner
+  houseCoveredAmount: number; // Overturned: what the original winner could no longer pay back
+  resolvedBy: { _id: string; username: string } | null;
+  resolvedAt: string | null;
+  resolutionNote: string;
   createdAt: string;
 }
 
+export interface DisputePlayerHistoryDto {
+  player: UserDto;
+  recentMatches: {
+    _id: string;
+    name: string;
+    status: string;
+    opponent: { _id: string; username: string } | null;
+    won: boolean | null; // null unless completed
+    resultDisputeStatus: MatchDisputeStatus | null;
+    createdAt: string | null;
+  }[];
+  disputesOpened: number;
+  resultsOverturned: number; // Disputes of this player's wins that were overturned
+}
+
+export interface MatchDisputeDetailDto {
+  dispute: MatchDisputeDto;
+  match: MatchDto;
+  transactions: TransactionDto[]; // Every transaction logged against the match
+  playerHistory: DisputePlayerHistoryDto[];
+}
+
 // Tournament Types
+export type TournamentSeeding = 'random' | 'join_order' | 'rating' | 'manual';
+
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'round_robin' | 'swiss';
+
+export type TournamentTiebreaker = 'head_to_head' | 'buchholz' | 'points_difference';
+
+export interface TournamentPayoutDto {
+  place: number;
+  userId: string | null;
+  teamId?: string | null; // Team tournaments: the team's prize is split among its members
+  percentage: number;
+  amount: number;
+}
+
+export interface TournamentStandingDto {
+  rank: number;
+  playerId: string | null;
+  seed: number;
+  played: number;
+  wins: number;
+  losses: number;
+  byes: number;
+  points: number;
+  headToHead: number;
+  buchholz: number;
+  pointsDifference: number;
+}
+
+export type BracketSide = 'winners' | 'losers' | 'grand_final';
+
+export interface BracketMatchDto {
+  matchId: string | null;
+  player1Id: string | null;
+  player2Id: string | null;
+  winnerId: string | null;
+  status: string;
+  isBye?: boolean;
+  isThirdPlace?: boolean;
+  resultType?: MatchResultType; // Set on walkovers
+  score?: MatchScoreDto | null;
+  bestOf?: MatchSeriesLength;
+  seriesWins?: MatchSeriesWinsDto; // Set once a game of a best-of-N slot has been played
+  player1Seed?: number;
+  player2Seed?: number;
+}
+
+export interface BracketRoundDto {
+  roundNumber: number;
+  name?: string;
+  matches: BracketMatchDto[];
+}
+
+export interface TournamentBracketDto {
+  format?: TournamentFormat;
+  rounds?: BracketRoundDto[];
+  losersRounds?: BracketRoundDto[];
+  grandFinalRounds?: BracketRoundDto[];
+  totalRounds?: number;
+  grandFinalReset?: boolean;
+}
+
+export interface TournamentWaitlistEntryDto {
+  position: number;
+  user: UserDto | null;
+  joinedAt: string | null;
+}
+
+export interface TournamentDisqualificationDto {
+  userId: string | null;
+  reason: string;
+  disqualifiedAt: string | null;
+}
+
+export type TournamentTeamSize = 1 | 2 | 3;
+
+// fixed = prize pool as entered; entry_fees = entry fees collected minus the house rake
+export type PrizePoolMode = 'fixed' | 'entry_fees';
+
+export interface TournamentTeamDto {
+  _id: string;
+  name: string;
+  captainId: string;
+  memberIds: string[];
+  invitedIds: string[]; // Invited players who haven't accepted (or paid) yet
+  complete: boolean;
+}
+
 export interface TournamentDto {
   _id: string;
   name: string;
   description: string;
   type?: string;
-  entryFee: number;
-  maxPlayers: number;
+  inviteCode?: string | null; // Private tournaments, admin only
+  allowedUserIds?: string[]; // Private tournaments, admin only
+  format?: TournamentFormat;
+  grandFinalReset?: boolean;
+  thirdPlaceMatch?: boolean;
+  thirdPlaceId?: string | null;
+  swissRounds?: number | null;
+  tiebreakers?: TournamentTiebreaker[];
+  entryFee: number; // Per team in team tournaments
+  entryShare?: number; // What each player pays
+  maxPlayers: number; // Teams in team tournaments
+  minPlayers?: number;
+  teamSize?: TournamentTeamSize;
+  targetPoints?: MatchTargetPoints;
+  bestOf?: MatchSeriesLength;
+  finalBestOf?: MatchSeriesLength | null; // null = same as bestOf
+  teams?: TournamentTeamDto[];
+  registrationDeadline?: string | null;
+  withdrawalCutoffMinutes?: number;
   status: string;
+  seeding?: TournamentSeeding;
+  seedOrder?: string[];
   players: UserDto[];
-  champion: UserDto | null;
+  waitlist?: TournamentWaitlistEntryDto[];
+  disqualified?: TournamentDisqualificationDto[];
+  champion: UserDto | null; // Captain of the winning team in team tournaments
+  winnerTeamId?: string | null;
   startDate: string | null;
   endDate: string | null;
   tournamentAwardPercentage: number;
-  prizePool: number;
+  prizePool: number; // Live pool in entry-fee mode
+  prizePoolMode?: PrizePoolMode;
+  rakePercentage?: number;
+  guaranteedPrizePool?: number;
+  collectedEntryFees?: number;
+  rakeAmount?: number; // Projected until prizes are paid
+  guaranteeAmount?: number; // House top-up to reach the guarantee
   matches: MatchDto[];
   prizeDistributed: boolean;
+  payoutStructure?: number[];
+  housePercentage?: number;
+  payouts?: TournamentPayoutDto[];
+  houseAmount?: number | null;
+  standings?: TournamentStandingDto[];
+  bracket?: TournamentBracketDto | null;
+  currentRound?: number;
+  templateId?: string | null;
+}
+
+export type TournamentActivityType =
+  | 'created'
+  | 'updated'
+  | 'player_joined'
+  | 'player_waitlisted'
+  | 'player_promoted'
+  | 'player_left'
+  | 'player_removed'
+  | 'team_registered'
+  | 'team_member_joined'
+  | 'seeds_updated'
+  | 'bracket_generated'
+  | 'match_result'
+  | 'forfeit'
+  | 'disqualified'
+  | 'award_percentage_changed'
+  | 'prize_paid'
+  | 'completed'
+  | 'cancelled';
+
+export interface TournamentActivityDto {
+  _id: string;
+  type: TournamentActivityType;
+  description: string;
+  actor: { _id: string; username: string; role: 'player' | 'admin' } | null; // null for automatic events
+  player: { _id: string; username: string } | null;
+  meta: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Tournament Template Types
+export type TemplateRecurrenceFrequency = 'none' | 'daily' | 'weekly' | 'monthly';
+
+export interface TemplateRecurrence {
+  frequency: TemplateRecurrenceFrequency;
+  interval: number;
+}
+
+export interface TournamentTemplateDto {
+  _id: string;
+  name: string;
+  description: string;
+  type: 'public' | 'private';
+  format: TournamentFormat;
+  grandFinalReset: boolean;
+  thirdPlaceMatch: boolean;
+  swissRounds: number | null;
+  tiebreakers: TournamentTiebreaker[];
+  maxPlayers: number;
+  minPlayers: number;
+  teamSize: TournamentTeamSize;
+  targetPoints: MatchTargetPoints;
+  bestOf: MatchSeriesLength;
+  finalBestOf: MatchSeriesLength | null; // null = same as bestOf
+  entryCost: number;
+  prizePoolMode: PrizePoolMode;
+  prizePool: number; // 0 in entry-fee mode
+  rakePercentage: number;
+  guaranteedPrizePool: number;
+  payoutStructure: number[];
+  housePercentage: number;
+  seeding: Exclude<TournamentSeeding, 'manual'>;
+  withdrawalCutoffMinutes: number;
+  recurrence: TemplateRecurrence;
+  nextStartDate: string | null;
+  nextOpenDate: string | null;
+  registrationLeadHours: number;
+  registrationCloseMinutes: number;
+  active: boolean;
+  editionCount: number;
+  lastTournamentId: string | null;
+  lastInstantiatedAt: string | null;
+  createdAt: string | null;
 }
 
 // Transaction Types
@@ -59,7 +373,7 @@ export interface TransactionMetaDto {
 
 export interface TransactionDto {
   _id: string;
-  user: UserDto;
+  user: UserDto | null; // null for house ledger entries (house_rake, house_guarantee, house_prize_shortfall)
   type: string;
   amount: number;
   reason: string;
@@ -197,15 +511,75 @@ export interface CreateMatchForm {
   cost: number | string;
   prize: number | string;
   matchDate: string | null;
+  targetPoints?: string | number;
+  bestOf?: string | number;
 }
 
 export interface CreateTournamentForm {
   name: string;
   type: 'public' | 'private';
-  maxPlayers: 4 | 8 | string | number;
+  maxPlayers: string | number;
+  teamSize?: string | number;
+  targetPoints?: string | number;
+  bestOf?: string | number;
+  finalBestOf?: string | number;
+  entryCost: number | string;
+  prizePool: number | string;
+  prizePoolMode?: PrizePoolMode;
+  rakePercentage?: string | number;
+  guaranteedPrizePool?: string | number;
+  payoutStructure?: number[];
+  seeding?: Exclude<TournamentSeeding, 'manual'>;
+  format?: TournamentFormat;
+  grandFinalReset?: boolean;
+  thirdPlaceMatch?: boolean;
+  swissRounds?: string | number;
+  minPlayers?: string | number;
+  registrationDeadline?: string | null;
+  withdrawalCutoffMinutes?: string | number;
+  tiebreakers?: TournamentTiebreaker[];
+  startDate: string | null;
+}
+
+export interface UpdateTournamentForm {
+  name: string;
+  description: string;
+  type: 'public' | 'private';
   entryCost: number | string;
   prizePool: number | string;
+  prizePoolMode?: PrizePoolMode;
+  rakePercentage?: number | string;
+  guaranteedPrizePool?: number | string;
+  registrationDeadline: string | null;
   startDate: string | null;
+  endDate: string | null;
+}
+
+export interface TournamentTemplateForm {
+  name: string;
+  description?: string;
+  type: 'public' | 'private';
+  format: TournamentFormat;
+  maxPlayers: string | number;
+  minPlayers?: string | number;
+  teamSize?: string | number;
+  targetPoints?: string | number;
+  bestOf?: string | number;
+  finalBestOf?: string | number | null;
+  entryCost: string | number;
+  prizePool: string | number;
+  prizePoolMode?: PrizePoolMode;
+  rakePercentage?: string | number;
+  guaranteedPrizePool?: string | number;
+  payoutStructure?: number[];
+  seeding?: Exclude<TournamentSeeding, 'manual'>;
+  thirdPlaceMatch?: boolean;
+  withdrawalCutoffMinutes?: string | number;
+  recurrence: TemplateRecurrence;
+  nextStartDate?: string | null;
+  registrationLeadHours?: string | number;
+  registrationCloseMinutes?: string | number;
+  active?: boolean;
 }
 
 export interface UpdateUserData {
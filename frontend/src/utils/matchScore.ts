@@ -0,0 +1,46 @@
+import type { MatchScoreDto, MatchTargetPoints } from '@/types';
+
+export const TARGET_POINTS_OPTIONS: MatchTargetPoints[] = [15, 30];
+export const DEFAULT_TARGET_POINTS: MatchTargetPoints = 30;
+
+// Player 1 first, e.g. "30-22"; '' if no score was recorded
+export const formatScore = (score?: MatchScoreDto | null) => (score ? `${score.player1}-${score.player2}` : '');
+
+export interface ScoreInput {
+  player1: string;
+  player2: string;
+  hands: string; // "12-3, 3-0, ..." (player 1 first), optional
+}
+
+export const EMPTY_SCORE_INPUT: ScoreInput = { player1: '', player2: '', hands: '' };
+
+const isPoints = (value: string) => /^\d+$/.test(value.trim());
+
+/**
+ * Score form fields => score to send
+ * undefined if the score was left blank (it's optional), null if it's malformed.
+ * Whether it fits the winner and the target is checked by the backend.
+ */
+export const parseScoreInput = (input: ScoreInput): MatchScoreDto | null | undefined => {
+  if (!input.player1.trim() && !input.player2.trim() && !input.hands.trim()) {
+    return undefined;
+  }
+  if (!isPoints(input.player1) || !isPoints(input.player2)) {
+    return null;
+  }
+
+  const hands = [];
+  for (const hand of input.hands.split(/[,;\n]+/).map(h => h.trim()).filter(Boolean)) {
+    const points = hand.split(/\s*[-–]\s*/);
+    if (points.length !== 2 || !points.every(isPoints)) {
+      return null;
+    }
+    hands.push({ player1: parseInt(points[0], 10), player2: parseInt(points[1], 10) });
+  }
+
+  return {
+    player1: parseInt(input.player1, 10),
+    player2: parseInt(input.player2, 10),
+    ...(hands.length ? { hands } : {}),
+  };
+};
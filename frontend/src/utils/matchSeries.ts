@@ -0,0 +1,9 @@
+import type { MatchSeriesLength, MatchSeriesWinsDto } from '@/types';
+
+export const SERIES_LENGTH_OPTIONS: MatchSeriesLength[] = [1, 3, 5];
+
+export const getSeriesLengthLabel = (bestOf: number) => (bestOf > 1 ? `Best of ${bestOf}` : 'Single game');
+
+// Player 1 first, e.g. "Best of 3 · 1-0"
+export const formatSeriesProgress = (bestOf: number, wins?: MatchSeriesWinsDto | null) =>
+  `Best of ${bestOf} · ${wins?.player1 ?? 0}-${wins?.player2 ?? 0}`;
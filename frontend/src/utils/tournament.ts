@@ -0,0 +1,68 @@
+import type { TournamentActivityType, TournamentFormat } from '@/types';
+
+export const isLeagueFormat = (format?: string) => format === 'round_robin' || format === 'swiss';
+
+// Fixed-partnership (2v2 / 3v3) tournament: brackets, seeds and standings use team IDs
+export const isTeamTournament = (tournament?: { teamSize?: number } | null) => (tournament?.teamSize || 1) > 1;
+
+// Mirrors the backend: a team's entry cost is split equally between its members, rounded up
+export const getEntryShare = (entryCost: number, teamSize = 1) => Math.ceil(entryCost / teamSize);
+
+export const DEFAULT_PAYOUT_STRUCTURE = '80';
+
+// "60/25/10/5" or "60, 25, 10, 5" => [60, 25, 10, 5]; null if any entry isn't a percentage
+export const parsePayoutStructure = (value: string): number[] | null => {
+  const parts = value.split(/[/,\s]+/).filter(Boolean);
+  const percentages = parts.map(Number);
+  if (percentages.length === 0 || percentages.some(p => !Number.isFinite(p) || p < 0 || p > 100)) {
+    return null;
+  }
+  return percentages;
+};
+
+// Mirrors the backend: collected fees minus the rake (rounded down), topped up to the guarantee
+export const getEntryFeePrizePool = (collected: number, rakePercentage: number, guaranteed: number) => {
+  const rake = Math.floor(collected * rakePercentage / 100);
+  const guaranteeTopUp = Math.max(0, guaranteed - (collected - rake));
+  return { rake, guaranteeTopUp, prizePool: collected - rake + guaranteeTopUp };
+};
+
+export const getOrdinal = (place: number) => {
+  const suffixes: Record<string, string> = { one: 'st', two: 'nd', few: 'rd', other: 'th' };
+  return `${place}${suffixes[new Intl.PluralRules('en', { type: 'ordinal' }).select(place)]}`;
+};
+
+export const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: 'Single elimination',
+  double_elimination: 'Double elimination',
+  round_robin: 'Round robin',
+  swiss: 'Swiss',
+};
+
+export const ACTIVITY_TYPE_LABELS: Record<TournamentActivityType, string> = {
+  created: 'Created',
+  updated: 'Edited',
+  player_joined: 'Joined',
+  player_waitlisted: 'Waitlisted',
+  player_promoted: 'Promoted',
+  player_left: 'Left',
+  player_removed: 'Removed',
+  team_registered: 'Team registered',
+  team_member_joined: 'Joined team',
+  seeds_updated: 'Seeds',
+  bracket_generated: 'Bracket',
+  match_result: 'Result',
+  forfeit: 'Forfeit',
+  disqualified: 'Disqualified',
+  award_percentage_changed: 'Award %',
+  prize_paid: 'Prize paid',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// ISO date => value for a datetime-local input (local time, no seconds)
+export const toDateTimeLocal = (iso: string | null | undefined) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};